@@ -0,0 +1,201 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { autorun } from "mobx";
+import { AdaptorRegistry } from "../registry";
+import { ESPCDFAdaptorCapability, ESPCDFAdaptorRegistryEvent } from "../types";
+import { ESPCDFInMemoryAdaptor } from "../testing";
+
+describe("AdaptorRegistry capabilities", () => {
+  let registry: AdaptorRegistry;
+
+  beforeEach(() => {
+    registry = new AdaptorRegistry();
+    registry.register(
+      new ESPCDFInMemoryAdaptor({
+        identifier: "scenes",
+        capabilities: [ESPCDFAdaptorCapability.SCENES],
+      })
+    );
+    registry.register(
+      new ESPCDFInMemoryAdaptor({
+        identifier: "ota",
+        capabilities: [
+          ESPCDFAdaptorCapability.SCENES,
+          ESPCDFAdaptorCapability.OTA,
+        ],
+      })
+    );
+  });
+
+  test("reports declared capabilities", () => {
+    expect(registry.getCapabilities("ota")).toEqual(["scenes", "ota"]);
+    expect(registry.hasCapability("scenes", ESPCDFAdaptorCapability.OTA)).toBe(
+      false
+    );
+    expect(registry.declaresCapabilities("scenes")).toBe(true);
+  });
+
+  test("finds adaptors by capability, preferring the active one", () => {
+    const identifiers = registry
+      .getAdaptorsWithCapability(ESPCDFAdaptorCapability.SCENES)
+      .map((adaptor) => adaptor._identifier);
+    expect(identifiers).toEqual(["scenes", "ota"]);
+
+    expect(
+      registry.getAdaptorWithCapability(ESPCDFAdaptorCapability.SCENES)
+        ._identifier
+    ).toBe("scenes");
+    registry.setActiveAdaptor("ota");
+    expect(
+      registry.getAdaptorWithCapability(ESPCDFAdaptorCapability.SCENES)
+        ._identifier
+    ).toBe("ota");
+  });
+
+  test("throws when no adaptor has a capability", () => {
+    expect(() =>
+      registry.getAdaptorWithCapability(ESPCDFAdaptorCapability.MATTER_FABRIC)
+    ).toThrow(expect.objectContaining({ errorCode: "NO_SDK_WITH_CAPABILITY" }));
+  });
+
+  test("asserts capabilities only for adaptors that declared them", () => {
+    expect(() =>
+      registry.assertCapability("scenes", ESPCDFAdaptorCapability.OTA)
+    ).toThrow(
+      expect.objectContaining({ errorCode: "ADAPTOR_CAPABILITY_NOT_SUPPORTED" })
+    );
+    expect(() =>
+      registry.assertCapability("ota", ESPCDFAdaptorCapability.OTA)
+    ).not.toThrow();
+    expect(() =>
+      registry.assertCapability("unknown", ESPCDFAdaptorCapability.OTA)
+    ).not.toThrow();
+  });
+});
+
+describe("AdaptorRegistry lifecycle", () => {
+  const createAdaptor = (identifier: string) => {
+    const adaptor = new ESPCDFInMemoryAdaptor({ identifier });
+    return Object.assign(adaptor, {
+      onRegister: jest.fn(),
+      onActivate: jest.fn(),
+      onDeactivate: jest.fn(),
+      onDispose: jest.fn(),
+    });
+  };
+
+  test("runs lifecycle hooks and emits change events", () => {
+    const registry = new AdaptorRegistry();
+    const events: ESPCDFAdaptorRegistryEvent[] = [];
+    registry.subscribe((event) => events.push(event));
+    const first = createAdaptor("first");
+    const second = createAdaptor("second");
+
+    registry.register(first);
+    registry.register(second);
+    registry.setActiveAdaptor("first");
+    registry.setActiveAdaptor("second");
+    registry.unregister("second");
+
+    expect(first.onRegister).toHaveBeenCalledWith(registry);
+    expect(first.onActivate).toHaveBeenCalledTimes(1);
+    expect(first.onDeactivate).toHaveBeenCalledTimes(1);
+    expect(second.onDeactivate).toHaveBeenCalledTimes(1);
+    expect(second.onDispose).toHaveBeenCalledTimes(1);
+    expect(registry.getActiveAdaptorIdentifier()).toBeNull();
+    expect(events.map(({ type }) => type)).toEqual([
+      "adaptorRegistered",
+      "adaptorRegistered",
+      "activeAdaptorChanged",
+      "activeAdaptorChanged",
+      "activeAdaptorChanged",
+      "adaptorUnregistered",
+    ]);
+    expect(events[3]).toEqual({
+      type: "activeAdaptorChanged",
+      adaptorIdentifier: "second",
+      previousAdaptorIdentifier: "first",
+    });
+  });
+
+  test("disposes every adaptor on clear", () => {
+    const registry = new AdaptorRegistry();
+    const adaptor = createAdaptor("first");
+    registry.register(adaptor);
+    registry.setActiveAdaptor("first");
+    const listener = jest.fn();
+    registry.subscribe(listener);
+
+    registry.clear();
+
+    expect(adaptor.onDeactivate).toHaveBeenCalledTimes(1);
+    expect(adaptor.onDispose).toHaveBeenCalledTimes(1);
+    expect(registry.getRegisteredAdaptorIdentifiers()).toEqual([]);
+    expect(listener).toHaveBeenLastCalledWith({
+      type: "registryCleared",
+      adaptorIdentifiers: ["first"],
+    });
+  });
+
+  test("keeps the active adaptor observable", () => {
+    const registry = new AdaptorRegistry();
+    registry.register(createAdaptor("first"));
+    registry.register(createAdaptor("second"));
+    const seen: (string | null)[] = [];
+    const stop = autorun(() =>
+      seen.push(registry.getActiveAdaptorIdentifier())
+    );
+
+    registry.setActiveAdaptor("first");
+    registry.setActiveAdaptor("second");
+    stop();
+
+    expect(seen).toEqual([null, "first", "second"]);
+  });
+
+  test("reports failing hooks and listeners as events", async () => {
+    const registry = new AdaptorRegistry();
+    const hookError = new Error("activate failed");
+    const listenerError = new Error("listener failed");
+    const adaptor = createAdaptor("first");
+    adaptor.onActivate.mockRejectedValue(hookError);
+    adaptor.onRegister.mockImplementation(() => {
+      throw hookError;
+    });
+    const events: ESPCDFAdaptorRegistryEvent[] = [];
+    registry.subscribe((event) => {
+      if (event.type === "adaptorRegistered") throw listenerError;
+    });
+    registry.subscribe((event) => events.push(event));
+
+    registry.register(adaptor);
+    registry.setActiveAdaptor("first");
+    await Promise.resolve();
+
+    expect(events).toEqual(
+      expect.arrayContaining([
+        {
+          type: "adaptorHookFailed",
+          adaptorIdentifier: "first",
+          hook: "onRegister",
+          error: hookError,
+        },
+        {
+          type: "adaptorHookFailed",
+          adaptorIdentifier: "first",
+          hook: "onActivate",
+          error: hookError,
+        },
+        {
+          type: "listenerFailed",
+          eventType: "adaptorRegistered",
+          error: listenerError,
+        },
+      ])
+    );
+  });
+});
@@ -11,11 +11,15 @@ import {
   ESPCDFSimpleTSDataRequest,
   ESPCDFSimpleTSDataResponse,
   ESPCDFTSDataRequest,
+  ESPCDFParamWriteOptions,
+  ESPCDFParamRollback,
+  ESPCDFAPIResponse,
 } from "../types";
 import {
   ESPCDFOperationEventEmitter,
   ESPCDFOperationListener,
 } from "../utils/OperationEventEmitter";
+import { assertParamValue } from "../utils/paramValidation";
 
 /**
  * Represents a device parameter entity with operations
@@ -29,12 +33,31 @@ export class ESPCDFDeviceParam implements ESPCDFDeviceParamInterface {
   bounds?: Record<string, any>;
   uiType?: string;
   deviceName?: string;
+  /** When the current value was applied, in ms since epoch */
+  lastUpdatedAt?: number;
+  /** Value of the optimistic write awaiting confirmation, if any */
+  pendingValue?: any;
+  /** Whether an optimistic write is awaiting confirmation */
+  isPending: boolean;
   operations: ESPCDFDeviceParamOperation;
   _raw: any;
   readonly events: ESPCDFOperationEventEmitter<
     ESPCDFDeviceParam,
     ESPCDFDeviceParamOperationType
   >;
+  // Last confirmed value and its update time, restored when optimistic writes fail
+  #confirmedValue: any;
+  #confirmedUpdatedAt?: number;
+  // Value before the pending optimistic writes, reported once they are confirmed
+  #valueBeforeWrite?: { value: any };
+  #writeSequence = 0;
+  // Schedules coalesced writes, set by the node store holding the param
+  #scheduleWrite?: (
+    value: any,
+    options: Pick<ESPCDFParamWriteOptions, "validate" | "optimistic">
+  ) => Promise<ESPCDFAPIResponse>;
+  // Routes writes over the node's transports, set by the node store holding the param
+  #sendValue?: (value: any) => Promise<ESPCDFAPIResponse>;
 
   constructor(paramData: ESPCDFDeviceParamInterface) {
     Object.assign(this, paramData);
@@ -46,6 +69,9 @@ export class ESPCDFDeviceParam implements ESPCDFDeviceParamInterface {
     this.bounds = paramData.bounds;
     this.uiType = paramData.uiType;
     this.deviceName = paramData.deviceName;
+    this.lastUpdatedAt = paramData.lastUpdatedAt;
+    this.pendingValue = undefined;
+    this.isPending = false;
     this._raw = paramData._raw;
 
     // Create operations interface
@@ -96,7 +122,8 @@ export class ESPCDFDeviceParam implements ESPCDFDeviceParamInterface {
   private async runAndEmit<T>(
     operation: ESPCDFDeviceParamOperationType,
     execute: () => Promise<T>,
-    getData?: (result: T) => unknown
+    getData?: (result: T) => unknown,
+    getFailureData?: () => unknown
   ): Promise<T> {
     let succeeded = false;
     let result!: T;
@@ -113,7 +140,7 @@ export class ESPCDFDeviceParam implements ESPCDFDeviceParamInterface {
       this.emit(
         operation,
         succeeded,
-        succeeded ? getData?.(result) : undefined,
+        succeeded ? getData?.(result) : getFailureData?.(),
         error
       );
     }
@@ -121,14 +148,185 @@ export class ESPCDFDeviceParam implements ESPCDFDeviceParamInterface {
 
   /**
    * Set the value of this parameter
+   * @param value - The new value
+   * @param options - Write options; with `optimistic`, the value is applied
+   * immediately and rolled back if the write fails; with `coalesce`, the write
+   * is batched by the param write scheduler
+   * @throws ESPCDFValidationError if the value fails client-side validation
    */
-  async setValue(value: any): Promise<any> {
+  async setValue(
+    value: any,
+    options: ESPCDFParamWriteOptions = {}
+  ): Promise<any> {
+    let checkedValue = value;
+    const scheduleWrite = this.#scheduleWrite;
+    if (options.coalesce && scheduleWrite) {
+      return this.runAndEmit(
+        "setValue",
+        () => {
+          if (options.validate !== false) {
+            checkedValue = assertParamValue(this, value);
+          }
+          return scheduleWrite(checkedValue, {
+            validate: false,
+            optimistic: options.optimistic,
+          });
+        },
+        () => checkedValue
+      );
+    }
+
+    let rollback: ESPCDFParamRollback | undefined;
     return this.runAndEmit(
       "setValue",
-      () => this.operations.setValue(value),
-      () => value
+      async () => {
+        if (options.validate !== false) {
+          checkedValue = assertParamValue(this, value);
+        }
+        if (!options.optimistic) {
+          const writtenAt = Date.now();
+          const result = await this.sendValue(checkedValue);
+          this.lastUpdatedAt = writtenAt;
+          return result;
+        }
+
+        const write = this.beginOptimisticWrite(checkedValue);
+        try {
+          const result = await this.sendValue(checkedValue);
+          this.settleOptimisticWrite(write, checkedValue, true);
+          return result;
+        } catch (e) {
+          rollback = this.settleOptimisticWrite(write, checkedValue, false);
+          throw e;
+        }
+      },
+      () => checkedValue,
+      () => rollback
     );
   }
+
+  /**
+   * Sets the function `setValue` uses for writes made with `coalesce`.
+   * Called by the node store when the param's node is stored.
+   * @param scheduleWrite - Schedules a write of this param with the given options
+   */
+  setWriteScheduler(
+    scheduleWrite: (
+      value: any,
+      options: Pick<ESPCDFParamWriteOptions, "validate" | "optimistic">
+    ) => Promise<ESPCDFAPIResponse>
+  ): void {
+    this.#scheduleWrite = scheduleWrite;
+  }
+
+  /**
+   * Sets the function `setValue` sends writes with.
+   * Called by the node store when the param's node is stored.
+   * @param sendValue - Routes a write of this param over the node's transports
+   */
+  setValueSender(
+    sendValue: (value: any) => Promise<ESPCDFAPIResponse>
+  ): void {
+    this.#sendValue = sendValue;
+  }
+
+  /**
+   * Sends a value through the value sender of the node store holding this
+   * param, or straight to the adaptor otherwise.
+   */
+  private sendValue(value: any): Promise<ESPCDFAPIResponse> {
+    return this.#sendValue
+      ? this.#sendValue(value)
+      : this.operations.setValue(value);
+  }
+
+  /**
+   * Applies a value ahead of confirmation and marks the param as pending.
+   * Used by optimistic `setValue` and `ESPCDFNode.setMultipleParams`.
+   * @param value - The value being written
+   * @returns Token identifying the write, for {@link settleOptimisticWrite}
+   */
+  beginOptimisticWrite(value: any): number {
+    if (!this.isPending) {
+      this.#confirmedValue = this.value;
+      this.#confirmedUpdatedAt = this.lastUpdatedAt;
+      this.#valueBeforeWrite = { value: this.value };
+    }
+    this.value = value;
+    this.lastUpdatedAt = Date.now();
+    this.pendingValue = value;
+    this.isPending = true;
+    return ++this.#writeSequence;
+  }
+
+  /**
+   * Settles a write started with {@link beginOptimisticWrite}. A failed write
+   * is only rolled back if no later write has started since.
+   * @param write - Token returned by beginOptimisticWrite
+   * @param value - The value that was written
+   * @param succeeded - Whether the adaptor confirmed the write
+   * @returns The rollback applied, if any
+   */
+  settleOptimisticWrite(
+    write: number,
+    value: any,
+    succeeded: boolean
+  ): ESPCDFParamRollback | undefined {
+    if (succeeded) {
+      this.#confirmedValue = value;
+      this.#confirmedUpdatedAt = this.lastUpdatedAt;
+    }
+    if (write !== this.#writeSequence) {
+      return undefined;
+    }
+
+    this.pendingValue = undefined;
+    this.isPending = false;
+    if (succeeded) {
+      return undefined;
+    }
+    this.value = this.#confirmedValue;
+    this.lastUpdatedAt = this.#confirmedUpdatedAt;
+    this.#valueBeforeWrite = undefined;
+    return {
+      deviceName: this.deviceName ?? "",
+      paramName: this.name,
+      value: this.#confirmedValue,
+      attemptedValue: value,
+    };
+  }
+
+  /**
+   * Records a value reported by the node while optimistic writes are pending,
+   * so that a failed write rolls back to it rather than to the value the
+   * param had before the write. Values older than the recorded one are ignored.
+   * @param value - The reported value
+   * @param updatedAt - When the value was reported, in ms
+   */
+  recordConfirmedValue(value: any, updatedAt: number): void {
+    if (!this.isPending) return;
+    if (
+      this.#confirmedUpdatedAt !== undefined &&
+      updatedAt < this.#confirmedUpdatedAt
+    ) {
+      return;
+    }
+    this.#confirmedValue = value;
+    this.#confirmedUpdatedAt = updatedAt;
+  }
+
+  /**
+   * Returns the value this param had before its last optimistic writes and
+   * forgets it. Used to report `oldValue` once the writes are confirmed, as
+   * `value` already holds the written value by then.
+   * @returns The earlier value, or undefined if no optimistic write was made
+   */
+  takeValueBeforeWrite(): { value: any } | undefined {
+    const valueBeforeWrite = this.#valueBeforeWrite;
+    this.#valueBeforeWrite = undefined;
+    return valueBeforeWrite;
+  }
+
   async getSimpleTSData?(request: ESPCDFSimpleTSDataRequest): Promise<ESPCDFSimpleTSDataResponse> {
     if (!this.operations.getSimpleTSData) {
       throw new Error("getSimpleTSData is not implemented");
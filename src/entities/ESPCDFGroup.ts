@@ -22,6 +22,7 @@ import {
   ESPCDFMatterCommissioningRequest,
   ESPCDFCommissioningProgress,
   ESPCDFMatterFabricDetails,
+  ESPCDFAdaptorCapability,
 } from "../types";
 import { ESPCDFNode } from "./ESPCDFNode";
 import { ESPCDFScene } from "./ESPCDFScene";
@@ -32,9 +33,11 @@ import {
   ESPCDFOperationEventEmitter,
   ESPCDFOperationListener,
 } from "../utils/OperationEventEmitter";
+import { assertAdaptorCapability } from "../utils/capabilities";
 
 export class ESPCDFGroup implements ESPCDFGroupInterface {
   identifier: string;
+  adaptorIdentifier: string;
   name: string;
   id: string;
   nodeIds: string[];
@@ -62,6 +65,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
   constructor(groupData: ESPCDFGroupInterface) {
     Object.assign(this, groupData);
     this.identifier = groupData.identifier;
+    this.adaptorIdentifier = groupData.adaptorIdentifier ?? groupData.identifier;
     this.operations = groupData.operations;
     this.name = groupData.name;
     this.id = groupData.id;
@@ -165,6 +169,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
     return this.runAndEmit(
       "createScene",
       async () => {
+        assertAdaptorCapability(this, ESPCDFAdaptorCapability.SCENES);
         const fullSceneData = {
           id: sceneData.id,
           name: sceneData.name,
@@ -196,6 +201,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
     return this.runAndEmit(
       "getSceneCapableDevices",
       async () => {
+        assertAdaptorCapability(this, ESPCDFAdaptorCapability.SCENES);
         if (!this.operations.getSceneCapableDevices) {
           throw new Error(
             "getSceneCapableDevices operation not supported by this group's SDK adaptor"
@@ -226,6 +232,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
     return this.runAndEmit(
       "getScheduleCapableDevices",
       async () => {
+        assertAdaptorCapability(this, ESPCDFAdaptorCapability.SCHEDULES);
         if (!this.operations.getScheduleCapableDevices) {
           throw new Error(
             "getScheduleCapableDevices operation not supported by this group's SDK adaptor"
@@ -241,6 +248,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
     return this.runAndEmit(
       "getScenes",
       async () => {
+        assertAdaptorCapability(this, ESPCDFAdaptorCapability.SCENES);
         if (!this.operations.getScenes) {
           throw new Error(
             "getScenes operation not supported by this group's SDK adaptor"
@@ -256,6 +264,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
     return this.runAndEmit(
       "createSchedule",
       async () => {
+        assertAdaptorCapability(this, ESPCDFAdaptorCapability.SCHEDULES);
         const fullScheduleData = {
           id: scheduleData.id,
           name: scheduleData.name,
@@ -288,6 +297,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
     return this.runAndEmit(
       "getSchedules",
       async () => {
+        assertAdaptorCapability(this, ESPCDFAdaptorCapability.SCHEDULES);
         if (!this.operations.getSchedules) {
           throw new Error(
             "getSchedules operation not supported by this group's SDK adaptor"
@@ -303,6 +313,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
     return this.runAndEmit(
       "createAutomation",
       async () => {
+        assertAdaptorCapability(this, ESPCDFAdaptorCapability.AUTOMATIONS);
         const fullAutomationData = {
           name: automationData.name,
           enabled: automationData.enabled ?? false,
@@ -339,6 +350,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
     return this.runAndEmit(
       "getAutomations",
       async () => {
+        assertAdaptorCapability(this, ESPCDFAdaptorCapability.AUTOMATIONS);
         if (!this.operations.getAutomations) {
           throw new Error(
             "getAutomations operation not supported by this group's SDK adaptor"
@@ -422,6 +434,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
    * @returns Fabric credentials for commissioning
    */
   async getFabricDetails(): Promise<ESPCDFMatterFabricDetails> {
+    assertAdaptorCapability(this, ESPCDFAdaptorCapability.MATTER_FABRIC);
     if (!this.operations.getFabricDetails) {
       throw new Error(
         "getFabricDetails not available on current adaptor or group"
@@ -443,6 +456,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
    * @returns Updated Matter fabric group (new instance when conversion occurred)
    */
   async convertToMatterFabric(): Promise<ESPCDFGroup> {
+    assertAdaptorCapability(this, ESPCDFAdaptorCapability.MATTER_FABRIC);
     if (!this.operations.convertToMatterFabric) {
       throw new Error(
         "convertToMatterFabric not available on current adaptor or group"
@@ -456,6 +470,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
   }
 
   async issueUserNoC(): Promise<ESPCDFIssueUserNoCResponse> {
+    assertAdaptorCapability(this, ESPCDFAdaptorCapability.MATTER_FABRIC);
     if (!this.operations.issueUserNoC) {
       throw new Error(
         "issueUserNoC not available on current adaptor or group"
@@ -475,6 +490,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
   async issueNodeNoC(
     request: ESPCDFIssueNodeNoCRequest
   ): Promise<ESPCDFMatterCommissioningRequest> {
+    assertAdaptorCapability(this, ESPCDFAdaptorCapability.MATTER_FABRIC);
     if (!this.operations.issueNodeNoC) {
       throw new Error(
         "issueNodeNoC not available on current adaptor or group"
@@ -492,6 +508,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
    * Call when {@link isMatter} is true.
    */
   async getNodesWithDetails(): Promise<ESPCDFNode[]> {
+    assertAdaptorCapability(this, ESPCDFAdaptorCapability.MATTER_FABRIC);
     if (!this.operations.getNodesWithDetails) {
       throw new Error(
         "getNodesWithDetails not available on current adaptor or group"
@@ -508,6 +525,7 @@ export class ESPCDFGroup implements ESPCDFGroupInterface {
     qrData: string,
     onProgress?: (message: ESPCDFCommissioningProgress) => void
   ): Promise<() => void> {
+    assertAdaptorCapability(this, ESPCDFAdaptorCapability.MATTER_FABRIC);
     if (!this.operations.startCommissioning) {
       throw new Error(
         "startCommissioning not available on current adaptor or group"
@@ -7,6 +7,7 @@
 import { ESPCDFNodeConfig } from "./ESPCDFNodeConfig";
 import { ESPCDFDevice } from "./ESPCDFDevice";
 import { ESPCDFService } from "./ESPCDFService";
+import { ESPCDFDeviceParam } from "./ESPCDFDeviceParam";
 import {
   ESPCDFAPIResponse,
   ESPCDFAPIDataResponse,
@@ -18,11 +19,17 @@ import {
   ESPCDFTransportConfig,
   ESPCDFPropertyChangeCallback,
   ESPCDFPropertyChangeEvent,
+  ESPCDFAdaptorCapability,
+  ESPCDFParamWriteOptions,
+  ESPCDFParamRollback,
+  ESPCDFParamValues,
 } from "../types";
 import {
   ESPCDFOperationEventEmitter,
   ESPCDFOperationListener,
 } from "../utils/OperationEventEmitter";
+import { assertAdaptorCapability } from "../utils/capabilities";
+import { assertParamValue } from "../utils/paramValidation";
 
 /**
  * Property change event emitter for node property changes
@@ -73,6 +80,7 @@ class PropertyChangeEventEmitter {
 
 export class ESPCDFNode implements ESPCDFNodeInterface {
   identifier: string;
+  adaptorIdentifier: string;
   id: string;
   type?: string;
   isPrimaryUser?: boolean;
@@ -85,6 +93,9 @@ export class ESPCDFNode implements ESPCDFNodeInterface {
   role?: string;
   transportOrder?: string[];
   availableTransports?: Partial<Record<string, ESPCDFTransportConfig>>;
+  lastUsedTransport?: string;
+  /** Whether remote param updates named devices, services or params unknown to this node */
+  needsRefresh: boolean;
   operations: ESPCDFNodeOperation;
   isMatter?: boolean;
   nodeType?: string;
@@ -95,12 +106,17 @@ export class ESPCDFNode implements ESPCDFNodeInterface {
     ESPCDFNodeOperationType
   >;
   private propertyChangeEmitter: PropertyChangeEventEmitter;
+  // Routes param writes over the node's transports, set by the node store holding the node
+  private paramSender?: (
+    params: ESPCDFParamValues
+  ) => Promise<ESPCDFAPIResponse>;
 
   constructor(nodeData: ESPCDFNodeInterface) {
     Object.assign(this, nodeData);
     this.isMatter = nodeData.isMatter;
     this.nodeType = nodeData.nodeType;
     this.identifier = nodeData.identifier;
+    this.adaptorIdentifier = nodeData.adaptorIdentifier ?? nodeData.identifier;
     this.id = nodeData.id;
     this.connectivityStatus = nodeData.connectivityStatus;
     this.isPrimaryUser = nodeData.isPrimaryUser;
@@ -120,6 +136,8 @@ export class ESPCDFNode implements ESPCDFNodeInterface {
     this.role = nodeData.role;
     this.transportOrder = nodeData.transportOrder || [];
     this.availableTransports = nodeData.availableTransports || {};
+    this.lastUsedTransport = nodeData.lastUsedTransport;
+    this.needsRefresh = false;
     this.operations = nodeData.operations;
     this._raw = nodeData._raw;
     this.events = new ESPCDFOperationEventEmitter<
@@ -166,7 +184,8 @@ export class ESPCDFNode implements ESPCDFNodeInterface {
   private async runAndEmit<T>(
     operation: ESPCDFNodeOperationType,
     execute: () => Promise<T>,
-    getData?: (result: T) => unknown
+    getData?: (result: T) => unknown,
+    getFailureData?: () => unknown
   ): Promise<T> {
     let succeeded = false;
     let result!: T;
@@ -183,7 +202,7 @@ export class ESPCDFNode implements ESPCDFNodeInterface {
       this.emit(
         operation,
         succeeded,
-        succeeded ? getData?.(result) : undefined,
+        succeeded ? getData?.(result) : getFailureData?.(),
         error
       );
     }
@@ -217,18 +236,148 @@ export class ESPCDFNode implements ESPCDFNodeInterface {
   }
 
   // Node management operations
+  /**
+   * Set multiple device params of this node in one request
+   * @param params - Values keyed by device name
+   * @param options - Write options; with `optimistic`, the values are applied
+   * immediately and rolled back if the write fails
+   * @throws ESPCDFValidationError if a value fails client-side validation
+   */
   async setMultipleParams(
-    params: Record<string, any>
+    params: Record<string, any>,
+    options: ESPCDFParamWriteOptions = {}
   ): Promise<ESPCDFAPIResponse> {
+    let payload = params;
+    let rollbacks: ESPCDFParamRollback[] = [];
     return this.runAndEmit(
       "setMultipleParams",
-      () => this.operations.setMultipleParams(params),
-      () => params
+      async () => {
+        if (options.validate !== false) {
+          payload = this.validateParamWrites(params);
+        }
+        if (!options.optimistic) {
+          const writtenAt = Date.now();
+          const result = await this.sendParams(payload);
+          this.getParamWrites(payload).forEach(({ param }) => {
+            param.lastUpdatedAt = writtenAt;
+          });
+          return result;
+        }
+
+        const writes = this.getParamWrites(payload).map((paramWrite) => ({
+          ...paramWrite,
+          write: paramWrite.param.beginOptimisticWrite(paramWrite.value),
+        }));
+        try {
+          const result = await this.sendParams(payload);
+          writes.forEach(({ param, value, write }) =>
+            param.settleOptimisticWrite(write, value, true)
+          );
+          return result;
+        } catch (e) {
+          rollbacks = writes.flatMap(({ deviceName, param, value, write }) => {
+            const rollback = param.settleOptimisticWrite(write, value, false);
+            return rollback ? [{ ...rollback, deviceName }] : [];
+          });
+          throw e;
+        }
+      },
+      () => payload,
+      () => rollbacks
+    );
+  }
+
+  /**
+   * Sets the function `setMultipleParams` sends writes with.
+   * Called by the node store when the node is stored.
+   * @param sendParams - Routes a write over the node's transports
+   */
+  setParamSender(
+    sendParams: (params: ESPCDFParamValues) => Promise<ESPCDFAPIResponse>
+  ): void {
+    this.paramSender = sendParams;
+  }
+
+  /**
+   * Sends a setMultipleParams payload through the param sender of the node
+   * store holding this node, or straight to the adaptor otherwise.
+   */
+  private sendParams(params: Record<string, any>): Promise<ESPCDFAPIResponse> {
+    const sendParams = this.paramSender;
+    if (!sendParams) {
+      return this.operations.setMultipleParams(params);
+    }
+    // Transports take one { param: value } object per device
+    return sendParams(
+      Object.fromEntries(
+        Object.entries(params).map(([deviceName, values]) => [
+          deviceName,
+          Array.isArray(values) ? Object.assign({}, ...values) : values,
+        ])
+      )
     );
   }
 
+  /**
+   * Validates the values of a setMultipleParams payload against the params
+   * of this node. Params unknown to the node are passed through unchecked.
+   * @param params - Values keyed by device name
+   * @returns The payload with values coerced to the param data types
+   * @throws ESPCDFValidationError for the first invalid value
+   */
+  validateParamWrites(params: Record<string, any>): Record<string, any> {
+    const checkValues = (deviceName: string, values: Record<string, any>) => {
+      const device = this.devices?.find((d) => d.name === deviceName);
+      return Object.fromEntries(
+        Object.entries(values).map(([paramName, value]) => {
+          const param = device?.params?.find((p) => p.name === paramName);
+          return [paramName, param ? assertParamValue(param, value) : value];
+        })
+      );
+    };
+    return Object.fromEntries(
+      Object.entries(params).map(([deviceName, values]) => [
+        deviceName,
+        Array.isArray(values)
+          ? values.map((entry) => checkValues(deviceName, entry))
+          : values && typeof values === "object"
+            ? checkValues(deviceName, values)
+            : values,
+      ])
+    );
+  }
+
+  /**
+   * Resolves a setMultipleParams payload to the device params it writes.
+   * Accepts `{ [deviceName]: { [paramName]: value } }` as well as
+   * `{ [deviceName]: [{ [paramName]: value }] }`.
+   */
+  private getParamWrites(params: Record<string, any>) {
+    const writes: {
+      deviceName: string;
+      param: ESPCDFDeviceParam;
+      value: any;
+    }[] = [];
+    this.devices?.forEach((device) => {
+      const deviceParams = params[device.name];
+      if (!deviceParams) return;
+      const entries: [string, any][] = Array.isArray(deviceParams)
+        ? deviceParams.flatMap((entry) => Object.entries(entry))
+        : Object.entries(deviceParams);
+      entries.forEach(([paramName, value]) => {
+        const param = device.params?.find((p) => p.name === paramName);
+        if (param) writes.push({ deviceName: device.name, param, value });
+      });
+    });
+    return writes;
+  }
+
   async delete(): Promise<ESPCDFAPIResponse> {
-    return this.runAndEmit("delete", () => this.operations.delete(), () => this);
+    return this.runAndEmit(
+      "delete",
+      () => this.operations.delete(),
+      () => this
+    );
   }
 
   // Metadata operations
@@ -252,6 +401,7 @@ export class ESPCDFNode implements ESPCDFNodeInterface {
     return this.runAndEmit(
       "checkOTAUpdate",
       async () => {
+        assertAdaptorCapability(this, ESPCDFAdaptorCapability.OTA);
         const fn = this.operations.checkOTAUpdate;
         if (!fn) throw new Error("checkOTAUpdate operation not supported");
         return fn.call(this.operations);
@@ -264,6 +414,7 @@ export class ESPCDFNode implements ESPCDFNodeInterface {
     return this.runAndEmit(
       "pushOTAUpdate",
       async () => {
+        assertAdaptorCapability(this, ESPCDFAdaptorCapability.OTA);
         if (!this.operations.pushOTAUpdate) {
           throw new Error("pushOTAUpdate operation not supported");
         }
@@ -277,6 +428,7 @@ export class ESPCDFNode implements ESPCDFNodeInterface {
     return this.runAndEmit(
       "getOTAStatus",
       async () => {
+        assertAdaptorCapability(this, ESPCDFAdaptorCapability.OTA);
         if (!this.operations.getOTAUpdateStatus) {
           throw new Error("getOTAUpdateStatus operation not supported");
         }
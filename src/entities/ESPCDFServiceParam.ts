@@ -8,11 +8,13 @@ import {
   ESPCDFServiceParamOperationType,
   ESPCDFServiceParamOperation,
   ESPCDFServiceParamInterface,
+  ESPCDFParamWriteOptions,
 } from "../types";
 import {
   ESPCDFOperationEventEmitter,
   ESPCDFOperationListener,
 } from "../utils/OperationEventEmitter";
+import { assertParamValue } from "../utils/paramValidation";
 
 /**
  * Represents a service parameter entity
@@ -25,6 +27,8 @@ export class ESPCDFServiceParam implements ESPCDFServiceParamInterface {
   type: string;
   bounds?: Record<string, any>;
   serviceName?: string;
+  /** When the current value was applied, in ms since epoch */
+  lastUpdatedAt?: number;
   operations: ESPCDFServiceParamOperation;
   _raw: any;
   readonly events: ESPCDFOperationEventEmitter<
@@ -41,6 +45,7 @@ export class ESPCDFServiceParam implements ESPCDFServiceParamInterface {
     this.type = paramData.type;
     this.bounds = paramData.bounds;
     this.serviceName = paramData.serviceName;
+    this.lastUpdatedAt = paramData.lastUpdatedAt;
     this._raw = paramData._raw;
 
     // Create operations interface
@@ -116,12 +121,27 @@ export class ESPCDFServiceParam implements ESPCDFServiceParamInterface {
 
   /**
    * Set the value of this parameter (if supported)
+   * @param value - The new value
+   * @param options - Pass `validate: false` to skip client-side validation
+   * @throws ESPCDFValidationError if the value fails client-side validation
    */
-  async setValue(value: any): Promise<any> {
+  async setValue(
+    value: any,
+    options: Pick<ESPCDFParamWriteOptions, "validate"> = {}
+  ): Promise<any> {
+    let checkedValue = value;
     return this.runAndEmit(
       "setValue",
-      () => this.operations.setValue(value),
-      () => value
+      async () => {
+        if (options.validate !== false) {
+          checkedValue = assertParamValue(this, value);
+        }
+        const writtenAt = Date.now();
+        const result = await this.operations.setValue(checkedValue);
+        this.lastUpdatedAt = writtenAt;
+        return result;
+      },
+      () => checkedValue
     );
   }
 }
@@ -24,11 +24,14 @@ import {
   ESPCDFMatterPrecommissionInfo,
   ESPCDFAssumeRoleRequest,
   ESPCDFAssumeRoleResponse,
+  ESPCDFAdaptorCapability,
+  ESPCDFNodeParamsResult,
 } from "../types";
 import {
   ESPCDFOperationEventEmitter,
   ESPCDFOperationListener,
 } from "../utils/OperationEventEmitter";
+import { assertAdaptorCapability } from "../utils/capabilities";
 import { ESPCDFNode } from "./ESPCDFNode";
 
 export class ESPCDFUser implements ESPCDFUserInterface {
@@ -240,6 +243,7 @@ export class ESPCDFUser implements ESPCDFUserInterface {
   async createFabric(
     groupRequest: ESPCDFCreateGroupRequest
   ): Promise<ESPCDFGroup> {
+    assertAdaptorCapability(this, ESPCDFAdaptorCapability.MATTER_FABRIC);
     if (!this.operations.createFabric) {
       throw new Error("createFabric not available on current adaptor");
     }
@@ -287,9 +291,14 @@ export class ESPCDFUser implements ESPCDFUserInterface {
     return this.operations.unsubscribeFromEvent(event, callback);
   }
 
+  /**
+   * Sets params of several nodes in one call.
+   * @param payload - setMultipleParams payload of each node
+   * @returns Response with the outcome of each node as `data`, when the adaptor reports it
+   */
   async setMultipleNodesParams(
     payload: { nodeId: string; payload: any }[]
-  ): Promise<any> {
+  ): Promise<ESPCDFAPIResponse<ESPCDFNodeParamsResult[]>> {
     return this.operations.setMultipleNodesParams(payload);
   }
 
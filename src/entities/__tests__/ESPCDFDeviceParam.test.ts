@@ -0,0 +1,130 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFPropertyChangeEvent } from "../../types";
+import { createFaultInjectionMiddleware } from "../../utils/adaptorMiddleware";
+import { EVENT_NODE_PARAMS_CHANGED } from "../../utils/constants";
+import { createInMemoryCDF } from "../../testing";
+
+async function setup() {
+  const { cdf, adaptor } = await createInMemoryCDF();
+  const node = cdf.nodeStore.getNodeById("node_light")!;
+  const param = node.devices![0].params.find((p) => p.name === "Brightness")!;
+  return { cdf, adaptor, node, param };
+}
+
+describe("ESPCDFDeviceParam optimistic writes", () => {
+  let context: Awaited<ReturnType<typeof setup>>;
+
+  beforeEach(async () => {
+    context = await setup();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await context.cdf.destroy();
+  });
+
+  test("keeps the written value once the write succeeds", async () => {
+    const { adaptor, node, param } = context;
+
+    const write = param.setValue(42, { optimistic: true });
+    expect(param.value).toBe(42);
+    expect(param.isPending).toBe(true);
+    await write;
+
+    expect(param.value).toBe(42);
+    expect(param.isPending).toBe(false);
+    const light = adaptor.backend.getNode(node.id).devices[0];
+    expect(light.params.find((p) => p.name === "Brightness")!.value).toBe(42);
+  });
+
+  test("rolls back a failed write to the previous value", async () => {
+    const { cdf, node, param } = context;
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const previous = param.value;
+    const events: ESPCDFPropertyChangeEvent[] = [];
+    node.onPropertyChange((event) => events.push(event));
+    cdf.sdkAdaptorRegistry.use(
+      createFaultInjectionMiddleware({
+        filter: (call) => call.method === "setMultipleParams",
+      })
+    );
+
+    const write = param.setValue(42, { optimistic: true });
+    expect(param.value).toBe(42);
+    await expect(write).rejects.toMatchObject({
+      errorCode: "TRANSPORT_ROUTE_FAILED",
+      originalError: expect.objectContaining({ errorCode: "FAULT_INJECTED" }),
+    });
+
+    expect(param.value).toBe(previous);
+    expect(param.isPending).toBe(false);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "deviceParamChanged",
+        deviceName: "Light",
+        paramName: "Brightness",
+        value: previous,
+        oldValue: 42,
+        source: "rollback",
+      })
+    );
+  });
+
+  test("rolls back to a value reported while the write was pending", async () => {
+    const { cdf, node, param } = context;
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    let failWrite!: () => void;
+    const writeFailed = new Promise<void>((resolve) => (failWrite = resolve));
+    cdf.sdkAdaptorRegistry.use(async (call, next) => {
+      if (call.method !== "setMultipleParams") return next();
+      await writeFailed;
+      throw new Error("write failed");
+    });
+
+    const write = param.setValue(80, { optimistic: true });
+    cdf.subscriptionStore.nodeUpdates.listen({
+      event_type: EVENT_NODE_PARAMS_CHANGED,
+      node_id: node.id,
+      payload: { Light: { Brightness: 33 } },
+    });
+    failWrite();
+    await expect(write).rejects.toMatchObject({
+      originalError: new Error("write failed"),
+    });
+
+    expect(param.value).toBe(33);
+    expect(param.isPending).toBe(false);
+  });
+
+  test("rolls back every param of a failed multi-param write", async () => {
+    const { cdf, node, param } = context;
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const power = node.devices![0].params.find((p) => p.name === "Power")!;
+    const previous = { brightness: param.value, power: power.value };
+    cdf.sdkAdaptorRegistry.use(
+      createFaultInjectionMiddleware({
+        filter: (call) => call.method === "setMultipleParams",
+      })
+    );
+
+    const write = node.setMultipleParams(
+      { Light: [{ Brightness: 10 }, { Power: !previous.power }] },
+      { optimistic: true }
+    );
+    expect(param.isPending).toBe(true);
+    expect(power.value).toBe(!previous.power);
+    await expect(write).rejects.toMatchObject({
+      errorCode: "TRANSPORT_ROUTE_FAILED",
+      originalError: expect.objectContaining({ errorCode: "FAULT_INJECTED" }),
+    });
+
+    expect(param.value).toBe(previous.brightness);
+    expect(power.value).toBe(previous.power);
+    expect(power.isPending).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFError } from "./base";
+
+/**
+ * Adaptor-specific errors.
+ *
+ * Raised by adaptors shipped with CDF (e.g. the in-memory adaptor) for
+ * failed backend operations such as unknown entities or invalid credentials.
+ */
+export class ESPCDFAdaptorError extends ESPCDFError {
+  constructor(
+    message: string,
+    errorCode: string,
+    context?: Record<string, any>,
+    originalError?: Error
+  ) {
+    super(message, "ADAPTOR", errorCode, context, originalError);
+  }
+}
@@ -4,6 +4,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+export * from "./adaptor";
 export * from "./base";
 export * from "./config";
 export * from "./registry";
+export * from "./transport";
+export * from "./validation";
@@ -0,0 +1,24 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFError } from "./base";
+
+/**
+ * Transport-specific errors.
+ *
+ * Used when no transport of a node can serve an operation, or when every
+ * transport tried for it failed.
+ */
+export class ESPCDFTransportError extends ESPCDFError {
+  constructor(
+    message: string,
+    errorCode: string,
+    context?: Record<string, any>,
+    originalError?: Error
+  ) {
+    super(message, "TRANSPORT", errorCode, context, originalError);
+  }
+}
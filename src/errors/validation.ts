@@ -0,0 +1,24 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFError } from "./base";
+
+/**
+ * Validation-specific errors.
+ *
+ * Raised before an operation is sent to the adaptor when its input is
+ * rejected locally, e.g. a param value outside the param's bounds.
+ */
+export class ESPCDFValidationError extends ESPCDFError {
+  constructor(
+    message: string,
+    errorCode: string,
+    context?: Record<string, any>,
+    originalError?: Error
+  ) {
+    super(message, "VALIDATION", errorCode, context, originalError);
+  }
+}
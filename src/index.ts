@@ -21,7 +21,16 @@ export * from "./utils/common";
 export * from "./utils/constants";
 export * from "./utils/home";
 export * from "./utils/registeredTransports";
+export * from "./utils/adaptorScope";
+export * from "./utils/capabilities";
+export * from "./utils/adaptorMiddleware";
+export * from "./utils/adaptorConfig";
+export * from "./utils/apiVersion";
+export * from "./utils/paramValidation";
 export * from "./services";
 
 // Export entities
 export * from "./entities";
+
+// Export device models
+export * from "./models";
@@ -0,0 +1,121 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFDevice } from "../entities/ESPCDFDevice";
+import { ESPCDFDeviceParam } from "../entities/ESPCDFDeviceParam";
+import { ESPCDFParamWriteOptions } from "../types";
+import { ERROR_MESSAGE_MAP } from "../utils/common";
+import { ESPCDFParamType } from "../utils/constants";
+
+/**
+ * Facade over an {@link ESPCDFDevice} that resolves params by their standard
+ * `esp.param.*` type instead of their (user-editable) name.
+ *
+ * Subclass it to add a custom device model, then register the subclass with
+ * `ESPCDFDeviceModelRegistry`.
+ *
+ * @example
+ * class Doorbell extends ESPCDFDeviceModel {
+ *   get isRinging() {
+ *     return this.getValue("custom.param.ringing") === true;
+ *   }
+ * }
+ */
+export class ESPCDFDeviceModel {
+  constructor(readonly device: ESPCDFDevice) {}
+
+  /** Name of the device */
+  get name(): string {
+    return this.device.name;
+  }
+
+  /** Device type, e.g. `esp.device.lightbulb` */
+  get type(): string | undefined {
+    return this.device.type;
+  }
+
+  /** Value of the `esp.param.name` param, falling back to the display name */
+  get displayName(): string {
+    return (
+      this.getValue(ESPCDFParamType.NAME) ??
+      this.device.displayName ??
+      this.device.name
+    );
+  }
+
+  /**
+   * Returns the param of a type, if the device has one
+   * @param paramType - Param type, e.g. `esp.param.brightness`
+   */
+  getParam(paramType: string): ESPCDFDeviceParam | undefined {
+    return this.device.params?.find((param) => param.type === paramType);
+  }
+
+  /**
+   * Whether the device has a param of a type
+   * @param paramType - Param type, e.g. `esp.param.brightness`
+   */
+  hasParam(paramType: string): boolean {
+    return !!this.getParam(paramType);
+  }
+
+  /**
+   * Returns the value of the param of a type
+   * @param paramType - Param type, e.g. `esp.param.brightness`
+   */
+  getValue(paramType: string): any {
+    return this.getParam(paramType)?.value;
+  }
+
+  /**
+   * Sets the value of the param of a type through its `setValue`
+   * @param paramType - Param type, e.g. `esp.param.brightness`
+   * @param value - The new value
+   * @param options - Write options passed to `setValue`
+   * @throws Error if the device has no param of the type
+   * @throws ESPCDFValidationError if the value fails client-side validation
+   */
+  async setValue(
+    paramType: string,
+    value: any,
+    options?: ESPCDFParamWriteOptions
+  ): Promise<any> {
+    const param = this.getParam(paramType);
+    if (!param) {
+      throw new Error(
+        ERROR_MESSAGE_MAP.DEVICE_PARAM_TYPE_NOT_FOUND(this.name, paramType)
+      );
+    }
+    return param.setValue(value, options);
+  }
+}
+
+/**
+ * Device model with an `esp.param.power` param
+ */
+export class ESPCDFPowerDeviceModel extends ESPCDFDeviceModel {
+  /** Whether the device is on */
+  get power(): boolean {
+    return this.getValue(ESPCDFParamType.POWER) === true;
+  }
+
+  /**
+   * Turns the device on or off
+   * @param on - The new power state
+   * @param options - Write options passed to `setValue`
+   */
+  setPower(on: boolean, options?: ESPCDFParamWriteOptions): Promise<any> {
+    return this.setValue(ESPCDFParamType.POWER, on, options);
+  }
+
+  /**
+   * Inverts the power state
+   * @param options - Write options passed to `setValue`
+   */
+  togglePower(options?: ESPCDFParamWriteOptions): Promise<any> {
+    return this.setPower(!this.power, options);
+  }
+}
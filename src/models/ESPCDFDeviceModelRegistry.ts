@@ -0,0 +1,110 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFDevice } from "../entities/ESPCDFDevice";
+import { ESPCDFNode } from "../entities/ESPCDFNode";
+import { ESPCDFDeviceModelConstructor } from "../types";
+import { ESPCDFDeviceType } from "../utils/constants";
+import { ESPCDFDeviceModel } from "./ESPCDFDeviceModel";
+import {
+  ESPCDFBlinds,
+  ESPCDFFan,
+  ESPCDFLightbulb,
+  ESPCDFOutlet,
+  ESPCDFSwitch,
+  ESPCDFTemperatureSensor,
+  ESPCDFThermostat,
+} from "./standardDeviceModels";
+
+/**
+ * Models of the standard RainMaker device types, keyed by device type
+ */
+export const ESPCDF_STANDARD_DEVICE_MODELS: Record<
+  string,
+  ESPCDFDeviceModelConstructor
+> = {
+  [ESPCDFDeviceType.LIGHTBULB]: ESPCDFLightbulb,
+  [ESPCDFDeviceType.LIGHT]: ESPCDFLightbulb,
+  [ESPCDFDeviceType.SWITCH]: ESPCDFSwitch,
+  [ESPCDFDeviceType.FAN]: ESPCDFFan,
+  [ESPCDFDeviceType.THERMOSTAT]: ESPCDFThermostat,
+  [ESPCDFDeviceType.TEMPERATURE_SENSOR]: ESPCDFTemperatureSensor,
+  [ESPCDFDeviceType.OUTLET]: ESPCDFOutlet,
+  [ESPCDFDeviceType.BLINDS_INTERNAL]: ESPCDFBlinds,
+  [ESPCDFDeviceType.BLINDS_EXTERNAL]: ESPCDFBlinds,
+};
+
+/**
+ * Maps device types to device model classes.
+ *
+ * Starts with the standard models; custom models can be added for other
+ * device types, or replace a standard one. Devices of unregistered types get
+ * a plain {@link ESPCDFDeviceModel}.
+ *
+ * @example
+ * cdf.deviceModels.register("custom.device.doorbell", Doorbell);
+ * const model = cdf.deviceModels.create(device);
+ * if (model instanceof ESPCDFLightbulb) await model.setBrightness(40);
+ */
+export class ESPCDFDeviceModelRegistry {
+  private models = new Map<string, ESPCDFDeviceModelConstructor>(
+    Object.entries(ESPCDF_STANDARD_DEVICE_MODELS)
+  );
+
+  /**
+   * Device types with a registered model
+   */
+  get deviceTypes(): string[] {
+    return Array.from(this.models.keys());
+  }
+
+  /**
+   * Registers a model for a device type, replacing any model of that type.
+   * @param deviceType - Device type, e.g. `esp.device.lightbulb`
+   * @param model - Model class
+   * @returns Function that unregisters the model, restoring the one it replaced
+   */
+  register(
+    deviceType: string,
+    model: ESPCDFDeviceModelConstructor
+  ): () => void {
+    const previous = this.models.get(deviceType);
+    this.models.set(deviceType, model);
+    return () => {
+      if (this.models.get(deviceType) !== model) return;
+      if (previous) {
+        this.models.set(deviceType, previous);
+      } else {
+        this.models.delete(deviceType);
+      }
+    };
+  }
+
+  /**
+   * Returns the model registered for a device type, if any.
+   */
+  getModel(deviceType: string): ESPCDFDeviceModelConstructor | undefined {
+    return this.models.get(deviceType);
+  }
+
+  /**
+   * Wraps a device in the model registered for its type.
+   * @param device - The device
+   * @returns The device model; a plain ESPCDFDeviceModel for unregistered types
+   */
+  create(device: ESPCDFDevice): ESPCDFDeviceModel {
+    const Model = (device.type && this.models.get(device.type)) || undefined;
+    return Model ? new Model(device) : new ESPCDFDeviceModel(device);
+  }
+
+  /**
+   * Wraps every device of a node in its model.
+   * @param node - The node
+   */
+  createAll(node: ESPCDFNode): ESPCDFDeviceModel[] {
+    return (node.devices ?? []).map((device) => this.create(device));
+  }
+}
@@ -0,0 +1,88 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../../store/index";
+import { ESPCDFDeviceModel } from "../ESPCDFDeviceModel";
+import {
+  ESPCDFLightbulb,
+  ESPCDFSwitch,
+  ESPCDFTemperatureSensor,
+} from "../standardDeviceModels";
+import { createInMemoryCDF } from "../../testing";
+import { ESPCDFDeviceType, ESPCDFParamType } from "../../utils/constants";
+
+class Doorbell extends ESPCDFDeviceModel {
+  get isRinging(): boolean {
+    return this.getValue("custom.param.ringing") === true;
+  }
+}
+
+describe("ESPCDFDeviceModelRegistry", () => {
+  let cdf: ESPCDF;
+  const createModel = (nodeId: string) =>
+    cdf.deviceModels.create(cdf.nodeStore.getNodeById(nodeId)!.devices![0]);
+
+  beforeEach(async () => {
+    ({ cdf } = await createInMemoryCDF());
+  });
+
+  afterEach(async () => {
+    await cdf.destroy();
+  });
+
+  test("wraps devices in the model of their type", () => {
+    expect(createModel("node_light")).toBeInstanceOf(ESPCDFLightbulb);
+    expect(createModel("node_switch")).toBeInstanceOf(ESPCDFSwitch);
+    expect(createModel("node_sensor")).toBeInstanceOf(ESPCDFTemperatureSensor);
+    expect(
+      cdf.deviceModels.createAll(cdf.nodeStore.getNodeById("node_light")!)
+    ).toEqual([expect.any(ESPCDFLightbulb)]);
+  });
+
+  test("reads and writes params by their standard type", async () => {
+    const light = createModel("node_light") as ESPCDFLightbulb;
+
+    await light.setBrightness(42);
+    await light.setPower(true);
+    await light.togglePower();
+
+    expect(light.brightness).toBe(42);
+    expect(light.getParam(ESPCDFParamType.BRIGHTNESS)!.value).toBe(42);
+    expect(light.power).toBe(false);
+    expect(light.supportsColor).toBe(false);
+    await expect(light.setHue(120)).rejects.toThrow(ESPCDFParamType.HUE);
+    expect(
+      typeof (createModel("node_sensor") as ESPCDFTemperatureSensor).temperature
+    ).toBe("number");
+  });
+
+  test("registers custom models and restores the replaced one", () => {
+    const unregister = cdf.deviceModels.register(
+      ESPCDFDeviceType.SWITCH,
+      Doorbell
+    );
+    expect(createModel("node_switch")).toBeInstanceOf(Doorbell);
+
+    unregister();
+    expect(cdf.deviceModels.getModel(ESPCDFDeviceType.SWITCH)).toBe(
+      ESPCDFSwitch
+    );
+  });
+
+  test("wraps devices of unregistered types in the base model", () => {
+    cdf.deviceModels.register("custom.device.doorbell", Doorbell)();
+
+    const device = cdf.nodeStore.getNodeById("node_switch")!.devices![0];
+    const model = cdf.deviceModels.create(
+      Object.assign(Object.create(device), { type: "custom.device.doorbell" })
+    );
+
+    expect(model.constructor).toBe(ESPCDFDeviceModel);
+    expect(cdf.deviceModels.deviceTypes).not.toContain(
+      "custom.device.doorbell"
+    );
+  });
+});
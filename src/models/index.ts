@@ -0,0 +1,9 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export * from "./ESPCDFDeviceModel";
+export * from "./ESPCDFDeviceModelRegistry";
+export * from "./standardDeviceModels";
@@ -0,0 +1,156 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFParamWriteOptions } from "../types";
+import { ESPCDFParamType } from "../utils/constants";
+import { ESPCDFDeviceModel, ESPCDFPowerDeviceModel } from "./ESPCDFDeviceModel";
+
+/**
+ * `esp.device.lightbulb` / `esp.device.light`
+ */
+export class ESPCDFLightbulb extends ESPCDFPowerDeviceModel {
+  get brightness(): number | undefined {
+    return this.getValue(ESPCDFParamType.BRIGHTNESS);
+  }
+
+  get hue(): number | undefined {
+    return this.getValue(ESPCDFParamType.HUE);
+  }
+
+  get saturation(): number | undefined {
+    return this.getValue(ESPCDFParamType.SATURATION);
+  }
+
+  /** Color temperature in Kelvin (`esp.param.cct`) */
+  get colorTemperature(): number | undefined {
+    return this.getValue(ESPCDFParamType.CCT);
+  }
+
+  /** Whether the light supports hue and saturation */
+  get supportsColor(): boolean {
+    return this.hasParam(ESPCDFParamType.HUE);
+  }
+
+  setBrightness(
+    brightness: number,
+    options?: ESPCDFParamWriteOptions
+  ): Promise<any> {
+    return this.setValue(ESPCDFParamType.BRIGHTNESS, brightness, options);
+  }
+
+  setHue(hue: number, options?: ESPCDFParamWriteOptions): Promise<any> {
+    return this.setValue(ESPCDFParamType.HUE, hue, options);
+  }
+
+  setSaturation(
+    saturation: number,
+    options?: ESPCDFParamWriteOptions
+  ): Promise<any> {
+    return this.setValue(ESPCDFParamType.SATURATION, saturation, options);
+  }
+
+  setColorTemperature(
+    kelvin: number,
+    options?: ESPCDFParamWriteOptions
+  ): Promise<any> {
+    return this.setValue(ESPCDFParamType.CCT, kelvin, options);
+  }
+}
+
+/**
+ * `esp.device.switch`
+ */
+export class ESPCDFSwitch extends ESPCDFPowerDeviceModel {}
+
+/**
+ * `esp.device.outlet`
+ */
+export class ESPCDFOutlet extends ESPCDFPowerDeviceModel {}
+
+/**
+ * `esp.device.fan`
+ */
+export class ESPCDFFan extends ESPCDFPowerDeviceModel {
+  get speed(): number | undefined {
+    return this.getValue(ESPCDFParamType.SPEED);
+  }
+
+  get direction(): number | undefined {
+    return this.getValue(ESPCDFParamType.DIRECTION);
+  }
+
+  setSpeed(speed: number, options?: ESPCDFParamWriteOptions): Promise<any> {
+    return this.setValue(ESPCDFParamType.SPEED, speed, options);
+  }
+
+  setDirection(
+    direction: number,
+    options?: ESPCDFParamWriteOptions
+  ): Promise<any> {
+    return this.setValue(ESPCDFParamType.DIRECTION, direction, options);
+  }
+}
+
+/**
+ * `esp.device.thermostat`
+ */
+export class ESPCDFThermostat extends ESPCDFPowerDeviceModel {
+  /** Setpoint (`esp.param.setpoint-temperature`) */
+  get targetTemperature(): number | undefined {
+    return this.getValue(ESPCDFParamType.SETPOINT_TEMPERATURE);
+  }
+
+  /** Measured temperature (`esp.param.temperature`) */
+  get temperature(): number | undefined {
+    return this.getValue(ESPCDFParamType.TEMPERATURE);
+  }
+
+  /** Operating mode (`esp.param.ac-mode`), e.g. "cool", "heat" or "auto" */
+  get mode(): string | undefined {
+    return this.getValue(ESPCDFParamType.AC_MODE);
+  }
+
+  setTargetTemperature(
+    temperature: number,
+    options?: ESPCDFParamWriteOptions
+  ): Promise<any> {
+    return this.setValue(
+      ESPCDFParamType.SETPOINT_TEMPERATURE,
+      temperature,
+      options
+    );
+  }
+
+  setMode(mode: string, options?: ESPCDFParamWriteOptions): Promise<any> {
+    return this.setValue(ESPCDFParamType.AC_MODE, mode, options);
+  }
+}
+
+/**
+ * `esp.device.temperature-sensor`
+ */
+export class ESPCDFTemperatureSensor extends ESPCDFDeviceModel {
+  get temperature(): number | undefined {
+    return this.getValue(ESPCDFParamType.TEMPERATURE);
+  }
+}
+
+/**
+ * `esp.device.blinds-internal` / `esp.device.blinds-external`
+ */
+export class ESPCDFBlinds extends ESPCDFDeviceModel {
+  /** Position in percent (`esp.param.blinds-position`) */
+  get position(): number | undefined {
+    return this.getValue(ESPCDFParamType.BLINDS_POSITION);
+  }
+
+  setPosition(
+    position: number,
+    options?: ESPCDFParamWriteOptions
+  ): Promise<any> {
+    return this.setValue(ESPCDFParamType.BLINDS_POSITION, position, options);
+  }
+}
@@ -4,27 +4,77 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { ESPSDKAdaptor } from "./types/adaptor";
+import { action, observable } from "mobx";
+import { ESPCDFAdaptorCapabilityType, ESPSDKAdaptor } from "./types/adaptor";
+import { ESPCDFAdaptorCompatibilityReport } from "./types/apiVersion";
+import {
+  ESPCDFAdaptorLifecycleHook,
+  ESPCDFAdaptorRegistryEvent,
+  ESPCDFAdaptorRegistryListener,
+} from "./types/registry";
+import { ESPCDFAdaptorMiddleware } from "./types/middleware";
 import { ERROR_MESSAGE_MAP } from "./utils/common";
-import { ESPCDFRegistryError } from "./errors";
+import {
+  ESPCDFMiddlewarePipeline,
+  callThroughMiddleware,
+} from "./utils/adaptorMiddleware";
+import {
+  formatAdaptorConfigIssues,
+  redactAdaptorConfig,
+  validateAdaptorConfig,
+} from "./utils/adaptorConfig";
+import { checkAdaptorCompatibility } from "./utils/apiVersion";
+import { ESPCDFConfigError, ESPCDFRegistryError } from "./errors";
 
 /**
  * Registry for managing SDK adaptors.
  *
- * Provides singleton access to register, retrieve, and manage SDK adaptors
- * that implement the CDF SDK interface. Uses a Proxy to intercept method calls
+ * Registers, retrieves, and manages SDK adaptors that implement the CDF SDK
+ * interface. {@link getInstance} returns the shared default registry; construct
+ * additional registries for independent CDF roots (see `ESPCDF.create`). Uses a Proxy to intercept method calls
  * and provide helpful error messages for unimplemented methods.
+ *
+ * Adaptors may declare the capabilities they support (scenes, Matter fabrics,
+ * OTA, …) so callers can query the registry instead of probing for
+ * unimplemented methods.
+ *
+ * The registered adaptors and the active adaptor are MobX observables, so
+ * computed values such as `userStore.user` recompute when adaptors are switched.
+ * Non-MobX consumers can {@link subscribe} to registry change events, which
+ * also report failing lifecycle hooks and listeners.
+ *
+ * Adaptors that declare a `configSchema` have their config validated on
+ * registration; the resolved config (defaults applied, secrets redacted) is
+ * available through {@link getResolvedConfig}.
+ *
+ * Adaptors targeting another major CDF API version are rejected on
+ * registration; {@link getCompatibilityReport} lists missing and deprecated
+ * operations per adaptor.
+ *
+ * Middleware registered with {@link use} intercept every adaptor method call
+ * and every call on the `operations` delegates of entities the adaptor returns.
  */
 export class AdaptorRegistry {
   private static instance: AdaptorRegistry;
-  private registry: Map<string, ESPSDKAdaptor> = new Map();
-  private _activeAdaptorIdentifier: string | null = null;
+  private registry = observable.map<string, ESPSDKAdaptor>({}, { deep: false });
+  // Unwrapped adaptors, used to invoke optional lifecycle hooks without the Proxy
+  private originals: Map<string, ESPSDKAdaptor> = new Map();
+  // null marks an adaptor that did not declare any capabilities
+  private capabilities: Map<string, Set<string> | null> = new Map();
+  // Adaptor configs with schema defaults applied
+  private resolvedConfigs: Map<string, Record<string, any>> = new Map();
+  private listeners = new Set<ESPCDFAdaptorRegistryListener>();
+  private middlewares: ESPCDFAdaptorMiddleware[] = [];
+  @observable private accessor _activeAdaptorIdentifier: string | null = null;
 
-  private constructor() {}
+  /**
+   * Creates an empty registry, independent of the default instance.
+   */
+  public constructor() {}
 
   /**
-   * Gets the singleton instance of the AdaptorRegistry.
-   * @returns The singleton AdaptorRegistry instance
+   * Gets the shared default instance of the AdaptorRegistry.
+   * @returns The default AdaptorRegistry instance
    */
   public static getInstance(): AdaptorRegistry {
     if (!AdaptorRegistry.instance) {
@@ -35,9 +85,14 @@ export class AdaptorRegistry {
 
   /**
    * Register a new SDK Adaptor
+   * Validates the adaptor config against its `configSchema`, then invokes the
+   * adaptor's `onRegister` hook and emits `adaptorRegistered`.
    * @param adaptor SDK Adaptor implementation
+   * @throws ESPCDFRegistryError if an adaptor with the same identifier is registered
+   * @throws ESPCDFRegistryError if the adaptor targets an incompatible CDF API version
+   * @throws ESPCDFConfigError listing every invalid field if the config does not match the schema
    */
-  public register(adaptor: ESPSDKAdaptor): void {
+  @action public register(adaptor: ESPSDKAdaptor): void {
     if (this.registry.has(adaptor._identifier)) {
       throw new ESPCDFRegistryError(
         ERROR_MESSAGE_MAP.SDK_ADAPTOR_ALREADY_EXISTS(adaptor._identifier),
@@ -46,13 +101,58 @@ export class AdaptorRegistry {
       );
     }
 
+    const compatibility = checkAdaptorCompatibility(adaptor);
+    if (!compatibility.compatible) {
+      throw new ESPCDFRegistryError(
+        ERROR_MESSAGE_MAP.SDK_ADAPTOR_API_VERSION_INCOMPATIBLE(
+          adaptor._identifier,
+          compatibility.adaptorApiVersion,
+          compatibility.coreApiVersion
+        ),
+        "ADAPTOR_API_VERSION_INCOMPATIBLE",
+        { adaptorIdentifier: adaptor._identifier, compatibility }
+      );
+    }
+
+    let resolvedConfig = { ...adaptor.config };
+    if (adaptor.configSchema) {
+      const { issues, config } = validateAdaptorConfig(
+        adaptor.configSchema,
+        adaptor.config
+      );
+      if (issues.length > 0) {
+        throw new ESPCDFConfigError(
+          ERROR_MESSAGE_MAP.SDK_ADAPTOR_CONFIG_INVALID(
+            adaptor._identifier,
+            formatAdaptorConfigIssues(issues)
+          ),
+          "ADAPTOR_CONFIG_INVALID",
+          { adaptorIdentifier: adaptor._identifier, issues }
+        );
+      }
+      resolvedConfig = config;
+    }
+
+    const pipeline: ESPCDFMiddlewarePipeline = {
+      adaptorIdentifier: adaptor._identifier,
+      registry: this,
+      getMiddlewares: () => this.middlewares,
+    };
+
     // Wrap the adaptor in a Proxy that intercepts method calls
     const proxiedAdaptor = new Proxy(adaptor, {
       get(target, prop, receiver) {
         const orig = Reflect.get(target, prop, receiver);
         if (typeof orig === "function") {
           return function (...args: any[]) {
-            return orig.apply(target, args);
+            return callThroughMiddleware(
+              pipeline,
+              "adaptor",
+              String(prop),
+              target,
+              args,
+              (callArgs) => orig.apply(target, callArgs)
+            );
           };
         }
 
@@ -79,6 +179,18 @@ export class AdaptorRegistry {
     }) as ESPSDKAdaptor;
 
     this.registry.set(adaptor._identifier, proxiedAdaptor);
+    this.originals.set(adaptor._identifier, adaptor);
+    this.resolvedConfigs.set(adaptor._identifier, resolvedConfig);
+    this.capabilities.set(
+      adaptor._identifier,
+      Array.isArray(adaptor.capabilities) ? new Set(adaptor.capabilities) : null
+    );
+
+    this.runLifecycleHook(adaptor, "onRegister", this);
+    this.emit({
+      type: "adaptorRegistered",
+      adaptorIdentifier: adaptor._identifier,
+    });
   }
 
   /**
@@ -107,10 +219,12 @@ export class AdaptorRegistry {
 
   /**
    * Removes an adaptor from the registry.
+   * Deactivates it first when it is the active adaptor, then invokes its
+   * `onDispose` hook and emits `adaptorUnregistered`.
    * @param adaptorIdentifier - The identifier of the adaptor to remove
    * @throws Error if the adaptor is not found
    */
-  public unregister(adaptorIdentifier: string): void {
+  @action public unregister(adaptorIdentifier: string): void {
     if (!this.registry.has(adaptorIdentifier)) {
       throw new ESPCDFRegistryError(
         ERROR_MESSAGE_MAP.SDK_ADAPTOR_NOT_FOUND(adaptorIdentifier),
@@ -118,21 +232,31 @@ export class AdaptorRegistry {
         { adaptorIdentifier }
       );
     }
-    this.registry.delete(adaptorIdentifier);
     // Clear the active adaptor if it was the one being unregistered
     if (this._activeAdaptorIdentifier === adaptorIdentifier) {
-      this._activeAdaptorIdentifier = null;
+      this.changeActiveAdaptor(null);
     }
+    const original = this.originals.get(adaptorIdentifier);
+    this.registry.delete(adaptorIdentifier);
+    this.originals.delete(adaptorIdentifier);
+    this.capabilities.delete(adaptorIdentifier);
+    this.resolvedConfigs.delete(adaptorIdentifier);
+    if (original) {
+      this.runLifecycleHook(original, "onDispose");
+    }
+    this.emit({ type: "adaptorUnregistered", adaptorIdentifier });
   }
 
   /**
    * Sets the active SDK adaptor by identifier.
    * The active adaptor is used as the default when no adaptorIdentifier is
    * explicitly provided (e.g. in userStore.auth methods or syncGroupsList).
+   * The previous adaptor's `onDeactivate` and the new adaptor's `onActivate`
+   * hooks are invoked, and `activeAdaptorChanged` is emitted.
    * @param adaptorIdentifier - The identifier of the adaptor to set as active
    * @throws ESPCDFRegistryError if the adaptor is not registered
    */
-  public setActiveAdaptor(adaptorIdentifier: string): void {
+  @action public setActiveAdaptor(adaptorIdentifier: string): void {
     if (!this.registry.has(adaptorIdentifier)) {
       throw new ESPCDFRegistryError(
         ERROR_MESSAGE_MAP.SDK_ADAPTOR_NOT_FOUND(adaptorIdentifier),
@@ -140,7 +264,7 @@ export class AdaptorRegistry {
         { adaptorIdentifier }
       );
     }
-    this._activeAdaptorIdentifier = adaptorIdentifier;
+    this.changeActiveAdaptor(adaptorIdentifier);
   }
 
   /**
@@ -167,12 +291,263 @@ export class AdaptorRegistry {
     return this.getAdaptor(this._activeAdaptorIdentifier);
   }
 
+  /**
+   * Returns the capabilities declared by an adaptor.
+   * @param adaptorIdentifier - The identifier of the adaptor
+   * @returns Declared capabilities (empty when the adaptor declared none)
+   * @throws ESPCDFRegistryError if the adaptor is not registered
+   */
+  public getCapabilities(
+    adaptorIdentifier: string
+  ): ESPCDFAdaptorCapabilityType[] {
+    this.getAdaptor(adaptorIdentifier);
+    return Array.from(this.capabilities.get(adaptorIdentifier) ?? []);
+  }
+
+  /**
+   * Returns an adaptor's config for diagnostics.
+   * Schema defaults are applied; secret fields and credential keys are redacted.
+   * @param adaptorIdentifier - The identifier of the adaptor
+   * @returns Redacted copy of the resolved config
+   * @throws ESPCDFRegistryError if the adaptor is not registered
+   */
+  public getResolvedConfig(adaptorIdentifier: string): Record<string, any> {
+    this.getAdaptor(adaptorIdentifier);
+    return redactAdaptorConfig(
+      this.resolvedConfigs.get(adaptorIdentifier) ?? {},
+      this.originals.get(adaptorIdentifier)?.configSchema
+    );
+  }
+
+  /**
+   * Reports how a registered adaptor matches the CDF API of this core:
+   * declared API version, missing required operations, deprecated and
+   * unknown features.
+   * @param adaptorIdentifier - The identifier of the adaptor
+   * @returns Compatibility report for the adaptor
+   * @throws ESPCDFRegistryError if the adaptor is not registered
+   */
+  public getCompatibilityReport(
+    adaptorIdentifier: string
+  ): ESPCDFAdaptorCompatibilityReport {
+    this.getAdaptor(adaptorIdentifier);
+    return checkAdaptorCompatibility(this.originals.get(adaptorIdentifier)!);
+  }
+
+  /**
+   * Whether the adaptor declared a capability list at registration time.
+   * @param adaptorIdentifier - The identifier of the adaptor
+   * @throws ESPCDFRegistryError if the adaptor is not registered
+   */
+  public declaresCapabilities(adaptorIdentifier: string): boolean {
+    this.getAdaptor(adaptorIdentifier);
+    return this.capabilities.get(adaptorIdentifier) != null;
+  }
+
+  /**
+   * Checks whether an adaptor declared a capability.
+   * @param adaptorIdentifier - The identifier of the adaptor
+   * @param capability - The capability to check
+   * @returns True if the adaptor declared the capability
+   * @throws ESPCDFRegistryError if the adaptor is not registered
+   */
+  public hasCapability(
+    adaptorIdentifier: string,
+    capability: ESPCDFAdaptorCapabilityType
+  ): boolean {
+    this.getAdaptor(adaptorIdentifier);
+    return this.capabilities.get(adaptorIdentifier)?.has(capability) ?? false;
+  }
+
+  /**
+   * Returns every registered adaptor that declared a capability.
+   * @param capability - The capability to look for
+   * @returns Matching adaptors, in registration order
+   */
+  public getAdaptorsWithCapability(
+    capability: ESPCDFAdaptorCapabilityType
+  ): ESPSDKAdaptor[] {
+    return Array.from(this.registry.entries())
+      .filter(([identifier]) =>
+        this.capabilities.get(identifier)?.has(capability)
+      )
+      .map(([, adaptor]) => adaptor);
+  }
+
+  /**
+   * Returns a single adaptor that declared a capability, preferring the active adaptor.
+   * @param capability - The capability to look for
+   * @returns The active adaptor if it has the capability, otherwise the first match
+   * @throws ESPCDFRegistryError if no registered adaptor has the capability
+   */
+  public getAdaptorWithCapability(
+    capability: ESPCDFAdaptorCapabilityType
+  ): ESPSDKAdaptor {
+    const adaptors = this.getAdaptorsWithCapability(capability);
+    if (adaptors.length === 0) {
+      throw new ESPCDFRegistryError(
+        ERROR_MESSAGE_MAP.NO_SDK_WITH_CAPABILITY(capability),
+        "NO_SDK_WITH_CAPABILITY",
+        { capability }
+      );
+    }
+    return (
+      adaptors.find(
+        (adaptor) => adaptor._identifier === this._activeAdaptorIdentifier
+      ) ?? adaptors[0]
+    );
+  }
+
+  /**
+   * Throws if a registered adaptor declared its capabilities and the given one is not among them.
+   * Unregistered adaptors and adaptors without a declared capability list pass through,
+   * so callers can fall back to invoking the operation directly.
+   * @param adaptorIdentifier - The identifier of the adaptor
+   * @param capability - The capability required by the caller
+   * @throws ESPCDFRegistryError if the adaptor does not support the capability
+   */
+  public assertCapability(
+    adaptorIdentifier: string,
+    capability: ESPCDFAdaptorCapabilityType
+  ): void {
+    const declared = this.capabilities.get(adaptorIdentifier);
+    if (!declared || declared.has(capability)) {
+      return;
+    }
+    throw new ESPCDFRegistryError(
+      ERROR_MESSAGE_MAP.SDK_ADAPTOR_CAPABILITY_NOT_SUPPORTED(
+        adaptorIdentifier,
+        capability
+      ),
+      "ADAPTOR_CAPABILITY_NOT_SUPPORTED",
+      { adaptorIdentifier, capability }
+    );
+  }
+
+  /**
+   * Subscribe to registry change events (register, unregister, active adaptor changes, clear).
+   * @param listener - The callback function to register
+   * @returns Unsubscribe function
+   */
+  public subscribe(listener: ESPCDFAdaptorRegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Registers middleware for adaptor calls.
+   * Middleware run in registration order, the first one registered being the
+   * outermost, and apply to calls made on all registered adaptors and on the
+   * entities they created, including entities created before registration.
+   * @param middleware - The middleware to add
+   * @returns Function that removes the middleware
+   */
+  public use(middleware: ESPCDFAdaptorMiddleware): () => void {
+    this.middlewares = [...this.middlewares, middleware];
+    return () => {
+      this.middlewares = this.middlewares.filter((item) => item !== middleware);
+    };
+  }
+
   /**
    * Clears all registered adaptors from the registry.
+   * Deactivates the active adaptor, invokes every adaptor's `onDispose` hook
+   * and emits `registryCleared`.
    */
-  public clear(): void {
+  @action public clear(): void {
+    if (this._activeAdaptorIdentifier !== null) {
+      this.changeActiveAdaptor(null);
+    }
+    const adaptorIdentifiers = Array.from(this.registry.keys());
+    const originals = Array.from(this.originals.values());
     this.registry.clear();
-    this._activeAdaptorIdentifier = null;
+    this.originals.clear();
+    this.capabilities.clear();
+    this.resolvedConfigs.clear();
+    originals.forEach((adaptor) => this.runLifecycleHook(adaptor, "onDispose"));
+    this.emit({ type: "registryCleared", adaptorIdentifiers });
+  }
+
+  /**
+   * Switches the active adaptor, running deactivate/activate hooks and emitting the change.
+   */
+  private changeActiveAdaptor(adaptorIdentifier: string | null): void {
+    const previousAdaptorIdentifier = this._activeAdaptorIdentifier;
+    if (previousAdaptorIdentifier === adaptorIdentifier) {
+      return;
+    }
+
+    const previous = previousAdaptorIdentifier
+      ? this.originals.get(previousAdaptorIdentifier)
+      : undefined;
+    if (previous) {
+      this.runLifecycleHook(previous, "onDeactivate");
+    }
+
+    this._activeAdaptorIdentifier = adaptorIdentifier;
+
+    const next = adaptorIdentifier
+      ? this.originals.get(adaptorIdentifier)
+      : undefined;
+    if (next) {
+      this.runLifecycleHook(next, "onActivate");
+    }
+
+    this.emit({
+      type: "activeAdaptorChanged",
+      adaptorIdentifier,
+      previousAdaptorIdentifier,
+    });
+  }
+
+  /**
+   * Invokes an optional adaptor lifecycle hook, reporting sync errors and
+   * async rejections as `adaptorHookFailed` events.
+   */
+  private runLifecycleHook(
+    adaptor: ESPSDKAdaptor,
+    hook: ESPCDFAdaptorLifecycleHook,
+    ...args: any[]
+  ): void {
+    const fn = adaptor[hook] as
+      | ((...hookArgs: any[]) => void | Promise<void>)
+      | undefined;
+    if (typeof fn !== "function") {
+      return;
+    }
+    const reportError = (error: unknown) =>
+      this.emit({
+        type: "adaptorHookFailed",
+        adaptorIdentifier: adaptor._identifier,
+        hook,
+        error,
+      });
+    try {
+      const result = fn.apply(adaptor, args);
+      if (result && typeof (result as Promise<void>).catch === "function") {
+        (result as Promise<void>).catch(reportError);
+      }
+    } catch (error) {
+      reportError(error);
+    }
+  }
+
+  /**
+   * Emit a registry change event to all registered listeners.
+   * Listener failures are reported as `listenerFailed` events.
+   */
+  private emit(event: ESPCDFAdaptorRegistryEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        if (event.type !== "listenerFailed") {
+          this.emit({ type: "listenerFailed", eventType: event.type, error });
+        }
+      }
+    });
   }
 }
 
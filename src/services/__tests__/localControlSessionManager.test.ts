@@ -0,0 +1,165 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../../store/index";
+import { ESPCDFNode } from "../../entities/ESPCDFNode";
+import { ESPCDFLocalControlAdapterInterface } from "../../types";
+import { ESPCDFInMemoryAdaptor, createInMemoryCDF } from "../../testing";
+import {
+  ESPCDFServiceParamType,
+  ESPCDFServiceType,
+} from "../../utils/constants";
+import { getAdaptorScopedKey } from "../../utils/adaptorScope";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("ESPCDFLocalControlSessionManager", () => {
+  let cdf: ESPCDF;
+  let node: ESPCDFNode;
+  let connected: boolean;
+  let adapter: Record<keyof ESPCDFLocalControlAdapterInterface, jest.Mock>;
+
+  beforeEach(async () => {
+    connected = false;
+    adapter = {
+      isConnected: jest.fn(async () => connected),
+      connect: jest.fn(async () => {
+        connected = true;
+        return {};
+      }),
+      sendData: jest.fn(async () => JSON.stringify({ Light: { Power: true } })),
+    };
+    let adaptor: ESPCDFInMemoryAdaptor;
+    ({ cdf, adaptor } = await createInMemoryCDF({
+      config: {
+        localControl: {
+          adapter,
+          keepAliveIntervalMs: 10,
+          reconnectDelayMs: 5,
+          maxReconnectAttempts: 2,
+        },
+      },
+    }));
+    adaptor.backend.getNode("node_light").services!.push({
+      name: "Local Control",
+      type: ESPCDFServiceType.LOCAL_CONTROL,
+      params: [
+        {
+          name: "Type",
+          type: ESPCDFServiceParamType.LOCAL_CONTROL.TYPE,
+          dataType: "int",
+          properties: ["read"],
+          value: 1,
+        },
+        {
+          name: "POP",
+          type: ESPCDFServiceParamType.LOCAL_CONTROL.POP,
+          dataType: "string",
+          properties: ["read"],
+          value: "abcd1234",
+        },
+      ],
+    });
+    cdf.subscriptionStore.registerTransport("node_light", {
+      type: "local",
+      metadata: { baseUrl: "http://192.168.1.20" },
+    });
+    await cdf.userStore.user!.syncHomeWithNodes();
+    node = cdf.nodeStore.getNodeById("node_light")!;
+  });
+
+  afterEach(async () => {
+    await cdf.destroy();
+  });
+
+  test("connects with the local transport and local control service", async () => {
+    const session = await cdf.localControl!.connect(node.id);
+
+    expect(adapter.connect).toHaveBeenCalledWith(
+      node.id,
+      "http://192.168.1.20",
+      1,
+      "abcd1234",
+      undefined
+    );
+    expect(session).toMatchObject({
+      nodeId: node.id,
+      adaptorIdentifier: node.adaptorIdentifier,
+      status: "connected",
+      baseUrl: "http://192.168.1.20",
+      securityType: 1,
+    });
+    expect(Object.keys(cdf.subscriptionStore.localControlSessions)).toEqual([
+      getAdaptorScopedKey(node.adaptorIdentifier, node.id),
+    ]);
+  });
+
+  test("fails to connect to nodes without a local transport", async () => {
+    await expect(
+      cdf.localControl!.connect("node_switch")
+    ).rejects.toMatchObject({ errorCode: "LOCAL_TRANSPORT_UNAVAILABLE" });
+    await expect(
+      cdf.localControl!.connect(node.id, "other_adaptor")
+    ).rejects.toMatchObject({ errorCode: "LOCAL_TRANSPORT_UNAVAILABLE" });
+    expect(adapter.connect).not.toHaveBeenCalled();
+  });
+
+  test("reconnects a session whose keep-alive check fails", async () => {
+    await cdf.localControl!.connect(node.id);
+
+    connected = false;
+    await wait(50);
+
+    expect(adapter.connect).toHaveBeenCalledTimes(2);
+    expect(cdf.localControl!.getSession(node.id)).toMatchObject({
+      status: "connected",
+      reconnectAttempts: 0,
+    });
+  });
+
+  test("drops a connection attempt still in flight on disconnect", async () => {
+    let finishConnect!: () => void;
+    adapter.connect.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finishConnect = () => resolve({});
+        })
+    );
+
+    const session = cdf.localControl!.connect(node.id);
+    cdf.localControl!.disconnect(node.id);
+    finishConnect();
+
+    await expect(session).rejects.toMatchObject({
+      errorCode: "LOCAL_CONTROL_SESSION_CLOSED",
+    });
+    await wait(30);
+    expect(cdf.subscriptionStore.localControlSessions).toEqual({});
+    expect(adapter.isConnected).not.toHaveBeenCalled();
+  });
+
+  test("serves params over a registered local transport only", async () => {
+    expect(cdf.transportRouter.getTransport("local")).toBeUndefined();
+    expect(cdf.transportRouter.getRoute(node)).toEqual(["cloud"]);
+
+    const encode = jest.fn(() => "request");
+    cdf.transportRouter.register(
+      cdf.localControl!.createParamTransport({ encode, decode: JSON.parse })
+    );
+    const route = await cdf.transportRouter.getParams(node);
+
+    expect(route.transport).toBe("local");
+    expect(encode).toHaveBeenCalledWith({ operation: "getParams" });
+    expect(adapter.sendData).toHaveBeenCalledWith(
+      node.id,
+      "esp_local_ctrl/control",
+      "request"
+    );
+    expect(
+      node.devices![0].params.find((param) => param.name === "Power")!.value
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../../store/index";
+import {
+  ESPCDFLocalDiscoveryManager,
+  mapLocalDiscoveryResult,
+} from "../localDiscoveryManager";
+import { createInMemoryCDF } from "../../testing";
+
+describe("mapLocalDiscoveryResult", () => {
+  test("maps TXT records and addresses to a node", () => {
+    expect(
+      mapLocalDiscoveryResult({
+        txt: { node_id: "node_light" },
+        host: "192.168.1.20",
+      })
+    ).toEqual({
+      nodeId: "node_light",
+      baseUrl: "http://192.168.1.20:8080",
+      metadata: { host: "192.168.1.20", port: 8080 },
+    });
+    expect(
+      mapLocalDiscoveryResult({ nodeId: "node_light", baseUrl: "http://a" })
+    ).toEqual({ nodeId: "node_light", baseUrl: "http://a" });
+  });
+
+  test("skips results without a node id or address", () => {
+    expect(mapLocalDiscoveryResult({ host: "192.168.1.20" })).toBeUndefined();
+    expect(mapLocalDiscoveryResult({ node_id: "node_light" })).toBeUndefined();
+  });
+});
+
+describe("ESPCDFLocalDiscoveryManager", () => {
+  let cdf: ESPCDF;
+  let discovery: ESPCDFLocalDiscoveryManager;
+  let announce: ((data: Record<string, any>) => void) | undefined;
+  const adapter = {
+    startDiscovery: jest.fn(
+      async (callback: (data: Record<string, any>) => void) => {
+        announce = callback;
+        return () => {
+          announce = undefined;
+        };
+      }
+    ),
+    stopDiscovery: jest.fn(async () => {}),
+  };
+  const localTransport = () =>
+    cdf.nodeStore.getNodeById("node_light")!.availableTransports?.local;
+
+  beforeEach(async () => {
+    ({ cdf } = await createInMemoryCDF({
+      config: { localDiscovery: { adapter, ttlMs: 1000 } },
+    }));
+    discovery = cdf.localDiscovery!;
+    jest.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await cdf.destroy();
+    jest.clearAllMocks();
+  });
+
+  test("registers the local transport of announced nodes", async () => {
+    await discovery.start();
+    await discovery.start();
+    announce!({ txt: { node_id: "node_light" }, host: "192.168.1.20" });
+
+    expect(adapter.startDiscovery).toHaveBeenCalledTimes(1);
+    expect(localTransport()).toEqual({
+      type: "local",
+      metadata: {
+        host: "192.168.1.20",
+        port: 8080,
+        baseUrl: "http://192.168.1.20:8080",
+      },
+    });
+    expect(discovery.discoveredNodeIds).toEqual(["node_light"]);
+  });
+
+  test("removes transports not announced again within the TTL", async () => {
+    await discovery.start();
+    announce!({ node_id: "node_light", host: "192.168.1.20" });
+
+    jest.advanceTimersByTime(800);
+    announce!({ node_id: "node_light", host: "192.168.1.20" });
+    jest.advanceTimersByTime(800);
+    expect(localTransport()).toBeDefined();
+
+    jest.advanceTimersByTime(200);
+    expect(localTransport()).toBeUndefined();
+    expect(
+      cdf.subscriptionStore.registeredTransports.node_light?.local
+    ).toBeUndefined();
+    expect(discovery.discoveredNodeIds).toEqual([]);
+  });
+
+  test("keeps transports while paused and restarts the TTL on resume", async () => {
+    await discovery.start();
+    announce!({ node_id: "node_light", host: "192.168.1.20" });
+
+    await discovery.pause();
+    expect(adapter.stopDiscovery).toHaveBeenCalledTimes(1);
+    expect(announce).toBeUndefined();
+    jest.advanceTimersByTime(5000);
+    expect(localTransport()).toBeDefined();
+
+    await discovery.resume();
+    expect(adapter.startDiscovery).toHaveBeenCalledTimes(2);
+    jest.advanceTimersByTime(999);
+    expect(localTransport()).toBeDefined();
+    jest.advanceTimersByTime(1);
+    expect(localTransport()).toBeUndefined();
+  });
+
+  test("removes discovered transports on dispose", async () => {
+    await discovery.start();
+    announce!({ node_id: "node_light", host: "192.168.1.20" });
+
+    await discovery.dispose();
+
+    expect(localTransport()).toBeUndefined();
+    expect(discovery.isDiscovering).toBe(false);
+    expect(discovery.discoveredNodeIds).toEqual([]);
+  });
+});
@@ -0,0 +1,225 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isObservable } from "mobx";
+import { ESPCDF } from "../../store/index";
+import { ESPCDFNode } from "../../entities/ESPCDFNode";
+import { ESPCDFDeviceParam } from "../../entities/ESPCDFDeviceParam";
+import { ESPCDFPropertyChangeEvent } from "../../types";
+import { ESPCDFInMemoryAdaptor, createInMemoryCDF } from "../../testing";
+import { createFaultInjectionMiddleware } from "../../utils/adaptorMiddleware";
+import { EVENT_NODE_PARAMS_CHANGED } from "../../utils/constants";
+import { handleNodeConfigChanged } from "../nodeEventHandlers";
+
+describe("handleNodeConfigChanged", () => {
+  let cdf: ESPCDF;
+  let adaptor: ESPCDFInMemoryAdaptor;
+  let node: ESPCDFNode;
+  const logger = { warn: jest.fn(), error: jest.fn() };
+
+  beforeEach(async () => {
+    ({ cdf, adaptor } = await createInMemoryCDF({ config: { logger } }));
+    node = cdf.nodeStore.getNodeById("node_light")!;
+  });
+
+  afterEach(async () => {
+    await cdf.destroy();
+    jest.clearAllMocks();
+  });
+
+  test("merges added and removed devices and params into the node", async () => {
+    const device = node.devices![0];
+    const power = device.params.find((p) => p.name === "Power")!;
+    const previousPower = power.value;
+    const light = adaptor.backend.getNode(node.id);
+    light.devices[0].params = light.devices[0].params
+      .filter((param) => param.name !== "Brightness")
+      .map((param) =>
+        param.name === "Power" ? { ...param, value: !previousPower } : param
+      );
+    light.devices[0].params.push({
+      name: "Hue",
+      type: "esp.param.hue",
+      dataType: "int",
+      properties: ["read", "write"],
+      value: 120,
+    });
+    light.devices.push({
+      name: "Night Light",
+      type: "esp.device.lightbulb",
+      params: [
+        {
+          name: "Power",
+          type: "esp.param.power",
+          dataType: "bool",
+          properties: ["read", "write"],
+          value: false,
+        },
+      ],
+    });
+    const events: ESPCDFPropertyChangeEvent[] = [];
+    node.onPropertyChange((event) => events.push(event));
+
+    await handleNodeConfigChanged(cdf, node.id);
+
+    expect(cdf.nodeStore.getNodeById(node.id)).toBe(node);
+    expect(node.devices![0]).toBe(device);
+    expect(device.params.find((p) => p.name === "Power")).toBe(power);
+    expect(power.value).toBe(!previousPower);
+    expect(device.params.map((p) => p.name)).not.toContain("Brightness");
+    expect(isObservable(device.params.find((p) => p.name === "Hue"))).toBe(
+      true
+    );
+    expect(node.devices!.map((d) => d.name)).toEqual(["Light", "Night Light"]);
+    expect(events.map((event) => event.type)).toEqual([
+      "deviceParamChanged",
+      "nodeConfigChanged",
+    ]);
+    expect(events[1]).toMatchObject({
+      addedDevices: ["Night Light"],
+      removedDevices: [],
+      addedParams: [{ kind: "device", entityName: "Light", paramName: "Hue" }],
+      removedParams: [
+        { kind: "device", entityName: "Light", paramName: "Brightness" },
+      ],
+    });
+  });
+
+  test("tracks writes to params added by a config change", async () => {
+    adaptor.backend.getNode(node.id).devices[0].params.push({
+      name: "Hue",
+      type: "esp.param.hue",
+      dataType: "int",
+      properties: ["read", "write"],
+      value: 120,
+    });
+    await handleNodeConfigChanged(cdf, node.id);
+    const hue = node.devices![0].params.find((p) => p.name === "Hue")!;
+    const events: ESPCDFPropertyChangeEvent[] = [];
+    node.onPropertyChange((event) => events.push(event));
+
+    await hue.setValue(200);
+
+    expect(hue.value).toBe(200);
+    expect(events[0]).toMatchObject({
+      type: "deviceParamChanged",
+      paramName: "Hue",
+      value: 200,
+      oldValue: 120,
+      source: "user",
+    });
+  });
+
+  test("reports failed refetches to the logger and keeps the node", async () => {
+    const devices = node.devices;
+    const removeFault = cdf.sdkAdaptorRegistry.use(
+      createFaultInjectionMiddleware()
+    );
+
+    await handleNodeConfigChanged(cdf, node.id);
+    removeFault();
+
+    expect(node.devices).toBe(devices);
+    expect(logger.error).toHaveBeenCalledWith(
+      "[NodeEventHandlers] Error handling node config changed event:",
+      expect.objectContaining({ errorCode: "FAULT_INJECTED" })
+    );
+  });
+});
+
+describe("handleNodeParamsChanged", () => {
+  let cdf: ESPCDF;
+  let node: ESPCDFNode;
+  let param: ESPCDFDeviceParam;
+  const sendBrightness = (value: number, timestamp?: number) =>
+    cdf.subscriptionStore.nodeUpdates.listen({
+      event_type: EVENT_NODE_PARAMS_CHANGED,
+      node_id: node.id,
+      payload: { Light: { Brightness: value } },
+      timestamp,
+    });
+
+  beforeEach(async () => {
+    ({ cdf } = await createInMemoryCDF());
+    node = cdf.nodeStore.getNodeById("node_light")!;
+    param = node.devices![0].params.find((p) => p.name === "Brightness")!;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await cdf.destroy();
+  });
+
+  test("drops updates older than the param's lastUpdatedAt", async () => {
+    await param.setValue(20);
+    const lastUpdatedAt = param.lastUpdatedAt!;
+    const events: ESPCDFPropertyChangeEvent[] = [];
+    node.onPropertyChange((event) => events.push(event));
+
+    sendBrightness(5, lastUpdatedAt - 10000);
+
+    expect(param.value).toBe(20);
+    expect(param.lastUpdatedAt).toBe(lastUpdatedAt);
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: "staleParamUpdate",
+        kind: "device",
+        entityName: "Light",
+        paramName: "Brightness",
+        value: 5,
+        timestamp: lastUpdatedAt - 10000,
+        lastUpdatedAt,
+      }),
+    ]);
+  });
+
+  test("applies updates within the clock skew tolerance without moving lastUpdatedAt back", async () => {
+    await param.setValue(20);
+    const lastUpdatedAt = param.lastUpdatedAt!;
+
+    sendBrightness(6, lastUpdatedAt - 500);
+    expect(param.value).toBe(6);
+    expect(param.lastUpdatedAt).toBe(lastUpdatedAt);
+
+    sendBrightness(7, lastUpdatedAt + 500);
+    expect(param.lastUpdatedAt).toBe(lastUpdatedAt + 500);
+  });
+
+  test("reads timestamps in epoch seconds as seconds", async () => {
+    await param.setValue(20);
+    const seconds = Math.floor(param.lastUpdatedAt! / 1000);
+
+    sendBrightness(7, seconds - 60);
+    expect(param.value).toBe(20);
+
+    sendBrightness(8, seconds + 5);
+    expect(param.value).toBe(8);
+    expect(param.lastUpdatedAt).toBe((seconds + 5) * 1000);
+  });
+
+  test("treats invalid timestamps as missing", async () => {
+    await param.setValue(20);
+
+    sendBrightness(9, 0);
+    expect(param.value).toBe(9);
+
+    sendBrightness(10, NaN);
+    expect(param.value).toBe(10);
+  });
+
+  test("does not roll a failed write back to a stale update", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    await param.setValue(20);
+    const lastUpdatedAt = param.lastUpdatedAt!;
+    cdf.sdkAdaptorRegistry.use(createFaultInjectionMiddleware());
+
+    const write = param.setValue(30, { optimistic: true });
+    sendBrightness(5, lastUpdatedAt - 10000);
+    await expect(write).rejects.toThrow();
+
+    expect(param.value).toBe(20);
+  });
+});
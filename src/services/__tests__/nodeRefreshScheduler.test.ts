@@ -0,0 +1,128 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { reaction } from "mobx";
+import { ESPCDF } from "../../store/index";
+import { ESPCDFNode } from "../../entities/ESPCDFNode";
+import { ESPCDFPropertyChangeEvent } from "../../types";
+import { ESPCDFInMemoryAdaptor, createInMemoryCDF } from "../../testing";
+import { createFaultInjectionMiddleware } from "../../utils/adaptorMiddleware";
+import { EVENT_NODE_PARAMS_CHANGED } from "../../utils/constants";
+
+describe("ESPCDFNodeRefreshScheduler", () => {
+  let cdf: ESPCDF;
+  let node: ESPCDFNode;
+  const logger = { warn: jest.fn(), error: jest.fn() };
+  const sendParams = (payload: Record<string, Record<string, unknown>>) =>
+    cdf.subscriptionStore.nodeUpdates.listen({
+      event_type: EVENT_NODE_PARAMS_CHANGED,
+      node_id: node.id,
+      payload,
+      timestamp: Date.now(),
+    });
+
+  beforeEach(async () => {
+    let adaptor: ESPCDFInMemoryAdaptor;
+    ({ cdf, adaptor } = await createInMemoryCDF({
+      config: { nodeRefresh: { debounceMs: 20 }, logger },
+    }));
+    node = cdf.nodeStore.getNodeById("node_light")!;
+    // Adds a param the stored node does not know yet
+    const light = adaptor.backend.getNode(node.id).devices[0];
+    const brightness = light.params.find((p) => p.name === "Brightness")!;
+    light.params.push({ ...brightness, name: "Color Temperature", value: 1 });
+  });
+
+  afterEach(async () => {
+    await cdf.destroy();
+    jest.clearAllMocks();
+  });
+
+  test("reloads a device with unknown params and applies the kept updates", async () => {
+    sendParams({ Light: { "Color Temperature": 5 } });
+    expect(node.needsRefresh).toBe(true);
+    expect(cdf.nodeRefresh.getUnmatchedUpdates(node.id)).toEqual([
+      expect.objectContaining({
+        kind: "device",
+        entityName: "Light",
+        paramName: "Color Temperature",
+        value: 5,
+      }),
+    ]);
+
+    await cdf.nodeRefresh.flush();
+
+    expect(node.needsRefresh).toBe(false);
+    expect(
+      node.devices![0].params.find((p) => p.name === "Color Temperature")?.value
+    ).toBe(5);
+    expect(cdf.nodeRefresh.pendingCount).toBe(0);
+  });
+
+  test("keeps existing params and their reactions across a reload", async () => {
+    const brightness = node.devices![0].params.find(
+      (p) => p.name === "Brightness"
+    )!;
+    const seen: unknown[] = [];
+    const stop = reaction(
+      () => brightness.value,
+      (value) => seen.push(value)
+    );
+    const events: ESPCDFPropertyChangeEvent[] = [];
+    node.onPropertyChange((event) => events.push(event));
+
+    sendParams({ Light: { "Color Temperature": 5 } });
+    await cdf.nodeRefresh.flush();
+
+    expect(node.devices![0].params.find((p) => p.name === "Brightness")).toBe(
+      brightness
+    );
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "nodeConfigChanged",
+        addedParams: [
+          {
+            kind: "device",
+            entityName: "Light",
+            paramName: "Color Temperature",
+          },
+        ],
+      })
+    );
+
+    sendParams({ Light: { Brightness: 44 } });
+    await brightness.setValue(55);
+    expect(seen).toEqual([44, 55]);
+    stop();
+  });
+
+  test("keeps the node marked and warns the logger when updates still do not match", async () => {
+    sendParams({ Light: { Unknown: 1 } });
+    await cdf.nodeRefresh.flush(node.id);
+
+    expect(node.needsRefresh).toBe(true);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "[ESPCDFNodeRefreshScheduler] 1 param update(s) still do not match node node_light after reload"
+    );
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  test("reports failed reloads to the logger", async () => {
+    const removeFault = cdf.sdkAdaptorRegistry.use(
+      createFaultInjectionMiddleware()
+    );
+
+    sendParams({ Light: { "Color Temperature": 5 } });
+    await cdf.nodeRefresh.flush(node.id);
+    removeFault();
+
+    expect(node.needsRefresh).toBe(true);
+    expect(logger.error).toHaveBeenCalledWith(
+      "[ESPCDFNodeRefreshScheduler] Failed to reload node node_light:",
+      expect.objectContaining({ errorCode: "FAULT_INJECTED" })
+    );
+  });
+});
@@ -0,0 +1,112 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFParamControlRegistry } from "../paramControlRegistry";
+import { ESPCDFDescribedParam } from "../../types";
+import { ESPCDFParamUIType } from "../../utils/constants";
+
+describe("ESPCDFParamControlRegistry", () => {
+  let registry: ESPCDFParamControlRegistry;
+  const describeParam = (param: Omit<ESPCDFDescribedParam, "name">) =>
+    registry.describe({ name: "Param", ...param });
+
+  beforeEach(() => {
+    registry = new ESPCDFParamControlRegistry();
+  });
+
+  test("describes params by their uiType", () => {
+    const toggle = describeParam({
+      dataType: "bool",
+      uiType: ESPCDFParamUIType.TOGGLE,
+      properties: ["read", "write"],
+    });
+    expect([toggle.kind, toggle.readOnly, toggle.format(true)]).toEqual([
+      "toggle",
+      false,
+      "On",
+    ]);
+
+    const slider = describeParam({
+      dataType: "int",
+      uiType: ESPCDFParamUIType.SLIDER,
+      bounds: { min: 0, max: 100, step: 5 },
+    });
+    expect([slider.kind, slider.range, slider.step]).toEqual([
+      "slider",
+      { min: 0, max: 100 },
+      5,
+    ]);
+
+    const hue = describeParam({
+      dataType: "int",
+      uiType: ESPCDFParamUIType.HUE_SLIDER,
+    });
+    expect([hue.kind, hue.range, hue.format(120)]).toEqual([
+      "hue",
+      { min: 0, max: 360 },
+      "120°",
+    ]);
+  });
+
+  test("lists dropdown options from valid strings or numeric bounds", () => {
+    expect(
+      describeParam({
+        dataType: "string",
+        uiType: ESPCDFParamUIType.DROPDOWN,
+        bounds: { validStrings: ["Auto", "Cool"] },
+      }).options
+    ).toEqual([
+      { label: "Auto", value: "Auto" },
+      { label: "Cool", value: "Cool" },
+    ]);
+    expect(
+      describeParam({
+        dataType: "int",
+        uiType: ESPCDFParamUIType.DROPDOWN,
+        bounds: { min: 1, max: 3 },
+      }).options!.map((option) => option.value)
+    ).toEqual([1, 2, 3]);
+  });
+
+  test("infers a control when the uiType is missing or unknown", () => {
+    const readOnly = describeParam({
+      dataType: "float",
+      bounds: { min: 0, max: 1, step: 0.1 },
+      properties: ["read"],
+    });
+    expect([readOnly.kind, readOnly.readOnly, readOnly.format(0.3)]).toEqual([
+      "slider",
+      true,
+      "0.3",
+    ]);
+    expect(describeParam({ dataType: "string" }).kind).toBe("text");
+    expect(describeParam({ dataType: "float" }).kind).toBe("number");
+
+    const unknown = describeParam({
+      dataType: "object",
+      uiType: "custom.ui.unknown",
+    });
+    expect([unknown.kind, unknown.format({ on: true })]).toEqual([
+      "text",
+      '{"on":true}',
+    ]);
+  });
+
+  test("registers resolvers and restores the replaced one", () => {
+    const unregister = registry.register(
+      ESPCDFParamUIType.TOGGLE,
+      (_param, descriptor) => ({ ...descriptor, kind: "hidden" })
+    );
+    expect(
+      describeParam({ dataType: "bool", uiType: ESPCDFParamUIType.TOGGLE }).kind
+    ).toBe("hidden");
+
+    unregister();
+    expect(
+      describeParam({ dataType: "bool", uiType: ESPCDFParamUIType.TOGGLE }).kind
+    ).toBe("toggle");
+  });
+});
@@ -0,0 +1,174 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../../store/index";
+import { createInMemoryCDF, ESPCDFInMemoryAdaptor } from "../../testing";
+
+const getBackendValue = (
+  adaptor: ESPCDFInMemoryAdaptor,
+  nodeId: string,
+  paramName: string
+) =>
+  adaptor.backend
+    .getNode(nodeId)
+    .devices[0].params.find((p) => p.name === paramName)!.value;
+
+describe("ESPCDFParamTransaction", () => {
+  let cdf: ESPCDF;
+  let adaptor: ESPCDFInMemoryAdaptor;
+  let methods: string[];
+
+  beforeEach(async () => {
+    ({ cdf, adaptor } = await createInMemoryCDF());
+    methods = [];
+    cdf.sdkAdaptorRegistry.use((context, next) => {
+      methods.push(context.method);
+      return next();
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await cdf.destroy();
+  });
+
+  test("sends one setMultipleParams per node and reports per-node results", async () => {
+    const result = await cdf
+      .createParamTransaction()
+      .set({
+        nodeId: "node_light",
+        deviceName: "Light",
+        param: "Brightness",
+        value: 10,
+      })
+      .set({
+        nodeId: "node_light",
+        deviceName: "Light",
+        param: "Brightness",
+        value: "40",
+      })
+      .set({
+        nodeId: "node_light",
+        deviceName: "Light",
+        param: "Power",
+        value: true,
+      })
+      .set({
+        nodeId: "node_switch",
+        deviceName: "Switch",
+        param: "Power",
+        value: false,
+      })
+      .set({
+        nodeId: "node_missing",
+        deviceName: "Light",
+        param: "Power",
+        value: true,
+      })
+      .commit();
+
+    expect(methods).toEqual(["setMultipleParams", "setMultipleParams"]);
+    expect(result.successfulResults).toEqual([
+      expect.objectContaining({
+        nodeId: "node_light",
+        payload: { Light: [{ Brightness: 40 }, { Power: true }] },
+      }),
+      expect.objectContaining({ nodeId: "node_switch" }),
+    ]);
+    expect(result.failedResults).toEqual([
+      expect.objectContaining({ nodeId: "node_missing" }),
+    ]);
+    expect(getBackendValue(adaptor, "node_light", "Brightness")).toBe(40);
+  });
+
+  test("fails nodes with invalid values without sending them", async () => {
+    const result = await cdf
+      .createParamTransaction()
+      .set({
+        nodeId: "node_light",
+        deviceName: "Light",
+        param: "Brightness",
+        value: 500,
+      })
+      .commit();
+
+    expect(methods).toEqual([]);
+    expect(result.failedResults[0].error).toMatchObject({
+      errorCode: "PARAM_VALUE_INVALID",
+    });
+  });
+
+  test("reports the per-node results of a multi-node call", async () => {
+    const power = cdf.nodeStore
+      .getNodeById("node_switch")!
+      .devices![0].params.find((p) => p.name === "Power")!;
+    const previousPower = power.value;
+    // Revoke access to one node after it was stored
+    adaptor.backend.nodes.delete("node_switch");
+
+    const result = await cdf
+      .createParamTransaction()
+      .set({
+        nodeId: "node_light",
+        deviceName: "Light",
+        param: "Brightness",
+        value: 60,
+      })
+      .set({
+        nodeId: "node_switch",
+        deviceName: "Switch",
+        param: "Power",
+        value: !previousPower,
+      })
+      .commit({ strategy: "multiNode" });
+
+    expect(methods).toEqual(["setMultipleNodesParams"]);
+    expect(result.successfulResults.map(({ nodeId }) => nodeId)).toEqual([
+      "node_light",
+    ]);
+    expect(result.failedResults).toEqual([
+      expect.objectContaining({
+        nodeId: "node_switch",
+        error: expect.objectContaining({ errorCode: "NODE_PARAMS_FAILED" }),
+      }),
+    ]);
+    const light = cdf.nodeStore.getNodeById("node_light")!;
+    expect(
+      light.devices![0].params.find((p) => p.name === "Brightness")!.value
+    ).toBe(60);
+    expect(power.value).toBe(previousPower);
+  });
+
+  test("fails every node of a rejected multi-node call", async () => {
+    cdf.sdkAdaptorRegistry.use((context, next) =>
+      context.method === "setMultipleNodesParams"
+        ? Promise.reject(new Error("offline"))
+        : next()
+    );
+
+    const result = await cdf
+      .createParamTransaction()
+      .set({
+        nodeId: "node_light",
+        deviceName: "Light",
+        param: "Brightness",
+        value: 70,
+      })
+      .set({
+        nodeId: "node_switch",
+        deviceName: "Switch",
+        param: "Power",
+        value: true,
+      })
+      .commit({ strategy: "multiNode" });
+
+    expect(result.successfulResults).toEqual([]);
+    expect(result.failedResults.map(({ error }) => error)).toEqual([
+      new Error("offline"),
+      new Error("offline"),
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../../store/index";
+import { ESPCDFNode } from "../../entities/ESPCDFNode";
+import { ESPCDFDeviceParam } from "../../entities/ESPCDFDeviceParam";
+import { createInMemoryCDF } from "../../testing";
+import { EVENT_NODE_PARAMS_CHANGED } from "../../utils/constants";
+
+describe("ESPCDFParamWriteScheduler", () => {
+  let cdf: ESPCDF;
+  let node: ESPCDFNode;
+  let brightness: ESPCDFDeviceParam;
+  let power: ESPCDFDeviceParam;
+  let payloads: any[];
+
+  beforeEach(async () => {
+    ({ cdf } = await createInMemoryCDF({
+      config: { paramWriteScheduler: { debounceMs: 5, maxWaitMs: 50 } },
+    }));
+    node = cdf.nodeStore.getNodeById("node_light")!;
+    brightness = node.devices![0].params.find((p) => p.name === "Brightness")!;
+    power = node.devices![0].params.find((p) => p.name === "Power")!;
+    payloads = [];
+    cdf.sdkAdaptorRegistry.use((context, next) => {
+      if (context.method === "setMultipleParams") {
+        payloads.push(context.args[0]);
+      }
+      return next();
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await cdf.destroy();
+  });
+
+  test("coalesces writes per param and batches params of a node", async () => {
+    const scheduler = cdf.paramWriteScheduler;
+
+    const responses = await Promise.all([
+      ...[10, 20, 30].map((value) =>
+        scheduler.write(node, "Light", "Brightness", value)
+      ),
+      scheduler.setValue(node, power, "true"),
+    ]);
+
+    expect(payloads).toEqual([
+      { Light: [{ Brightness: 30 }, { Power: true }] },
+    ]);
+    expect(new Set(responses).size).toBe(1);
+    expect(brightness.value).toBe(30);
+    expect(power.value).toBe(true);
+  });
+
+  test("rejects invalid values for their own caller only", async () => {
+    const valid = cdf.paramWriteScheduler.write(
+      node,
+      "Light",
+      "Brightness",
+      40
+    );
+
+    await expect(
+      cdf.paramWriteScheduler.write(node, "Light", "Brightness", 500)
+    ).rejects.toMatchObject({ errorCode: "PARAM_VALUE_INVALID" });
+    await expect(valid).resolves.toBeDefined();
+    expect(payloads).toEqual([{ Light: [{ Brightness: 40 }] }]);
+  });
+
+  test("sends on flush and rejects cancelled writes", async () => {
+    const flushed = cdf.paramWriteScheduler.write(
+      node,
+      "Light",
+      "Brightness",
+      15
+    );
+    await cdf.paramWriteScheduler.flush(node);
+    await flushed;
+    const cancelled = cdf.paramWriteScheduler.write(
+      node,
+      "Light",
+      "Brightness",
+      25
+    );
+    expect(cdf.paramWriteScheduler.pendingCount).toBe(1);
+    await cdf.reset();
+
+    await expect(cancelled).rejects.toThrow(/cancelled/);
+    expect(payloads).toHaveLength(1);
+  });
+
+  test("routes coalesced setValue through the scheduler with its options", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const optimistic = brightness.setValue(20, {
+      coalesce: true,
+      optimistic: true,
+    });
+    const plain = power.setValue(true, { coalesce: true });
+    await expect(
+      brightness.setValue("loud", { coalesce: true })
+    ).rejects.toMatchObject({ errorCode: "PARAM_VALUE_INVALID" });
+    await Promise.all([optimistic, plain]);
+
+    // Optimistic and plain writes go out as separate batches
+    expect(payloads).toHaveLength(2);
+    expect(payloads).toEqual(
+      expect.arrayContaining([
+        { Light: [{ Brightness: 20 }] },
+        { Light: [{ Power: true }] },
+      ])
+    );
+    expect(brightness.value).toBe(20);
+  });
+
+  test("reports the written value of coalesced setValue calls", async () => {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    cdf.sdkAdaptorRegistry.use(async (context, next) => {
+      if (context.method === "setMultipleParams") await released;
+      return next();
+    });
+    const written: any[] = [];
+    brightness.subscribe((_param, operation, success, data) => {
+      if (operation === "setValue" && success) written.push(data);
+    });
+
+    const write = brightness.setValue("30", { coalesce: true });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    cdf.subscriptionStore.nodeUpdates.listen({
+      event_type: EVENT_NODE_PARAMS_CHANGED,
+      node_id: node.id,
+      payload: { Light: { Brightness: 77 } },
+    });
+    release();
+    await write;
+
+    expect(written).toEqual([30]);
+  });
+});
@@ -0,0 +1,116 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../../store/index";
+import { ESPCDFNode } from "../../entities/ESPCDFNode";
+import { ESPCDFPropertyChangeEvent } from "../../types";
+import { createInMemoryCDF } from "../../testing";
+import {
+  EVENT_NODE_CONNECTED,
+  EVENT_NODE_PARAMS_CHANGED,
+} from "../../utils/constants";
+
+describe("ESPCDFPropertyChangeBus", () => {
+  let cdf: ESPCDF;
+  const logger = { warn: jest.fn(), error: jest.fn() };
+  const sendParams = (nodeId: string, payload: Record<string, any>) =>
+    cdf.subscriptionStore.nodeUpdates.listen({
+      event_type: EVENT_NODE_PARAMS_CHANGED,
+      node_id: nodeId,
+      payload,
+      timestamp: Date.now(),
+    });
+
+  beforeEach(async () => {
+    ({ cdf } = await createInMemoryCDF({ config: { logger } }));
+  });
+
+  afterEach(async () => {
+    await cdf.destroy();
+    jest.clearAllMocks();
+  });
+
+  test("delivers the events of all nodes matching the filter", () => {
+    const brightness: number[] = [];
+    const connected: string[] = [];
+    const inHome: string[] = [];
+    cdf.propertyChanges.subscribe(
+      (event) =>
+        event.type === "deviceParamChanged" && brightness.push(event.value),
+      { nodeId: "node_light", paramName: "Brightness" }
+    );
+    cdf.propertyChanges.subscribe((_event, node) => connected.push(node.id), {
+      type: ["connectivityStatusChanged"],
+    });
+    cdf.propertyChanges.subscribe((_event, node) => inHome.push(node.id), {
+      groupId: "home_demo",
+      type: "deviceParamChanged",
+    });
+
+    sendParams("node_light", { Light: { Brightness: 11 } });
+    sendParams("node_light", { Light: { Power: true } });
+    sendParams("node_switch", { Switch: { Power: false } });
+    cdf.subscriptionStore.nodeUpdates.listen({
+      event_type: EVENT_NODE_CONNECTED,
+      node_id: "node_switch",
+      timestamp: Date.now(),
+    });
+
+    expect(brightness).toEqual([11]);
+    expect(connected).toEqual(["node_switch"]);
+    expect(inHome).toEqual(["node_light", "node_light", "node_switch"]);
+  });
+
+  test("keeps delivering events of nodes replaced by a re-sync", async () => {
+    const brightness: number[] = [];
+    cdf.propertyChanges.subscribe(
+      (event) =>
+        event.type === "deviceParamChanged" && brightness.push(event.value),
+      { nodeId: "node_light", paramName: "Brightness" }
+    );
+    const previous = cdf.nodeStore.getNodeById("node_light");
+
+    await cdf.userStore.user!.syncHomeWithNodes();
+    sendParams("node_light", { Light: { Brightness: 12 } });
+
+    expect(cdf.nodeStore.getNodeById("node_light")).not.toBe(previous);
+    expect(brightness).toEqual([12]);
+  });
+
+  test("stops delivering events on unsubscribe and dispose", async () => {
+    const events: ESPCDFPropertyChangeEvent[] = [];
+    const unsubscribe = cdf.propertyChanges.subscribe((event) =>
+      events.push(event)
+    );
+    cdf.propertyChanges.subscribe(() => {});
+    expect(cdf.propertyChanges.size).toBe(2);
+
+    unsubscribe();
+    sendParams("node_light", { Light: { Brightness: 13 } });
+    expect(events).toEqual([]);
+    expect(cdf.propertyChanges.size).toBe(1);
+
+    await cdf.destroy();
+    expect(cdf.propertyChanges.size).toBe(0);
+  });
+
+  test("reports listener errors to the logger and keeps notifying other listeners", () => {
+    const error = new Error("listener failed");
+    const delivered: ESPCDFNode[] = [];
+    cdf.propertyChanges.subscribe(() => {
+      throw error;
+    });
+    cdf.propertyChanges.subscribe((_event, node) => delivered.push(node));
+
+    sendParams("node_light", { Light: { Brightness: 14 } });
+
+    expect(delivered.map((node) => node.id)).toEqual(["node_light"]);
+    expect(logger.error).toHaveBeenCalledWith(
+      "[ESPCDFPropertyChangeBus] Property change listener failed:",
+      error
+    );
+  });
+});
@@ -0,0 +1,190 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFParamTransport } from "../../types";
+import { createInMemoryCDF } from "../../testing";
+
+async function setup() {
+  const logger = { warn: jest.fn(), error: jest.fn() };
+  const { cdf, adaptor } = await createInMemoryCDF({
+    config: { paramWriteScheduler: { debounceMs: 5, maxWaitMs: 50 }, logger },
+  });
+  const node = cdf.nodeStore.getNodeById("node_light")!;
+  const param = node.devices![0].params.find((p) => p.name === "Brightness")!;
+  const brightness = () => param.value;
+  const makeLocalAvailable = () =>
+    cdf.nodeStore.updateNode(node.id, {
+      availableTransports: {
+        ...node.availableTransports,
+        cloud: { type: "cloud", metadata: {} },
+        local: { type: "local", metadata: { baseUrl: "http://192.168.1.20" } },
+      },
+    });
+  return { cdf, adaptor, logger, node, param, brightness, makeLocalAvailable };
+}
+
+describe("ESPCDFTransportRouter", () => {
+  let context: Awaited<ReturnType<typeof setup>>;
+  let localFails: boolean;
+  let localWrites: unknown[];
+  const local: ESPCDFParamTransport = {
+    type: "local",
+    setParams: async (_node, params) => {
+      if (localFails) throw new Error("local control unreachable");
+      localWrites.push(params);
+    },
+    getParams: async () => ({ Light: { Brightness: 77 } }),
+  };
+
+  beforeEach(async () => {
+    context = await setup();
+    localFails = false;
+    localWrites = [];
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await context.cdf.destroy();
+  });
+
+  test("writes over cloud when no other transport is available", async () => {
+    const { cdf, node, brightness } = context;
+
+    const route = await cdf.transportRouter.setParams(node, {
+      Light: { Brightness: 33 },
+    });
+
+    expect(route.transport).toBe("cloud");
+    expect(brightness()).toBe(33);
+  });
+
+  test("routes over available transports missing from transportOrder", () => {
+    const { cdf, node, makeLocalAvailable } = context;
+    cdf.transportRouter.register(local);
+    makeLocalAvailable();
+    node.transportOrder = ["cloud"];
+
+    expect(cdf.transportRouter.getRoute(node)).toEqual(["cloud", "local"]);
+  });
+
+  test("tries preferred transports first", () => {
+    const { cdf, node, makeLocalAvailable } = context;
+    cdf.transportRouter.register({ ...local, preferred: true });
+    makeLocalAvailable();
+    node.transportOrder = ["cloud"];
+
+    expect(cdf.transportRouter.getRoute(node)).toEqual(["local", "cloud"]);
+  });
+
+  test("falls back to the next transport when one fails", async () => {
+    const { cdf, node, brightness, makeLocalAvailable } = context;
+    cdf.transportRouter.register(local);
+    makeLocalAvailable();
+    node.transportOrder = ["local", "cloud"];
+
+    let route = await cdf.transportRouter.setParams(node, {
+      Light: { Brightness: 40 },
+    });
+    expect(route.transport).toBe("local");
+    expect(localWrites).toEqual([{ Light: { Brightness: 40 } }]);
+
+    localFails = true;
+    route = await cdf.transportRouter.setParams(node, {
+      Light: { Brightness: 45 },
+    });
+    expect(route.transport).toBe("cloud");
+    expect(route.failedAttempts.map(({ transport }) => transport)).toEqual([
+      "local",
+    ]);
+    expect(node.lastUsedTransport).toBe("cloud");
+    expect(brightness()).toBe(45);
+  });
+
+  test("applies values read over a transport to the node", async () => {
+    const { cdf, node, brightness, makeLocalAvailable } = context;
+    cdf.transportRouter.register(local);
+    makeLocalAvailable();
+    node.transportOrder = ["local", "cloud"];
+
+    const route = await cdf.transportRouter.getParams(node);
+
+    expect(route.transport).toBe("local");
+    expect(brightness()).toBe(77);
+  });
+
+  test("routes param and node writes over the node's transports", async () => {
+    const { cdf, node, param, brightness, makeLocalAvailable } = context;
+    cdf.transportRouter.register(local);
+    makeLocalAvailable();
+    node.transportOrder = ["local", "cloud"];
+
+    await param.setValue(12);
+    await node.setMultipleParams({ Light: [{ Brightness: 14 }] });
+    await cdf.paramWriteScheduler.write(node, "Light", "Brightness", 16);
+
+    expect(localWrites).toEqual([
+      { Light: { Brightness: 12 } },
+      { Light: { Brightness: 14 } },
+      { Light: { Brightness: 16 } },
+    ]);
+    expect(node.lastUsedTransport).toBe("local");
+    expect(brightness()).toBe(16);
+  });
+
+  test("routes writes of nodes with client-registered transports", async () => {
+    const { cdf } = context;
+    cdf.transportRouter.register({ ...local, preferred: true });
+    cdf.subscriptionStore.registerTransport("node_light", {
+      type: "local",
+      metadata: { baseUrl: "http://192.168.1.20" },
+    });
+    await cdf.userStore.user!.syncHomeWithNodes();
+    const node = cdf.nodeStore.getNodeById("node_light")!;
+
+    await node.setMultipleParams({ Light: [{ Brightness: 18 }] });
+
+    expect(localWrites).toEqual([{ Light: { Brightness: 18 } }]);
+    expect(node.lastUsedTransport).toBe("local");
+  });
+
+  test("fails operations on nodes without available transports", async () => {
+    const { cdf, adaptor, node, param } = context;
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    cdf.nodeStore.updateNode(node.id, { availableTransports: {} });
+    const previous = param.value;
+
+    await expect(param.setValue(21)).rejects.toMatchObject({
+      errorCode: "NODE_TRANSPORTS_MISSING",
+    });
+    await expect(cdf.transportRouter.getParams(node)).rejects.toMatchObject({
+      errorCode: "NODE_TRANSPORTS_MISSING",
+    });
+    expect(param.value).toBe(previous);
+    expect(
+      adaptor.backend
+        .getNode(node.id)
+        .devices[0].params.find((p) => p.name === "Brightness")!.value
+    ).toBe(previous);
+  });
+
+  test("reports errors of route listeners to the logger", async () => {
+    const { cdf, logger, node } = context;
+    const error = new Error("listener failed");
+    const transports: string[] = [];
+    cdf.transportRouter.subscribe(() => {
+      throw error;
+    });
+    cdf.transportRouter.subscribe((route) => transports.push(route.transport));
+
+    await cdf.transportRouter.setParams(node, { Light: { Brightness: 34 } });
+
+    expect(transports).toEqual(["cloud"]);
+    expect(logger.error).toHaveBeenCalledWith(
+      "[ESPCDFTransportRouter] Error in route listener:",
+      error
+    );
+  });
+});
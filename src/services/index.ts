@@ -1 +1,9 @@
-export * from "./nodeEventHandlers";
\ No newline at end of file
+export * from "./localControlSessionManager";
+export * from "./localDiscoveryManager";
+export * from "./nodeEventHandlers";
+export * from "./nodeRefreshScheduler";
+export * from "./paramControlRegistry";
+export * from "./paramTransaction";
+export * from "./paramWriteScheduler";
+export * from "./propertyChangeBus";
+export * from "./transportRouter";
@@ -0,0 +1,422 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../store/index";
+import {
+  ESPCDFLocalControlAdapterInterface,
+  ESPCDFLocalControlSession,
+  ESPCDFLocalControlSessionOptions,
+  ESPCDFLocalControlSessionStatus,
+  ESPCDFLocalControlTransportOptions,
+  ESPCDFNodeTransport,
+  ESPCDFParamTransport,
+} from "../types";
+import { ESPCDFTransportError } from "../errors";
+import { ERROR_MESSAGE_MAP } from "../utils/common";
+import { ESPCDFServiceParamType, ESPCDFServiceType } from "../utils/constants";
+import {
+  getAdaptorScopedKey,
+  parseAdaptorScopedKey,
+} from "../utils/adaptorScope";
+
+const DEFAULT_KEEP_ALIVE_INTERVAL_MS = 30000;
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 5;
+
+/**
+ * Local control endpoint of ESP RainMaker nodes.
+ */
+export const ESPCDF_LOCAL_CONTROL_PATH = "esp_local_ctrl/control";
+
+interface SessionTimers {
+  keepAlive?: ReturnType<typeof setInterval>;
+  reconnect?: ReturnType<typeof setTimeout>;
+  connecting?: Promise<void>;
+  // Set by disconnect, so connection attempts still in flight are dropped
+  closed?: boolean;
+}
+
+interface LocalControlTarget {
+  baseUrl: string;
+  securityType: number;
+  pop?: string;
+}
+
+/**
+ * Drives {@link ESPCDFLocalControlAdapterInterface} to keep local control
+ * sessions with nodes on the LAN.
+ *
+ * Sessions connect with the `baseUrl` of the node's `local` transport and the
+ * security type and proof of possession from its `esp.service.local_control`
+ * service params. Connected sessions are checked every `keepAliveIntervalMs`
+ * and reconnected with exponential backoff when the check or a `sendData`
+ * call fails. Session state is kept in `subscriptionStore.localControlSessions`
+ * under adaptor-scoped node keys. Methods taking a node id without an adaptor
+ * identifier use the adaptor of the stored node, as `nodeStore.getNodeById`
+ * does.
+ *
+ * @example
+ * const cdf = ESPCDF.create({ localControl: { adapter: nativeLocalControl } });
+ * cdf.transportRouter.register(
+ *   cdf.localControl!.createParamTransport({ encode, decode })
+ * );
+ */
+export class ESPCDFLocalControlSessionManager {
+  // Keyed by adaptor-scoped node key
+  private timers = new Map<string, SessionTimers>();
+
+  constructor(
+    private rootStore: ESPCDF,
+    private adapter: ESPCDFLocalControlAdapterInterface,
+    private options: ESPCDFLocalControlSessionOptions = {}
+  ) {}
+
+  /**
+   * Returns the local control session of a node, if any.
+   * @param nodeId - CDF node id
+   * @param adaptorIdentifier - Adaptor of the node
+   */
+  getSession(
+    nodeId: string,
+    adaptorIdentifier?: string
+  ): ESPCDFLocalControlSession | undefined {
+    return this.getSessionByKey(this.getNodeKey(nodeId, adaptorIdentifier));
+  }
+
+  /**
+   * Connects to a node, or waits for the pending connection attempt.
+   * @param nodeId - CDF node id
+   * @param adaptorIdentifier - Adaptor of the node
+   * @returns The connected session
+   * @throws ESPCDFTransportError if the node has no local transport, the connection fails or the session is closed while connecting
+   */
+  async connect(
+    nodeId: string,
+    adaptorIdentifier?: string
+  ): Promise<ESPCDFLocalControlSession> {
+    return this.connectByKey(this.getNodeKey(nodeId, adaptorIdentifier));
+  }
+
+  /**
+   * Sends data to a node over its local control session, connecting first if
+   * needed. A failed call schedules a reconnect.
+   * @param nodeId - CDF node id
+   * @param path - Local control endpoint, e.g. {@link ESPCDF_LOCAL_CONTROL_PATH}
+   * @param data - Encoded request
+   * @param adaptorIdentifier - Adaptor of the node
+   * @returns The node's response
+   */
+  async sendData(
+    nodeId: string,
+    path: string,
+    data: string,
+    adaptorIdentifier?: string
+  ): Promise<string> {
+    const key = this.getNodeKey(nodeId, adaptorIdentifier);
+    if (this.getSessionByKey(key)?.status !== "connected") {
+      await this.connectByKey(key);
+    }
+    try {
+      return await this.adapter.sendData(nodeId, path, data);
+    } catch (error) {
+      this.handleConnectionLost(key, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Closes the session of a node and removes its state from the store.
+   * Connection attempts still in flight are dropped.
+   * @param nodeId - CDF node id
+   * @param adaptorIdentifier - Adaptor of the node
+   */
+  disconnect(nodeId: string, adaptorIdentifier?: string): void {
+    this.close(this.getNodeKey(nodeId, adaptorIdentifier));
+  }
+
+  /**
+   * Closes every session, e.g. on logout.
+   */
+  disconnectAll(): void {
+    const keys = new Set([
+      ...this.timers.keys(),
+      ...Object.keys(this.rootStore.subscriptionStore.localControlSessions),
+    ]);
+    keys.forEach((key) => this.close(key));
+  }
+
+  /**
+   * Closes every session
+   */
+  dispose(): void {
+    this.disconnectAll();
+  }
+
+  /**
+   * Creates a `local` param transport for `ESPCDFTransportRouter` that sends
+   * param reads and writes over the local control sessions of this manager.
+   * The transport is `preferred`, so nodes with a local transport are reached
+   * locally before the transports of their `transportOrder`. It is not
+   * registered by default: the request encoding of the node firmware must be
+   * supplied.
+   * @param options - Endpoint and request encoding
+   * @returns Param transport of type `local`
+   */
+  createParamTransport(
+    options: ESPCDFLocalControlTransportOptions
+  ): ESPCDFParamTransport {
+    const { path = ESPCDF_LOCAL_CONTROL_PATH, encode, decode } = options;
+    return {
+      type: ESPCDFNodeTransport.LOCAL,
+      preferred: true,
+      setParams: async (node, params) => {
+        await this.sendData(
+          node.id,
+          path,
+          encode({ operation: "setParams", params }),
+          node.adaptorIdentifier
+        );
+      },
+      getParams: async (node) =>
+        decode(
+          await this.sendData(
+            node.id,
+            path,
+            encode({ operation: "getParams" }),
+            node.adaptorIdentifier
+          )
+        ),
+    };
+  }
+
+  /**
+   * Returns the adaptor-scoped key of a node, taking the adaptor of the
+   * stored node when none is given.
+   */
+  private getNodeKey(nodeId: string, adaptorIdentifier?: string): string {
+    return getAdaptorScopedKey(
+      adaptorIdentifier ??
+        this.rootStore.nodeStore.getNodeById(nodeId)?.adaptorIdentifier,
+      nodeId
+    );
+  }
+
+  private async connectByKey(key: string): Promise<ESPCDFLocalControlSession> {
+    const timers = this.getTimers(key);
+    if (!timers.connecting) {
+      clearTimeout(timers.reconnect);
+      timers.connecting = this.openSession(key, "connecting", timers).finally(
+        () => {
+          timers.connecting = undefined;
+        }
+      );
+    }
+    try {
+      await timers.connecting;
+    } catch (error) {
+      if (!timers.closed) {
+        this.updateSession(key, {
+          status: "failed",
+          lastError: getErrorMessage(error),
+        });
+      }
+      throw error;
+    }
+    return this.getSessionByKey(key)!;
+  }
+
+  private getSessionByKey(key: string): ESPCDFLocalControlSession | undefined {
+    return this.rootStore.subscriptionStore.localControlSessions[key];
+  }
+
+  private close(key: string): void {
+    const timers = this.timers.get(key);
+    if (timers) {
+      timers.closed = true;
+      clearInterval(timers.keepAlive);
+      clearTimeout(timers.reconnect);
+      this.timers.delete(key);
+    }
+    const { adaptorIdentifier, id } = parseAdaptorScopedKey(key);
+    this.rootStore.subscriptionStore.removeLocalControlSession(
+      id,
+      adaptorIdentifier
+    );
+  }
+
+  private async openSession(
+    key: string,
+    status: ESPCDFLocalControlSessionStatus,
+    timers: SessionTimers
+  ): Promise<void> {
+    const { id: nodeId } = parseAdaptorScopedKey(key);
+    const target = this.resolveTarget(key);
+    this.updateSession(key, {
+      status,
+      baseUrl: target.baseUrl,
+      securityType: target.securityType,
+    });
+    try {
+      await this.adapter.connect(
+        nodeId,
+        target.baseUrl,
+        target.securityType,
+        target.pop,
+        this.options.username
+      );
+    } catch (error) {
+      throw new ESPCDFTransportError(
+        ERROR_MESSAGE_MAP.LOCAL_CONTROL_CONNECT_FAILED(nodeId),
+        "LOCAL_CONTROL_CONNECT_FAILED",
+        { nodeId, baseUrl: target.baseUrl },
+        error instanceof Error ? error : undefined
+      );
+    }
+    if (timers.closed) {
+      throw new ESPCDFTransportError(
+        ERROR_MESSAGE_MAP.LOCAL_CONTROL_SESSION_CLOSED(nodeId),
+        "LOCAL_CONTROL_SESSION_CLOSED",
+        { nodeId }
+      );
+    }
+    this.updateSession(key, {
+      status: "connected",
+      connectedAt: Date.now(),
+      reconnectAttempts: 0,
+      lastError: undefined,
+    });
+    this.startKeepAlive(key, timers);
+  }
+
+  /**
+   * Reads the connection parameters of a node from its `local` transport and
+   * local control service.
+   */
+  private resolveTarget(key: string): LocalControlTarget {
+    const { adaptorIdentifier, id: nodeId } = parseAdaptorScopedKey(key);
+    const node = adaptorIdentifier
+      ? this.rootStore.nodeStore.getNodeById(nodeId, adaptorIdentifier)
+      : undefined;
+    const baseUrl =
+      node?.availableTransports?.[ESPCDFNodeTransport.LOCAL]?.metadata?.baseUrl;
+    if (!node || typeof baseUrl !== "string" || !baseUrl) {
+      throw new ESPCDFTransportError(
+        ERROR_MESSAGE_MAP.LOCAL_TRANSPORT_UNAVAILABLE(nodeId),
+        "LOCAL_TRANSPORT_UNAVAILABLE",
+        { nodeId, adaptorIdentifier }
+      );
+    }
+
+    const params =
+      node.services?.find(
+        (service) => service.type === ESPCDFServiceType.LOCAL_CONTROL
+      )?.params ?? [];
+    const findValue = (type: string) =>
+      params.find((param) => param.type === type)?.value;
+    const securityType = Number(
+      findValue(ESPCDFServiceParamType.LOCAL_CONTROL.TYPE) ?? 0
+    );
+    const pop = findValue(ESPCDFServiceParamType.LOCAL_CONTROL.POP);
+    return {
+      baseUrl,
+      securityType: Number.isNaN(securityType) ? 0 : securityType,
+      pop: pop === undefined || pop === null ? undefined : String(pop),
+    };
+  }
+
+  private startKeepAlive(key: string, timers: SessionTimers): void {
+    const { id: nodeId } = parseAdaptorScopedKey(key);
+    clearInterval(timers.keepAlive);
+    timers.keepAlive = setInterval(() => {
+      if (this.getSessionByKey(key)?.status !== "connected") return;
+      this.adapter.isConnected(nodeId).then(
+        (connected) => {
+          if (!connected) {
+            this.handleConnectionLost(key, undefined);
+          }
+        },
+        (error) => this.handleConnectionLost(key, error)
+      );
+    }, this.options.keepAliveIntervalMs ?? DEFAULT_KEEP_ALIVE_INTERVAL_MS);
+  }
+
+  private handleConnectionLost(key: string, error: unknown): void {
+    const session = this.getSessionByKey(key);
+    if (!session || session.status !== "connected") return;
+    clearInterval(this.getTimers(key).keepAlive);
+    this.scheduleReconnect(key, error);
+  }
+
+  private scheduleReconnect(key: string, error: unknown): void {
+    const session = this.getSessionByKey(key);
+    if (!session) return;
+    const timers = this.getTimers(key);
+    const attempts = session.reconnectAttempts + 1;
+    const lastError = getErrorMessage(error);
+    if (
+      attempts >
+      (this.options.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS)
+    ) {
+      this.updateSession(key, { status: "failed", lastError });
+      return;
+    }
+
+    this.updateSession(key, {
+      status: "reconnecting",
+      reconnectAttempts: attempts,
+      lastError,
+    });
+    const delay = Math.min(
+      (this.options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS) *
+        2 ** (attempts - 1),
+      this.options.maxReconnectDelayMs ?? DEFAULT_MAX_RECONNECT_DELAY_MS
+    );
+    clearTimeout(timers.reconnect);
+    timers.reconnect = setTimeout(() => {
+      timers.reconnect = undefined;
+      timers.connecting = this.openSession(key, "reconnecting", timers)
+        .catch((reconnectError) => {
+          if (!timers.closed) {
+            this.scheduleReconnect(key, reconnectError);
+          }
+        })
+        .finally(() => {
+          timers.connecting = undefined;
+        });
+    }, delay);
+  }
+
+  private updateSession(
+    key: string,
+    update: Partial<ESPCDFLocalControlSession>
+  ): void {
+    const { adaptorIdentifier, id: nodeId } = parseAdaptorScopedKey(key);
+    const session: ESPCDFLocalControlSession = {
+      nodeId,
+      adaptorIdentifier: adaptorIdentifier || undefined,
+      status: "connecting",
+      reconnectAttempts: 0,
+      ...this.getSessionByKey(key),
+      ...update,
+    };
+    this.rootStore.subscriptionStore.setLocalControlSession(session);
+  }
+
+  private getTimers(key: string): SessionTimers {
+    let timers = this.timers.get(key);
+    if (!timers) {
+      timers = {};
+      this.timers.set(key, timers);
+    }
+    return timers;
+  }
+}
+
+function getErrorMessage(error: unknown): string | undefined {
+  if (error === undefined) return undefined;
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,244 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../store/index";
+import {
+  ESPCDFDiscoveredNode,
+  ESPCDFLocalDiscoveryAdapterInterface,
+  ESPCDFLocalDiscoveryOptions,
+  ESPCDFNodeTransport,
+  ESPCDFTransportConfig,
+} from "../types";
+import {
+  handleAddNodeTransport,
+  handleRemoveNodeTransport,
+} from "./nodeEventHandlers";
+
+const DEFAULT_TTL_MS = 60000;
+// Default HTTP port of ESP local control
+const DEFAULT_LOCAL_CONTROL_PORT = 8080;
+
+interface DiscoveryEntry {
+  transport: ESPCDFTransportConfig;
+  lastSeenAt: number;
+  expiry?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Maps an mDNS-style discovery result to a node.
+ *
+ * The node id is read from `nodeId`, `node_id` or the `node_id` TXT record,
+ * and the base URL from `baseUrl` or the `host` (or `ip`) and `port` fields.
+ * @param data - Discovery result reported by the adapter
+ * @returns The discovered node, or undefined if the result has no node id or address
+ */
+export function mapLocalDiscoveryResult(
+  data: Record<string, any>
+): ESPCDFDiscoveredNode | undefined {
+  const txt = data?.txt ?? data?.txtRecord ?? {};
+  const nodeId = data?.nodeId ?? data?.node_id ?? txt.node_id;
+  const host = data?.host ?? data?.ip ?? data?.addresses?.[0];
+  const port = data?.port ?? DEFAULT_LOCAL_CONTROL_PORT;
+  const baseUrl =
+    data?.baseUrl ?? (host ? `http://${host}:${port}` : undefined);
+  if (!nodeId || !baseUrl) return undefined;
+  return {
+    nodeId: String(nodeId),
+    baseUrl,
+    metadata: host ? { host, port } : undefined,
+  };
+}
+
+/**
+ * Runs local discovery through {@link ESPCDFLocalDiscoveryAdapterInterface}
+ * and keeps the `local` transports of discovered nodes up to date.
+ *
+ * Every announcement registers (or refreshes) the node's `local` transport
+ * with {@link handleAddNodeTransport}; a node not announced again within
+ * `ttlMs` has its transport removed with {@link handleRemoveNodeTransport}
+ * and its local control session closed. While paused (e.g. when the app is
+ * backgrounded) discovery is stopped and transports do not expire; the TTL
+ * restarts on {@link resume}.
+ *
+ * @example
+ * await cdf.localDiscovery!.start();
+ * AppState.addEventListener("change", (state) =>
+ *   state === "active" ? cdf.localDiscovery!.resume() : cdf.localDiscovery!.pause()
+ * );
+ */
+export class ESPCDFLocalDiscoveryManager {
+  private entries = new Map<string, DiscoveryEntry>();
+  private stopListening?: () => void;
+  private discovering = false;
+  private paused = false;
+
+  constructor(
+    private rootStore: ESPCDF,
+    private adapter: ESPCDFLocalDiscoveryAdapterInterface,
+    private options: ESPCDFLocalDiscoveryOptions = {}
+  ) {}
+
+  /**
+   * Whether discovery was started and not stopped; stays true while paused.
+   */
+  get isDiscovering(): boolean {
+    return this.discovering;
+  }
+
+  /**
+   * Whether discovery is paused, e.g. while the app is backgrounded.
+   */
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Nodes whose `local` transport is currently registered by discovery.
+   */
+  get discoveredNodeIds(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Returns when a node was last announced, if it is currently discovered.
+   */
+  getLastSeenAt(nodeId: string): number | undefined {
+    return this.entries.get(nodeId)?.lastSeenAt;
+  }
+
+  /**
+   * Starts discovery. Does nothing if discovery is already running.
+   */
+  async start(): Promise<void> {
+    if (this.discovering) return;
+    this.discovering = true;
+    if (!this.paused) {
+      await this.startAdapter();
+    }
+  }
+
+  /**
+   * Stops discovery. Transports already registered still expire after
+   * `ttlMs` without re-announcement.
+   */
+  async stop(): Promise<void> {
+    if (!this.discovering) return;
+    this.discovering = false;
+    if (!this.paused) {
+      await this.stopAdapter();
+    }
+  }
+
+  /**
+   * Stops discovery and transport expiry, e.g. when the app is backgrounded.
+   */
+  async pause(): Promise<void> {
+    if (this.paused) return;
+    this.paused = true;
+    this.entries.forEach((entry) => clearTimeout(entry.expiry));
+    if (this.discovering) {
+      await this.stopAdapter();
+    }
+  }
+
+  /**
+   * Restarts discovery and transport expiry after {@link pause}. Discovered
+   * nodes get a full TTL to be announced again.
+   */
+  async resume(): Promise<void> {
+    if (!this.paused) return;
+    this.paused = false;
+    this.entries.forEach((_, nodeId) => this.scheduleExpiry(nodeId));
+    if (this.discovering) {
+      await this.startAdapter();
+    }
+  }
+
+  /**
+   * Applies a discovery result. Called for every result reported by the
+   * adapter; can also be called with results received elsewhere.
+   * @param data - Discovery result
+   */
+  handleResult(data: Record<string, any>): void {
+    const discovered = (this.options.mapResult ?? mapLocalDiscoveryResult)(
+      data
+    );
+    if (!discovered) return;
+
+    const transport: ESPCDFTransportConfig = {
+      type: ESPCDFNodeTransport.LOCAL,
+      metadata: { ...discovered.metadata, baseUrl: discovered.baseUrl },
+    };
+    const entry = this.entries.get(discovered.nodeId);
+    // Re-announcements only refresh the TTL unless the address changed
+    if (
+      !entry ||
+      JSON.stringify(entry.transport.metadata) !==
+        JSON.stringify(transport.metadata)
+    ) {
+      handleAddNodeTransport(this.rootStore, discovered.nodeId, transport);
+    }
+    this.entries.set(discovered.nodeId, {
+      transport,
+      lastSeenAt: Date.now(),
+      expiry: entry?.expiry,
+    });
+    if (!this.paused) {
+      this.scheduleExpiry(discovered.nodeId);
+    }
+  }
+
+  /**
+   * Stops discovery and removes the transports of discovered nodes, closing
+   * their local control sessions, e.g. on logout. The manager can be started
+   * again.
+   */
+  async dispose(): Promise<void> {
+    Array.from(this.entries.keys()).forEach((nodeId) => {
+      clearTimeout(this.entries.get(nodeId)?.expiry);
+      this.expire(nodeId);
+    });
+    await this.stop();
+    this.paused = false;
+  }
+
+  private scheduleExpiry(nodeId: string): void {
+    const entry = this.entries.get(nodeId);
+    if (!entry) return;
+    clearTimeout(entry.expiry);
+    entry.expiry = setTimeout(
+      () => this.expire(nodeId),
+      this.options.ttlMs ?? DEFAULT_TTL_MS
+    );
+  }
+
+  private expire(nodeId: string): void {
+    const entry = this.entries.get(nodeId);
+    if (!entry) return;
+    this.entries.delete(nodeId);
+    handleRemoveNodeTransport(this.rootStore, nodeId, entry.transport);
+    this.rootStore.localControl?.disconnect(nodeId);
+  }
+
+  private async startAdapter(): Promise<void> {
+    try {
+      this.stopListening = await this.adapter.startDiscovery(
+        (data) => this.handleResult(data),
+        this.options.params ?? {}
+      );
+    } catch (error) {
+      this.discovering = false;
+      throw error;
+    }
+  }
+
+  private async stopAdapter(): Promise<void> {
+    const stopListening = this.stopListening;
+    this.stopListening = undefined;
+    stopListening?.();
+    await this.adapter.stopDiscovery();
+  }
+}
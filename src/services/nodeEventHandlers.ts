@@ -7,9 +7,19 @@
 import { action, observable as mobxObservable } from "mobx";
 import { ESPCDFNode } from "../entities/ESPCDFNode";
 import { ESPCDF } from "../store/index";
-import { ESPCDFTransportConfig } from "../types";
+import { isEqual, makeEverythingObservable } from "../utils/common";
+import {
+  ESPCDFNodeConfigChangedEvent,
+  ESPCDFNodeUpdateContext,
+  ESPCDFNodeUpdateEvent,
+  ESPCDFNodeUpdateHandlerDefinition,
+  ESPCDFNodeUpdateHandlerWrapper,
+  ESPCDFParamChangeSource,
+  ESPCDFTransportConfig,
+} from "../types";
 import {
   EVENT_NODE_PARAMS_CHANGED,
+  EVENT_NODE_CONFIG_CHANGED,
   EVENT_USER_NODE_ADDED,
   EVENT_USER_NODE_REMOVED,
   EVENT_NODE_CONNECTED,
@@ -31,23 +41,82 @@ export function safelyParsePayload(payload: any): any {
   return payload;
 }
 
-type ParamHolder = { params?: { name: string; value?: unknown }[] };
+// Event timestamps below this are in seconds (ms values passed it in 2001)
+const MIN_MS_TIMESTAMP = 1e12;
+// Allowed clock difference between the reporting side and this client
+const STALE_UPDATE_TOLERANCE_MS = 2000;
+
+/**
+ * Returns an event timestamp in ms, or `undefined` if it is missing or invalid.
+ * RainMaker reports epoch seconds.
+ */
+function normalizeEventTimestamp(timestamp?: number): number | undefined {
+  if (typeof timestamp !== "number" || !Number.isFinite(timestamp) || timestamp <= 0) {
+    return undefined;
+  }
+  return timestamp < MIN_MS_TIMESTAMP ? timestamp * 1000 : timestamp;
+}
+
+type ParamHolder = {
+  params?: {
+    name: string;
+    value?: unknown;
+    lastUpdatedAt?: number;
+    recordConfirmedValue?: (value: unknown, updatedAt: number) => void;
+  }[];
+};
 
+/**
+ * Applies param updates to a device or service.
+ * @returns The updates naming params unknown to the holder
+ */
 function applyNamedEntityParamUpdates(
   node: ESPCDFNode,
   entityName: string,
   params: Record<string, unknown>,
   kind: "device" | "service",
-  holder: ParamHolder | undefined
-) {
-  if (!holder?.params?.length) return;
+  holder: ParamHolder | undefined,
+  source: ESPCDFParamChangeSource,
+  timestamp?: number
+): Record<string, unknown> {
+  const unmatched: Record<string, unknown> = {};
 
   for (const [paramName, value] of Object.entries(params)) {
-    const param = holder.params.find((p) => p.name === paramName);
-    if (!param) continue;
+    const param = holder?.params?.find((p) => p.name === paramName);
+    if (!param) {
+      unmatched[paramName] = value;
+      continue;
+    }
+
+    // Late updates must not overwrite a value applied after them. `lastUpdatedAt` may come
+    // from the local clock, so small differences are not treated as late.
+    const { lastUpdatedAt } = param;
+    if (
+      timestamp !== undefined &&
+      lastUpdatedAt !== undefined &&
+      timestamp + STALE_UPDATE_TOLERANCE_MS < lastUpdatedAt
+    ) {
+      node.emitPropertyChange({
+        type: "staleParamUpdate",
+        kind,
+        entityName,
+        paramName,
+        value,
+        timestamp,
+        lastUpdatedAt,
+        entity: node,
+      });
+      continue;
+    }
+
+    const updatedAt = timestamp ?? Date.now();
+    // A pending write that fails rolls back to the latest reported value
+    param.recordConfirmedValue?.(value, updatedAt);
 
-    const oldValue = (param as { value?: unknown }).value;
-    (param as { value?: unknown }).value = value;
+    const oldValue = param.value;
+    param.value = value;
+    // Updates accepted within the tolerance must not move `lastUpdatedAt` back
+    param.lastUpdatedAt = Math.max(lastUpdatedAt ?? 0, updatedAt);
 
     if (kind === "device") {
       node.emitPropertyChange({
@@ -56,6 +125,7 @@ function applyNamedEntityParamUpdates(
         paramName,
         value,
         oldValue,
+        source,
         entity: node,
       });
     } else {
@@ -65,10 +135,12 @@ function applyNamedEntityParamUpdates(
         paramName,
         value,
         oldValue,
+        source,
         entity: node,
       });
     }
   }
+  return unmatched;
 }
 
 /**
@@ -76,17 +148,46 @@ function applyNamedEntityParamUpdates(
  * Merges shadow-style param updates into the node. Top-level keys are device or service names;
  * each maps to `{ paramName: value, ... }`. Emits `deviceParamChanged` / `serviceParamChanged`
  * per param so `_raw` stays in sync (see adaptor property-change handlers).
+ * `source` defaults to `"remote"`; writes made by this client pass `"user"`.
+ * With a `timestamp` (the event time, in ms or epoch seconds), updates more than 2 s older
+ * than the param's `lastUpdatedAt` are dropped and reported as `staleParamUpdate`; the param's
+ * `lastUpdatedAt` advances to the timestamp of applied updates, in ms, or to the current time
+ * when none is given. Non-positive or non-finite timestamps count as missing.
+ * Remote updates naming unknown devices, services or params are handed to `rootStore.nodeRefresh`,
+ * which marks the node `needsRefresh`, reloads it and applies them afterwards.
  */
 export function handleNodeParamsChanged(
   rootStore: ESPCDF | null,
   node_id: string,
-  payload: any
+  payload: any,
+  adaptorIdentifier?: string,
+  source: ESPCDFParamChangeSource = "remote",
+  timestamp?: number
 ) {
   if (!rootStore || !node_id || !payload) return;
 
-  const node = rootStore.nodeStore.getNodeById(node_id);
+  const node = rootStore.nodeStore.getNodeById(node_id, adaptorIdentifier);
   if (!node) return;
 
+  const eventTimestamp = normalizeEventTimestamp(timestamp);
+
+  const reportUnmatched = (
+    entityName: string,
+    params: Record<string, unknown>,
+    kind?: "device" | "service"
+  ) => {
+    if (source !== "remote") return;
+    for (const [paramName, value] of Object.entries(params)) {
+      rootStore.nodeRefresh.report(node, {
+        kind,
+        entityName,
+        paramName,
+        value,
+        timestamp: eventTimestamp,
+      });
+    }
+  };
+
   for (const [entityName, params] of Object.entries(
     payload as Record<string, Record<string, unknown>>
   )) {
@@ -94,14 +195,25 @@ export function handleNodeParamsChanged(
 
     const device = node.devices?.find((d: { name: string }) => d.name === entityName);
     if (device) {
-      applyNamedEntityParamUpdates(node, entityName, params, "device", device);
+      reportUnmatched(
+        entityName,
+        applyNamedEntityParamUpdates(node, entityName, params, "device", device, source, eventTimestamp),
+        "device"
+      );
       continue;
     }
 
     const service = node.services?.find((s: { name: string }) => s.name === entityName);
     if (service) {
-      applyNamedEntityParamUpdates(node, entityName, params, "service", service);
+      reportUnmatched(
+        entityName,
+        applyNamedEntityParamUpdates(node, entityName, params, "service", service, source, eventTimestamp),
+        "service"
+      );
+      continue;
     }
+
+    reportUnmatched(entityName, params);
   }
 }
 
@@ -109,11 +221,17 @@ export function handleNodeParamsChanged(
  * Handles the `EVENT_USER_NODE_ADDED` event.
  * Adds nodes to the store.
  */
-export async function handleUserNodeAdded(rootStore: ESPCDF | null, payload: any) {
-  const activeAdaptorIdentifier = rootStore?.sdkAdaptorRegistry?.getActiveAdaptorIdentifier();
-  if (!rootStore || !activeAdaptorIdentifier) return;
+export async function handleUserNodeAdded(
+  rootStore: ESPCDF | null,
+  payload: any,
+  adaptorIdentifier?: string
+) {
+  const eventAdaptorIdentifier =
+    adaptorIdentifier ??
+    rootStore?.sdkAdaptorRegistry?.getActiveAdaptorIdentifier();
+  if (!rootStore || !eventAdaptorIdentifier) return;
 
-  const user = rootStore.userStore.getAuthorizationEntityForAdaptor(activeAdaptorIdentifier)
+  const user = rootStore.userStore.getAuthorizationEntityForAdaptor(eventAdaptorIdentifier)
   if (!user) return;
   try {
     const nodeIds = payload.nodeIds;
@@ -132,13 +250,17 @@ export async function handleUserNodeAdded(rootStore: ESPCDF | null, payload: any
  * Handles the `EVENT_USER_NODE_REMOVED` event.
  * Removes nodes from the store.
  */
-export function handleUserNodeRemoved(rootStore: ESPCDF | null, payload: any) {
+export function handleUserNodeRemoved(
+  rootStore: ESPCDF | null,
+  payload: any,
+  adaptorIdentifier?: string
+) {
   if (!rootStore || !payload) return;
 
   const nodeIds = payload.nodeIds || [];
   nodeIds.forEach((nodeId: string) => {
     try {
-      rootStore.nodeStore.deleteNode(nodeId);
+      rootStore.nodeStore.deleteNode(nodeId, adaptorIdentifier);
     } catch (error) {
       console.error(
         `[NodeEventHandlers] Failed to delete node ${nodeId}:`,
@@ -155,21 +277,29 @@ export function handleUserNodeRemoved(rootStore: ESPCDF | null, payload: any) {
 export function handleNodeConnected(
   rootStore: ESPCDF | null,
   node_id: string,
-  timestamp: number
+  timestamp: number,
+  adaptorIdentifier?: string
 ) {
   if (!rootStore || !node_id) return;
 
-  const node = rootStore.nodeStore.getNodeById(node_id);
+  const node = rootStore.nodeStore.getNodeById(node_id, adaptorIdentifier);
   if (!node) return;
 
   // Update connectivity status
-  rootStore.nodeStore.updateNode(node_id, {
-    connectivityStatus: {
-      isConnected: true,
-      lastConnectionTimestamp: timestamp || Date.now(),
+  rootStore.nodeStore.updateNode(
+    node_id,
+    {
+      connectivityStatus: {
+        isConnected: true,
+        lastConnectionTimestamp: timestamp || Date.now(),
+      },
     },
-  });
-  const updatedNode = rootStore.nodeStore.getNodeById(node_id);
+    node.adaptorIdentifier
+  );
+  const updatedNode = rootStore.nodeStore.getNodeById(
+    node_id,
+    adaptorIdentifier
+  );
   if (!updatedNode) return;
   updatedNode.emitPropertyChange({
     type: "connectivityStatusChanged",
@@ -188,22 +318,30 @@ export function handleNodeConnected(
 export function handleNodeDisconnected(
   rootStore: ESPCDF | null,
   node_id: string,
-  timestamp: number
+  timestamp: number,
+  adaptorIdentifier?: string
 ) {
   if (!rootStore || !node_id) return;
 
-  const node = rootStore.nodeStore.getNodeById(node_id);
+  const node = rootStore.nodeStore.getNodeById(node_id, adaptorIdentifier);
   if (!node) return;
 
   // Update connectivity status
-  rootStore.nodeStore.updateNode(node_id, {
-    connectivityStatus: {
-      isConnected: false,
-      lastConnectionTimestamp: timestamp || Date.now(),
+  rootStore.nodeStore.updateNode(
+    node_id,
+    {
+      connectivityStatus: {
+        isConnected: false,
+        lastConnectionTimestamp: timestamp || Date.now(),
+      },
     },
-  });
+    node.adaptorIdentifier
+  );
 
-  const updatedNode = rootStore.nodeStore.getNodeById(node_id);
+  const updatedNode = rootStore.nodeStore.getNodeById(
+    node_id,
+    adaptorIdentifier
+  );
   if (!updatedNode) return;
 
   updatedNode.emitPropertyChange({
@@ -216,45 +354,355 @@ export function handleNodeDisconnected(
   });
 }
 
+type ConfigParam = {
+  name: string;
+  value?: unknown;
+  lastUpdatedAt?: number;
+  isPending?: boolean;
+  dispose?: () => void;
+};
+type ConfigEntity = { name: string; params?: ConfigParam[]; dispose?: () => void };
+
+// Fields refreshed on kept entities and params; values are handled separately
+const ENTITY_CONFIG_KEYS = ["displayName", "type", "attributes"];
+const PARAM_CONFIG_KEYS = ["properties", "dataType", "type", "bounds", "uiType"];
+
+type NodeConfigDiff = Omit<ESPCDFNodeConfigChangedEvent, "type" | "entity"> & {
+  valueChanges: {
+    kind: "device" | "service";
+    entityName: string;
+    paramName: string;
+    value: unknown;
+    oldValue: unknown;
+  }[];
+  // Entities replaced or removed by the merge
+  stale: { dispose?: () => void }[];
+};
+
+function copyConfigFields(target: object, source: object, keys: string[]) {
+  keys.forEach((key) => {
+    if (key in source) {
+      (target as Record<string, unknown>)[key] = (source as Record<string, unknown>)[key];
+    }
+  });
+}
+
+function mergeConfigParams(
+  entity: ConfigEntity,
+  freshEntity: ConfigEntity,
+  kind: "device" | "service",
+  diff: NodeConfigDiff
+): ConfigParam[] {
+  const freshNames = new Set((freshEntity.params ?? []).map((p) => p.name));
+  (entity.params ?? []).forEach((param) => {
+    if (freshNames.has(param.name)) return;
+    diff.removedParams.push({ kind, entityName: entity.name, paramName: param.name });
+    diff.stale.push(param);
+  });
+
+  return (freshEntity.params ?? []).map((freshParam) => {
+    const param = entity.params?.find((p) => p.name === freshParam.name);
+    if (!param) {
+      diff.addedParams.push({ kind, entityName: entity.name, paramName: freshParam.name });
+      return freshParam;
+    }
+    copyConfigFields(param, freshParam, PARAM_CONFIG_KEYS);
+    // Pending params keep their optimistic value until the write settles
+    if (!param.isPending && !isEqual(param.value, freshParam.value)) {
+      diff.valueChanges.push({
+        kind,
+        entityName: entity.name,
+        paramName: param.name,
+        value: freshParam.value,
+        oldValue: param.value,
+      });
+      param.value = freshParam.value;
+      param.lastUpdatedAt = Date.now();
+    }
+    diff.stale.push(freshParam);
+    return param;
+  });
+}
+
 /**
- * Handles node update events from the SDK.
- * Routes events to appropriate handlers based on event type.
+ * Merges freshly fetched devices or services into the current ones by name.
+ * Kept entities and params stay the same objects, so references held by the
+ * app remain valid.
  */
-export function handleNodeUpdateEvent(event: any, rootStore: ESPCDF | null) {
-  if (!event || !rootStore) return;
+function mergeConfigEntities<T extends ConfigEntity>(
+  current: T[] | undefined,
+  fresh: T[] | undefined,
+  kind: "device" | "service",
+  diff: NodeConfigDiff
+): T[] {
+  const added = kind === "device" ? diff.addedDevices : diff.addedServices;
+  const removed = kind === "device" ? diff.removedDevices : diff.removedServices;
+  const freshNames = new Set((fresh ?? []).map((e) => e.name));
+  (current ?? []).forEach((entity) => {
+    if (freshNames.has(entity.name)) return;
+    removed.push(entity.name);
+    diff.stale.push(entity, ...(entity.params ?? []));
+  });
 
-  const { event_type, timestamp, node_id = null, payload = null } = event;
+  return (fresh ?? []).map((freshEntity) => {
+    const entity = current?.find((e) => e.name === freshEntity.name);
+    if (!entity) {
+      added.push(freshEntity.name);
+      return freshEntity;
+    }
+    copyConfigFields(entity, freshEntity, ENTITY_CONFIG_KEYS);
+    entity.params = makeEverythingObservable(
+      mergeConfigParams(entity, freshEntity, kind, diff)
+    );
+    diff.stale.push(freshEntity);
+    return entity;
+  });
+}
 
-  // Parse payload safely
-  const parsedPayload = safelyParsePayload(payload);
+const createNodeConfigDiff = (): NodeConfigDiff => ({
+  addedDevices: [],
+  removedDevices: [],
+  addedServices: [],
+  removedServices: [],
+  addedParams: [],
+  removedParams: [],
+  valueChanges: [],
+  stale: [],
+});
 
-  // Handle events based on their type
-  switch (event_type) {
-    case EVENT_NODE_PARAMS_CHANGED:
-      handleNodeParamsChanged(rootStore, node_id, parsedPayload);
-      break;
+/**
+ * Stores merged devices and services, releases the stale entities and emits the change
+ * events of the diff
+ */
+function commitNodeConfig(
+  rootStore: ESPCDF,
+  node: ESPCDFNode,
+  update: Partial<Pick<ESPCDFNode, "devices" | "services" | "nodeConfig">>,
+  diff: NodeConfigDiff
+) {
+  // Re-attaches the synchronizer to the added params and releases removed ones
+  rootStore.nodeStore.updateNodeConfig(node.id, update, node.adaptorIdentifier);
+  diff.stale.forEach((entity) => entity.dispose?.());
 
-    case EVENT_USER_NODE_ADDED:
-      handleUserNodeAdded(rootStore, parsedPayload);
-      break;
+  diff.valueChanges.forEach(({ kind, entityName, paramName, value, oldValue }) => {
+    if (kind === "device") {
+      node.emitPropertyChange({
+        type: "deviceParamChanged",
+        deviceName: entityName,
+        paramName,
+        value,
+        oldValue,
+        source: "remote",
+        entity: node,
+      });
+    } else {
+      node.emitPropertyChange({
+        type: "serviceParamChanged",
+        serviceName: entityName,
+        paramName,
+        value,
+        oldValue,
+        source: "remote",
+        entity: node,
+      });
+    }
+  });
 
-    case EVENT_USER_NODE_REMOVED:
-      handleUserNodeRemoved(rootStore, parsedPayload);
-      break;
+  const { valueChanges: _valueChanges, stale: _stale, ...changes } = diff;
+  if (Object.values(changes).some((list) => list.length > 0)) {
+    node.emitPropertyChange({ type: "nodeConfigChanged", ...changes, entity: node });
+  }
+}
 
-    case EVENT_NODE_CONNECTED:
-      handleNodeConnected(rootStore, node_id, timestamp);
-      break;
+const applyNodeConfig = action(
+  (rootStore: ESPCDF, node: ESPCDFNode, freshNode: ESPCDFNode) => {
+    const diff = createNodeConfigDiff();
+    const devices = mergeConfigEntities(node.devices, freshNode.devices, "device", diff);
+    const services = mergeConfigEntities(node.services, freshNode.services, "service", diff);
+    commitNodeConfig(
+      rootStore,
+      node,
+      { devices, services, nodeConfig: freshNode.nodeConfig ?? node.nodeConfig },
+      diff
+    );
+  }
+);
 
-    case EVENT_NODE_DISCONNECTED:
-      handleNodeDisconnected(rootStore, node_id, timestamp);
-      break;
+const applyEntityParams = action(
+  (
+    rootStore: ESPCDF,
+    node: ESPCDFNode,
+    kind: "device" | "service",
+    entity: ConfigEntity,
+    freshParams: ConfigParam[]
+  ) => {
+    const diff = createNodeConfigDiff();
+    entity.params = makeEverythingObservable(
+      mergeConfigParams(entity, { name: entity.name, params: freshParams }, kind, diff)
+    );
+    commitNodeConfig(rootStore, node, { devices: node.devices, services: node.services }, diff);
+  }
+);
 
-    default:
-      break;
+/**
+ * Handles the `EVENT_NODE_CONFIG_CHANGED` event.
+ * Refetches the node through the user's `getNodeDetails` and merges the new devices and
+ * services into the stored node, re-attaching synchronizer subscriptions. Emits
+ * `deviceParamChanged` / `serviceParamChanged` for params whose value changed, then
+ * `nodeConfigChanged` with the added and removed devices, services and params.
+ * Failed refetches are reported to the CDF `logger`.
+ */
+export async function handleNodeConfigChanged(
+  rootStore: ESPCDF | null,
+  node_id: string,
+  adaptorIdentifier?: string
+) {
+  if (!rootStore || !node_id) return;
+
+  const node = rootStore.nodeStore.getNodeById(node_id, adaptorIdentifier);
+  const eventAdaptorIdentifier =
+    node?.adaptorIdentifier ??
+    adaptorIdentifier ??
+    rootStore.sdkAdaptorRegistry?.getActiveAdaptorIdentifier();
+  if (!node || !eventAdaptorIdentifier) return;
+
+  const user = rootStore.userStore.getAuthorizationEntityForAdaptor(eventAdaptorIdentifier);
+  if (!user) return;
+  try {
+    // `user.getNodeDetails` would replace the stored node; the operation
+    // result is merged instead so existing entities stay in place
+    const freshNode = await user.operations.getNodeDetails(node_id);
+    const currentNode = rootStore.nodeStore.getNodeById(node_id, node.adaptorIdentifier);
+    if (!currentNode) return;
+    applyNodeConfig(rootStore, currentNode, freshNode);
+  } catch (error) {
+    rootStore.logger.error(
+      `[NodeEventHandlers] Error handling node config changed event:`,
+      error
+    );
   }
 }
 
+/**
+ * Refetches the params of a device or service through its `operations.getParams` and merges
+ * them into the stored entity like `handleNodeConfigChanged`, so kept params stay the same
+ * objects. Emits `deviceParamChanged` / `serviceParamChanged` for params whose value changed,
+ * then `nodeConfigChanged` with the added and removed params.
+ * @throws When fetching the params fails
+ */
+export async function reloadEntityParams(
+  rootStore: ESPCDF,
+  node: ESPCDFNode,
+  kind: "device" | "service",
+  entityName: string
+) {
+  const findEntity = (target: ESPCDFNode) =>
+    kind === "device"
+      ? target.devices?.find((device) => device.name === entityName)
+      : target.services?.find((service) => service.name === entityName);
+
+  const entity = findEntity(node);
+  if (!entity) return;
+  // `entity.getParams` would replace the stored params; the operation result is merged instead
+  const freshParams: ConfigParam[] = await entity.operations.getParams();
+  const currentNode = rootStore.nodeStore.getNodeById(node.id, node.adaptorIdentifier);
+  const currentEntity = currentNode && findEntity(currentNode);
+  if (!currentNode || !currentEntity) return;
+  applyEntityParams(rootStore, currentNode, kind, currentEntity, freshParams);
+}
+
+/**
+ * Built-in handlers of the `ESP_CDF_NODE_SUBSCRIPTION_EVENTS`, keyed by event type.
+ * `subscriptionStore` starts with these; they can be replaced or wrapped there.
+ */
+export const ESPCDF_NODE_UPDATE_HANDLERS: Readonly<
+  Record<string, ESPCDFNodeUpdateHandlerDefinition<any>>
+> = {
+  [EVENT_NODE_PARAMS_CHANGED]: {
+    handle: ({ rootStore, event, payload }) =>
+      handleNodeParamsChanged(
+        rootStore,
+        event.node_id,
+        payload,
+        event.adaptorIdentifier,
+        "remote",
+        typeof event.timestamp === "number" ? event.timestamp : undefined
+      ),
+  },
+  [EVENT_NODE_CONFIG_CHANGED]: {
+    handle: ({ rootStore, event }) =>
+      handleNodeConfigChanged(rootStore, event.node_id, event.adaptorIdentifier),
+  },
+  [EVENT_USER_NODE_ADDED]: {
+    handle: ({ rootStore, event, payload }) =>
+      handleUserNodeAdded(rootStore, payload, event.adaptorIdentifier),
+  },
+  [EVENT_USER_NODE_REMOVED]: {
+    handle: ({ rootStore, event, payload }) =>
+      handleUserNodeRemoved(rootStore, payload, event.adaptorIdentifier),
+  },
+  [EVENT_NODE_CONNECTED]: {
+    handle: ({ rootStore, event }) =>
+      handleNodeConnected(rootStore, event.node_id, event.timestamp, event.adaptorIdentifier),
+  },
+  [EVENT_NODE_DISCONNECTED]: {
+    handle: ({ rootStore, event }) =>
+      handleNodeDisconnected(rootStore, event.node_id, event.timestamp, event.adaptorIdentifier),
+  },
+};
+
+/**
+ * Parses the payload of a node update event and runs its handler through the given wrappers.
+ * Parser and handler errors, including rejections of async handlers, are reported to the CDF `logger`.
+ * @param event - The node update event
+ * @param rootStore - The root CDF store instance
+ * @param definition - Handler of the event type, if any
+ * @param wrappers - Wrappers of the event type, outermost first
+ */
+export function dispatchNodeUpdateEvent(
+  event: ESPCDFNodeUpdateEvent,
+  rootStore: ESPCDF,
+  definition: ESPCDFNodeUpdateHandlerDefinition<any> | undefined,
+  wrappers: ESPCDFNodeUpdateHandlerWrapper[] = []
+) {
+  if (!definition && wrappers.length === 0) return;
+
+  const logError = (error: unknown) =>
+    rootStore.logger.error(
+      `[NodeEventHandlers] Error handling ${event.event_type} event:`,
+      error
+    );
+  try {
+    const context: ESPCDFNodeUpdateContext<any> = {
+      event,
+      payload: (definition?.parsePayload ?? safelyParsePayload)(event.payload ?? null),
+      rootStore,
+    };
+    const run = wrappers.reduceRight<() => void | Promise<void>>(
+      (next, wrapper) => () => wrapper(context, next),
+      () => definition?.handle(context)
+    );
+    Promise.resolve(run()).catch(logError);
+  } catch (error) {
+    logError(error);
+  }
+}
+
+/**
+ * Handles node update events from the SDK.
+ * Routes events to the built-in handler of their type; other event types are ignored.
+ * `subscriptionStore.nodeUpdates.listen` routes through its registered handlers instead.
+ */
+export function handleNodeUpdateEvent(event: any, rootStore: ESPCDF | null) {
+  if (!event || !rootStore) return;
+
+  dispatchNodeUpdateEvent(
+    event,
+    rootStore,
+    ESPCDF_NODE_UPDATE_HANDLERS[event.event_type]
+  );
+}
+
 /**
  * Handles adding a transport to a node.
  * Updates the node's available transports and emits property change events.
@@ -276,9 +724,11 @@ export const handleAddNodeTransport = action(
 
     newAvailableTransports[transport.type] = transport;
 
-    rootStore.nodeStore.updateNode(node.id, {
-      availableTransports: mobxObservable.object(newAvailableTransports),
-    });
+    rootStore.nodeStore.updateNode(
+      node.id,
+      { availableTransports: mobxObservable.object(newAvailableTransports) },
+      node.adaptorIdentifier
+    );
 
     node.emitPropertyChange({
       type: "availableTransportsChanged",
@@ -308,9 +758,11 @@ export const handleRemoveNodeTransport = action(
     const newAvailableTransports = { ...node.availableTransports };
     delete newAvailableTransports[transport.type];
 
-    rootStore.nodeStore.updateNode(node.id, {
-      availableTransports: mobxObservable.object(newAvailableTransports),
-    });
+    rootStore.nodeStore.updateNode(
+      node.id,
+      { availableTransports: mobxObservable.object(newAvailableTransports) },
+      node.adaptorIdentifier
+    );
 
     node.emitPropertyChange({
       type: "availableTransportsChanged",
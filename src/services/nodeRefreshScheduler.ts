@@ -0,0 +1,271 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../store/index";
+import { ESPCDFNode } from "../entities/ESPCDFNode";
+import {
+  ESPCDFLogger,
+  ESPCDFNodeRefreshOptions,
+  ESPCDFUnmatchedParamUpdate,
+} from "../types";
+import { getEntityScopedKey } from "../utils/adaptorScope";
+import {
+  handleNodeConfigChanged,
+  handleNodeParamsChanged,
+  reloadEntityParams,
+} from "./nodeEventHandlers";
+
+const DEFAULT_DEBOUNCE_MS = 500;
+
+interface NodeRefresh {
+  nodeId: string;
+  adaptorIdentifier?: string;
+  // Whether an update named an unknown device or service
+  reloadNode: boolean;
+  // Devices and services with unknown params, keyed by `${kind}:${name}`
+  entities: Map<string, { kind: "device" | "service"; name: string }>;
+  // Latest unmatched update per param, keyed by entity name, then param name
+  updates: Map<string, Map<string, ESPCDFUnmatchedParamUpdate>>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Reloads nodes whose remote param updates name devices, services or params
+ * they do not have, e.g. after a firmware update or for a partially loaded
+ * node.
+ *
+ * A mismatched update marks the node `needsRefresh` and is kept. Once no
+ * mismatch arrived for `debounceMs`, devices and services with unknown params
+ * are reloaded through their `getParams` operation, or the whole node through
+ * the user's `getNodeDetails` if a device or service was unknown. Reloaded
+ * params are merged into the stored ones, which stay the same objects. The
+ * kept updates are then applied; `needsRefresh` stays set if some still do not
+ * match. Failed reloads and updates that still do not match are reported to
+ * the CDF `logger`.
+ *
+ * @example
+ * const cdf = ESPCDF.create({ nodeRefresh: { debounceMs: 1000 } });
+ * autorun(() => node.needsRefresh && showSyncIndicator());
+ */
+export class ESPCDFNodeRefreshScheduler {
+  private refreshes = new Map<string, NodeRefresh>();
+  private inFlight = new Map<string, Promise<void>>();
+  // Nodes whose kept updates are being applied, with the count still unmatched
+  private applying = new Map<string, number>();
+
+  /**
+   * @param rootStore - CDF root whose nodes are reloaded
+   * @param logger - Receives failed reloads and still unmatched updates
+   * @param options - Debounce of the reloads
+   */
+  constructor(
+    private rootStore: ESPCDF,
+    private logger: ESPCDFLogger,
+    private options: ESPCDFNodeRefreshOptions = {}
+  ) {}
+
+  /**
+   * Number of nodes waiting to be reloaded.
+   */
+  get pendingCount(): number {
+    return this.refreshes.size;
+  }
+
+  /**
+   * Returns the kept updates of a node waiting to be reloaded.
+   * @param nodeId - The node id
+   * @param adaptorIdentifier - Restricts the lookup to one adaptor
+   */
+  getUnmatchedUpdates(
+    nodeId: string,
+    adaptorIdentifier?: string
+  ): ESPCDFUnmatchedParamUpdate[] {
+    const node = this.rootStore.nodeStore.getNodeById(
+      nodeId,
+      adaptorIdentifier
+    );
+    const refresh = node && this.refreshes.get(getEntityScopedKey(node));
+    if (!refresh) return [];
+    return Array.from(refresh.updates.values()).flatMap((params) =>
+      Array.from(params.values())
+    );
+  }
+
+  /**
+   * Reports a param update that did not match a node and schedules its
+   * reload. Called by `handleNodeParamsChanged`.
+   * @param node - Node the update was addressed to
+   * @param update - The unmatched update
+   */
+  report(node: ESPCDFNode, update: ESPCDFUnmatchedParamUpdate): void {
+    const key = getEntityScopedKey(node);
+    const unmatchedAfterReload = this.applying.get(key);
+    if (unmatchedAfterReload !== undefined) {
+      this.applying.set(key, unmatchedAfterReload + 1);
+      return;
+    }
+
+    let refresh = this.refreshes.get(key);
+    if (!refresh) {
+      refresh = {
+        nodeId: node.id,
+        adaptorIdentifier: node.adaptorIdentifier,
+        reloadNode: false,
+        entities: new Map(),
+        updates: new Map(),
+      };
+      this.refreshes.set(key, refresh);
+    }
+    if (update.kind) {
+      refresh.entities.set(`${update.kind}:${update.entityName}`, {
+        kind: update.kind,
+        name: update.entityName,
+      });
+    } else {
+      refresh.reloadNode = true;
+    }
+    const params = refresh.updates.get(update.entityName) ?? new Map();
+    params.set(update.paramName, update);
+    refresh.updates.set(update.entityName, params);
+
+    if (!node.needsRefresh) {
+      this.rootStore.nodeStore.updateNode(
+        node.id,
+        { needsRefresh: true },
+        node.adaptorIdentifier
+      );
+    }
+    clearTimeout(refresh.timer);
+    refresh.timer = setTimeout(
+      () => this.run(key),
+      this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS
+    );
+  }
+
+  /**
+   * Reloads waiting nodes now instead of after the debounce.
+   * @param nodeId - Node to reload; all waiting nodes when omitted
+   * @param adaptorIdentifier - Restricts the lookup to one adaptor
+   */
+  async flush(nodeId?: string, adaptorIdentifier?: string): Promise<void> {
+    if (nodeId === undefined) {
+      await Promise.all(
+        Array.from(this.refreshes.keys()).map((key) => this.run(key))
+      );
+      return;
+    }
+    const node = this.rootStore.nodeStore.getNodeById(
+      nodeId,
+      adaptorIdentifier
+    );
+    if (node) {
+      await this.run(getEntityScopedKey(node));
+    }
+  }
+
+  /**
+   * Drops waiting reloads and their kept updates, e.g. on logout.
+   */
+  cancel(): void {
+    this.refreshes.forEach((refresh) => clearTimeout(refresh.timer));
+    this.refreshes.clear();
+  }
+
+  private run(key: string): Promise<void> {
+    const refresh = this.refreshes.get(key);
+    if (!refresh) return this.inFlight.get(key) ?? Promise.resolve();
+    clearTimeout(refresh.timer);
+    this.refreshes.delete(key);
+
+    // Reloads of a node run one at a time, in order
+    const running: Promise<void> = (this.inFlight.get(key) ?? Promise.resolve())
+      .then(() => this.reload(key, refresh))
+      .finally(() => {
+        if (this.inFlight.get(key) === running) {
+          this.inFlight.delete(key);
+        }
+      });
+    this.inFlight.set(key, running);
+    return running;
+  }
+
+  private async reload(key: string, refresh: NodeRefresh): Promise<void> {
+    const { nodeId, adaptorIdentifier } = refresh;
+    const node = this.rootStore.nodeStore.getNodeById(
+      nodeId,
+      adaptorIdentifier
+    );
+    if (!node) return;
+
+    try {
+      if (refresh.reloadNode) {
+        await handleNodeConfigChanged(
+          this.rootStore,
+          nodeId,
+          adaptorIdentifier
+        );
+      } else {
+        await Promise.all(
+          Array.from(refresh.entities.values()).map(({ kind, name }) =>
+            reloadEntityParams(this.rootStore, node, kind, name)
+          )
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `[ESPCDFNodeRefreshScheduler] Failed to reload node ${nodeId}:`,
+        error
+      );
+    }
+    this.applyUpdates(key, refresh);
+  }
+
+  /**
+   * Applies the kept updates of a reloaded node and clears `needsRefresh`
+   * unless some still do not match
+   */
+  private applyUpdates(key: string, refresh: NodeRefresh): void {
+    const { nodeId, adaptorIdentifier } = refresh;
+    const node = this.rootStore.nodeStore.getNodeById(
+      nodeId,
+      adaptorIdentifier
+    );
+    if (!node) return;
+
+    this.applying.set(key, 0);
+    let unmatched = 0;
+    try {
+      refresh.updates.forEach((params, entityName) =>
+        params.forEach(({ paramName, value, timestamp }) =>
+          handleNodeParamsChanged(
+            this.rootStore,
+            nodeId,
+            { [entityName]: { [paramName]: value } },
+            adaptorIdentifier,
+            "remote",
+            timestamp
+          )
+        )
+      );
+    } finally {
+      unmatched = this.applying.get(key) ?? 0;
+      this.applying.delete(key);
+    }
+
+    if (unmatched > 0) {
+      this.logger.warn(
+        `[ESPCDFNodeRefreshScheduler] ${unmatched} param update(s) still do not match node ${nodeId} after reload`
+      );
+    }
+    if (!this.refreshes.has(key)) {
+      this.rootStore.nodeStore.updateNode(
+        nodeId,
+        { needsRefresh: unmatched > 0 },
+        adaptorIdentifier
+      );
+    }
+  }
+}
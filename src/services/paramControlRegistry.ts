@@ -0,0 +1,214 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ESPCDFDescribedParam,
+  ESPCDFParamControlDescriptor,
+  ESPCDFParamControlOption,
+  ESPCDFParamControlResolver,
+} from "../types";
+import {
+  ESPCDFParamDataType,
+  ESPCDFParamProperty,
+  ESPCDFParamUIType,
+} from "../utils/constants";
+
+const HUE_RANGE = { min: 0, max: 360 };
+// Numeric dropdowns list every step of their range, up to this many options
+const MAX_NUMERIC_OPTIONS = 100;
+
+const decimalsOf = (step?: number) =>
+  step === undefined || Number.isInteger(step)
+    ? 0
+    : (String(step).split(".")[1]?.length ?? 0);
+
+function formatValue(
+  descriptor: Omit<ESPCDFParamControlDescriptor, "format">,
+  value: any
+): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "boolean") return value ? "On" : "Off";
+  const option = descriptor.options?.find((o) => o.value === value);
+  if (option) return option.label;
+  if (typeof value === "number") {
+    const text =
+      descriptor.dataType === ESPCDFParamDataType.FLOAT
+        ? value.toFixed(decimalsOf(descriptor.step))
+        : String(value);
+    return descriptor.kind === "hue" ? `${text}°` : text;
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Adds the default `format` to a descriptor
+ */
+function withFormat(
+  descriptor: Omit<ESPCDFParamControlDescriptor, "format">
+): ESPCDFParamControlDescriptor {
+  return { ...descriptor, format: (value) => formatValue(descriptor, value) };
+}
+
+function getNumericOptions(
+  descriptor: ESPCDFParamControlDescriptor
+): ESPCDFParamControlOption[] | undefined {
+  const { range, step = 1 } = descriptor;
+  if (!range || step <= 0) return undefined;
+  const count = Math.floor((range.max - range.min) / step) + 1;
+  if (count > MAX_NUMERIC_OPTIONS) return undefined;
+  return Array.from({ length: count }, (_, index) => {
+    const value = Number((range.min + index * step).toFixed(decimalsOf(step)));
+    return { label: String(value), value };
+  });
+}
+
+/**
+ * Infers a control descriptor from the param's data type, bounds and
+ * properties, ignoring its uiType
+ */
+function describeParamData(
+  param: ESPCDFDescribedParam
+): ESPCDFParamControlDescriptor {
+  const { min, max, step, validStrings } = param.bounds ?? {};
+  const isNumeric =
+    param.dataType === ESPCDFParamDataType.INT ||
+    param.dataType === ESPCDFParamDataType.FLOAT;
+  const range =
+    typeof min === "number" && typeof max === "number"
+      ? { min, max }
+      : undefined;
+  const options = Array.isArray(validStrings)
+    ? validStrings.map((value) => ({ label: String(value), value }))
+    : undefined;
+
+  let kind: ESPCDFParamControlDescriptor["kind"] = "text";
+  if (param.dataType === ESPCDFParamDataType.BOOL) {
+    kind = "toggle";
+  } else if (isNumeric) {
+    kind = range ? "slider" : "number";
+  } else if (options) {
+    kind = "dropdown";
+  }
+
+  return withFormat({
+    kind,
+    uiType: param.uiType,
+    dataType: param.dataType,
+    range,
+    step:
+      typeof step === "number" && step > 0
+        ? step
+        : param.dataType === ESPCDFParamDataType.INT
+          ? 1
+          : undefined,
+    options,
+    readOnly:
+      Array.isArray(param.properties) &&
+      !param.properties.includes(ESPCDFParamProperty.WRITE),
+  });
+}
+
+const hueControl: ESPCDFParamControlResolver = (_param, descriptor) =>
+  withFormat({
+    ...descriptor,
+    kind: "hue",
+    range: descriptor.range ?? HUE_RANGE,
+    step: descriptor.step ?? 1,
+  });
+
+const buttonControl: ESPCDFParamControlResolver = (_param, descriptor) =>
+  withFormat({ ...descriptor, kind: "button" });
+
+/**
+ * Resolvers of the standard `esp.ui.*` types, keyed by uiType
+ */
+export const ESPCDF_STANDARD_PARAM_CONTROLS: Record<
+  string,
+  ESPCDFParamControlResolver
+> = {
+  [ESPCDFParamUIType.TOGGLE]: (_param, descriptor) =>
+    withFormat({ ...descriptor, kind: "toggle" }),
+  [ESPCDFParamUIType.SLIDER]: (_param, descriptor) =>
+    withFormat({
+      ...descriptor,
+      kind: descriptor.range ? "slider" : "number",
+    }),
+  [ESPCDFParamUIType.HUE_SLIDER]: hueControl,
+  [ESPCDFParamUIType.HUE_CIRCLE]: hueControl,
+  [ESPCDFParamUIType.DROPDOWN]: (_param, descriptor) => {
+    const options = descriptor.options ?? getNumericOptions(descriptor);
+    return withFormat({
+      ...descriptor,
+      kind: options ? "dropdown" : descriptor.kind,
+      options,
+    });
+  },
+  [ESPCDFParamUIType.TEXT]: (_param, descriptor) =>
+    withFormat({ ...descriptor, kind: "text" }),
+  [ESPCDFParamUIType.PUSH_BUTTON_BIG]: buttonControl,
+  [ESPCDFParamUIType.TRIGGER]: buttonControl,
+  [ESPCDFParamUIType.HIDDEN]: (_param, descriptor) =>
+    withFormat({ ...descriptor, kind: "hidden" }),
+};
+
+/**
+ * Turns params into normalized control descriptors, so front ends render
+ * params consistently.
+ *
+ * A descriptor is first inferred from the param's data type, bounds and
+ * properties (bool params become toggles, bounded numbers sliders, strings
+ * with `validStrings` dropdowns, …), then refined by the resolver of its
+ * uiType. Params without a uiType, or with an unregistered one, keep the
+ * inferred descriptor.
+ *
+ * @example
+ * const control = cdf.paramControls.describe(param);
+ * if (control.kind === "slider") renderSlider(control.range, control.step);
+ * label.text = control.format(param.value);
+ */
+export class ESPCDFParamControlRegistry {
+  private resolvers = new Map<string, ESPCDFParamControlResolver>(
+    Object.entries(ESPCDF_STANDARD_PARAM_CONTROLS)
+  );
+
+  /**
+   * Registers a resolver for a uiType, replacing any resolver of that type.
+   * @param uiType - uiType, e.g. `custom.ui.color-picker`
+   * @param resolver - Builds the descriptor from the inferred one
+   * @returns Function that unregisters the resolver, restoring the one it replaced
+   */
+  register(uiType: string, resolver: ESPCDFParamControlResolver): () => void {
+    const previous = this.resolvers.get(uiType);
+    this.resolvers.set(uiType, resolver);
+    return () => {
+      if (this.resolvers.get(uiType) !== resolver) return;
+      if (previous) {
+        this.resolvers.set(uiType, previous);
+      } else {
+        this.resolvers.delete(uiType);
+      }
+    };
+  }
+
+  /**
+   * Returns the resolver registered for a uiType, if any.
+   */
+  getResolver(uiType: string): ESPCDFParamControlResolver | undefined {
+    return this.resolvers.get(uiType);
+  }
+
+  /**
+   * Describes the control a param is rendered with.
+   * @param param - A device or service param
+   * @returns The control descriptor
+   */
+  describe(param: ESPCDFDescribedParam): ESPCDFParamControlDescriptor {
+    const descriptor = describeParamData(param);
+    const resolver = param.uiType && this.resolvers.get(param.uiType);
+    return resolver ? resolver(param, descriptor) : descriptor;
+  }
+}
@@ -0,0 +1,294 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../store/index";
+import { ESPCDFNode } from "../entities/ESPCDFNode";
+import {
+  ESPCDFAPIResponse,
+  ESPCDFNodeParamsResult,
+  ESPCDFParamChange,
+  ESPCDFParamTransactionNodeError,
+  ESPCDFParamTransactionOptions,
+  ESPCDFParamTransactionResult,
+} from "../types";
+import { ESPCDFAdaptorError } from "../errors";
+import { getAdaptorScopedKey } from "../utils/adaptorScope";
+import { ERROR_MESSAGE_MAP } from "../utils/common";
+import { SUCCESS, USER_NOT_LOGGED_IN_ERR } from "../utils/constants";
+import { assertParamValue } from "../utils/paramValidation";
+import { handleNodeParamsChanged } from "./nodeEventHandlers";
+
+interface NodeChanges {
+  nodeId: string;
+  adaptorIdentifier?: string;
+  node?: ESPCDFNode;
+  // setMultipleParams payload, one { param: value } entry per param
+  payload: Record<string, Record<string, any>[]>;
+}
+
+/**
+ * Collects device param changes across devices and nodes and sends them
+ * together, e.g. "all lights in this room to 40% warm white".
+ *
+ * @example
+ * const result = await cdf
+ *   .createParamTransaction()
+ *   .set({ nodeId: "n1", deviceName: "Light", param: "Brightness", value: 40 })
+ *   .set({ nodeId: "n2", deviceName: "Light", param: "Brightness", value: 40 })
+ *   .commit();
+ * result.failedResults.forEach(({ nodeId, error }) => ...);
+ */
+export class ESPCDFParamTransaction {
+  private nodeChanges = new Map<string, ESPCDFParamChange[]>();
+
+  constructor(private rootStore: ESPCDF) {}
+
+  /**
+   * Collected changes, in the order they were added
+   */
+  get changes(): ESPCDFParamChange[] {
+    return Array.from(this.nodeChanges.values()).flat();
+  }
+
+  /**
+   * Adds a change. A later change to the same param replaces the earlier one.
+   * @param change - The param change
+   * @returns This transaction, for chaining
+   */
+  set(change: ESPCDFParamChange): this {
+    const key = getAdaptorScopedKey(change.adaptorIdentifier, change.nodeId);
+    const changes = (this.nodeChanges.get(key) ?? []).filter(
+      (c) => c.deviceName !== change.deviceName || c.param !== change.param
+    );
+    this.nodeChanges.set(key, [...changes, change]);
+    return this;
+  }
+
+  /**
+   * Removes all collected changes
+   */
+  clear(): void {
+    this.nodeChanges.clear();
+  }
+
+  /**
+   * Sends the collected changes and clears the transaction.
+   *
+   * Values are validated per node first; a node with an invalid value, or one
+   * missing from the node store, fails without being sent.
+   * @param options - Strategy and write options
+   * @returns Per-node results: nodes whose changes were accepted and nodes whose changes failed
+   */
+  async commit(
+    options: ESPCDFParamTransactionOptions = {}
+  ): Promise<ESPCDFParamTransactionResult> {
+    const result: ESPCDFParamTransactionResult = {
+      successfulResults: [],
+      failedResults: [],
+    };
+    const validated: NodeChanges[] = [];
+    Array.from(this.nodeChanges.values()).forEach((changes) => {
+      const nodeChanges = this.resolveNodeChanges(changes);
+      try {
+        if (!nodeChanges.node) {
+          throw new Error(ERROR_MESSAGE_MAP.NODE_NOT_FOUND(nodeChanges.nodeId));
+        }
+        if (options.writeOptions?.validate !== false) {
+          this.validateNodeChanges(nodeChanges);
+        }
+        validated.push(nodeChanges);
+      } catch (error) {
+        result.failedResults.push(this.toNodeError(nodeChanges, error));
+      }
+    });
+    this.clear();
+
+    const sent =
+      options.strategy === "multiNode"
+        ? await this.commitMultiNode(validated)
+        : await this.commitPerNode(validated, options);
+    result.successfulResults.push(...sent.successfulResults);
+    result.failedResults.push(...sent.failedResults);
+    return result;
+  }
+
+  private async commitPerNode(
+    nodes: NodeChanges[],
+    options: ESPCDFParamTransactionOptions
+  ): Promise<ESPCDFParamTransactionResult> {
+    const results = await Promise.allSettled(
+      nodes.map((nodeChanges) =>
+        nodeChanges.node!.setMultipleParams(nodeChanges.payload, {
+          ...options.writeOptions,
+          validate: false,
+        })
+      )
+    );
+    return this.partition(
+      nodes.map((nodeChanges, index) => [nodeChanges, results[index]])
+    );
+  }
+
+  private async commitMultiNode(
+    nodes: NodeChanges[]
+  ): Promise<ESPCDFParamTransactionResult> {
+    const nodesByAdaptor = new Map<string | undefined, NodeChanges[]>();
+    nodes.forEach((nodeChanges) => {
+      const adaptorIdentifier = nodeChanges.node!.adaptorIdentifier;
+      nodesByAdaptor.set(adaptorIdentifier, [
+        ...(nodesByAdaptor.get(adaptorIdentifier) ?? []),
+        nodeChanges,
+      ]);
+    });
+
+    const settled = await Promise.all(
+      Array.from(nodesByAdaptor, async ([adaptorIdentifier, adaptorNodes]) => {
+        const user = adaptorIdentifier
+          ? this.rootStore.userStore.getAuthorizationEntityForAdaptor(
+              adaptorIdentifier
+            )
+          : this.rootStore.userStore.user;
+        const [result] = await Promise.allSettled([
+          user
+            ? user.setMultipleNodesParams(
+                adaptorNodes.map(({ nodeId, payload }) => ({ nodeId, payload }))
+              )
+            : Promise.reject(new Error(USER_NOT_LOGGED_IN_ERR)),
+        ]);
+        const nodeResults = adaptorNodes.map(
+          (nodeChanges) =>
+            [nodeChanges, this.getNodeOutcome(result, nodeChanges.nodeId)] as [
+              NodeChanges,
+              PromiseSettledResult<ESPCDFAPIResponse>,
+            ]
+        );
+        // setMultipleNodesParams bypasses the node entities, so apply the
+        // values the way a params-changed event would
+        nodeResults
+          .filter(([, nodeResult]) => nodeResult.status === "fulfilled")
+          .forEach(([{ nodeId, payload }]) =>
+            handleNodeParamsChanged(
+              this.rootStore,
+              nodeId,
+              Object.fromEntries(
+                Object.entries(payload).map(([deviceName, entries]) => [
+                  deviceName,
+                  Object.assign({}, ...entries),
+                ])
+              ),
+              adaptorIdentifier,
+              "user"
+            )
+          );
+        return nodeResults;
+      })
+    );
+    return this.partition(settled.flat());
+  }
+
+  /**
+   * Outcome of one node in a setMultipleNodesParams call. Responses without
+   * per-node results apply to every node; nodes missing from the results or
+   * reported with another status than `success` fail.
+   */
+  private getNodeOutcome(
+    result: PromiseSettledResult<ESPCDFAPIResponse<ESPCDFNodeParamsResult[]>>,
+    nodeId: string
+  ): PromiseSettledResult<ESPCDFAPIResponse> {
+    if (result.status === "rejected" || !Array.isArray(result.value?.data)) {
+      return result;
+    }
+    const nodeResult = result.value.data.find((r) => r.nodeId === nodeId);
+    if (nodeResult?.status === SUCCESS) {
+      return result;
+    }
+    return {
+      status: "rejected",
+      reason: new ESPCDFAdaptorError(
+        ERROR_MESSAGE_MAP.NODE_PARAMS_FAILED(
+          nodeId,
+          nodeResult?.description ?? "no result reported"
+        ),
+        "NODE_PARAMS_FAILED",
+        { nodeId, nodeResult }
+      ),
+    };
+  }
+
+  private resolveNodeChanges(changes: ESPCDFParamChange[]): NodeChanges {
+    const { nodeId, adaptorIdentifier } = changes[0];
+    const payload: Record<string, Record<string, any>[]> = {};
+    changes.forEach(({ deviceName, param, value }) => {
+      payload[deviceName] = [
+        ...(payload[deviceName] ?? []),
+        { [param]: value },
+      ];
+    });
+    return {
+      nodeId,
+      adaptorIdentifier,
+      node: this.rootStore.nodeStore.getNodeById(nodeId, adaptorIdentifier),
+      payload,
+    };
+  }
+
+  /**
+   * Validates and coerces the payload values against the node's params
+   * @throws ESPCDFValidationError for the first invalid value
+   */
+  private validateNodeChanges(nodeChanges: NodeChanges): void {
+    Object.entries(nodeChanges.payload).forEach(([deviceName, entries]) => {
+      const device = nodeChanges.node!.devices?.find(
+        (d) => d.name === deviceName
+      );
+      entries.forEach((entry) =>
+        Object.entries(entry).forEach(([paramName, value]) => {
+          const param = device?.params?.find((p) => p.name === paramName);
+          if (param) {
+            entry[paramName] = assertParamValue(param, value);
+          }
+        })
+      );
+    });
+  }
+
+  private partition(
+    results: [NodeChanges, PromiseSettledResult<any>][]
+  ): ESPCDFParamTransactionResult {
+    const partitioned: ESPCDFParamTransactionResult = {
+      successfulResults: [],
+      failedResults: [],
+    };
+    results.forEach(([nodeChanges, result]) => {
+      if (result.status === "fulfilled") {
+        partitioned.successfulResults.push({
+          nodeId: nodeChanges.nodeId,
+          adaptorIdentifier: nodeChanges.node?.adaptorIdentifier,
+          payload: nodeChanges.payload,
+          response: result.value,
+        });
+      } else {
+        partitioned.failedResults.push(
+          this.toNodeError(nodeChanges, result.reason)
+        );
+      }
+    });
+    return partitioned;
+  }
+
+  private toNodeError(
+    nodeChanges: NodeChanges,
+    error: unknown
+  ): ESPCDFParamTransactionNodeError {
+    return {
+      nodeId: nodeChanges.nodeId,
+      adaptorIdentifier:
+        nodeChanges.node?.adaptorIdentifier ?? nodeChanges.adaptorIdentifier,
+      payload: nodeChanges.payload,
+      error,
+    };
+  }
+}
@@ -0,0 +1,257 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFNode } from "../entities/ESPCDFNode";
+import { ESPCDFDeviceParam } from "../entities/ESPCDFDeviceParam";
+import {
+  ESPCDFAPIResponse,
+  ESPCDFParamWriteOptions,
+  ESPCDFParamWriteSchedulerOptions,
+} from "../types";
+import { getEntityScopedKey } from "../utils/adaptorScope";
+import { ERROR_MESSAGE_MAP } from "../utils/common";
+import { assertParamValue } from "../utils/paramValidation";
+
+const DEFAULT_DEBOUNCE_MS = 100;
+const DEFAULT_MAX_WAIT_MS = 500;
+
+interface Waiter {
+  resolve: (response: ESPCDFAPIResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+interface NodeBatch {
+  node: ESPCDFNode;
+  nodeKey: string;
+  // Whether the batch is sent as an optimistic setMultipleParams call
+  optimistic: boolean;
+  // Latest value per device param, keyed by device name, then param name
+  values: Map<string, Map<string, any>>;
+  waiters: Waiter[];
+  firstWriteAt: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Schedules param writes so that rapid updates (e.g. from sliders) reach the
+ * adaptor as few `ESPCDFNode.setMultipleParams` calls.
+ *
+ * Writes to the same param are coalesced (last value wins) and writes to
+ * different params of the same node are sent as one payload once no write
+ * arrived for `debounceMs`, or at the latest after `maxWaitMs`. Batches of a
+ * node are sent one at a time, in order. Every caller's promise settles with
+ * the outcome of the batch that carried its write. Optimistic and
+ * non-optimistic writes to a node are batched separately, so each write keeps
+ * its own `optimistic` option.
+ *
+ * Params of stored nodes use the scheduler of their CDF root for
+ * `setValue(value, { coalesce: true })`.
+ *
+ * @example
+ * const scheduler = new ESPCDFParamWriteScheduler({ debounceMs: 150 });
+ * onSliderChange((value) => scheduler.write(node, "Light", "Brightness", value));
+ * // or, through the root's scheduler
+ * onSliderChange((value) => brightness.setValue(value, { coalesce: true }));
+ */
+export class ESPCDFParamWriteScheduler {
+  private batches = new Map<string, NodeBatch>();
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(private options: ESPCDFParamWriteSchedulerOptions = {}) {}
+
+  /**
+   * Number of nodes with writes waiting to be sent.
+   */
+  get pendingCount(): number {
+    return new Set(Array.from(this.batches.values(), (batch) => batch.nodeKey))
+      .size;
+  }
+
+  /**
+   * Schedules a write to a device param.
+   *
+   * Values are validated when the write is scheduled unless `validate` is
+   * false, so an invalid value only rejects its own caller.
+   * @param node - Node owning the param
+   * @param deviceName - Name of the device owning the param
+   * @param paramName - Name of the param
+   * @param value - Value to write
+   * @param options - `validate` and `optimistic` for this write; unset
+   * options follow the scheduler's `writeOptions`
+   * @returns Response of the setMultipleParams call that carried the write
+   */
+  write(
+    node: ESPCDFNode,
+    deviceName: string,
+    paramName: string,
+    value: any,
+    options: Pick<ESPCDFParamWriteOptions, "validate" | "optimistic"> = {}
+  ): Promise<ESPCDFAPIResponse> {
+    const validate = options.validate ?? this.options.writeOptions?.validate;
+    const optimistic =
+      options.optimistic ?? this.options.writeOptions?.optimistic ?? false;
+    const param = node.devices
+      ?.find((device) => device.name === deviceName)
+      ?.params?.find((p) => p.name === paramName);
+    try {
+      if (param && validate !== false) {
+        value = assertParamValue(param, value);
+      }
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const nodeKey = getEntityScopedKey(node);
+    const batchKey = optimistic ? `${nodeKey}:optimistic` : nodeKey;
+    let batch = this.batches.get(batchKey);
+    if (!batch) {
+      batch = {
+        node,
+        nodeKey,
+        optimistic,
+        values: new Map(),
+        waiters: [],
+        firstWriteAt: Date.now(),
+      };
+      this.batches.set(batchKey, batch);
+    }
+    if (!batch.values.has(deviceName)) {
+      batch.values.set(deviceName, new Map());
+    }
+    batch.values.get(deviceName)!.set(paramName, value);
+
+    const response = new Promise<ESPCDFAPIResponse>((resolve, reject) =>
+      batch!.waiters.push({ resolve, reject })
+    );
+    this.scheduleFlush(batchKey, batch);
+    return response;
+  }
+
+  /**
+   * Schedules a write to a device param of a node.
+   * @param node - Node owning the param
+   * @param param - The param to write
+   * @param value - Value to write
+   * @param options - `validate` and `optimistic` for this write
+   * @returns Response of the setMultipleParams call that carried the write
+   */
+  setValue(
+    node: ESPCDFNode,
+    param: ESPCDFDeviceParam,
+    value: any,
+    options: Pick<ESPCDFParamWriteOptions, "validate" | "optimistic"> = {}
+  ): Promise<ESPCDFAPIResponse> {
+    const device = node.devices?.find((d) => d.params?.includes(param));
+    return this.write(
+      node,
+      device?.name ?? param.deviceName ?? "",
+      param.name,
+      value,
+      options
+    );
+  }
+
+  /**
+   * Sends waiting writes immediately instead of after the debounce period.
+   * @param node - Only flush writes to this node; defaults to all nodes
+   * @returns Resolves once the flushed batches have settled
+   */
+  async flush(node?: ESPCDFNode): Promise<void> {
+    const batchKeys = this.getBatchKeys(node);
+    if (node && batchKeys.length === 0) {
+      await this.inFlight.get(getEntityScopedKey(node));
+      return;
+    }
+    await Promise.all(batchKeys.map((batchKey) => this.send(batchKey)));
+  }
+
+  /**
+   * Drops waiting writes and rejects their callers, e.g. on logout.
+   * Batches already sent are not affected.
+   * @param node - Only cancel writes to this node; defaults to all nodes
+   */
+  cancel(node?: ESPCDFNode): void {
+    this.getBatchKeys(node).forEach((batchKey) => {
+      const batch = this.batches.get(batchKey)!;
+      clearTimeout(batch.timer);
+      this.batches.delete(batchKey);
+      const error = new Error(
+        ERROR_MESSAGE_MAP.PARAM_WRITE_CANCELLED(batch.node.id)
+      );
+      batch.waiters.forEach((waiter) => waiter.reject(error));
+    });
+  }
+
+  /**
+   * Cancels all waiting writes
+   */
+  dispose(): void {
+    this.cancel();
+  }
+
+  /**
+   * Keys of the waiting batches of a node, or of all nodes.
+   */
+  private getBatchKeys(node?: ESPCDFNode): string[] {
+    const nodeKey = node && getEntityScopedKey(node);
+    return Array.from(this.batches)
+      .filter(([, batch]) => !nodeKey || batch.nodeKey === nodeKey)
+      .map(([batchKey]) => batchKey);
+  }
+
+  private scheduleFlush(batchKey: string, batch: NodeBatch): void {
+    const debounceMs = this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    const maxWaitMs = this.options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    const remainingMs = batch.firstWriteAt + maxWaitMs - Date.now();
+    clearTimeout(batch.timer);
+    batch.timer = setTimeout(
+      () => void this.send(batchKey),
+      Math.max(0, Math.min(debounceMs, remainingMs))
+    );
+  }
+
+  /**
+   * Sends the waiting batch of a node after the node's previous batch settled.
+   */
+  private send(batchKey: string): Promise<unknown> {
+    const batch = this.batches.get(batchKey);
+    if (!batch) {
+      return Promise.resolve();
+    }
+    const { nodeKey } = batch;
+    clearTimeout(batch.timer);
+    this.batches.delete(batchKey);
+
+    // setMultipleParams payloads list one { param: value } entry per param
+    const payload = Object.fromEntries(
+      Array.from(batch.values, ([deviceName, values]) => [
+        deviceName,
+        Array.from(values, ([paramName, value]) => ({ [paramName]: value })),
+      ])
+    );
+    const previous = this.inFlight.get(nodeKey) ?? Promise.resolve();
+    const flight = previous
+      // Values were validated when the writes were scheduled
+      .then(() =>
+        batch.node.setMultipleParams(payload, {
+          validate: false,
+          optimistic: batch.optimistic,
+        })
+      )
+      .then(
+        (response) =>
+          batch.waiters.forEach((waiter) => waiter.resolve(response)),
+        (error) => batch.waiters.forEach((waiter) => waiter.reject(error))
+      )
+      .finally(() => {
+        if (this.inFlight.get(nodeKey) === flight) {
+          this.inFlight.delete(nodeKey);
+        }
+      });
+    this.inFlight.set(nodeKey, flight);
+    return flight;
+  }
+}
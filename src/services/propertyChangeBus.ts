@@ -0,0 +1,219 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { reaction, IReactionDisposer } from "mobx";
+import { ESPCDF } from "../store/index";
+import { ESPCDFNode } from "../entities/ESPCDFNode";
+import { ESPCDFGroup } from "../entities/ESPCDFGroup";
+import {
+  ESPCDFLogger,
+  ESPCDFPropertyChangeBusListener,
+  ESPCDFPropertyChangeEvent,
+  ESPCDFPropertyChangeFilter,
+} from "../types";
+import { getEntityScopedKey } from "../utils/adaptorScope";
+
+interface BusSubscription {
+  listener: ESPCDFPropertyChangeBusListener;
+  filter: ESPCDFPropertyChangeFilter;
+}
+
+const toList = <T>(value: T | T[]): T[] =>
+  Array.isArray(value) ? value : [value];
+
+const matchesAny = <T>(expected: T | T[] | undefined, actual?: T) =>
+  expected === undefined ||
+  (actual !== undefined && toList(expected).includes(actual));
+
+/**
+ * Returns the device or service and param an event is about, if any
+ */
+function getParamTarget(event: ESPCDFPropertyChangeEvent): {
+  deviceName?: string;
+  serviceName?: string;
+  paramName?: string;
+} {
+  switch (event.type) {
+    case "deviceParamChanged":
+      return { deviceName: event.deviceName, paramName: event.paramName };
+    case "serviceParamChanged":
+      return { serviceName: event.serviceName, paramName: event.paramName };
+    case "staleParamUpdate":
+    case "paramWritten":
+      return event.kind === "device"
+        ? { deviceName: event.entityName, paramName: event.paramName }
+        : { serviceName: event.entityName, paramName: event.paramName };
+    default:
+      return {};
+  }
+}
+
+function collectGroupNodeIds(group: ESPCDFGroup, nodeIds: Set<string>) {
+  group.nodeIds?.forEach((nodeId) => nodeIds.add(nodeId));
+  group.subGroups?.forEach((subGroup) =>
+    collectGroupNodeIds(subGroup, nodeIds)
+  );
+}
+
+/**
+ * Delivers the property change events of every stored node to root-level
+ * subscribers, optionally filtered by node, device, service, param, event
+ * type or group.
+ *
+ * The bus follows `nodeStore.nodesList`, so subscriptions keep receiving
+ * events when nodes are added, replaced by a re-sync or removed; there is no
+ * need to call `onPropertyChange` on each node. Nodes are only followed while
+ * the bus has subscribers. Errors thrown by listeners are reported to the
+ * CDF `logger`.
+ *
+ * @example
+ * const unsubscribe = cdf.propertyChanges.subscribe(
+ *   (event, node) => console.log(node.id, event),
+ *   { type: "deviceParamChanged", paramName: "Power", groupId: homeId }
+ * );
+ */
+export class ESPCDFPropertyChangeBus {
+  private subscriptions = new Set<BusSubscription>();
+  private nodeSubscriptions = new Map<
+    string,
+    { node: ESPCDFNode; unsubscribe: () => void }
+  >();
+  private disposeNodesReaction?: IReactionDisposer;
+
+  /**
+   * @param rootStore - CDF root whose nodes are followed
+   * @param logger - Receives errors thrown by listeners
+   */
+  constructor(
+    private rootStore: ESPCDF,
+    private logger: ESPCDFLogger
+  ) {}
+
+  /**
+   * Number of active subscriptions.
+   */
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  /**
+   * Subscribes to the property change events of all nodes.
+   * @param listener - Called with each matching event and the node it came from
+   * @param filter - Events to deliver; all events when omitted
+   * @returns Unsubscribe function
+   */
+  subscribe(
+    listener: ESPCDFPropertyChangeBusListener,
+    filter: ESPCDFPropertyChangeFilter = {}
+  ): () => void {
+    const subscription: BusSubscription = { listener, filter };
+    this.subscriptions.add(subscription);
+    this.startTracking();
+    return () => {
+      this.subscriptions.delete(subscription);
+      if (this.subscriptions.size === 0) {
+        this.stopTracking();
+      }
+    };
+  }
+
+  /**
+   * Removes every subscription and stops following the node store.
+   * Used by `ESPCDF.destroy()`.
+   */
+  dispose(): void {
+    this.subscriptions.clear();
+    this.stopTracking();
+  }
+
+  private startTracking(): void {
+    if (this.disposeNodesReaction) return;
+    this.disposeNodesReaction = reaction(
+      () => this.rootStore.nodeStore.nodesList,
+      (nodes) => this.trackNodes(nodes),
+      { fireImmediately: true }
+    );
+  }
+
+  private stopTracking(): void {
+    this.disposeNodesReaction?.();
+    this.disposeNodesReaction = undefined;
+    this.nodeSubscriptions.forEach(({ unsubscribe }) => unsubscribe());
+    this.nodeSubscriptions.clear();
+  }
+
+  /**
+   * Subscribes to added or replaced nodes and releases removed ones
+   */
+  private trackNodes(nodes: ESPCDFNode[]): void {
+    const nodesByKey = new Map(
+      nodes.map((node) => [getEntityScopedKey(node), node])
+    );
+    this.nodeSubscriptions.forEach(({ node, unsubscribe }, key) => {
+      if (nodesByKey.get(key) !== node) {
+        unsubscribe();
+        this.nodeSubscriptions.delete(key);
+      }
+    });
+    nodesByKey.forEach((node, key) => {
+      if (this.nodeSubscriptions.has(key)) return;
+      this.nodeSubscriptions.set(key, {
+        node,
+        unsubscribe: node.onPropertyChange((event) =>
+          this.publish(node, event)
+        ),
+      });
+    });
+  }
+
+  private publish(node: ESPCDFNode, event: ESPCDFPropertyChangeEvent): void {
+    Array.from(this.subscriptions).forEach(({ listener, filter }) => {
+      if (!this.matches(filter, node, event)) return;
+      try {
+        listener(event, node);
+      } catch (error) {
+        this.logger.error(
+          "[ESPCDFPropertyChangeBus] Property change listener failed:",
+          error
+        );
+      }
+    });
+  }
+
+  private matches(
+    filter: ESPCDFPropertyChangeFilter,
+    node: ESPCDFNode,
+    event: ESPCDFPropertyChangeEvent
+  ): boolean {
+    const target = getParamTarget(event);
+    return (
+      matchesAny(filter.adaptorIdentifier, node.adaptorIdentifier) &&
+      matchesAny(filter.nodeId, node.id) &&
+      matchesAny(filter.type, event.type) &&
+      matchesAny(filter.deviceName, target.deviceName) &&
+      matchesAny(filter.serviceName, target.serviceName) &&
+      matchesAny(filter.paramName, target.paramName) &&
+      this.matchesGroup(filter, node)
+    );
+  }
+
+  private matchesGroup(
+    filter: ESPCDFPropertyChangeFilter,
+    node: ESPCDFNode
+  ): boolean {
+    if (filter.groupId === undefined) return true;
+    return toList(filter.groupId).some((groupId) => {
+      const group = this.rootStore.groupStore.getGroupById(
+        groupId,
+        filter.adaptorIdentifier ?? node.adaptorIdentifier
+      );
+      if (!group) return false;
+      const nodeIds = new Set<string>();
+      collectGroupNodeIds(group, nodeIds);
+      return nodeIds.has(node.id);
+    });
+  }
+}
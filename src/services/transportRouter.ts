@@ -0,0 +1,297 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { runInAction } from "mobx";
+import { ESPCDF } from "../store/index";
+import { ESPCDFNode } from "../entities/ESPCDFNode";
+import {
+  ESPCDFAPIResponse,
+  ESPCDFLogger,
+  ESPCDFNodeTransport,
+  ESPCDFParamTransport,
+  ESPCDFParamValues,
+  ESPCDFParamWriteOptions,
+  ESPCDFTransportAttempt,
+  ESPCDFTransportOperation,
+  ESPCDFTransportRoute,
+  ESPCDFTransportConfig,
+  ESPCDFTransportRouteListener,
+} from "../types";
+import { ESPCDFTransportError } from "../errors";
+import { ERROR_MESSAGE_MAP } from "../utils/common";
+import { handleNodeParamsChanged } from "./nodeEventHandlers";
+
+/**
+ * Cloud transport served by the adaptor's node and device operations.
+ */
+export const ESPCDF_CLOUD_PARAM_TRANSPORT: ESPCDFParamTransport = {
+  type: ESPCDFNodeTransport.CLOUD,
+  // setMultipleParams payloads list one { param: value } entry per param
+  setParams: (node, params) =>
+    node.operations.setMultipleParams(
+      Object.fromEntries(
+        Object.entries(params).map(([name, values]) => [
+          name,
+          Object.entries(values).map(([paramName, value]) => ({
+            [paramName]: value,
+          })),
+        ])
+      )
+    ),
+  getParams: async (node) => {
+    const values: ESPCDFParamValues = {};
+    for (const device of node.devices ?? []) {
+      const params = await device.operations.getParams();
+      values[device.name] = Object.fromEntries(
+        params.map((param) => [param.name, param.value])
+      );
+    }
+    return values;
+  },
+};
+
+/**
+ * Routes param reads and writes over the transports of a node.
+ *
+ * Transports are tried in `transportOrder` priority (e.g. local before
+ * cloud), followed by available transports the order does not list;
+ * `preferred` transports, such as local control, come first;
+ * transports missing from `availableTransports` or without a registered
+ * {@link ESPCDFParamTransport} are skipped, and the next one is tried when a
+ * transport fails. Operations on nodes without any available transport fail
+ * with `NODE_TRANSPORTS_MISSING`. The transport that served an operation is
+ * stored as the node's observable `lastUsedTransport` and reported to
+ * subscribers; errors thrown by subscribers go to the `logger`.
+ *
+ * Param writes of stored nodes (`ESPCDFNode.setMultipleParams`,
+ * `ESPCDFDeviceParam.setValue` and the param write scheduler) are routed
+ * through the router of their CDF root.
+ *
+ * @example
+ * cdf.transportRouter.register(localTransport);
+ * const route = await cdf.transportRouter.setParams(node, { Light: { Power: true } });
+ * console.log(route.transport); // "local"
+ */
+export class ESPCDFTransportRouter {
+  private transports = new Map<string, ESPCDFParamTransport>();
+  private listeners = new Set<ESPCDFTransportRouteListener>();
+
+  /**
+   * @param rootStore - CDF root whose nodes receive routed param updates
+   * @param logger - Receives errors thrown by route listeners
+   */
+  constructor(
+    private rootStore: ESPCDF | null = null,
+    private logger: ESPCDFLogger = console
+  ) {
+    this.register(ESPCDF_CLOUD_PARAM_TRANSPORT);
+  }
+
+  /**
+   * Registers a transport, replacing any transport of the same type.
+   * @param transport - The transport to register
+   * @returns Function that unregisters the transport
+   */
+  register(transport: ESPCDFParamTransport): () => void {
+    this.transports.set(transport.type, transport);
+    return () => {
+      if (this.transports.get(transport.type) === transport) {
+        this.transports.delete(transport.type);
+      }
+    };
+  }
+
+  /**
+   * Returns the registered transport of a type, if any.
+   */
+  getTransport(type: string): ESPCDFParamTransport | undefined {
+    return this.transports.get(type);
+  }
+
+  /**
+   * Subscribe to routed operations
+   * @param listener - Called with the route of every successful operation
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ESPCDFTransportRouteListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Returns the transports an operation on the node would try, in order.
+   * @param node - The node
+   * @param operation - Reads skip transports without `getParams`
+   */
+  getRoute(
+    node: ESPCDFNode,
+    operation: ESPCDFTransportOperation = "setParams"
+  ): string[] {
+    const available = node.availableTransports ?? {};
+    const preferred = Object.keys(available).filter(
+      (type) => this.transports.get(type)?.preferred
+    );
+    const order = [
+      ...preferred,
+      ...(node.transportOrder ?? []),
+      ...Object.keys(available),
+    ];
+    return Array.from(new Set(order)).filter(
+      (type) => available[type] && this.canServe(type, operation)
+    );
+  }
+
+  /**
+   * Writes params over the first transport of the node that succeeds.
+   * Written values are applied to the node in the store.
+   * @param node - The node
+   * @param params - Values keyed by device or service name, then param name
+   * @param options - Pass `validate: false` to skip client-side validation
+   * @returns Route of the write, with the transport response as `result`
+   * @throws ESPCDFValidationError if a value fails client-side validation
+   * @throws ESPCDFTransportError if no transport is available or all failed
+   */
+  async setParams(
+    node: ESPCDFNode,
+    params: ESPCDFParamValues,
+    options: Pick<ESPCDFParamWriteOptions, "validate"> = {}
+  ): Promise<ESPCDFTransportRoute<ESPCDFAPIResponse | void>> {
+    const payload =
+      options.validate === false ? params : node.validateParamWrites(params);
+    const route = await this.sendParams(node, payload);
+    handleNodeParamsChanged(
+      this.rootStore,
+      node.id,
+      payload,
+      node.adaptorIdentifier,
+      "user"
+    );
+    return route;
+  }
+
+  /**
+   * Writes params over the first transport of the node that succeeds, without
+   * validating them or applying them to the node. Used by entity writes,
+   * which apply the values through their operation events.
+   * @param node - The node
+   * @param params - Values keyed by device or service name, then param name
+   * @returns Route of the write, with the transport response as `result`
+   * @throws ESPCDFTransportError if no transport is available or all failed
+   */
+  sendParams(
+    node: ESPCDFNode,
+    params: ESPCDFParamValues
+  ): Promise<ESPCDFTransportRoute<ESPCDFAPIResponse | void>> {
+    return this.route(node, "setParams", (transport, config) =>
+      transport.setParams(node, params, config)
+    );
+  }
+
+  /**
+   * Reads params over the first transport of the node that succeeds.
+   * Read values are applied to the node in the store.
+   * @param node - The node
+   * @returns Route of the read, with the param values as `result`
+   * @throws ESPCDFTransportError if no transport is available or all failed
+   */
+  async getParams(
+    node: ESPCDFNode
+  ): Promise<ESPCDFTransportRoute<ESPCDFParamValues>> {
+    const route = await this.route(node, "getParams", (transport, config) =>
+      transport.getParams!(node, config)
+    );
+    handleNodeParamsChanged(
+      this.rootStore,
+      node.id,
+      route.result,
+      node.adaptorIdentifier
+    );
+    return route;
+  }
+
+  /**
+   * Remove all listeners and transports other than cloud
+   */
+  dispose(): void {
+    this.listeners.clear();
+    this.transports.clear();
+    this.register(ESPCDF_CLOUD_PARAM_TRANSPORT);
+  }
+
+  private canServe(type: string, operation: ESPCDFTransportOperation) {
+    const transport = this.transports.get(type);
+    return !!transport && (operation === "setParams" || !!transport.getParams);
+  }
+
+  private async route<T>(
+    node: ESPCDFNode,
+    operation: ESPCDFTransportOperation,
+    run: (
+      transport: ESPCDFParamTransport,
+      config?: ESPCDFTransportConfig
+    ) => Promise<T>
+  ): Promise<ESPCDFTransportRoute<T>> {
+    if (Object.keys(node.availableTransports ?? {}).length === 0) {
+      throw new ESPCDFTransportError(
+        ERROR_MESSAGE_MAP.NODE_TRANSPORTS_MISSING(node.id),
+        "NODE_TRANSPORTS_MISSING",
+        { nodeId: node.id, operation }
+      );
+    }
+    const types = this.getRoute(node, operation);
+    if (types.length === 0) {
+      throw new ESPCDFTransportError(
+        ERROR_MESSAGE_MAP.NO_TRANSPORT_AVAILABLE(node.id),
+        "NO_TRANSPORT_AVAILABLE",
+        { nodeId: node.id, operation }
+      );
+    }
+
+    const failedAttempts: ESPCDFTransportAttempt[] = [];
+    for (const type of types) {
+      try {
+        const result = await run(
+          this.transports.get(type)!,
+          node.availableTransports?.[type]
+        );
+        const route: ESPCDFTransportRoute<T> = {
+          nodeId: node.id,
+          operation,
+          transport: type,
+          failedAttempts,
+          result,
+          timestamp: Date.now(),
+        };
+        runInAction(() => {
+          node.lastUsedTransport = type;
+        });
+        this.listeners.forEach((listener) => {
+          try {
+            listener(route);
+          } catch (error) {
+            this.logger.error(
+              `[ESPCDFTransportRouter] Error in route listener:`,
+              error
+            );
+          }
+        });
+        return route;
+      } catch (error) {
+        failedAttempts.push({ transport: type, error });
+      }
+    }
+
+    const lastError = failedAttempts[failedAttempts.length - 1].error;
+    throw new ESPCDFTransportError(
+      ERROR_MESSAGE_MAP.TRANSPORT_ROUTE_FAILED(node.id, types),
+      "TRANSPORT_ROUTE_FAILED",
+      { nodeId: node.id, operation, failedAttempts },
+      lastError instanceof Error ? lastError : undefined
+    );
+  }
+}
@@ -0,0 +1,152 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AdaptorRegistry } from "../../registry";
+import {
+  createInMemoryCDF,
+  IN_MEMORY_DEMO_PASSWORD,
+  IN_MEMORY_DEMO_USERNAME,
+} from "../../testing";
+import { ESPCDFAdaptorCapability } from "../../types";
+import { assertAdaptorCapability } from "../../utils/capabilities";
+import { ESPCDF, initCDF } from "../index";
+
+describe("ESPCDF custom stores", () => {
+  test("disposes custom stores on destroy", async () => {
+    const dispose = jest.fn();
+    class CustomStore {
+      constructor(readonly rootStore: ESPCDF) {}
+      dispose = dispose;
+    }
+    const cdf = ESPCDF.create();
+
+    cdf.addStore("customStore", CustomStore);
+    expect((cdf as any).customStore.rootStore).toBe(cdf);
+    await cdf.destroy();
+
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("ESPCDF instances", () => {
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await ESPCDF.instance?.destroy();
+  });
+
+  test("keeps registries and stores of created roots apart", async () => {
+    const first = await createInMemoryCDF();
+    const second = await createInMemoryCDF();
+
+    expect(first.cdf.sdkAdaptorRegistry).not.toBe(
+      second.cdf.sdkAdaptorRegistry
+    );
+    first.cdf.nodeStore.deleteNode("node_light");
+
+    expect(first.cdf.nodeStore.getNodeById("node_light")).toBeUndefined();
+    expect(second.cdf.nodeStore.getNodeById("node_light")).toBeDefined();
+    expect(ESPCDF.instance).toBeNull();
+    await first.cdf.destroy();
+    await second.cdf.destroy();
+  });
+
+  test("checks capabilities against the registry of the owning root", async () => {
+    // The node store logs failed node operations
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const withOTA = await createInMemoryCDF();
+    const withoutOTA = await createInMemoryCDF({
+      adaptor: { capabilities: [ESPCDFAdaptorCapability.SCENES] },
+    });
+
+    await expect(
+      withoutOTA.cdf.nodeStore.getNodeById("node_light")!.checkOTAUpdate!()
+    ).rejects.toMatchObject({ errorCode: "ADAPTOR_CAPABILITY_NOT_SUPPORTED" });
+    await expect(
+      withOTA.cdf.nodeStore.getNodeById("node_light")!.checkOTAUpdate!()
+    ).resolves.toBeDefined();
+    expect(() =>
+      assertAdaptorCapability(
+        { identifier: "inMemory", operations: {} },
+        ESPCDFAdaptorCapability.OTA
+      )
+    ).toThrow(
+      expect.objectContaining({ errorCode: "ENTITY_REGISTRY_NOT_FOUND" })
+    );
+    await withOTA.cdf.destroy();
+    await withoutOTA.cdf.destroy();
+  });
+
+  test("shares one instance through initCDF and rejects other configs", async () => {
+    const sdkAdaptorRegistry = new AdaptorRegistry();
+    const cdf = await initCDF({ sdkAdaptorRegistry });
+
+    await expect(initCDF({ sdkAdaptorRegistry })).resolves.toBe(cdf);
+    await expect(
+      initCDF({ sdkAdaptorRegistry: new AdaptorRegistry() })
+    ).rejects.toMatchObject({ errorCode: "CDF_ALREADY_INITIALIZED" });
+    await expect(
+      initCDF({ sdkAdaptorRegistry, paramHistory: { maxEntriesPerNode: 5 } })
+    ).rejects.toMatchObject({ errorCode: "CDF_CONFIG_CHANGED" });
+
+    await cdf.destroy();
+    await expect(initCDF({ sdkAdaptorRegistry })).resolves.not.toBe(cdf);
+  });
+});
+
+describe("ESPCDF teardown", () => {
+  test("reset clears stores, entity listeners and node update subscriptions", async () => {
+    const { cdf, adaptor } = await createInMemoryCDF();
+    const user = cdf.userStore.user!;
+    await user.subscribeToNodeUpdates!({ nodeList: cdf.nodeStore.nodesList });
+    const light = cdf.nodeStore.getNodeById("node_light")!;
+    light.subscribe(jest.fn());
+    cdf.subscriptionStore.registerTransport("node_light", {
+      type: "local",
+      metadata: {},
+    });
+
+    await cdf.reset();
+
+    expect(cdf.nodeStore.nodesList).toHaveLength(0);
+    expect(cdf.groupStore.groupsList).toHaveLength(0);
+    expect(cdf.userStore.user).toBeUndefined();
+    expect(cdf.subscriptionStore.getRegisteredTransportsSnapshot()).toEqual({});
+    expect(light.events.listenerCount).toBe(0);
+    adaptor.backend.simulateParamChange("node_light", {
+      Light: { Power: true },
+    });
+    expect(cdf.nodeStore.nodesList).toHaveLength(0);
+    await cdf.destroy();
+  });
+
+  test("stays usable after reset", async () => {
+    const { cdf } = await createInMemoryCDF();
+
+    await cdf.reset();
+    await cdf.userStore.auth.login({
+      username: IN_MEMORY_DEMO_USERNAME,
+      password: IN_MEMORY_DEMO_PASSWORD,
+    });
+    await cdf.userStore.user!.syncHomeWithNodes();
+
+    expect(cdf.nodeStore.getNodeById("node_light")).toBeDefined();
+    await cdf.destroy();
+  });
+
+  test("destroy clears registries it created and releases the shared instance", async () => {
+    const { cdf } = await createInMemoryCDF();
+    const sdkAdaptorRegistry = new AdaptorRegistry();
+    const shared = await initCDF({ sdkAdaptorRegistry });
+
+    await cdf.destroy();
+    await shared.destroy();
+
+    expect(cdf.sdkAdaptorRegistry.getRegisteredAdaptorIdentifiers()).toEqual(
+      []
+    );
+    expect(ESPCDF.instance).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../index";
+import {
+  ESPCDFInMemoryAdaptor,
+  IN_MEMORY_DEMO_PASSWORD,
+  IN_MEMORY_DEMO_USERNAME,
+} from "../../testing";
+import {
+  getAdaptorScopedKey,
+  parseAdaptorScopedKey,
+} from "../../utils/adaptorScope";
+
+async function signIn(cdf: ESPCDF, identifier: string) {
+  cdf.sdkAdaptorRegistry.register(new ESPCDFInMemoryAdaptor({ identifier }));
+  cdf.sdkAdaptorRegistry.setActiveAdaptor(identifier);
+  await cdf.userStore.auth.login({
+    username: IN_MEMORY_DEMO_USERNAME,
+    password: IN_MEMORY_DEMO_PASSWORD,
+  });
+  await cdf.userStore.user!.syncHomeWithNodes();
+}
+
+describe("adaptor-scoped node storage", () => {
+  let cdf: ESPCDF;
+
+  beforeEach(async () => {
+    cdf = ESPCDF.create();
+    await signIn(cdf, "first");
+    await signIn(cdf, "second");
+  });
+
+  afterEach(async () => {
+    await cdf.destroy();
+  });
+
+  test("keeps equal node ids of different adaptors apart", () => {
+    const first = cdf.nodeStore.getNodeById("node_light", "first");
+    const second = cdf.nodeStore.getNodeById("node_light", "second");
+
+    expect(first?.adaptorIdentifier).toBe("first");
+    expect(second?.adaptorIdentifier).toBe("second");
+    expect(first).not.toBe(second);
+    expect(
+      cdf.nodeStore.getNodesForAdaptor("first").map(({ id }) => id)
+    ).toEqual(cdf.nodeStore.getNodesForAdaptor("second").map(({ id }) => id));
+  });
+
+  test("resolves id collisions in merged views to the active adaptor", () => {
+    expect(cdf.nodeStore.getNodeById("node_light")?.adaptorIdentifier).toBe(
+      "second"
+    );
+    expect(cdf.nodeStore.nodesByIDMap["node_light"].adaptorIdentifier).toBe(
+      "second"
+    );
+
+    cdf.sdkAdaptorRegistry.setActiveAdaptor("first");
+
+    expect(cdf.nodeStore.getNodeById("node_light")?.adaptorIdentifier).toBe(
+      "first"
+    );
+  });
+
+  test("updates and deletes only the node of the given adaptor", () => {
+    cdf.nodeStore.updateNode("node_light", { needsRefresh: true }, "first");
+    expect(cdf.nodeStore.getNodeById("node_light", "first")?.needsRefresh).toBe(
+      true
+    );
+    expect(
+      cdf.nodeStore.getNodeById("node_light", "second")?.needsRefresh
+    ).toBeFalsy();
+
+    cdf.nodeStore.deleteNode("node_light", "first");
+
+    expect(cdf.nodeStore.getNodeById("node_light", "first")).toBeUndefined();
+    expect(cdf.nodeStore.getNodeById("node_light", "second")).toBeDefined();
+  });
+
+  test("scopes groups by adaptor", () => {
+    const firstGroups = cdf.groupStore.getGroupsForAdaptor("first");
+    expect(firstGroups.length).toBeGreaterThan(0);
+    firstGroups.forEach((group) => {
+      expect(group.adaptorIdentifier).toBe("first");
+      expect(cdf.groupStore.getGroupById(group.id, "second")).not.toBe(group);
+    });
+  });
+});
+
+describe("getAdaptorScopedKey", () => {
+  test("round-trips through parseAdaptorScopedKey", () => {
+    const key = getAdaptorScopedKey("rainmaker", "node::1");
+
+    expect(key).toBe("rainmaker::node::1");
+    expect(parseAdaptorScopedKey(key)).toEqual({
+      adaptorIdentifier: "rainmaker",
+      id: "node::1",
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../index";
+import { ESPCDFNode } from "../../entities/ESPCDFNode";
+import { ESPCDFDeviceParam } from "../../entities/ESPCDFDeviceParam";
+import { ESPCDFPropertyChangeEvent } from "../../types";
+import { createInMemoryCDF } from "../../testing";
+import { createFaultInjectionMiddleware } from "../../utils/adaptorMiddleware";
+import { EVENT_NODE_PARAMS_CHANGED } from "../../utils/constants";
+
+describe("ParamHistoryStore", () => {
+  let cdf: ESPCDF;
+  let node: ESPCDFNode;
+  let param: ESPCDFDeviceParam;
+  let start: number;
+  const history = () =>
+    cdf.paramHistoryStore
+      .getHistory("node_light")
+      .map(({ source, oldValue, value }) => [source, oldValue, value]);
+
+  beforeEach(async () => {
+    ({ cdf } = await createInMemoryCDF({
+      config: { paramHistory: { maxEntriesPerNode: 4 } },
+    }));
+    node = cdf.nodeStore.getNodeById("node_light")!;
+    param = node.devices![0].params.find((p) => p.name === "Brightness")!;
+    start = param.value;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await cdf.destroy();
+  });
+
+  test("records user writes, remote updates and rollbacks", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    await param.setValue(20);
+    await node.setMultipleParams({ Light: [{ Brightness: 30 }] });
+    cdf.subscriptionStore.nodeUpdates.listen({
+      event_type: EVENT_NODE_PARAMS_CHANGED,
+      node_id: node.id,
+      payload: { Light: { Brightness: 35 } },
+    });
+    const removeFault = cdf.sdkAdaptorRegistry.use(
+      createFaultInjectionMiddleware()
+    );
+    await expect(param.setValue(40, { optimistic: true })).rejects.toThrow();
+    removeFault();
+
+    expect(history()).toEqual([
+      ["user", start, 20],
+      ["user", 20, 30],
+      ["remote", 30, 35],
+      ["rollback", 40, 35],
+    ]);
+    expect(cdf.paramHistoryStore.getHistory("node_light")[0]).toMatchObject({
+      nodeId: "node_light",
+      kind: "device",
+      entityName: "Light",
+      paramName: "Brightness",
+    });
+  });
+
+  test("reports setValue writes as a user change and a paramWritten event", async () => {
+    const events: ESPCDFPropertyChangeEvent[] = [];
+    node.onPropertyChange((event) => events.push(event));
+
+    await param.setValue(20);
+
+    expect(events.map((event) => event.type)).toEqual([
+      "deviceParamChanged",
+      "paramWritten",
+    ]);
+    expect(events[0]).toMatchObject({
+      deviceName: "Light",
+      paramName: "Brightness",
+      value: 20,
+      oldValue: start,
+      source: "user",
+    });
+    expect(history()).toEqual([["user", start, 20]]);
+  });
+
+  test("undoes the last user change through setValue", async () => {
+    await param.setValue(20);
+    await param.setValue(30);
+    cdf.subscriptionStore.nodeUpdates.listen({
+      event_type: EVENT_NODE_PARAMS_CHANGED,
+      node_id: node.id,
+      payload: { Light: { Brightness: 35 } },
+    });
+
+    await expect(
+      cdf.paramHistoryStore.undoLast("node_light")
+    ).resolves.toMatchObject({ oldValue: 20, value: 30 });
+    expect(param.value).toBe(20);
+    expect(history()).toEqual([
+      ["user", start, 20],
+      ["remote", 30, 35],
+    ]);
+
+    await cdf.paramHistoryStore.undoLast("node_light");
+    expect(param.value).toBe(start);
+    await expect(
+      cdf.paramHistoryStore.undoLast("node_light")
+    ).resolves.toBeUndefined();
+  });
+
+  test("keeps at most maxEntriesPerNode entries per node", async () => {
+    for (const value of [10, 11, 12, 13, 14, 15]) {
+      await param.setValue(value);
+    }
+
+    expect(history()).toEqual([
+      ["user", 11, 12],
+      ["user", 12, 13],
+      ["user", 13, 14],
+      ["user", 14, 15],
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../index";
+import { ESPCDFDeviceParam } from "../../entities/ESPCDFDeviceParam";
+import { createInMemoryCDF } from "../../testing";
+import { handleNodeUpdateEvent } from "../../services/nodeEventHandlers";
+import { EVENT_NODE_PARAMS_CHANGED } from "../../utils/constants";
+
+describe("SubscriptionStore node update handlers", () => {
+  let cdf: ESPCDF;
+  let param: ESPCDFDeviceParam;
+  const logger = { warn: jest.fn(), error: jest.fn() };
+  const send = (event_type: string, payload: unknown) =>
+    cdf.subscriptionStore.nodeUpdates.listen({
+      event_type,
+      node_id: "node_light",
+      payload,
+      timestamp: Date.now(),
+    });
+  const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  beforeEach(async () => {
+    ({ cdf } = await createInMemoryCDF({ config: { logger } }));
+    param = cdf.nodeStore
+      .getNodeById("node_light")!
+      .devices![0].params.find((p) => p.name === "Brightness")!;
+  });
+
+  afterEach(async () => {
+    await cdf.destroy();
+    jest.clearAllMocks();
+  });
+
+  test("runs custom handlers with the parsed payload until unregistered", () => {
+    const progress: [string, number][] = [];
+    const unregister = cdf.subscriptionStore.registerNodeUpdateHandler<{
+      percent: number;
+    }>("vendor/ota/progress", {
+      parsePayload: (payload) => ({
+        percent: Number(JSON.parse(payload as string).pct),
+      }),
+      handle: ({ event, payload }) => {
+        progress.push([event.node_id, payload.percent]);
+      },
+    });
+
+    send("vendor/ota/progress", '{"pct":"42"}');
+    unregister();
+    send("vendor/ota/progress", '{"pct":"43"}');
+
+    expect(progress).toEqual([["node_light", 42]]);
+    expect(
+      cdf.subscriptionStore.getNodeUpdateHandler("vendor/ota/progress")
+    ).toBeUndefined();
+  });
+
+  test("reports parser and handler errors to the logger", async () => {
+    const failure = new Error("handler failed");
+    cdf.subscriptionStore.registerNodeUpdateHandler("vendor/alert", {
+      parsePayload: (payload) => JSON.parse(payload as string),
+      handle: async () => {
+        throw failure;
+      },
+    });
+
+    send("vendor/alert", "{bad");
+    send("vendor/alert", "{}");
+    await flushPromises();
+
+    expect(logger.error).toHaveBeenCalledTimes(2);
+    expect(logger.error).toHaveBeenLastCalledWith(
+      "[NodeEventHandlers] Error handling vendor/alert event:",
+      failure
+    );
+  });
+
+  test("runs wrappers of built-in handlers outermost first", () => {
+    const order: string[] = [];
+    const unwrapOuter = cdf.subscriptionStore.wrapNodeUpdateHandler(
+      EVENT_NODE_PARAMS_CHANGED,
+      (context, next) => {
+        order.push("outer");
+        context.payload = { Light: { Brightness: 77 } };
+        next();
+        order.push("outer done");
+      }
+    );
+    cdf.subscriptionStore.wrapNodeUpdateHandler(
+      EVENT_NODE_PARAMS_CHANGED,
+      (_context, next) => {
+        order.push("inner");
+        next();
+      }
+    );
+
+    send(EVENT_NODE_PARAMS_CHANGED, { Light: { Brightness: 5 } });
+    expect(param.value).toBe(77);
+    expect(order).toEqual(["outer", "inner", "outer done"]);
+
+    unwrapOuter();
+    send(EVENT_NODE_PARAMS_CHANGED, { Light: { Brightness: 6 } });
+    expect(param.value).toBe(6);
+  });
+
+  test("replaces built-in handlers and restores them on unregister", () => {
+    const builtin = cdf.subscriptionStore.getNodeUpdateHandler(
+      EVENT_NODE_PARAMS_CHANGED
+    )!;
+    const unregister = cdf.subscriptionStore.registerNodeUpdateHandler(
+      EVENT_NODE_PARAMS_CHANGED,
+      { handle: () => {} }
+    );
+
+    send(EVENT_NODE_PARAMS_CHANGED, { Light: { Brightness: 8 } });
+    expect(param.value).not.toBe(8);
+
+    unregister();
+    expect(
+      cdf.subscriptionStore.getNodeUpdateHandler(EVENT_NODE_PARAMS_CHANGED)
+    ).toBe(builtin);
+    handleNodeUpdateEvent(
+      {
+        event_type: EVENT_NODE_PARAMS_CHANGED,
+        node_id: "node_light",
+        payload: JSON.stringify({ Light: { Brightness: 9 } }),
+        timestamp: Date.now(),
+      },
+      cdf
+    );
+    expect(param.value).toBe(9);
+  });
+});
@@ -115,6 +115,15 @@ export default class AutomationStore {
     this.sdkAdaptorAutomationsPaginationMap = {};
   }
 
+  /**
+   * Clears automations and pagination state, then disposes the synchronizer.
+   * Used by `ESPCDF.destroy()`.
+   */
+  @action dispose() {
+    this.clear();
+    this.#synchronizer.dispose();
+  }
+
   /**
    * Processes a paginated automations response and updates the store
    * Similar to existing-app-cdf's processAutomationsRes method
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { observable, action, extendObservable } from "mobx";
+import { observable, action, computed, extendObservable } from "mobx";
 import {
   ESPSDKAdaptor,
   ESPCDFBatchOperationResult,
@@ -25,12 +25,19 @@ import { ESPCDFGroup } from "../entities/ESPCDFGroup";
 import { ESPCDFGroupSharingRequest } from "../entities/ESPCDFGroupSharingRequest";
 import { GroupStoreSynchronizer } from "./sync/GroupStoreSynchronizer";
 import { getValidHomes } from "../utils/home";
+import {
+  getAdaptorScopedKey,
+  getEntityScopedKey,
+  groupByAdaptor,
+  toIDKeyedMap,
+} from "../utils/adaptorScope";
 
 class GroupStore {
   #rootStore: ESPCDF;
   #synchronizer: GroupStoreSynchronizer;
 
-  @observable accessor groupsByIDMap: ESPCDFGroupsByIDMap = {};
+  /** Groups of all adaptors, keyed by adaptor-scoped key (see getAdaptorScopedKey) */
+  @observable accessor _groupsByScopedKeyMap: ESPCDFGroupsByIDMap = {};
   @observable accessor currentHomeId: string | null = null;
   @observable accessor sdkAdaptorGroupsPaginationMap: ESPSDKAdaptorGroupsPaginationMap = {};
 
@@ -58,8 +65,62 @@ class GroupStore {
     return this.#rootStore;
   }
 
+  /**
+   * Groups keyed by id across all adaptors; the active adaptor's group wins on id collisions
+   */
+  get groupsByIDMap(): ESPCDFGroupsByIDMap {
+    return this.groupsByIDView;
+  }
+
+  /**
+   * Rebuilds the adaptor-scoped storage from the given groups
+   */
+  set groupsByIDMap(value: ESPCDFGroupsByIDMap) {
+    this._groupsByScopedKeyMap = Object.values(value).reduce((acc, group) => {
+      acc[getEntityScopedKey(group)] = group;
+      return acc;
+    }, {} as ESPCDFGroupsByIDMap);
+  }
+
+  @computed private get groupsByIDView(): ESPCDFGroupsByIDMap {
+    return toIDKeyedMap(
+      this._groupsByScopedKeyMap,
+      this.#rootStore.sdkAdaptorRegistry.getActiveAdaptorIdentifier()
+    );
+  }
+
+  /**
+   * Groups grouped by the identifier of the adaptor that owns them
+   */
+  @computed get groupsByAdaptor(): Record<string, ESPCDFGroup[]> {
+    return groupByAdaptor(this.groupsList);
+  }
+
+  /**
+   * Get the groups returned by a single adaptor
+   * @param adaptorIdentifier - The adaptor identifier
+   * @returns The list of groups owned by the adaptor
+   */
+  getGroupsForAdaptor(adaptorIdentifier: string): ESPCDFGroup[] {
+    return this.groupsByAdaptor[adaptorIdentifier] ?? [];
+  }
+
+  /**
+   * Groups pagination context of the active adaptor.
+   * Recomputes when the active adaptor is switched in the registry.
+   */
+  @computed get activeAdaptorGroupsPagination():
+    | ESPSDKAdaptorGroupsPaginationData
+    | undefined {
+    const activeAdaptorIdentifier =
+      this.#rootStore.sdkAdaptorRegistry.getActiveAdaptorIdentifier();
+    return activeAdaptorIdentifier
+      ? this.sdkAdaptorGroupsPaginationMap[activeAdaptorIdentifier]
+      : undefined;
+  }
+
   get groupsList(): ESPCDFGroup[] {
-    return Object.values(this.groupsByIDMap);
+    return Object.values(this._groupsByScopedKeyMap);
   }
 
   get _groupsByID(): Record<string, ESPCDFGroup> {
@@ -108,8 +169,20 @@ class GroupStore {
     );
   }
 
-  @action setGroupsList(groups: ESPCDFGroup[]) {
-    this.groupsByIDMap = groups.reduce(
+  /**
+   * Replaces the groups in the store.
+   * @param groups - The groups to set
+   * @param adaptorIdentifier - When set, only this adaptor's groups are replaced and other adaptors' groups are kept
+   */
+  @action setGroupsList(groups: ESPCDFGroup[], adaptorIdentifier?: string) {
+    const retained = adaptorIdentifier
+      ? Object.fromEntries(
+          Object.entries(this._groupsByScopedKeyMap).filter(
+            ([, group]) => group.adaptorIdentifier !== adaptorIdentifier
+          )
+        )
+      : {};
+    this._groupsByScopedKeyMap = groups.reduce(
       (acc, group) => {
         // Make group and all nested properties observable recursively
         // Exclude '_raw' and 'operations' as they are SDK-specific and don't need reactivity
@@ -119,10 +192,10 @@ class GroupStore {
         );
         // Attach group to synchronizer for reactive updates
         this.#synchronizer.attach(observableGroup);
-        acc[group.id] = observableGroup;
+        acc[getEntityScopedKey(group)] = observableGroup;
         return acc;
       },
-      {} as { [key: string]: ESPCDFGroup }
+      retained as { [key: string]: ESPCDFGroup }
     );
   }
 
@@ -135,13 +208,18 @@ class GroupStore {
     );
     // Attach group to synchronizer for reactive updates
     this.#synchronizer.attach(observableGroup);
-    this.groupsByIDMap[group.id] = observableGroup;
+    this._groupsByScopedKeyMap[getEntityScopedKey(group)] = observableGroup;
     return observableGroup;
   }
 
-  @action updateGroup(groupId: string, update: Partial<ESPCDFGroup>) {
-    if (this.groupsByIDMap[groupId]) {
-      Object.assign(this.groupsByIDMap[groupId], update);
+  @action updateGroup(
+    groupId: string,
+    update: Partial<ESPCDFGroup>,
+    adaptorIdentifier?: string
+  ) {
+    const group = this.getGroupById(groupId, adaptorIdentifier);
+    if (group) {
+      Object.assign(group, update);
     }
   }
 
@@ -154,15 +232,16 @@ class GroupStore {
       group,
       new Set(["_raw", "operations"])
     );
+    const scopedKey = getAdaptorScopedKey(group.adaptorIdentifier, groupId);
 
-    if (this.groupsByIDMap[groupId]) {
-      this.#synchronizer.detach(groupId);
+    if (this._groupsByScopedKeyMap[scopedKey]) {
+      this.#synchronizer.detach(scopedKey);
     }
 
     this.#synchronizer.attach(observableGroup);
-    this.groupsByIDMap[groupId] = observableGroup;
+    this._groupsByScopedKeyMap[scopedKey] = observableGroup;
 
-    for (const parent of Object.values(this.groupsByIDMap)) {
+    for (const parent of this.getGroupsForAdaptor(group.adaptorIdentifier)) {
       if (!parent.subGroups?.length) {
         continue;
       }
@@ -176,21 +255,36 @@ class GroupStore {
   }
 
   @action deleteGroup(group: ESPCDFGroup) {
-    const { id, parentId } = group;
+    const { id, parentId, adaptorIdentifier } = group;
     if (parentId) {
-      const parentGroup = this.groupsByIDMap[parentId];
+      const parentGroup = this.getGroupById(parentId, adaptorIdentifier);
       if (parentGroup) {
         parentGroup.subGroups =
           parentGroup.subGroups?.filter((sg) => sg.id !== id) || [];
       }
     } else {
+      const scopedKey = getAdaptorScopedKey(adaptorIdentifier, id);
       // Detach from synchronizer before deleting
-      this.#synchronizer.detach(id);
-      delete this.groupsByIDMap[id];
+      this.#synchronizer.detach(scopedKey);
+      delete this._groupsByScopedKeyMap[scopedKey];
     }
   }
 
-  getGroupById(groupId: string): ESPCDFGroup | undefined {
+  /**
+   * Get a top-level group by id
+   * @param groupId - The group id
+   * @param adaptorIdentifier - Restricts the lookup to one adaptor; without it the active adaptor's group wins on id collisions
+   * @returns The group, or undefined if not found
+   */
+  getGroupById(
+    groupId: string,
+    adaptorIdentifier?: string
+  ): ESPCDFGroup | undefined {
+    if (adaptorIdentifier) {
+      return this._groupsByScopedKeyMap[
+        getAdaptorScopedKey(adaptorIdentifier, groupId)
+      ];
+    }
     return this.groupsByIDMap[groupId];
   }
 
@@ -198,8 +292,12 @@ class GroupStore {
    * Removes a node from all groups' nodes arrays
    * Called when a node is deleted from nodeStore to maintain consistency
    * @param nodeId - The ID of the node to remove from groups
+   * @param adaptorIdentifier - When set, only this adaptor's groups are updated
    */
-  @action removeNodeFromAllGroups(nodeId: string): void {
+  @action removeNodeFromAllGroups(
+    nodeId: string,
+    adaptorIdentifier?: string
+  ): void {
     const removeNodeFromGroup = (group: ESPCDFGroup) => {
       // Remove from nodeDetails array
       if (group.nodeDetails && Array.isArray(group.nodeDetails)) {
@@ -221,15 +319,18 @@ class GroupStore {
       }
     };
 
-    Object.values(this.groupsByIDMap).forEach((group) => {
+    const groups = adaptorIdentifier
+      ? this.getGroupsForAdaptor(adaptorIdentifier)
+      : this.groupsList;
+    groups.forEach((group) => {
       removeNodeFromGroup(group);
     });
   }
 
   @action clear() {
     // Detach all groups from synchronizer before clearing
-    Object.keys(this.groupsByIDMap).forEach((groupId) => {
-      this.#synchronizer.detach(groupId);
+    Object.keys(this._groupsByScopedKeyMap).forEach((scopedKey) => {
+      this.#synchronizer.detach(scopedKey);
     });
     // Detach all group sharing requests from synchronizer before clearing
     Object.keys(this.issuedGroupSharingRequestsByIDMap).forEach((requestId) => {
@@ -240,7 +341,7 @@ class GroupStore {
         this.#synchronizer.detachGroupSharingRequest(requestId);
       }
     );
-    this.groupsByIDMap = {};
+    this._groupsByScopedKeyMap = {};
     this.currentHomeId = null;
     this.issuedGroupSharingRequestsByIDMap = {};
     this.receivedGroupSharingRequestsByIDMap = {};
@@ -249,6 +350,15 @@ class GroupStore {
     this.sdkAdaptorReceivedGroupSharingRequestsPaginationMap = {};
   }
 
+  /**
+   * Clears groups and sharing requests and detaches the group synchronizer for good.
+   * Used by `ESPCDF.destroy()`.
+   */
+  @action dispose() {
+    this.clear();
+    this.#synchronizer.dispose();
+  }
+
   /**
    * Sync groups from registered SDKs that match this store type.
    * This method fetches only the first page of groups from each registered SDK
@@ -333,7 +443,7 @@ class GroupStore {
     response: ESPCDFPaginatedAPIResponse<ESPCDFGroup[]>,
     sdkIdentifier: string
   ): void {
-    this.setGroupsList(response.data || []);
+    this.setGroupsList(response.data || [], sdkIdentifier);
     const paginationContext = {
       hasNext: response.pagination?.hasNext || false,
       fetchNext: response.pagination?.fetchNext || undefined,
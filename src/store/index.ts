@@ -13,14 +13,34 @@ import ScheduleStore from "./scheduleStore";
 import AutomationStore from "./automationStore";
 import SceneStore from "./sceneStore";
 import SubscriptionStore from "./subscriptionStore";
-import { observable, action } from "mobx";
-import { ESPCDFconfig, ESPSDKAdaptor } from "../types";
+import ParamHistoryStore from "./paramHistoryStore";
+import { observable, action, runInAction } from "mobx";
+import {
+  ESPCDFconfig,
+  ESPCDFLogger,
+  ESPCDFResolvedConfig,
+  ESPSDKAdaptor,
+  ESPCDFAdaptorRegistryEvent,
+} from "../types";
 import { AdaptorRegistry } from "../registry";
-import { ERROR_MESSAGE_MAP, isEmptyObject } from "../utils/common";
+import { ERROR_MESSAGE_MAP, isEmptyObject, isEqual } from "../utils/common";
 import { ESPCDFConfigError } from "../errors";
+import { ESPCDFParamWriteScheduler } from "../services/paramWriteScheduler";
+import { ESPCDFParamTransaction } from "../services/paramTransaction";
+import { ESPCDFTransportRouter } from "../services/transportRouter";
+import { ESPCDFLocalControlSessionManager } from "../services/localControlSessionManager";
+import { ESPCDFLocalDiscoveryManager } from "../services/localDiscoveryManager";
+import { ESPCDFDeviceModelRegistry } from "../models/ESPCDFDeviceModelRegistry";
+import { ESPCDFParamControlRegistry } from "../services/paramControlRegistry";
+import { ESPCDFPropertyChangeBus } from "../services/propertyChangeBus";
+import { ESPCDFNodeRefreshScheduler } from "../services/nodeRefreshScheduler";
 
 /**
  * The root store that manages all individual stores.
+ *
+ * {@link initCDF} returns the shared instance; {@link ESPCDF.create} builds
+ * independent roots, each with its own registry and stores (e.g. one per
+ * signed-in account, or one per test).
  */
 export class ESPCDF {
   static instance: ESPCDF | null = null;
@@ -32,8 +52,36 @@ export class ESPCDF {
   @observable accessor automationStore: AutomationStore;
   @observable accessor sceneStore: SceneStore;
   @observable accessor subscriptionStore: SubscriptionStore;
+  @observable accessor paramHistoryStore: ParamHistoryStore;
+  /** Coalesces and batches rapid param writes, e.g. from sliders */
+  readonly paramWriteScheduler: ESPCDFParamWriteScheduler;
+  /** Routes param reads and writes over node transports (local, cloud, …) */
+  readonly transportRouter: ESPCDFTransportRouter;
+  /** Local control sessions, when configured with `localControl` */
+  readonly localControl?: ESPCDFLocalControlSessionManager;
+  /** Local discovery of node transports, when configured with `localDiscovery` */
+  readonly localDiscovery?: ESPCDFLocalDiscoveryManager;
+  /** Device model classes by device type, see {@link ESPCDFDeviceModelRegistry} */
+  readonly deviceModels = new ESPCDFDeviceModelRegistry();
+  /** Control descriptors of params by uiType, see {@link ESPCDFParamControlRegistry} */
+  readonly paramControls = new ESPCDFParamControlRegistry();
+  /** Property change events of all nodes, see {@link ESPCDFPropertyChangeBus} */
+  readonly propertyChanges: ESPCDFPropertyChangeBus;
+  /** Receives errors and warnings of CDF services, from the `logger` config */
+  readonly logger: ESPCDFLogger;
+  /** Reloads nodes whose param updates name unknown devices, services or params */
+  readonly nodeRefresh: ESPCDFNodeRefreshScheduler;
+  private unsubscribeRegistry: () => void;
+  // Config the instance was created with, compared by getInstance
+  private config: ESPCDFconfig;
+  // Registries created by ESPCDF.create are cleared on destroy
+  private ownsRegistry = false;
+  // Stores added through addStore, by name
+  private customStores = new Map<string, { dispose?: () => void }>();
 
   constructor(config: ESPCDFconfig) {
+    this.config = config;
+    this.logger = config.logger ?? console;
     // Order of initialization is important as user store depends on other stores
     this.sdkAdaptorRegistry = config.sdkAdaptorRegistry;
     this.nodeStore = new NodeStore(this);
@@ -43,6 +91,60 @@ export class ESPCDF {
     this.sceneStore = new SceneStore(this);
     this.userStore = new UserStore(this);
     this.subscriptionStore = new SubscriptionStore(this);
+    this.paramHistoryStore = new ParamHistoryStore(this, config.paramHistory);
+    this.paramWriteScheduler = new ESPCDFParamWriteScheduler(
+      config.paramWriteScheduler
+    );
+    this.transportRouter = new ESPCDFTransportRouter(this, this.logger);
+    this.propertyChanges = new ESPCDFPropertyChangeBus(this, this.logger);
+    this.nodeRefresh = new ESPCDFNodeRefreshScheduler(
+      this,
+      this.logger,
+      config.nodeRefresh
+    );
+    if (config.localControl) {
+      const { adapter, ...options } = config.localControl;
+      this.localControl = new ESPCDFLocalControlSessionManager(
+        this,
+        adapter,
+        options
+      );
+    }
+    if (config.localDiscovery) {
+      const { adapter, ...options } = config.localDiscovery;
+      this.localDiscovery = new ESPCDFLocalDiscoveryManager(
+        this,
+        adapter,
+        options
+      );
+    }
+    this.unsubscribeRegistry = this.sdkAdaptorRegistry.subscribe((event) =>
+      this.handleRegistryEvent(event)
+    );
+  }
+
+  /**
+   * Keeps stores consistent with the adaptor registry.
+   * Active adaptor switches need no handling here: `userStore.user` and other
+   * computed values observe the registry directly.
+   */
+  @action private handleRegistryEvent(event: ESPCDFAdaptorRegistryEvent) {
+    switch (event.type) {
+      case "adaptorUnregistered":
+        this.userStore.removeAuthorizationEntityForAdaptor(
+          event.adaptorIdentifier
+        );
+        break;
+
+      case "registryCleared":
+        event.adaptorIdentifiers.forEach((adaptorIdentifier) =>
+          this.userStore.removeAuthorizationEntityForAdaptor(adaptorIdentifier)
+        );
+        break;
+
+      default:
+        break;
+    }
   }
 
   /**
@@ -76,7 +178,9 @@ export class ESPCDF {
     storeName: string,
     StoreClass: new (rootStore: ESPCDF) => any
   ) {
-    (this as any)[storeName] = new StoreClass(this);
+    const store = new StoreClass(this);
+    (this as any)[storeName] = store;
+    this.customStores.set(storeName, store);
   }
 
   /**
@@ -96,6 +200,34 @@ export class ESPCDF {
     return this.sdkAdaptorRegistry.getActiveAdaptorIdentifier();
   }
 
+  /**
+   * Returns the resolved config of every registered adaptor for diagnostics.
+   * Schema defaults are applied and secrets are redacted.
+   * @returns The active adaptor identifier and the config of each adaptor
+   */
+  getResolvedConfig(): ESPCDFResolvedConfig {
+    const registry = this.sdkAdaptorRegistry;
+    return {
+      activeAdaptorIdentifier: registry.getActiveAdaptorIdentifier(),
+      adaptors: Object.fromEntries(
+        registry
+          .getRegisteredAdaptorIdentifiers()
+          .map((identifier) => [
+            identifier,
+            registry.getResolvedConfig(identifier),
+          ])
+      ),
+    };
+  }
+
+  /**
+   * Starts a transaction collecting device param changes across nodes.
+   * @returns An empty param transaction; call `commit()` to send it
+   */
+  createParamTransaction(): ESPCDFParamTransaction {
+    return new ESPCDFParamTransaction(this);
+  }
+
   /**
    * Returns the currently selected home group, or undefined if none is set.
    */
@@ -106,30 +238,205 @@ export class ESPCDF {
 
   /**
    * Returns nodes that belong to the current home's nodeIds.
+   * Only nodes of the adaptor that owns the home are considered.
    */
   getNodesForCurrentHome(): ESPCDFNode[] {
     const home = this.getCurrentHome();
     if (!home?.nodeIds) return [];
-    const nodeList = this.nodeStore.nodesList ?? [];
+    const nodeList = this.nodeStore.getNodesForAdaptor(home.adaptorIdentifier);
     return nodeList.filter((n) => home.nodeIds!.includes(n.id));
   }
 
+  /**
+   * Returns the shared instance, creating it on first use.
+   * @param config - CDF configuration containing SDK registry
+   * @returns The shared CDF store instance
+   * @throws ESPCDFConfigError if the shared instance uses a different SDK registry,
+   * or was created with different values for the other options given
+   */
   static getInstance(config: ESPCDFconfig): ESPCDF {
     if (!ESPCDF.instance) {
       ESPCDF.instance = new ESPCDF(config);
+      return ESPCDF.instance;
+    }
+    if (
+      config.sdkAdaptorRegistry &&
+      config.sdkAdaptorRegistry !== ESPCDF.instance.sdkAdaptorRegistry
+    ) {
+      throw new ESPCDFConfigError(
+        ERROR_MESSAGE_MAP.CDF_ALREADY_INITIALIZED,
+        "CDF_ALREADY_INITIALIZED"
+      );
+    }
+    // Options left out are not compared, so callers may pass only the registry
+    const initialConfig = ESPCDF.instance.config;
+    const changedOptions = (
+      Object.keys(config) as (keyof ESPCDFconfig)[]
+    ).filter(
+      (key) =>
+        key !== "sdkAdaptorRegistry" &&
+        config[key] !== undefined &&
+        !isEqual(config[key], initialConfig[key])
+    );
+    if (changedOptions.length > 0) {
+      throw new ESPCDFConfigError(
+        ERROR_MESSAGE_MAP.CDF_CONFIG_CHANGED(changedOptions),
+        "CDF_CONFIG_CHANGED",
+        { options: changedOptions }
+      );
     }
     return ESPCDF.instance;
   }
+
+  /**
+   * Creates an independent CDF root that is not shared through {@link initCDF}.
+   * @param config - CDF configuration; a new empty registry is used when `sdkAdaptorRegistry` is omitted
+   * @returns A new CDF store instance
+   * @example
+   * const cdf = ESPCDF.create();
+   * cdf.sdkAdaptorRegistry.register(new ESPCDFInMemoryAdaptor());
+   */
+  static create(config: Partial<ESPCDFconfig> = {}): ESPCDF {
+    const cdf = new ESPCDF({
+      ...config,
+      sdkAdaptorRegistry: config.sdkAdaptorRegistry ?? new AdaptorRegistry(),
+    });
+    cdf.ownsRegistry = !config.sdkAdaptorRegistry;
+    return cdf;
+  }
+
+  /**
+   * Returns CDF to its initial state, e.g. on logout.
+   *
+   * Cancels scheduled param writes and node reloads, stops local discovery,
+   * closes local control sessions, unsubscribes every signed-in user from node
+   * updates, clears all stores and registered transports, and disposes the
+   * event and property-change emitters of every stored entity. Adaptors stay registered
+   * and the instance stays usable.
+   */
+  async reset(): Promise<void> {
+    this.paramWriteScheduler.cancel();
+    this.nodeRefresh.cancel();
+    await this.localDiscovery
+      ?.dispose()
+      .catch((error) =>
+        this.logger.error(`[ESPCDF] Failed to stop local discovery:`, error)
+      );
+    this.localControl?.disconnectAll();
+    const users = Object.values(
+      this.userStore.adaptorAuthorizationEntityMap ?? {}
+    );
+    await Promise.all(
+      users
+        .filter((user) => user.operations.unsubscribeFromNodeUpdates)
+        .map((user) =>
+          user
+            .unsubscribeFromNodeUpdates()
+            .catch((error) =>
+              this.logger.error(
+                `[ESPCDF] Failed to unsubscribe node updates for adaptor ${user.identifier}:`,
+                error
+              )
+            )
+        )
+    );
+
+    const entities = this.collectEntities();
+    runInAction(() => {
+      this.nodeStore.clear();
+      this.groupStore.clear();
+      this.sceneStore.clear();
+      this.scheduleStore.clear();
+      this.automationStore.clear();
+      this.paramHistoryStore.clear();
+      this.userStore.removeAuthorizationEntityForAdaptor();
+      this.subscriptionStore.clearRegisteredTransports();
+    });
+    entities.forEach((entity) => entity.dispose());
+  }
+
+  /**
+   * Tears down this instance, e.g. before hot reload.
+   *
+   * Runs {@link reset}, disposes every store synchronizer, the transport
+   * router, the property change bus and custom stores exposing `dispose()`,
+   * stops listening to the registry and releases the shared instance so the
+   * next {@link initCDF} creates a new one. Registries created by
+   * {@link ESPCDF.create} are cleared as well.
+   */
+  async destroy(): Promise<void> {
+    await this.reset();
+    runInAction(() => {
+      this.nodeStore.dispose();
+      this.groupStore.dispose();
+      this.sceneStore.dispose();
+      this.scheduleStore.dispose();
+      this.automationStore.dispose();
+      this.paramHistoryStore.dispose();
+      this.userStore.dispose();
+    });
+    this.transportRouter.dispose();
+    this.propertyChanges.dispose();
+    this.customStores.forEach((store) => {
+      if (typeof store?.dispose === "function") {
+        store.dispose();
+      }
+    });
+    this.customStores.clear();
+    this.unsubscribeRegistry();
+    if (this.ownsRegistry) {
+      this.sdkAdaptorRegistry.clear();
+    }
+    if (ESPCDF.instance === this) {
+      ESPCDF.instance = null;
+    }
+  }
+
+  /**
+   * Every entity held by the stores, including nested devices, services,
+   * params and subgroups.
+   */
+  private collectEntities(): { dispose(): void }[] {
+    const entities = new Set<{ dispose(): void }>();
+    Object.values(this.nodeStore.nodesByAdaptor)
+      .flat()
+      .forEach((node) => {
+        entities.add(node);
+        node.devices?.forEach((device) => {
+          entities.add(device);
+          device.params?.forEach((param) => entities.add(param));
+        });
+        node.services?.forEach((service) => {
+          entities.add(service);
+          service.params?.forEach((param) => entities.add(param));
+        });
+      });
+    const addGroup = (group: ESPCDFGroup) => {
+      entities.add(group);
+      group.subGroups?.forEach(addGroup);
+    };
+    Object.values(this.groupStore.groupsByAdaptor).flat().forEach(addGroup);
+    [
+      ...this.groupStore.issuedGroupSharingRequestsList,
+      ...this.groupStore.receivedGroupSharingRequestsList,
+      ...this.sceneStore.sceneList,
+      ...this.scheduleStore.schedulesList,
+      ...this.automationStore.automationsList,
+      ...Object.values(this.userStore.adaptorAuthorizationEntityMap ?? {}),
+    ].forEach((entity) => entities.add(entity));
+    return Array.from(entities);
+  }
 }
 
 /**
- * Initializes and returns the singleton CDF store instance.
+ * Initializes and returns the shared CDF store instance.
  *
  * Creates a new CDF instance if one doesn't exist, or returns the existing instance.
  * Validates that the config and SDK registry are provided.
  * @param config - CDF configuration containing SDK registry
- * @returns The singleton CDF store instance
- * @throws Error if config or SDK registry is missing
+ * @returns The shared CDF store instance
+ * @throws ESPCDFConfigError if config is missing, or if the shared instance was
+ * initialized with a different SDK registry or options
  */
 export const initCDF = async (config: ESPCDFconfig): Promise<ESPCDF> => {
   if (isEmptyObject(config)) {
@@ -9,43 +9,92 @@ import { makeEverythingObservable } from "../utils/common";
 import { ESPCDF } from "./index";
 import { ESPCDFNodesByIDMap } from "../types/store/node";
 import { ERROR_MESSAGE_MAP } from "../utils/common";
+import { SUCCESS } from "../utils/constants";
 import { ESPCDFNode } from "../entities/ESPCDFNode";
 import { NodeStoreSynchronizer } from "./sync/NodeStoreSynchronizer";
 import { applyRegisteredTransports } from "../utils/registeredTransports";
+import {
+  getAdaptorScopedKey,
+  getEntityScopedKey,
+  groupByAdaptor,
+  toIDKeyedMap,
+} from "../utils/adaptorScope";
 
 class NodeStore {
   #rootStore: ESPCDF;
   #synchronizer: NodeStoreSynchronizer;
   [key: string]: any;
-  @observable accessor _nodesByIDMap: ESPCDFNodesByIDMap = {};
+  /** Nodes of all adaptors, keyed by adaptor-scoped key (see getAdaptorScopedKey) */
+  @observable accessor _nodesByScopedKeyMap: ESPCDFNodesByIDMap = {};
 
   constructor(rootStore: ESPCDF) {
     this.#rootStore = rootStore;
-    this.#synchronizer = new NodeStoreSynchronizer(this);
+    this.#synchronizer = new NodeStoreSynchronizer(
+      this,
+      (node, deviceName, paramName, value, options) =>
+        this.#rootStore.paramWriteScheduler.write(
+          node,
+          deviceName,
+          paramName,
+          value,
+          options
+        ),
+      (node, params) =>
+        this.#rootStore.transportRouter
+          .sendParams(node, params)
+          // Transports other than cloud may not return a response
+          .then((route) => route.result ?? { status: SUCCESS })
+    );
   }
 
   /**
    * Public getter for nodesByIDMap
-   * Following the pattern from existing-app-cdf to avoid MobX deep conversion issues
+   * Nodes keyed by id across all adaptors; the active adaptor's node wins on id collisions
    */
   public get nodesByIDMap(): ESPCDFNodesByIDMap {
-    return this._nodesByIDMap;
+    return this.nodesByIDView;
   }
 
   /**
    * Public setter for nodesByIDMap
-   * Direct assignment bypasses MobX's accessor deep conversion
+   * Rebuilds the adaptor-scoped storage from the given nodes
    */
   public set nodesByIDMap(value: ESPCDFNodesByIDMap) {
-    this._nodesByIDMap = value;
+    this._nodesByScopedKeyMap = Object.values(value).reduce((acc, node) => {
+      acc[getEntityScopedKey(node)] = node;
+      return acc;
+    }, {} as ESPCDFNodesByIDMap);
+  }
+
+  @computed private get nodesByIDView(): ESPCDFNodesByIDMap {
+    return toIDKeyedMap(
+      this._nodesByScopedKeyMap,
+      this.#rootStore.sdkAdaptorRegistry.getActiveAdaptorIdentifier()
+    );
   }
 
   /**
    * Get the list of nodes from the store
-   * @returns The list of nodes
+   * @returns The list of nodes of all adaptors
    */
   @computed get nodesList(): ESPCDFNode[] {
-    return Object.values(this.nodesByIDMap);
+    return Object.values(this._nodesByScopedKeyMap);
+  }
+
+  /**
+   * Nodes grouped by the identifier of the adaptor that owns them
+   */
+  @computed get nodesByAdaptor(): Record<string, ESPCDFNode[]> {
+    return groupByAdaptor(this.nodesList);
+  }
+
+  /**
+   * Get the nodes returned by a single adaptor
+   * @param adaptorIdentifier - The adaptor identifier
+   * @returns The list of nodes owned by the adaptor
+   */
+  getNodesForAdaptor(adaptorIdentifier: string): ESPCDFNode[] {
+    return this.nodesByAdaptor[adaptorIdentifier] ?? [];
   }
 
   /**
@@ -56,7 +105,7 @@ class NodeStore {
     const registered =
       this.#rootStore.subscriptionStore.getRegisteredTransportsSnapshot();
 
-    this.nodesByIDMap = nodesList.reduce((acc, node) => {
+    this._nodesByScopedKeyMap = nodesList.reduce((acc, node) => {
       const mergedNode = applyRegisteredTransports(node, registered);
 
       const observableNode = makeEverythingObservable(
@@ -66,9 +115,9 @@ class NodeStore {
 
       this.#synchronizer.attach(observableNode);
 
-      acc[node.id] = observableNode;
+      acc[getEntityScopedKey(node)] = observableNode;
       return acc;
-    }, this.nodesByIDMap as ESPCDFNodesByIDMap);
+    }, this._nodesByScopedKeyMap as ESPCDFNodesByIDMap);
   }
 
   @action addNode(node: ESPCDFNode): ESPCDFNode {
@@ -83,41 +132,108 @@ class NodeStore {
 
     this.#synchronizer.attach(observableNode);
 
-    this.nodesByIDMap[node.id] = observableNode as ESPCDFNode;
+    this._nodesByScopedKeyMap[getEntityScopedKey(node)] =
+      observableNode as ESPCDFNode;
     return observableNode;
   }
 
-  @action updateNode(nodeId: string, update: Partial<ESPCDFNode>) {
-    if (!this.getNodeById(nodeId)) {
+  @action updateNode(
+    nodeId: string,
+    update: Partial<ESPCDFNode>,
+    adaptorIdentifier?: string
+  ) {
+    const node = this.getNodeById(nodeId, adaptorIdentifier);
+    if (!node) {
       throw new Error(ERROR_MESSAGE_MAP.NODE_NOT_FOUND(nodeId));
     }
-    Object.assign(this.nodesByIDMap[nodeId], update) as ESPCDFNode;
+    Object.assign(node, update) as ESPCDFNode;
   }
 
-  @action deleteNode(nodeId: string) {
-    if (!this.getNodeById(nodeId)) {
+  /**
+   * Replaces the devices, services or config of a node and re-attaches the
+   * synchronizer, so added entities are tracked and removed ones released.
+   * @param nodeId - The node id
+   * @param update - New devices, services or node config
+   * @param adaptorIdentifier - Restricts the lookup to one adaptor
+   */
+  @action updateNodeConfig(
+    nodeId: string,
+    update: Partial<Pick<ESPCDFNode, "devices" | "services" | "nodeConfig">>,
+    adaptorIdentifier?: string
+  ) {
+    const node = this.getNodeById(nodeId, adaptorIdentifier);
+    if (!node) {
       throw new Error(ERROR_MESSAGE_MAP.NODE_NOT_FOUND(nodeId));
     }
+    Object.entries(update).forEach(([key, value]) => {
+      (node as Record<string, any>)[key] =
+        value && typeof value === "object"
+          ? makeEverythingObservable(value)
+          : value;
+    });
+    this.#synchronizer.attach(node);
+  }
+
+  @action deleteNode(nodeId: string, adaptorIdentifier?: string) {
+    const node = this.getNodeById(nodeId, adaptorIdentifier);
+    if (!node) {
+      throw new Error(ERROR_MESSAGE_MAP.NODE_NOT_FOUND(nodeId));
+    }
+    const scopedKey = getEntityScopedKey(node);
     // Detach node from synchronizer before deleting
-    this.#synchronizer.detach(nodeId);
+    this.#synchronizer.detach(scopedKey);
     this.#rootStore.subscriptionStore.clearTransportsForNode(nodeId);
-    delete this.nodesByIDMap[nodeId];
+    delete this._nodesByScopedKeyMap[scopedKey];
     // Remove node from all groups to maintain consistency
     // Groups store references to nodes, so we need to clean them up when a node is deleted
-    this.#rootStore.groupStore.removeNodeFromAllGroups(nodeId);
+    this.#rootStore.groupStore.removeNodeFromAllGroups(
+      nodeId,
+      node.adaptorIdentifier
+    );
   }
 
-  getNodeById(nodeId: string): ESPCDFNode | undefined {
+  /**
+   * Get a node by id
+   * @param nodeId - The node id
+   * @param adaptorIdentifier - Restricts the lookup to one adaptor; without it the active adaptor's node wins on id collisions
+   * @returns The node, or undefined if not found
+   */
+  getNodeById(
+    nodeId: string,
+    adaptorIdentifier?: string
+  ): ESPCDFNode | undefined {
+    if (adaptorIdentifier) {
+      return this.getNodeByScopedKey(
+        getAdaptorScopedKey(adaptorIdentifier, nodeId)
+      );
+    }
     return this.nodesByIDMap[nodeId];
   }
 
+  /**
+   * Get a node by its adaptor-scoped key
+   * @param scopedKey - Key built with getAdaptorScopedKey
+   */
+  getNodeByScopedKey(scopedKey: string): ESPCDFNode | undefined {
+    return this._nodesByScopedKeyMap[scopedKey];
+  }
+
   @action clear() {
     // Detach all nodes from synchronizer before clearing
-    Object.keys(this.nodesByIDMap).forEach((nodeId) => {
-      this.#synchronizer.detach(nodeId);
+    Object.keys(this._nodesByScopedKeyMap).forEach((scopedKey) => {
+      this.#synchronizer.detach(scopedKey);
     });
     this.#rootStore.subscriptionStore.clearRegisteredTransports();
-    this.nodesByIDMap = {};
+    this._nodesByScopedKeyMap = {};
+  }
+
+  /**
+   * Clears all nodes and permanently detaches the node synchronizer.
+   * Used by `ESPCDF.destroy()`.
+   */
+  @action dispose() {
+    this.clear();
+    this.#synchronizer.dispose();
   }
 }
 
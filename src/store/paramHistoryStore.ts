@@ -0,0 +1,252 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { observable, action, reaction, IReactionDisposer } from "mobx";
+import { ESPCDF } from "./index";
+import { ESPCDFNode } from "../entities/ESPCDFNode";
+import { ESPCDFPropertyChangeEvent } from "../types";
+import {
+  ESPCDFParamHistoryEntry,
+  ESPCDFParamHistoryOptions,
+} from "../types/store/paramHistory";
+import { ERROR_MESSAGE_MAP } from "../utils/common";
+import { getEntityScopedKey } from "../utils/adaptorScope";
+
+const DEFAULT_MAX_ENTRIES_PER_NODE = 50;
+
+/**
+ * ParamHistoryStore - Keeps a bounded history of param changes per node
+ *
+ * Every `deviceParamChanged` and `serviceParamChanged` event of a stored node
+ * is recorded with its source (user write, remote update or optimistic
+ * rollback). The last user change of a node can be undone with
+ * {@link ParamHistoryStore.undoLast}, which writes the previous value through
+ * the param's `setValue`.
+ *
+ * @example
+ * const history = cdf.paramHistoryStore.getHistory("node_thermostat");
+ * await cdf.paramHistoryStore.undoLast("node_thermostat");
+ */
+class ParamHistoryStore {
+  #rootStore: ESPCDF;
+  #maxEntriesPerNode: number;
+  #nodeSubscriptions = new Map<
+    string,
+    { node: ESPCDFNode; unsubscribe: () => void }
+  >();
+  // Entries being undone; the change event of the undo write is not recorded
+  #undoing = new Set<ESPCDFParamHistoryEntry>();
+  #disposeNodesReaction: IReactionDisposer;
+
+  /** History entries keyed by adaptor-scoped node key, oldest first */
+  @observable accessor _entriesByNode: Record<
+    string,
+    ESPCDFParamHistoryEntry[]
+  > = {};
+
+  /**
+   * Creates a new ParamHistoryStore instance
+   * @param rootStore - The root CDF store, whose node store is followed
+   * @param options - History size
+   */
+  constructor(rootStore: ESPCDF, options: ESPCDFParamHistoryOptions = {}) {
+    this.#rootStore = rootStore;
+    this.#maxEntriesPerNode =
+      options.maxEntriesPerNode ?? DEFAULT_MAX_ENTRIES_PER_NODE;
+    this.#disposeNodesReaction = reaction(
+      () => rootStore.nodeStore.nodesList,
+      (nodes) => this.trackNodes(nodes),
+      { fireImmediately: true }
+    );
+  }
+
+  /**
+   * Returns the recorded changes of a node, oldest first
+   * @param nodeId - The node id
+   * @param adaptorIdentifier - Restricts the lookup to one adaptor
+   */
+  getHistory(
+    nodeId: string,
+    adaptorIdentifier?: string
+  ): ESPCDFParamHistoryEntry[] {
+    const node = this.#rootStore.nodeStore.getNodeById(
+      nodeId,
+      adaptorIdentifier
+    );
+    return (node && this._entriesByNode[getEntityScopedKey(node)]) || [];
+  }
+
+  /**
+   * Re-applies the previous value of the last user change of a node through
+   * the param's `setValue`. The undone entry is removed from the history, so
+   * repeated calls step further back.
+   * @param nodeId - The node id
+   * @param adaptorIdentifier - Restricts the lookup to one adaptor
+   * @returns The undone entry, or undefined if there is no user change to undo
+   * @throws Error if the node or the param no longer exists
+   */
+  async undoLast(
+    nodeId: string,
+    adaptorIdentifier?: string
+  ): Promise<ESPCDFParamHistoryEntry | undefined> {
+    const node = this.#rootStore.nodeStore.getNodeById(
+      nodeId,
+      adaptorIdentifier
+    );
+    if (!node) {
+      throw new Error(ERROR_MESSAGE_MAP.NODE_NOT_FOUND(nodeId));
+    }
+    const entry = [...this.getHistory(nodeId, adaptorIdentifier)]
+      .reverse()
+      .find((e) => e.source === "user" && !this.#undoing.has(e));
+    if (!entry) return undefined;
+
+    const holder =
+      entry.kind === "device"
+        ? node.devices?.find((device) => device.name === entry.entityName)
+        : node.services?.find((service) => service.name === entry.entityName);
+    const param = holder?.params?.find((p) => p.name === entry.paramName);
+    if (!param) {
+      throw new Error(
+        ERROR_MESSAGE_MAP.PARAM_NOT_FOUND(
+          nodeId,
+          entry.entityName,
+          entry.paramName
+        )
+      );
+    }
+
+    this.#undoing.add(entry);
+    try {
+      await param.setValue(entry.oldValue);
+    } finally {
+      this.#undoing.delete(entry);
+    }
+    this.removeEntry(node, entry);
+    return entry;
+  }
+
+  /**
+   * Clears the history of one node, or of all nodes
+   * @param nodeId - The node id; clears every node when omitted
+   * @param adaptorIdentifier - Restricts the lookup to one adaptor
+   */
+  @action clear(nodeId?: string, adaptorIdentifier?: string) {
+    if (nodeId === undefined) {
+      this._entriesByNode = {};
+      return;
+    }
+    const node = this.#rootStore.nodeStore.getNodeById(
+      nodeId,
+      adaptorIdentifier
+    );
+    if (!node) return;
+    const { [getEntityScopedKey(node)]: _removed, ...rest } =
+      this._entriesByNode;
+    this._entriesByNode = rest;
+  }
+
+  /**
+   * Stops following the node store and clears the history.
+   * Used by `ESPCDF.destroy()`.
+   */
+  @action dispose() {
+    this.#disposeNodesReaction();
+    this.#nodeSubscriptions.forEach(({ unsubscribe }) => unsubscribe());
+    this.#nodeSubscriptions.clear();
+    this.clear();
+  }
+
+  /**
+   * Subscribes to added or replaced nodes and drops the history of removed
+   * nodes
+   */
+  @action private trackNodes(nodes: ESPCDFNode[]) {
+    const nodesByKey = new Map(
+      nodes.map((node) => [getEntityScopedKey(node), node])
+    );
+    this.#nodeSubscriptions.forEach(({ node, unsubscribe }, key) => {
+      if (nodesByKey.get(key) !== node) {
+        unsubscribe();
+        this.#nodeSubscriptions.delete(key);
+      }
+    });
+    nodesByKey.forEach((node, key) => {
+      if (this.#nodeSubscriptions.has(key)) return;
+      this.#nodeSubscriptions.set(key, {
+        node,
+        unsubscribe: node.onPropertyChange((event) => this.record(node, event)),
+      });
+    });
+
+    const removedKeys = Object.keys(this._entriesByNode).filter(
+      (key) => !nodesByKey.has(key)
+    );
+    if (removedKeys.length > 0) {
+      const entriesByNode = { ...this._entriesByNode };
+      removedKeys.forEach((key) => delete entriesByNode[key]);
+      this._entriesByNode = entriesByNode;
+    }
+  }
+
+  @action private record(node: ESPCDFNode, event: ESPCDFPropertyChangeEvent) {
+    if (
+      event.type !== "deviceParamChanged" &&
+      event.type !== "serviceParamChanged"
+    ) {
+      return;
+    }
+    const entry: ESPCDFParamHistoryEntry = {
+      nodeId: node.id,
+      adaptorIdentifier: node.adaptorIdentifier,
+      kind: event.type === "deviceParamChanged" ? "device" : "service",
+      entityName:
+        event.type === "deviceParamChanged"
+          ? event.deviceName
+          : event.serviceName,
+      paramName: event.paramName,
+      value: event.value,
+      oldValue: event.oldValue,
+      source: event.source ?? "remote",
+      timestamp: Date.now(),
+    };
+    if (entry.source === "user" && this.isUndoWrite(entry)) return;
+
+    const key = getEntityScopedKey(node);
+    this._entriesByNode = {
+      ...this._entriesByNode,
+      [key]: [...(this._entriesByNode[key] ?? []), entry].slice(
+        -this.#maxEntriesPerNode
+      ),
+    };
+  }
+
+  private isUndoWrite(entry: ESPCDFParamHistoryEntry): boolean {
+    return Array.from(this.#undoing).some(
+      (undone) =>
+        undone.nodeId === entry.nodeId &&
+        undone.adaptorIdentifier === entry.adaptorIdentifier &&
+        undone.kind === entry.kind &&
+        undone.entityName === entry.entityName &&
+        undone.paramName === entry.paramName
+    );
+  }
+
+  @action private removeEntry(
+    node: ESPCDFNode,
+    entry: ESPCDFParamHistoryEntry
+  ) {
+    const key = getEntityScopedKey(node);
+    const entries = this._entriesByNode[key];
+    if (!entries) return;
+    this._entriesByNode = {
+      ...this._entriesByNode,
+      [key]: entries.filter((e) => e !== entry),
+    };
+  }
+}
+
+export default ParamHistoryStore;
@@ -236,6 +236,15 @@ class SceneStore {
     });
     this._scenesByID = {};
   }
+
+  /**
+   * Clears all scenes and disposes the scene synchronizer.
+   * Used by `ESPCDF.destroy()`; the store is unusable afterwards.
+   */
+  @action dispose() {
+    this.clear();
+    this.#synchronizer.dispose();
+  }
 }
 
 export default SceneStore;
@@ -131,6 +131,15 @@ class ScheduleStore {
     });
     this._schedulesByID = {};
   }
+
+  /**
+   * Clears all schedules and disposes the schedule synchronizer.
+   * Used by `ESPCDF.destroy()`; the store is unusable afterwards.
+   */
+  @action dispose() {
+    this.clear();
+    this.#synchronizer.dispose();
+  }
 }
 
 export default ScheduleStore;
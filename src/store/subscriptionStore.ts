@@ -5,15 +5,32 @@
  */
 
 import { action, observable } from "mobx";
-import { ESPCDFTransportConfig, RegisteredTransportsByNodeId } from "../types";
+import {
+  ESPCDFLocalControlSession,
+  ESPCDFNodeUpdateEvent,
+  ESPCDFNodeUpdateHandlerDefinition,
+  ESPCDFNodeUpdateHandlerWrapper,
+  ESPCDFTransportConfig,
+  RegisteredTransportsByNodeId,
+} from "../types";
 import { ESPCDF } from "./index";
 import {
-  handleNodeUpdateEvent,
+  ESPCDF_NODE_UPDATE_HANDLERS,
+  dispatchNodeUpdateEvent,
   handleNodeTransportUpdate,
 } from "../services/nodeEventHandlers";
+import { getAdaptorScopedKey } from "../utils/adaptorScope";
 
 class SubscriptionStore {
   private readonly rootStore: ESPCDF | null;
+  private nodeUpdateHandlers = new Map<
+    string,
+    ESPCDFNodeUpdateHandlerDefinition<any>
+  >(Object.entries(ESPCDF_NODE_UPDATE_HANDLERS));
+  private nodeUpdateHandlerWrappers = new Map<
+    string,
+    ESPCDFNodeUpdateHandlerWrapper[]
+  >();
 
   /**
    * Client-registered transports by node id → transport type (`local`,
@@ -21,6 +38,15 @@ class SubscriptionStore {
    */
   @observable accessor registeredTransports: RegisteredTransportsByNodeId = {};
 
+  /**
+   * Local control sessions by adaptor-scoped node key, maintained by the
+   * local control session manager (`ESPCDF.localControl`).
+   */
+  @observable accessor localControlSessions: Record<
+    string,
+    ESPCDFLocalControlSession
+  > = {};
+
   constructor(rootStore?: ESPCDF) {
     this.rootStore = rootStore || null;
   }
@@ -102,6 +128,38 @@ class SubscriptionStore {
     this.registeredTransports = {};
   });
 
+  /**
+   * Stores the local control session state of a node.
+   *
+   * @param session - Session state; replaces the node's previous state.
+   */
+  setLocalControlSession = action(
+    (session: ESPCDFLocalControlSession): void => {
+      if (!session?.nodeId) return;
+      this.localControlSessions = {
+        ...this.localControlSessions,
+        [getAdaptorScopedKey(session.adaptorIdentifier, session.nodeId)]:
+          session,
+      };
+    },
+  );
+
+  /**
+   * Removes the local control session state of a node.
+   *
+   * @param nodeId - CDF node id.
+   * @param adaptorIdentifier - Adaptor of the node.
+   */
+  removeLocalControlSession = action(
+    (nodeId: string, adaptorIdentifier?: string): void => {
+      const key = getAdaptorScopedKey(adaptorIdentifier, nodeId);
+      if (!nodeId || !this.localControlSessions[key]) return;
+      const nextSessions = { ...this.localControlSessions };
+      delete nextSessions[key];
+      this.localControlSessions = nextSessions;
+    },
+  );
+
   /**
    * Transport module to handle transport-related operations.
    */
@@ -130,13 +188,90 @@ class SubscriptionStore {
     ),
   };
 
+  /**
+   * Registers the handler of a node update `event_type`, replacing any
+   * handler of that type, including the built-in ones.
+   *
+   * @example
+   * subscriptionStore.registerNodeUpdateHandler("vendor/ota/progress", {
+   *   parsePayload: (payload) => parseOtaProgress(payload),
+   *   handle: ({ event, payload }) => showOtaProgress(event.node_id, payload.percent),
+   * });
+   *
+   * @param eventType - Event type, e.g. `cdf/node/params/changed`.
+   * @param definition - Handler and optional payload parser.
+   * @returns Function that unregisters the handler, restoring the one it replaced.
+   */
+  registerNodeUpdateHandler<TPayload>(
+    eventType: string,
+    definition: ESPCDFNodeUpdateHandlerDefinition<TPayload>,
+  ): () => void {
+    const previous = this.nodeUpdateHandlers.get(eventType);
+    this.nodeUpdateHandlers.set(eventType, definition);
+    return () => {
+      if (this.nodeUpdateHandlers.get(eventType) !== definition) return;
+      if (previous) {
+        this.nodeUpdateHandlers.set(eventType, previous);
+      } else {
+        this.nodeUpdateHandlers.delete(eventType);
+      }
+    };
+  }
+
+  /**
+   * Wraps the handler of a node update `event_type`, e.g. to log, filter or
+   * post-process events. Wrappers stay in place when the handler is replaced.
+   *
+   * @param eventType - Event type, e.g. `cdf/node/connectivity/connected`.
+   * @param wrapper - Receives the event context and `next`, which runs the wrapped handler.
+   * @returns Function that removes the wrapper.
+   */
+  wrapNodeUpdateHandler(
+    eventType: string,
+    wrapper: ESPCDFNodeUpdateHandlerWrapper,
+  ): () => void {
+    this.nodeUpdateHandlerWrappers.set(eventType, [
+      ...(this.nodeUpdateHandlerWrappers.get(eventType) ?? []),
+      wrapper,
+    ]);
+    return () => {
+      const wrappers = (
+        this.nodeUpdateHandlerWrappers.get(eventType) ?? []
+      ).filter((item) => item !== wrapper);
+      if (wrappers.length > 0) {
+        this.nodeUpdateHandlerWrappers.set(eventType, wrappers);
+      } else {
+        this.nodeUpdateHandlerWrappers.delete(eventType);
+      }
+    };
+  }
+
+  /**
+   * Returns the handler registered for a node update `event_type`, if any.
+   *
+   * @param eventType - Event type.
+   */
+  getNodeUpdateHandler(
+    eventType: string,
+  ): ESPCDFNodeUpdateHandlerDefinition<any> | undefined {
+    return this.nodeUpdateHandlers.get(eventType);
+  }
+
   nodeUpdates = {
     /**
-     * Listens for node update events and routes them to appropriate handlers.
+     * Listens for node update events and routes them to the handler
+     * registered for their type. Events without a handler are ignored.
      * @param event - The node update event from the SDK.
      */
     listen: action((event: unknown) => {
-      handleNodeUpdateEvent(event, this.rootStore);
+      if (!event || !this.rootStore) return;
+      const { event_type } = event as ESPCDFNodeUpdateEvent;
+      dispatchNodeUpdateEvent(
+        event as ESPCDFNodeUpdateEvent,
+        this.rootStore,
+        this.nodeUpdateHandlers.get(event_type),
+        this.nodeUpdateHandlerWrappers.get(event_type),
+      );
     }),
   };
 }
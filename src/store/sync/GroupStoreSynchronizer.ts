@@ -18,6 +18,7 @@ import { ESPCDFSchedule } from "../../entities/ESPCDFSchedule";
 import { ESPCDFAutomation } from "../../entities/ESPCDFAutomation";
 import { ESPCDFGroupSharingRequest } from "../../entities/ESPCDFGroupSharingRequest";
 import { applyRegisteredTransports } from "../../utils/registeredTransports";
+import { getEntityScopedKey } from "../../utils/adaptorScope";
 
 /**
  * Synchronizer for GroupStore reactive operations
@@ -41,8 +42,9 @@ export class GroupStoreSynchronizer {
    * @param group - The group entity to attach
    */
   attach(group: ESPCDFGroup): void {
+    const groupKey = getEntityScopedKey(group);
     // Clean up previous subscription if re-attaching
-    this.detach(group.id);
+    this.detach(groupKey);
 
     // Subscribe to all group operations
     const unsubscribe = group.subscribe(
@@ -59,7 +61,7 @@ export class GroupStoreSynchronizer {
       }
     );
 
-    this.unsubscribes.set(group.id, unsubscribe);
+    this.unsubscribes.set(groupKey, unsubscribe);
 
     // Also attach all subGroups recursively
     if (group.subGroups) {
@@ -72,13 +74,13 @@ export class GroupStoreSynchronizer {
   /**
    * Detach a group entity from the synchronizer
    * Removes reactive listeners and cleans up
-   * @param groupId - The identifier of the group to detach
+   * @param groupKey - The adaptor-scoped key of the group to detach
    */
-  detach(groupId: string): void {
-    const unsubscribe = this.unsubscribes.get(groupId);
+  detach(groupKey: string): void {
+    const unsubscribe = this.unsubscribes.get(groupKey);
     if (unsubscribe) {
       unsubscribe();
-      this.unsubscribes.delete(groupId);
+      this.unsubscribes.delete(groupKey);
     }
   }
 
@@ -160,22 +162,26 @@ export class GroupStoreSynchronizer {
         // GroupInfo is already updated in the entity
         if (data) {
           const groupInfo = data as Record<string, any>;
-          this.groupStore.updateGroup(group.id, {
-            ...(groupInfo.groupName && { name: groupInfo.groupName }),
-            ...(groupInfo.description && {
-              description: groupInfo.description,
-            }),
-            ...(groupInfo.customData !== undefined && {
-              customData: groupInfo.customData,
-            }),
-            ...(groupInfo.groupMetaData !== undefined && {
-              metadata: groupInfo.groupMetaData,
-            }),
-            ...(groupInfo.mutuallyExclusive !== undefined && {
-              mutuallyExclusive: groupInfo.mutuallyExclusive,
-            }),
-            ...(groupInfo.type !== undefined && { type: groupInfo.type }),
-          });
+          this.groupStore.updateGroup(
+            group.id,
+            {
+              ...(groupInfo.groupName && { name: groupInfo.groupName }),
+              ...(groupInfo.description && {
+                description: groupInfo.description,
+              }),
+              ...(groupInfo.customData !== undefined && {
+                customData: groupInfo.customData,
+              }),
+              ...(groupInfo.groupMetaData !== undefined && {
+                metadata: groupInfo.groupMetaData,
+              }),
+              ...(groupInfo.mutuallyExclusive !== undefined && {
+                mutuallyExclusive: groupInfo.mutuallyExclusive,
+              }),
+              ...(groupInfo.type !== undefined && { type: groupInfo.type }),
+            },
+            group.adaptorIdentifier
+          );
         }
         break;
 
@@ -185,12 +191,19 @@ export class GroupStoreSynchronizer {
           const createdSubGroup = data as ESPCDFGroup;
           // Attach the new subgroup to synchronizer
           this.attach(createdSubGroup);
-          this.groupStore.updateGroup(group.id, {
-            subGroups: [
-              ...(this.groupStore.getGroupById(group.id)?.subGroups || []),
-              createdSubGroup,
-            ],
-          });
+          this.groupStore.updateGroup(
+            group.id,
+            {
+              subGroups: [
+                ...(this.groupStore.getGroupById(
+                  group.id,
+                  group.adaptorIdentifier
+                )?.subGroups || []),
+                createdSubGroup,
+              ],
+            },
+            group.adaptorIdentifier
+          );
         }
         break;
 
@@ -270,9 +283,11 @@ export class GroupStoreSynchronizer {
 
       case "getFabricDetails":
         if (data) {
-          this.groupStore.updateGroup(group.id, {
-            fabricDetails: data as ESPCDFMatterFabricDetails,
-          });
+          this.groupStore.updateGroup(
+            group.id,
+            { fabricDetails: data as ESPCDFMatterFabricDetails },
+            group.adaptorIdentifier
+          );
         }
         break;
 
@@ -294,21 +309,26 @@ export class GroupStoreSynchronizer {
           const nodeIds = data as string[];
 
           // Update the group's nodeIds array immediately (optimistic update)
-          if (this.groupStore.groupsByIDMap[group.id]) {
-            const currentNodeIds = this.groupStore.groupsByIDMap[group.id].nodeIds || [];
+          const storedGroup = this.groupStore.getGroupById(
+            group.id,
+            group.adaptorIdentifier
+          );
+          if (storedGroup) {
+            const currentNodeIds = storedGroup.nodeIds || [];
             const newNodeIds = nodeIds.filter(id => !currentNodeIds.includes(id));
             if (newNodeIds.length > 0) {
-              this.groupStore.groupsByIDMap[group.id].nodeIds = [
+              storedGroup.nodeIds = [
                 ...currentNodeIds,
                 ...newNodeIds
               ];
             }
           }
 
-          // Get the user from rootStore to fetch node details
-          const user = this.rootStore?.userStore?.adaptorAuthorizationEntityMap?.[
-            Object.keys(this.rootStore?.userStore?.adaptorAuthorizationEntityMap || {})[0]
-          ];
+          // Get the user of the group's adaptor to fetch node details
+          const user =
+            this.rootStore?.userStore?.getAuthorizationEntityForAdaptor(
+              group.adaptorIdentifier
+            );
 
           if (user) {
             // Fetch all newly added nodes in parallel
@@ -322,11 +342,11 @@ export class GroupStoreSynchronizer {
             ).then((fetchedNodes) => {
               // Update the group's nodeDetails array with the newly fetched nodes
               const validNodes = fetchedNodes.filter(Boolean);
-              if (validNodes.length > 0 && this.groupStore.groupsByIDMap[group.id]) {
-                const existingNodes = this.groupStore.groupsByIDMap[group.id].nodeDetails || [];
+              if (validNodes.length > 0 && storedGroup) {
+                const existingNodes = storedGroup.nodeDetails || [];
                 const existingNodeIds = new Set(existingNodes.map(n => n.id));
                 const newNodes = validNodes.filter(n => !existingNodeIds.has(n.id));
-                this.groupStore.groupsByIDMap[group.id].nodeDetails = [
+                storedGroup.nodeDetails = [
                   ...existingNodes,
                   ...newNodes
                 ];
@@ -374,10 +394,14 @@ export class GroupStoreSynchronizer {
         ? nodes.map((node) => applyRegisteredTransports(node, registered))
         : nodes;
     nodeStore?.setNodesList?.(merged);
-    const stored = this.groupStore.groupsByIDMap[group.id];
+    const stored = this.groupStore.getGroupById(
+      group.id,
+      group.adaptorIdentifier
+    );
     if (stored) {
       stored.nodeDetails = merged.map(
-        (node) => nodeStore?.getNodeById(node.id) ?? node,
+        (node) =>
+          nodeStore?.getNodeById(node.id, node.adaptorIdentifier) ?? node,
       );
     }
   }
@@ -397,7 +421,7 @@ export class GroupStoreSynchronizer {
         this.groupStore.addGroup(converted);
         return;
       }
-      if (this.groupStore.getGroupById(group.id)) {
+      if (this.groupStore.getGroupById(group.id, group.adaptorIdentifier)) {
         this.groupStore.replaceGroup(group.id, converted);
       } else {
         this.groupStore.addGroup(converted);
@@ -407,17 +431,21 @@ export class GroupStoreSynchronizer {
 
     if (typeof data === "object") {
       const patch = data as Record<string, unknown>;
-      this.groupStore.updateGroup(group.id, {
-        ...(patch.isMatter !== undefined && {
-          isMatter: Boolean(patch.isMatter),
-        }),
-        ...(patch.fabricId !== undefined && {
-          fabricId: String(patch.fabricId),
-        }),
-        ...(patch.fabricDetails !== undefined && {
-          fabricDetails: patch.fabricDetails as ESPCDFMatterFabricDetails,
-        }),
-      });
+      this.groupStore.updateGroup(
+        group.id,
+        {
+          ...(patch.isMatter !== undefined && {
+            isMatter: Boolean(patch.isMatter),
+          }),
+          ...(patch.fabricId !== undefined && {
+            fabricId: String(patch.fabricId),
+          }),
+          ...(patch.fabricDetails !== undefined && {
+            fabricDetails: patch.fabricDetails as ESPCDFMatterFabricDetails,
+          }),
+        },
+        group.adaptorIdentifier
+      );
     }
   }
 
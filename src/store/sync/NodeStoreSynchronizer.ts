@@ -11,12 +11,18 @@ import {
   ESPCDFServiceOperationType,
   ESPCDFDeviceParamOperationType,
   ESPCDFServiceParamOperationType,
+  ESPCDFParamRollback,
+  ESPCDFAPIResponse,
+  ESPCDFParamWriteOptions,
+  ESPCDFParamValues,
 } from "../../types";
 import NodeStore from "../nodeStore";
 import { ESPCDFDevice } from "../../entities/ESPCDFDevice";
 import { ESPCDFService } from "../../entities/ESPCDFService";
 import { ESPCDFDeviceParam } from "../../entities/ESPCDFDeviceParam";
 import { ESPCDFServiceParam } from "../../entities/ESPCDFServiceParam";
+import { getEntityScopedKey } from "../../utils/adaptorScope";
+import { isEqual } from "../../utils/common";
 
 /**
  * Synchronizer for NodeStore reactive operations
@@ -32,7 +38,20 @@ export class NodeStoreSynchronizer {
   private deviceParamUnsubscribes = new Map<string, () => void>();
   private serviceParamUnsubscribes = new Map<string, () => void>();
 
-  constructor(private nodeStore: NodeStore) { }
+  constructor(
+    private nodeStore: NodeStore,
+    private scheduleParamWrite?: (
+      node: ESPCDFNode,
+      deviceName: string,
+      paramName: string,
+      value: any,
+      options: Pick<ESPCDFParamWriteOptions, "validate" | "optimistic">
+    ) => Promise<ESPCDFAPIResponse>,
+    private sendParams?: (
+      node: ESPCDFNode,
+      params: ESPCDFParamValues
+    ) => Promise<ESPCDFAPIResponse>
+  ) { }
 
   /**
    * Attach a node entity to the synchronizer
@@ -40,8 +59,9 @@ export class NodeStoreSynchronizer {
    * @param node - The node entity to attach
    */
   attach(node: ESPCDFNode): void {
+    const nodeKey = getEntityScopedKey(node);
     // Clean up previous subscription if re-attaching
-    this.detach(node.id);
+    this.detach(nodeKey);
 
     // Subscribe to all node operations
     const unsubscribe = node.subscribe((n, operation, success, data, error) => {
@@ -49,6 +69,9 @@ export class NodeStoreSynchronizer {
       if (success) {
         this.handleNodeOperation(n, operation, data);
       } else {
+        if (operation === "setMultipleParams" && data) {
+          this.emitParamRollbacks(n, data);
+        }
         console.error(
           `[NodeStoreSynchronizer] Node operation ${operation} failed:`,
           error
@@ -56,7 +79,12 @@ export class NodeStoreSynchronizer {
       }
     });
 
-    this.nodeUnsubscribes.set(node.id, unsubscribe);
+    this.nodeUnsubscribes.set(nodeKey, unsubscribe);
+
+    const sendParams = this.sendParams;
+    if (sendParams) {
+      node.setParamSender((params) => sendParams(node, params));
+    }
 
     // Attach all nested entities
     this.attachNestedEntities(node);
@@ -66,9 +94,10 @@ export class NodeStoreSynchronizer {
    * Attach nested entities (devices, services, params) to the synchronizer
    */
   private attachNestedEntities(node: ESPCDFNode): void {
+    const nodeKey = getEntityScopedKey(node);
     // Attach devices
     node.devices?.forEach((device) => {
-      const deviceKey = `${node.id}:device:${device.name}`;
+      const deviceKey = `${nodeKey}:device:${device.name}`;
       const unsubscribe = device.subscribe(
         (d, operation, success, data, error) => {
           if (success) {
@@ -85,12 +114,24 @@ export class NodeStoreSynchronizer {
 
       // Attach device params
       device.params?.forEach((param) => {
-        const paramKey = `${node.id}:device:${device.name}:param:${param.name}`;
+        this.linkParamWrites(param, node, device.name);
+        const paramKey = `${nodeKey}:device:${device.name}:param:${param.name}`;
         const unsubscribe = param.subscribe(
           (p, operation, success, data, error) => {
             if (success) {
-              this.handleDeviceParamOperation(p, operation, data);
+              this.handleDeviceParamOperation(
+                p,
+                operation,
+                data,
+                node,
+                device.name,
+              );
             } else {
+              if (data) {
+                this.emitParamRollbacks(node, [
+                  { ...data, deviceName: device.name },
+                ]);
+              }
               console.error(
                 `[NodeStoreSynchronizer] Device param operation ${operation} failed:`,
                 error
@@ -104,7 +145,7 @@ export class NodeStoreSynchronizer {
 
     // Attach services
     node.services?.forEach((service) => {
-      const serviceKey = `${node.id}:service:${service.type}`;
+      const serviceKey = `${nodeKey}:service:${service.type}`;
       const unsubscribe = service.subscribe(
         (s, operation, success, data, error) => {
           if (success) {
@@ -121,7 +162,7 @@ export class NodeStoreSynchronizer {
 
       // Attach service params
       service.params?.forEach((param) => {
-        const paramKey = `${node.id}:service:${service.type}:param:${param.name}`;
+        const paramKey = `${nodeKey}:service:${service.type}:param:${param.name}`;
         const unsubscribe = param.subscribe(
           (p, operation, success, data, error) => {
             if (success) {
@@ -129,6 +170,8 @@ export class NodeStoreSynchronizer {
                 p,
                 operation,
                 data,
+                node,
+                service.name,
               );
             } else {
               console.error(
@@ -146,22 +189,22 @@ export class NodeStoreSynchronizer {
   /**
    * Detach a node entity from the synchronizer
    * Removes reactive listeners and cleans up
-   * @param nodeId - The identifier of the node to detach
+   * @param nodeKey - The adaptor-scoped key of the node to detach
    */
-  detach(nodeId: string): void {
+  detach(nodeKey: string): void {
     // Detach node
-    const unsubscribe = this.nodeUnsubscribes.get(nodeId);
+    const unsubscribe = this.nodeUnsubscribes.get(nodeKey);
     if (unsubscribe) {
       unsubscribe();
-      this.nodeUnsubscribes.delete(nodeId);
+      this.nodeUnsubscribes.delete(nodeKey);
     }
 
     // Detach all nested entities for this node
-    const node = this.nodeStore.getNodeById(nodeId);
+    const node = this.nodeStore.getNodeByScopedKey(nodeKey);
     if (node) {
       // Detach devices
       node.devices?.forEach((device) => {
-        const deviceKey = `${nodeId}:device:${device.name}`;
+        const deviceKey = `${nodeKey}:device:${device.name}`;
         const deviceUnsubscribe = this.deviceUnsubscribes.get(deviceKey);
         if (deviceUnsubscribe) {
           deviceUnsubscribe();
@@ -170,7 +213,7 @@ export class NodeStoreSynchronizer {
 
         // Detach device params
         device.params?.forEach((param) => {
-          const paramKey = `${nodeId}:device:${device.name}:param:${param.name}`;
+          const paramKey = `${nodeKey}:device:${device.name}:param:${param.name}`;
           const paramUnsubscribe = this.deviceParamUnsubscribes.get(paramKey);
           if (paramUnsubscribe) {
             paramUnsubscribe();
@@ -181,7 +224,7 @@ export class NodeStoreSynchronizer {
 
       // Detach services
       node.services?.forEach((service) => {
-        const serviceKey = `${nodeId}:service:${service.type}`;
+        const serviceKey = `${nodeKey}:service:${service.type}`;
         const serviceUnsubscribe = this.serviceUnsubscribes.get(serviceKey);
         if (serviceUnsubscribe) {
           serviceUnsubscribe();
@@ -190,7 +233,7 @@ export class NodeStoreSynchronizer {
 
         // Detach service params
         service.params?.forEach((param) => {
-          const paramKey = `${nodeId}:service:${service.type}:param:${param.name}`;
+          const paramKey = `${nodeKey}:service:${service.type}:param:${param.name}`;
           const paramUnsubscribe = this.serviceParamUnsubscribes.get(paramKey);
           if (paramUnsubscribe) {
             paramUnsubscribe();
@@ -202,7 +245,7 @@ export class NodeStoreSynchronizer {
 
     // Clean up any remaining subscriptions for this node (in case node was already removed)
     Array.from(this.deviceUnsubscribes.keys())
-      .filter((key) => key.startsWith(`${nodeId}:`))
+      .filter((key) => key.startsWith(`${nodeKey}:`))
       .forEach((key) => {
         const unsubscribe = this.deviceUnsubscribes.get(key);
         if (unsubscribe) unsubscribe();
@@ -210,7 +253,7 @@ export class NodeStoreSynchronizer {
       });
 
     Array.from(this.serviceUnsubscribes.keys())
-      .filter((key) => key.startsWith(`${nodeId}:`))
+      .filter((key) => key.startsWith(`${nodeKey}:`))
       .forEach((key) => {
         const unsubscribe = this.serviceUnsubscribes.get(key);
         if (unsubscribe) unsubscribe();
@@ -218,7 +261,7 @@ export class NodeStoreSynchronizer {
       });
 
     Array.from(this.deviceParamUnsubscribes.keys())
-      .filter((key) => key.startsWith(`${nodeId}:`))
+      .filter((key) => key.startsWith(`${nodeKey}:`))
       .forEach((key) => {
         const unsubscribe = this.deviceParamUnsubscribes.get(key);
         if (unsubscribe) unsubscribe();
@@ -226,7 +269,7 @@ export class NodeStoreSynchronizer {
       });
 
     Array.from(this.serviceParamUnsubscribes.keys())
-      .filter((key) => key.startsWith(`${nodeId}:`))
+      .filter((key) => key.startsWith(`${nodeKey}:`))
       .forEach((key) => {
         const unsubscribe = this.serviceParamUnsubscribes.get(key);
         if (unsubscribe) unsubscribe();
@@ -250,6 +293,29 @@ export class NodeStoreSynchronizer {
     this.serviceParamUnsubscribes.clear();
   }
 
+  /**
+   * Routes `setValue` calls through the node's transports, and those made
+   * with `coalesce` through the param write scheduler
+   */
+  private linkParamWrites(
+    param: ESPCDFDeviceParam,
+    node: ESPCDFNode,
+    deviceName: string
+  ): void {
+    const sendParams = this.sendParams;
+    if (sendParams) {
+      param.setValueSender((value) =>
+        sendParams(node, { [deviceName]: { [param.name]: value } })
+      );
+    }
+    const scheduleParamWrite = this.scheduleParamWrite;
+    if (scheduleParamWrite) {
+      param.setWriteScheduler((value, options) =>
+        scheduleParamWrite(node, deviceName, param.name, value, options)
+      );
+    }
+  }
+
   /**
    * Handle node operation events and update stores accordingly
    */
@@ -270,7 +336,10 @@ export class NodeStoreSynchronizer {
                     (p: any) => Object.keys(p)[0] === param.name
                   );
                   if (paramUpdate) {
-                    const oldValue = (param as any).value;
+                    // Optimistic writes already applied the value
+                    const oldValue = (
+                      param.takeValueBeforeWrite() ?? { value: param.value }
+                    ).value;
                     (param as any).value = paramUpdate[param.name];
 
                     // Emit typed property change event for each param to sync to _raw
@@ -280,6 +349,7 @@ export class NodeStoreSynchronizer {
                       paramName: param.name,
                       value: paramUpdate[param.name],
                       oldValue,
+                      source: "user",
                       entity: node,
                     });
                   }
@@ -292,11 +362,15 @@ export class NodeStoreSynchronizer {
 
       case "delete":
         // deleteNode already handles cleanup of groups
-        this.nodeStore.deleteNode(node.id);
+        this.nodeStore.deleteNode(node.id, node.adaptorIdentifier);
         break;
 
       case "updateMetadata":
-        this.nodeStore.updateNode(node.id, { metadata: data });
+        this.nodeStore.updateNode(
+          node.id,
+          { metadata: data },
+          node.adaptorIdentifier
+        );
         break;
 
       default:
@@ -305,6 +379,27 @@ export class NodeStoreSynchronizer {
 
   }
 
+  /**
+   * Emit `deviceParamChanged` for params restored after a failed optimistic
+   * write, so listeners (e.g. adaptors syncing `_raw`) see the old value again
+   */
+  private emitParamRollbacks(
+    node: ESPCDFNode,
+    rollbacks: ESPCDFParamRollback[]
+  ): void {
+    rollbacks.forEach((rollback) => {
+      node.emitPropertyChange({
+        type: "deviceParamChanged",
+        deviceName: rollback.deviceName,
+        paramName: rollback.paramName,
+        value: rollback.value,
+        oldValue: rollback.attemptedValue,
+        source: "rollback",
+        entity: node,
+      });
+    });
+  }
+
   /**
    * Handle device operation events
    */
@@ -318,11 +413,23 @@ export class NodeStoreSynchronizer {
       case "getParams":
         if (data) {
           data.forEach((param: ESPCDFDeviceParam) => {
-            const paramKey = `${node?.id}:device:${device.name}:param:${param.name}`;
+            if (node) this.linkParamWrites(param, node, device.name);
+            const paramKey = `${node && getEntityScopedKey(node)}:device:${device.name}:param:${param.name}`;
             this.deviceParamUnsubscribes.set(paramKey, param.subscribe((p, operation, success, data, error) => {
               if (success) {
-                this.handleDeviceParamOperation(p, operation, data);
+                this.handleDeviceParamOperation(
+                  p,
+                  operation,
+                  data,
+                  node,
+                  device.name
+                );
               } else {
+                if (node && data) {
+                  this.emitParamRollbacks(node, [
+                    { ...data, deviceName: device.name },
+                  ]);
+                }
                 console.error(
                   `[NodeStoreSynchronizer] Device param operation ${operation} failed:`,
                   error
@@ -352,10 +459,16 @@ export class NodeStoreSynchronizer {
       case "getParams":
         if (data) {
           data.forEach((param: ESPCDFServiceParam) => {
-            const paramKey = `${node?.id}:service:${service.type}:param:${param.name}`;
+            const paramKey = `${node && getEntityScopedKey(node)}:service:${service.type}:param:${param.name}`;
             this.serviceParamUnsubscribes.set(paramKey, param.subscribe((p, operation, success, data, error) => {
               if (success) {
-                this.handleServiceParamOperation(p, operation, data);
+                this.handleServiceParamOperation(
+                  p,
+                  operation,
+                  data,
+                  node,
+                  service.name
+                );
               } else {
                 console.error(
                   `[NodeStoreSynchronizer] Service param operation ${operation} failed:`,
@@ -380,11 +493,40 @@ export class NodeStoreSynchronizer {
     param: ESPCDFDeviceParam,
     operation: ESPCDFDeviceParamOperationType,
     data?: any,
+    node?: ESPCDFNode,
+    deviceName?: string,
   ): void {
     switch (operation) {
-      case "setValue":
+      case "setValue": {
+        // Optimistic writes already applied the value
+        const oldValue = (
+          param.takeValueBeforeWrite() ?? { value: param.value }
+        ).value;
         param.value = data;
+        // Coalesced writes were already reported by their setMultipleParams
+        if (node && !isEqual(oldValue, data)) {
+          const entityName = deviceName ?? param.deviceName ?? "";
+          node.emitPropertyChange({
+            type: "deviceParamChanged",
+            deviceName: entityName,
+            paramName: param.name,
+            value: data,
+            oldValue,
+            source: "user",
+            entity: node,
+          });
+          node.emitPropertyChange({
+            type: "paramWritten",
+            kind: "device",
+            entityName,
+            paramName: param.name,
+            value: data,
+            oldValue,
+            entity: node,
+          });
+        }
         break;
+      }
 
       default:
         break;
@@ -398,11 +540,35 @@ export class NodeStoreSynchronizer {
     param: ESPCDFServiceParam,
     operation: ESPCDFServiceParamOperationType,
     data?: any,
+    node?: ESPCDFNode,
+    serviceName?: string,
   ): void {
     switch (operation) {
-      case "setValue":
+      case "setValue": {
+        const oldValue = param.value;
         param.value = data;
+        if (node && serviceName && !isEqual(oldValue, data)) {
+          node.emitPropertyChange({
+            type: "serviceParamChanged",
+            serviceName,
+            paramName: param.name,
+            value: data,
+            oldValue,
+            source: "user",
+            entity: node,
+          });
+          node.emitPropertyChange({
+            type: "paramWritten",
+            kind: "service",
+            entityName: serviceName,
+            paramName: param.name,
+            value: data,
+            oldValue,
+            entity: node,
+          });
+        }
         break;
+      }
 
       default:
         break;
@@ -110,7 +110,10 @@ export class SceneStoreSynchronizer {
       id: string;
       operation: SceneOperation;
     }) => {
-      const node = this.rootStore?.nodeStore?.nodesByIDMap?.[nodeId];
+      const node = this.rootStore?.nodeStore?.getNodeById(
+        nodeId,
+        scene.adaptorIdentifier
+      );
       if (!node) return;
 
       const nodeServices = node.services || [];
@@ -148,7 +151,11 @@ export class SceneStoreSynchronizer {
         }
       }
       // Update services at first level of node
-      this.rootStore?.nodeStore?.updateNode(nodeId, { services: nodeServices });
+      this.rootStore?.nodeStore?.updateNode(
+        nodeId,
+        { services: nodeServices },
+        node.adaptorIdentifier
+      );
     };
 
     // Process operation-specific logic
@@ -128,7 +128,10 @@ export class ScheduleStoreSynchronizer {
       flags?: number;
       operation: ScheduleOperation;
     }) => {
-      const node = this.rootStore?.nodeStore?.nodesByIDMap?.[nodeId];
+      const node = this.rootStore?.nodeStore?.getNodeById(
+        nodeId,
+        schedule.adaptorIdentifier
+      );
       if (!node) return;
 
       const nodeServices = node.services || [];
@@ -207,7 +210,11 @@ export class ScheduleStoreSynchronizer {
       }
 
       // Update services at first level of node
-      this.rootStore?.nodeStore?.updateNode(nodeId, { services: nodeServices });
+      this.rootStore?.nodeStore?.updateNode(
+        nodeId,
+        { services: nodeServices },
+        node.adaptorIdentifier
+      );
     };
 
     // Process operation-specific logic
@@ -118,14 +118,18 @@ class UserStore {
     const groupStore = this.rootStore.groupStore;
     const nodeStore = this.rootStore.nodeStore;
     const callbacks: GroupStoreCallbacks = {
-      setGroupsList: (groups) => groupStore.setGroupsList(groups),
+      setGroupsList: (groups) =>
+        groupStore.setGroupsList(groups, adaptorIdentifier),
       setCurrentHomeId: (id) => {
         groupStore.currentHomeId = id;
       },
       addGroup: (group) => groupStore.addGroup(group),
       addNodesToGroup: (groupId, nodes) => {
         runInAction(() => {
-          const group = findGroupById(groupStore.groupsList, groupId);
+          const group = findGroupById(
+            groupStore.getGroupsForAdaptor(adaptorIdentifier),
+            groupId
+          );
           if (group) {
             const existingIds = new Set(group.nodeIds ?? []);
             const detailsById = new Map(
@@ -145,7 +149,11 @@ class UserStore {
         });
       },
       onNodeUpdate: (update) => {
-        this.rootStore.subscriptionStore.nodeUpdates.listen(update);
+        // Tag the event so handlers resolve nodes within this adaptor
+        this.rootStore.subscriptionStore.nodeUpdates.listen({
+          adaptorIdentifier,
+          ...update,
+        });
       },
     };
     authEntity.setStoreCallbacks?.(callbacks);
@@ -182,6 +190,15 @@ class UserStore {
     }
   }
 
+  /**
+   * Removes every signed-in user entity and disposes the user synchronizer.
+   * Used by `ESPCDF.destroy()`.
+   */
+  @action dispose() {
+    this.removeAuthorizationEntityForAdaptor();
+    this.#synchronizer.dispose();
+  }
+
   /**
    * Adds a dynamic observable property to the store.
    * @param propertyName - The name of the property to add
@@ -0,0 +1,57 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  createInMemoryCDF,
+  describeAdaptorConformance,
+  ESPCDFInMemoryAdaptor,
+  IN_MEMORY_DEMO_PASSWORD,
+  IN_MEMORY_DEMO_USERNAME,
+} from "../index";
+import { ESPCDFEventType } from "../../types";
+
+describeAdaptorConformance(
+  "ESPCDFInMemoryAdaptor",
+  () => new ESPCDFInMemoryAdaptor(),
+  {
+    credentials: {
+      username: IN_MEMORY_DEMO_USERNAME,
+      password: IN_MEMORY_DEMO_PASSWORD,
+    },
+  }
+);
+
+describe("ESPCDFInMemoryAdaptor", () => {
+  test("applies param writes to the backend", async () => {
+    const { cdf, adaptor } = await createInMemoryCDF();
+    const node = cdf.nodeStore.getNodeById("node_light")!;
+
+    await node.setMultipleParams({ Light: [{ Brightness: 30 }] });
+
+    const light = adaptor.backend.getNode("node_light").devices[0];
+    expect(light.params.find((p) => p.name === "Brightness")!.value).toBe(30);
+    await cdf.destroy();
+  });
+
+  test("delivers simulated param changes to the store", async () => {
+    const { cdf, adaptor } = await createInMemoryCDF();
+    const node = cdf.nodeStore.getNodeById("node_light")!;
+    await cdf.userStore.user!.subscribeToEvent(
+      ESPCDFEventType.nodeUpdates,
+      cdf.subscriptionStore.nodeUpdates.listen
+    );
+
+    adaptor.backend.simulateParamChange("node_light", {
+      Light: { Brightness: 12 },
+    });
+
+    const brightness = node.devices![0].params.find(
+      (p) => p.name === "Brightness"
+    );
+    expect(brightness!.value).toBe(12);
+    await cdf.destroy();
+  });
+});
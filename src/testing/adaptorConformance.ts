@@ -0,0 +1,771 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ESPSDKAdaptor,
+  ESPCDFAdaptorCapability,
+  ESPCDFAdaptorFactory,
+  ESPCDFConformanceArea,
+  ESPCDFConformanceCheckResult,
+  ESPCDFConformanceOptions,
+  ESPCDFConformanceReport,
+  ESPCDFConformanceStatus,
+} from "../types";
+import { ESPCDFUser } from "../entities/ESPCDFUser";
+import { ESPCDFGroup } from "../entities/ESPCDFGroup";
+import { ESPCDFNode } from "../entities/ESPCDFNode";
+import { ESPCDFDevice } from "../entities/ESPCDFDevice";
+import { ESPCDFDeviceParam } from "../entities/ESPCDFDeviceParam";
+import { ESPCDFScene } from "../entities/ESPCDFScene";
+import { ESPCDFSchedule } from "../entities/ESPCDFSchedule";
+import { ESPCDFAutomation } from "../entities/ESPCDFAutomation";
+import { ERROR_MESSAGE_MAP } from "../utils/common";
+
+export const CONFORMANCE_AREAS: ESPCDFConformanceArea[] = [
+  "adaptor",
+  "user",
+  "group",
+  "node",
+  "scene",
+  "schedule",
+  "automation",
+];
+
+const REQUIRED_ADAPTOR_METHODS = [
+  "login",
+  "getCurrentLoggedInUser",
+  "loginWithOauth",
+  "getSignUpCode",
+  "confirmSignUp",
+  "forgotPassword",
+  "setNewPassword",
+];
+
+const REQUIRED_USER_OPERATIONS = [
+  "getUserInfo",
+  "updateUserInfo",
+  "getCustomData",
+  "setCustomData",
+  "changePassword",
+  "logout",
+  "updateName",
+  "requestAccountDeletion",
+  "confirmAccountDeletion",
+  "registerForNotification",
+  "unregisterForNotification",
+  "getIssuedGroupSharingRequests",
+  "getReceivedGroupSharingRequests",
+  "setTimeZone",
+  "createGroup",
+  "getGroups",
+  "createProvisioningDevice",
+  "searchESPDevices",
+  "searchESPBLEDevices",
+  "getGroupById",
+  "subscribeToEvent",
+  "unsubscribeFromEvent",
+  "setMultipleNodesParams",
+  "getNodeDetails",
+  "getAccessToken",
+];
+
+const REQUIRED_GROUP_OPERATIONS = [
+  "createSubGroup",
+  "delete",
+  "getNodes",
+  "getSubGroups",
+  "share",
+  "transfer",
+  "removeSharingFor",
+  "getSharingInfo",
+  "updateMetadata",
+  "updateGroupInfo",
+  "addNodes",
+  "removeNodes",
+  "leave",
+];
+
+const REQUIRED_NODE_OPERATIONS = [
+  "setMultipleParams",
+  "delete",
+  "setTimeZone",
+  "updateMetadata",
+];
+
+const REQUIRED_SCENE_OPERATIONS = ["add", "edit", "remove", "activate"];
+
+const REQUIRED_SCHEDULE_OPERATIONS = [
+  "add",
+  "edit",
+  "remove",
+  "enable",
+  "disable",
+];
+
+const REQUIRED_AUTOMATION_OPERATIONS = ["update", "delete", "enable"];
+
+/**
+ * Collects check results for a single conformance run.
+ */
+class ConformanceRecorder {
+  readonly results: ESPCDFConformanceCheckResult[] = [];
+
+  /**
+   * Runs a check; it fails when `fn` throws.
+   * @returns The value returned by `fn`, or undefined if the check failed
+   */
+  async check<T>(
+    id: string,
+    area: ESPCDFConformanceArea,
+    description: string,
+    fn: () => T | Promise<T>
+  ): Promise<T | undefined> {
+    try {
+      const value = await fn();
+      this.results.push({ id, area, description, status: "passed" });
+      return value;
+    } catch (error) {
+      this.results.push({
+        id,
+        area,
+        description,
+        status: "failed",
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  skip(
+    id: string,
+    area: ESPCDFConformanceArea,
+    description: string,
+    reason: string
+  ): void {
+    this.results.push({
+      id,
+      area,
+      description,
+      status: "skipped",
+      message: reason,
+    });
+  }
+}
+
+function assertConformance(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertOperations(
+  entityName: string,
+  operations: unknown,
+  names: string[]
+): void {
+  const available = (operations ?? {}) as Record<string, unknown>;
+  const missing = names.filter((name) => typeof available[name] !== "function");
+  assertConformance(
+    missing.length === 0,
+    `${entityName} operations are missing: ${missing.join(", ")}`
+  );
+}
+
+function assertInstances<T>(
+  entityName: string,
+  items: unknown,
+  EntityClass: new (...args: any[]) => T
+): T[] {
+  assertConformance(Array.isArray(items), `${entityName} list is not an array`);
+  (items as unknown[]).forEach((item, index) => {
+    assertConformance(
+      item instanceof EntityClass,
+      `${entityName} at index ${index} is not an instance of ${EntityClass.name}`
+    );
+  });
+  return items as T[];
+}
+
+/**
+ * Decides whether an optional feature should be checked.
+ * Adaptors that declare capabilities must implement the operations of every
+ * declared capability; undeclared adaptors are checked only when the
+ * operations exist.
+ */
+function resolveOptionalFeature(
+  adaptor: ESPSDKAdaptor,
+  capability: ESPCDFAdaptorCapability,
+  operations: unknown,
+  names: string[]
+): "check" | "skip" | "missing" {
+  const available = (operations ?? {}) as Record<string, unknown>;
+  const implemented = names.every(
+    (name) => typeof available[name] === "function"
+  );
+  if (adaptor.capabilities) {
+    if (!adaptor.capabilities.includes(capability)) return "skip";
+    return implemented ? "check" : "missing";
+  }
+  return implemented ? "check" : "skip";
+}
+
+async function checkAdaptor(
+  recorder: ConformanceRecorder,
+  adaptor: ESPSDKAdaptor
+): Promise<void> {
+  await recorder.check(
+    "adaptor.identifier",
+    "adaptor",
+    "_identifier is a non-empty string",
+    () =>
+      assertConformance(
+        typeof adaptor._identifier === "string" &&
+          adaptor._identifier.length > 0,
+        `_identifier is ${JSON.stringify(adaptor._identifier)}`
+      )
+  );
+  await recorder.check("adaptor.config", "adaptor", "config is an object", () =>
+    assertConformance(
+      typeof adaptor.config === "object" && adaptor.config !== null,
+      `config is ${typeof adaptor.config}`
+    )
+  );
+  await recorder.check(
+    "adaptor.methods",
+    "adaptor",
+    "implements the authentication methods",
+    () => assertOperations("Adaptor", adaptor, REQUIRED_ADAPTOR_METHODS)
+  );
+  await recorder.check(
+    "adaptor.capabilities",
+    "adaptor",
+    "capabilities is omitted or a list of strings",
+    () =>
+      assertConformance(
+        adaptor.capabilities === undefined ||
+          (Array.isArray(adaptor.capabilities) &&
+            adaptor.capabilities.every((c) => typeof c === "string")),
+        "capabilities must be an array of strings"
+      )
+  );
+}
+
+async function checkUser(
+  recorder: ConformanceRecorder,
+  adaptor: ESPSDKAdaptor,
+  options: ESPCDFConformanceOptions
+): Promise<ESPCDFUser | undefined> {
+  if (!options.credentials) {
+    recorder.skip(
+      "user",
+      "user",
+      "login returns a CDF user",
+      "No credentials provided"
+    );
+    return undefined;
+  }
+  const credentials = options.credentials;
+
+  const user = await recorder.check(
+    "user.login",
+    "user",
+    "login resolves with an ESPCDFUser in data",
+    async () => {
+      const response = await adaptor.login({ request: credentials });
+      assertConformance(response?.data, "login response has no data");
+      assertConformance(
+        response.data instanceof ESPCDFUser,
+        "login data is not an instance of ESPCDFUser"
+      );
+      return response.data;
+    }
+  );
+  if (!user) return undefined;
+
+  await recorder.check(
+    "user.identifier",
+    "user",
+    "user identifier matches the adaptor identifier",
+    () =>
+      assertConformance(
+        user.identifier === adaptor._identifier,
+        `user identifier is ${JSON.stringify(user.identifier)}`
+      )
+  );
+  await recorder.check(
+    "user.operations",
+    "user",
+    "user operations implement the required delegates",
+    () => assertOperations("User", user.operations, REQUIRED_USER_OPERATIONS)
+  );
+  await recorder.check(
+    "user.storeCallbacks",
+    "user",
+    "user accepts store callbacks",
+    () =>
+      assertConformance(
+        typeof user.setStoreCallbacks === "function",
+        "setStoreCallbacks is not a function"
+      )
+  );
+  await recorder.check(
+    "user.current",
+    "user",
+    "getCurrentLoggedInUser resolves with the logged in ESPCDFUser",
+    async () => {
+      const response = await adaptor.getCurrentLoggedInUser();
+      assertConformance(
+        response?.data instanceof ESPCDFUser,
+        "getCurrentLoggedInUser data is not an instance of ESPCDFUser"
+      );
+      assertConformance(
+        response.data.identifier === adaptor._identifier,
+        "current user identifier does not match the adaptor identifier"
+      );
+    }
+  );
+  return user;
+}
+
+async function checkGroups(
+  recorder: ConformanceRecorder,
+  adaptor: ESPSDKAdaptor,
+  user: ESPCDFUser | undefined,
+  options: ESPCDFConformanceOptions
+): Promise<ESPCDFGroup | undefined> {
+  if (!user) {
+    recorder.skip("group", "group", "getGroups returns CDF groups", "No user");
+    return undefined;
+  }
+
+  const response = await recorder.check(
+    "group.getGroups",
+    "group",
+    "getGroups resolves with a paginated list of ESPCDFGroup",
+    async () => {
+      const response = await user.operations.getGroups();
+      assertInstances("Group", response?.data, ESPCDFGroup);
+      return response;
+    }
+  );
+  if (!response) return undefined;
+  const groups = response.data;
+
+  await recorder.check(
+    "group.pagination",
+    "group",
+    "getGroups returns pagination with fetchNext while hasNext is true",
+    () => {
+      const { pagination } = response;
+      assertConformance(pagination, "pagination is missing");
+      assertConformance(
+        typeof pagination.hasNext === "boolean",
+        "pagination.hasNext is not a boolean"
+      );
+      assertConformance(
+        !pagination.hasNext || typeof pagination.fetchNext === "function",
+        "pagination.fetchNext is missing while hasNext is true"
+      );
+    }
+  );
+  await recorder.check(
+    "group.entities",
+    "group",
+    "groups carry id, adaptor identifier and required operations",
+    () =>
+      groups.forEach((group) => {
+        assertConformance(group.id, "group without id");
+        assertConformance(
+          group.identifier === adaptor._identifier,
+          `group ${group.id} identifier does not match the adaptor identifier`
+        );
+        assertConformance(
+          Array.isArray(group.nodeIds),
+          `group ${group.id} nodeIds is not an array`
+        );
+        assertOperations(
+          `Group ${group.id}`,
+          group.operations,
+          REQUIRED_GROUP_OPERATIONS
+        );
+      })
+  );
+
+  return options.groupId
+    ? groups.find((group) => group.id === options.groupId)
+    : groups[0];
+}
+
+async function checkNodes(
+  recorder: ConformanceRecorder,
+  adaptor: ESPSDKAdaptor,
+  group: ESPCDFGroup | undefined
+): Promise<void> {
+  if (!group) {
+    recorder.skip("node", "node", "getNodes returns CDF nodes", "No group");
+    return;
+  }
+
+  const nodes = await recorder.check(
+    "node.getNodes",
+    "node",
+    "group getNodes resolves with a list of ESPCDFNode",
+    async () =>
+      assertInstances("Node", await group.operations.getNodes(), ESPCDFNode)
+  );
+  if (!nodes) return;
+
+  await recorder.check(
+    "node.entities",
+    "node",
+    "nodes carry id, adaptor identifier and required operations",
+    () =>
+      nodes.forEach((node) => {
+        assertConformance(node.id, "node without id");
+        assertConformance(
+          node.identifier === adaptor._identifier,
+          `node ${node.id} identifier does not match the adaptor identifier`
+        );
+        assertOperations(
+          `Node ${node.id}`,
+          node.operations,
+          REQUIRED_NODE_OPERATIONS
+        );
+      })
+  );
+  await recorder.check(
+    "node.devices",
+    "node",
+    "devices are ESPCDFDevice with settable ESPCDFDeviceParam params",
+    () =>
+      nodes.forEach((node) => {
+        const devices = assertInstances(
+          `Node ${node.id} device`,
+          node.devices ?? [],
+          ESPCDFDevice
+        );
+        devices.forEach((device) => {
+          const params = assertInstances(
+            `Device ${device.name} param`,
+            device.params ?? [],
+            ESPCDFDeviceParam
+          );
+          params.forEach((param) =>
+            assertOperations(`Param ${param.name}`, param.operations, [
+              "setValue",
+            ])
+          );
+        });
+      })
+  );
+}
+
+async function checkScenes(
+  recorder: ConformanceRecorder,
+  adaptor: ESPSDKAdaptor,
+  group: ESPCDFGroup | undefined
+): Promise<void> {
+  const description = "getScenes resolves with ESPCDFScene entities";
+  if (!group) {
+    recorder.skip("scene", "scene", description, "No group");
+    return;
+  }
+  const feature = resolveOptionalFeature(
+    adaptor,
+    ESPCDFAdaptorCapability.SCENES,
+    group.operations,
+    ["createScene", "getScenes"]
+  );
+  if (feature === "skip") {
+    recorder.skip("scene", "scene", description, "Scenes not supported");
+    return;
+  }
+
+  await recorder.check("scene.getScenes", "scene", description, async () => {
+    assertConformance(
+      feature === "check",
+      "scenes capability is declared but createScene/getScenes are missing"
+    );
+    const scenes = assertInstances(
+      "Scene",
+      await group.operations.getScenes!(group),
+      ESPCDFScene
+    );
+    scenes.forEach((scene) => {
+      assertConformance(
+        scene.adaptorIdentifier === adaptor._identifier,
+        `scene ${scene.id} adaptorIdentifier does not match the adaptor identifier`
+      );
+      assertOperations(
+        `Scene ${scene.id}`,
+        scene.operations,
+        REQUIRED_SCENE_OPERATIONS
+      );
+    });
+  });
+}
+
+async function checkSchedules(
+  recorder: ConformanceRecorder,
+  adaptor: ESPSDKAdaptor,
+  group: ESPCDFGroup | undefined
+): Promise<void> {
+  const description = "getSchedules resolves with ESPCDFSchedule entities";
+  if (!group) {
+    recorder.skip("schedule", "schedule", description, "No group");
+    return;
+  }
+  const feature = resolveOptionalFeature(
+    adaptor,
+    ESPCDFAdaptorCapability.SCHEDULES,
+    group.operations,
+    ["createSchedule", "getSchedules"]
+  );
+  if (feature === "skip") {
+    recorder.skip(
+      "schedule",
+      "schedule",
+      description,
+      "Schedules not supported"
+    );
+    return;
+  }
+
+  await recorder.check(
+    "schedule.getSchedules",
+    "schedule",
+    description,
+    async () => {
+      assertConformance(
+        feature === "check",
+        "schedules capability is declared but createSchedule/getSchedules are missing"
+      );
+      const schedules = assertInstances(
+        "Schedule",
+        await group.operations.getSchedules!(group),
+        ESPCDFSchedule
+      );
+      schedules.forEach((schedule) => {
+        assertConformance(
+          schedule.adaptorIdentifier === adaptor._identifier,
+          `schedule ${schedule.id} adaptorIdentifier does not match the adaptor identifier`
+        );
+        assertOperations(
+          `Schedule ${schedule.id}`,
+          schedule.operations,
+          REQUIRED_SCHEDULE_OPERATIONS
+        );
+      });
+    }
+  );
+}
+
+async function checkAutomations(
+  recorder: ConformanceRecorder,
+  adaptor: ESPSDKAdaptor,
+  group: ESPCDFGroup | undefined
+): Promise<void> {
+  const description =
+    "getAutomations resolves with a paginated list of ESPCDFAutomation";
+  if (!group) {
+    recorder.skip("automation", "automation", description, "No group");
+    return;
+  }
+  const feature = resolveOptionalFeature(
+    adaptor,
+    ESPCDFAdaptorCapability.AUTOMATIONS,
+    group.operations,
+    ["createAutomation", "getAutomations"]
+  );
+  if (feature === "skip") {
+    recorder.skip(
+      "automation",
+      "automation",
+      description,
+      "Automations not supported"
+    );
+    return;
+  }
+
+  await recorder.check(
+    "automation.getAutomations",
+    "automation",
+    description,
+    async () => {
+      assertConformance(
+        feature === "check",
+        "automations capability is declared but createAutomation/getAutomations are missing"
+      );
+      const response = await group.operations.getAutomations!();
+      assertConformance(response?.pagination, "pagination is missing");
+      const automations = assertInstances(
+        "Automation",
+        response.data,
+        ESPCDFAutomation
+      );
+      automations.forEach((automation) => {
+        assertConformance(
+          automation.adaptorIdentifier === adaptor._identifier,
+          `automation ${automation.id} adaptorIdentifier does not match the adaptor identifier`
+        );
+        assertOperations(
+          `Automation ${automation.id}`,
+          automation.operations,
+          REQUIRED_AUTOMATION_OPERATIONS
+        );
+      });
+    }
+  );
+}
+
+/**
+ * Runs the adaptor contract checks against a fresh adaptor instance.
+ *
+ * The adaptor is used directly and is not registered in any registry.
+ * @param factory - Creates the adaptor under test
+ * @param options - Credentials and run options
+ * @returns The compliance report
+ * @example
+ * const report = await runAdaptorConformance(() => new MyAdaptor(config), {
+ *   credentials: { username: "user@example.com", password: "secret" },
+ * });
+ * console.log(formatConformanceReport(report));
+ */
+export async function runAdaptorConformance(
+  factory: ESPCDFAdaptorFactory,
+  options: ESPCDFConformanceOptions = {}
+): Promise<ESPCDFConformanceReport> {
+  const recorder = new ConformanceRecorder();
+
+  const adaptor = await recorder.check(
+    "adaptor.factory",
+    "adaptor",
+    "factory returns an adaptor",
+    async () => {
+      const instance = await factory();
+      assertConformance(instance, "factory returned no adaptor");
+      return instance;
+    }
+  );
+
+  if (adaptor) {
+    await checkAdaptor(recorder, adaptor);
+    const user = await checkUser(recorder, adaptor, options);
+    const group = await checkGroups(recorder, adaptor, user, options);
+    await checkNodes(recorder, adaptor, group);
+    await checkScenes(recorder, adaptor, group);
+    await checkSchedules(recorder, adaptor, group);
+    await checkAutomations(recorder, adaptor, group);
+  }
+
+  const summary: Record<ESPCDFConformanceStatus, number> = {
+    passed: 0,
+    failed: 0,
+    skipped: 0,
+  };
+  recorder.results.forEach((result) => summary[result.status]++);
+
+  return {
+    adaptorIdentifier: adaptor?._identifier ?? "unknown",
+    passed: summary.failed === 0,
+    results: recorder.results,
+    summary,
+  };
+}
+
+/**
+ * Formats one check result as a single report line.
+ */
+export function formatConformanceResult(
+  result: ESPCDFConformanceCheckResult
+): string {
+  const label = { passed: "PASS", failed: "FAIL", skipped: "SKIP" }[
+    result.status
+  ];
+  const line = `${label} [${result.id}] ${result.description}`;
+  return result.message ? `${line} - ${result.message}` : line;
+}
+
+/**
+ * Formats a conformance report as readable plain text.
+ * @param report - Report returned by {@link runAdaptorConformance}
+ * @returns Multi-line report grouped by contract area
+ */
+export function formatConformanceReport(
+  report: ESPCDFConformanceReport
+): string {
+  const lines = [`Adaptor conformance report: ${report.adaptorIdentifier}`];
+  CONFORMANCE_AREAS.forEach((area) => {
+    const results = report.results.filter((result) => result.area === area);
+    if (results.length === 0) return;
+    lines.push("", `${area}:`);
+    results.forEach((result) =>
+      lines.push(`  ${formatConformanceResult(result)}`)
+    );
+  });
+  const { passed, failed, skipped } = report.summary;
+  lines.push(
+    "",
+    `${passed} passed, ${failed} failed, ${skipped} skipped - ${
+      report.passed ? "CONFORMANT" : "NOT CONFORMANT"
+    }`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Subset of the Jest globals used by {@link describeAdaptorConformance}.
+ * Declared locally so the package does not depend on Jest types at runtime.
+ */
+interface ESPCDFJestGlobals {
+  describe(name: string, fn: () => void): void;
+  beforeAll(fn: () => Promise<void>, timeout?: number): void;
+  test(name: string, fn: () => void, timeout?: number): void;
+  expect(value: unknown): { toEqual(expected: unknown): void };
+}
+
+/**
+ * Registers a Jest suite with one test per contract area.
+ * Must be called from a Jest test file; failing checks are listed in the
+ * assertion diff of their area's test.
+ * @param name - Suite name, usually the adaptor name
+ * @param factory - Creates the adaptor under test
+ * @param options - Credentials and run options
+ * @example
+ * // myAdaptor.conformance.test.ts
+ * describeAdaptorConformance("MyAdaptor", () => new MyAdaptor(config), {
+ *   credentials: { username: "user@example.com", password: "secret" },
+ * });
+ */
+export function describeAdaptorConformance(
+  name: string,
+  factory: ESPCDFAdaptorFactory,
+  options: ESPCDFConformanceOptions = {}
+): void {
+  const { describe, beforeAll, test, expect } =
+    globalThis as unknown as ESPCDFJestGlobals;
+  if (typeof describe !== "function") {
+    throw new Error(ERROR_MESSAGE_MAP.JEST_GLOBALS_MISSING);
+  }
+
+  describe(`${name} adaptor conformance`, () => {
+    let report: ESPCDFConformanceReport;
+
+    beforeAll(async () => {
+      report = await runAdaptorConformance(factory, options);
+    }, options.timeout);
+
+    CONFORMANCE_AREAS.forEach((area) => {
+      test(`${area} contract`, () => {
+        const failures = report.results
+          .filter((result) => result.area === area)
+          .filter((result) => result.status === "failed")
+          .map(formatConformanceResult);
+        expect(failures).toEqual([]);
+      });
+    });
+  });
+}
@@ -0,0 +1,298 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFUser } from "../../entities";
+import { ESPCDFAdaptorError } from "../../errors";
+import {
+  ESPCDFAdaptorCapability,
+  ESPCDFAdaptorCapabilityType,
+  ESPCDFAdaptorConfigSchema,
+  ESPCDFConfirmSignUpRequestPayload,
+  ESPCDFForgotPasswordRequestPayload,
+  ESPCDFGetSignUpCodeRequestPayload,
+  ESPCDFInMemoryAdaptorConfig,
+  ESPCDFInMemoryUserRecord,
+  ESPCDFLoginRequestPayload,
+  ESPCDFLoginWithOauthRequestPayload,
+  ESPCDFSetNewPasswordRequestPayload,
+  ESPSDKAdaptor,
+  ESPSDKAdaptorAPIDataResponse,
+  ESPSDKAdaptorAPIRequest,
+  ESPSDKAdaptorAPIResponse,
+} from "../../types";
+import { ESPCDF_API_VERSION, getCDFApiFeatures } from "../../utils/apiVersion";
+import { ERROR_MESSAGE_MAP } from "../../utils/common";
+import { SUCCESS, USER_NOT_LOGGED_IN_ERR } from "../../utils/constants";
+import { createInMemoryDemoSeed } from "./demoSeed";
+import {
+  ESPCDFInMemoryBackend,
+  ESPCDFInMemoryNodeUpdateInput,
+} from "./ESPCDFInMemoryBackend";
+import { ESPCDFInMemorySession, createUserEntity } from "./entityFactory";
+
+export const IN_MEMORY_ADAPTOR_IDENTIFIER = "inMemory";
+export const IN_MEMORY_VERIFICATION_CODE = "123456";
+const IN_MEMORY_DEFAULT_PAGE_SIZE = 10;
+
+// Optional Matter and on-network provisioning operations are not simulated
+const IN_MEMORY_UNSUPPORTED_FEATURES = new Set([
+  "user.createFabric",
+  "user.addDevice",
+  "user.addOnNetworkDevice",
+  "user.assumeRole",
+  "user.getGroupsAndFabrics",
+  "user.isUserNocAvailableForFabric",
+  "user.storePrecommissionInfo",
+  "group.getFabricDetails",
+  "group.convertToMatterFabric",
+  "group.issueUserNoC",
+  "group.issueNodeNoC",
+  "group.getNodesWithDetails",
+  "group.startCommissioning",
+]);
+
+/**
+ * Config schema of {@link ESPCDFInMemoryAdaptor}.
+ */
+export const IN_MEMORY_ADAPTOR_CONFIG_SCHEMA: ESPCDFAdaptorConfigSchema = {
+  identifier: { type: "string", min: 1 },
+  seed: { type: "object" },
+  latency: { type: "number", min: 0, default: 0 },
+  pageSize: { type: "number", min: 1, default: IN_MEMORY_DEFAULT_PAGE_SIZE },
+  verificationCode: {
+    type: "string",
+    min: 1,
+    default: IN_MEMORY_VERIFICATION_CODE,
+    secret: true,
+  },
+  capabilities: { type: "array" },
+};
+
+/**
+ * Reference `ESPSDKAdaptor` that keeps all state in memory.
+ *
+ * Simulates users, homes and rooms, nodes with devices and params, the scenes
+ * and schedules node services, automations, group sharing and OTA jobs, so
+ * apps and CI can run CDF without a cloud. The backing store is exposed as
+ * `backend`; use it to seed data, inspect state and inject `cdf/node/...`
+ * events.
+ *
+ * Sign-up, password reset and account deletion accept `verificationCode`
+ * (default `123456`). OAuth login signs in the first seeded user.
+ * @example
+ * const adaptor = new ESPCDFInMemoryAdaptor();
+ * registry.register(adaptor);
+ * await adaptor.login({
+ *   request: { username: IN_MEMORY_DEMO_USERNAME, password: IN_MEMORY_DEMO_PASSWORD },
+ * });
+ * adaptor.backend.simulateParamChange("node_light", { Light: { Power: true } });
+ */
+export class ESPCDFInMemoryAdaptor implements ESPSDKAdaptor {
+  readonly _identifier: string;
+  readonly config: ESPCDFInMemoryAdaptorConfig;
+  readonly configSchema = IN_MEMORY_ADAPTOR_CONFIG_SCHEMA;
+  readonly cdfApiVersion = ESPCDF_API_VERSION;
+  readonly cdfFeatures = getCDFApiFeatures().filter(
+    (feature) => !IN_MEMORY_UNSUPPORTED_FEATURES.has(feature)
+  );
+  readonly capabilities: ESPCDFAdaptorCapabilityType[];
+  readonly backend: ESPCDFInMemoryBackend;
+  private session: ESPCDFInMemorySession | null = null;
+  private pendingSignUps = new Map<string, string>();
+
+  constructor(config: ESPCDFInMemoryAdaptorConfig = {}) {
+    this.config = config;
+    this._identifier = config.identifier ?? IN_MEMORY_ADAPTOR_IDENTIFIER;
+    this.capabilities = config.capabilities ?? [
+      ESPCDFAdaptorCapability.GROUPS,
+      ESPCDFAdaptorCapability.GROUP_SHARING,
+      ESPCDFAdaptorCapability.SCENES,
+      ESPCDFAdaptorCapability.SCHEDULES,
+      ESPCDFAdaptorCapability.AUTOMATIONS,
+      ESPCDFAdaptorCapability.OTA,
+      ESPCDFAdaptorCapability.NODE_UPDATES,
+    ];
+    this.backend = new ESPCDFInMemoryBackend(
+      config.seed ?? createInMemoryDemoSeed()
+    );
+  }
+
+  /**
+   * Username of the signed-in user, or null.
+   */
+  get currentUsername(): string | null {
+    return this.session?.username ?? null;
+  }
+
+  /**
+   * Delivers a `cdf/node/...` event to node update subscribers.
+   * Shorthand for `backend.emitNodeUpdate`.
+   */
+  emitNodeUpdate(event: ESPCDFInMemoryNodeUpdateInput): void {
+    this.backend.emitNodeUpdate(event);
+  }
+
+  onDispose(): void {
+    this.session?.end();
+  }
+
+  async login(
+    request: ESPSDKAdaptorAPIRequest<ESPCDFLoginRequestPayload>
+  ): Promise<ESPSDKAdaptorAPIDataResponse<ESPCDFUser>> {
+    return this.run(() => {
+      const { username = "", password } = request.request ?? {};
+      const user = this.backend.users.get(username);
+      if (!user || user.password !== password) {
+        throw new ESPCDFAdaptorError(
+          ERROR_MESSAGE_MAP.INVALID_CREDENTIALS,
+          "INVALID_CREDENTIALS",
+          { username }
+        );
+      }
+      return { status: SUCCESS, data: this.startSession(user) };
+    });
+  }
+
+  async getCurrentLoggedInUser(): Promise<
+    ESPSDKAdaptorAPIDataResponse<ESPCDFUser>
+  > {
+    return this.run(() => {
+      if (!this.session) {
+        throw new ESPCDFAdaptorError(
+          USER_NOT_LOGGED_IN_ERR,
+          "USER_NOT_LOGGED_IN"
+        );
+      }
+      return { status: SUCCESS, data: createUserEntity(this.session) };
+    });
+  }
+
+  async loginWithOauth(
+    request: ESPSDKAdaptorAPIRequest<ESPCDFLoginWithOauthRequestPayload>
+  ): Promise<ESPSDKAdaptorAPIDataResponse<ESPCDFUser>> {
+    return this.run(() => {
+      const [user] = this.backend.users.values();
+      if (!user) {
+        throw new ESPCDFAdaptorError(
+          ERROR_MESSAGE_MAP.INVALID_CREDENTIALS,
+          "INVALID_CREDENTIALS",
+          { identityProvider: request.request?.identityProvider }
+        );
+      }
+      return { status: SUCCESS, data: this.startSession(user) };
+    });
+  }
+
+  async getSignUpCode(
+    request: ESPSDKAdaptorAPIRequest<ESPCDFGetSignUpCodeRequestPayload>
+  ): Promise<ESPSDKAdaptorAPIResponse> {
+    return this.run(() => {
+      const { username = "", password = "" } = request.request ?? {};
+      if (this.backend.users.has(username)) {
+        throw new ESPCDFAdaptorError(
+          ERROR_MESSAGE_MAP.USER_ALREADY_EXISTS(username),
+          "USER_ALREADY_EXISTS",
+          { username }
+        );
+      }
+      this.pendingSignUps.set(username, password);
+      return { status: SUCCESS, description: "Verification code sent" };
+    });
+  }
+
+  async confirmSignUp(
+    request: ESPSDKAdaptorAPIRequest<ESPCDFConfirmSignUpRequestPayload>
+  ): Promise<ESPSDKAdaptorAPIResponse> {
+    return this.run(() => {
+      const { username = "", verificationCode = "" } = request.request ?? {};
+      const password = this.pendingSignUps.get(username);
+      if (password === undefined) {
+        throw new ESPCDFAdaptorError(
+          ERROR_MESSAGE_MAP.USER_NOT_FOUND(username),
+          "USER_NOT_FOUND",
+          { username }
+        );
+      }
+      this.verifyCode(verificationCode);
+      this.pendingSignUps.delete(username);
+      this.backend.users.set(username, {
+        id: this.backend.generateId("user"),
+        username,
+        password,
+        name: username,
+        customData: {},
+      });
+      return { status: SUCCESS, description: "User confirmed" };
+    });
+  }
+
+  async forgotPassword(
+    request: ESPSDKAdaptorAPIRequest<ESPCDFForgotPasswordRequestPayload>
+  ): Promise<ESPSDKAdaptorAPIResponse> {
+    return this.run(() => {
+      this.backend.getUser(request.request?.username ?? "");
+      return { status: SUCCESS, description: "Verification code sent" };
+    });
+  }
+
+  async setNewPassword(
+    request: ESPSDKAdaptorAPIRequest<ESPCDFSetNewPasswordRequestPayload>
+  ): Promise<ESPSDKAdaptorAPIResponse> {
+    return this.run(() => {
+      const {
+        username = "",
+        newPassword = "",
+        verificationCode = "",
+      } = request.request ?? {};
+      const user = this.backend.getUser(username);
+      this.verifyCode(verificationCode);
+      user.password = newPassword;
+      return { status: SUCCESS, description: "Password updated" };
+    });
+  }
+
+  private verifyCode(code: string): void {
+    if (
+      code !== (this.config.verificationCode ?? IN_MEMORY_VERIFICATION_CODE)
+    ) {
+      throw new ESPCDFAdaptorError(
+        ERROR_MESSAGE_MAP.INVALID_VERIFICATION_CODE,
+        "INVALID_VERIFICATION_CODE"
+      );
+    }
+  }
+
+  private async run<T>(execute: () => T | Promise<T>): Promise<T> {
+    const latency = this.config.latency ?? 0;
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+    return execute();
+  }
+
+  private startSession(user: ESPCDFInMemoryUserRecord): ESPCDFUser {
+    this.session?.end();
+    const session: ESPCDFInMemorySession = {
+      backend: this.backend,
+      identifier: this._identifier,
+      username: user.username,
+      pageSize: this.config.pageSize ?? IN_MEMORY_DEFAULT_PAGE_SIZE,
+      verificationCode:
+        this.config.verificationCode ?? IN_MEMORY_VERIFICATION_CODE,
+      run: (execute) => this.run(execute),
+      end: () => {
+        session.nodeUpdateSubscriptions.forEach((unsubscribe) => unsubscribe());
+        session.nodeUpdateSubscriptions.clear();
+        if (this.session === session) {
+          this.session = null;
+        }
+      },
+      nodeUpdateSubscriptions: new Map(),
+    };
+    this.session = session;
+    return createUserEntity(session);
+  }
+}
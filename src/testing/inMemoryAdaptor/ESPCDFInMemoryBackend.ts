@@ -0,0 +1,524 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFAdaptorError } from "../../errors";
+import {
+  ESPCDFInMemoryAutomationRecord,
+  ESPCDFInMemoryGroupRecord,
+  ESPCDFInMemoryNodeRecord,
+  ESPCDFInMemoryOTAJobRecord,
+  ESPCDFInMemoryParamRecord,
+  ESPCDFInMemorySeed,
+  ESPCDFInMemorySharingRequestRecord,
+  ESPCDFInMemoryUserRecord,
+  ESPCDFNodeUpdateEvent,
+} from "../../types";
+import { ERROR_MESSAGE_MAP } from "../../utils/common";
+import {
+  EVENT_NODE_CONNECTED,
+  EVENT_NODE_DISCONNECTED,
+  EVENT_NODE_PARAMS_CHANGED,
+  EVENT_USER_NODE_ADDED,
+  EVENT_USER_NODE_REMOVED,
+} from "../../utils/constants";
+
+export type ESPCDFInMemoryNodeUpdateListener = (
+  event: ESPCDFNodeUpdateEvent
+) => void;
+
+/**
+ * Node update event accepted by {@link ESPCDFInMemoryBackend.emitNodeUpdate};
+ * `timestamp` defaults to now.
+ */
+export type ESPCDFInMemoryNodeUpdateInput = Omit<
+  ESPCDFNodeUpdateEvent,
+  "timestamp"
+> & { timestamp?: number };
+
+/**
+ * Deep-copies plain record data so entities never share state with the backend.
+ */
+export function cloneRecord<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * State holder behind `ESPCDFInMemoryAdaptor`.
+ *
+ * Stores users, groups, nodes, automations, sharing requests and OTA jobs as
+ * plain records and plays the role of the cloud: adaptor operations read and
+ * mutate these records, and the `simulate*` helpers mimic device-side changes
+ * by updating records and emitting `cdf/node/...` events to subscribers.
+ * Operations triggered through CDF entities never echo events back.
+ */
+export class ESPCDFInMemoryBackend {
+  readonly users = new Map<string, ESPCDFInMemoryUserRecord>();
+  readonly groups = new Map<string, ESPCDFInMemoryGroupRecord>();
+  readonly nodes = new Map<string, ESPCDFInMemoryNodeRecord>();
+  readonly automations = new Map<string, ESPCDFInMemoryAutomationRecord>();
+  readonly sharingRequests = new Map<
+    string,
+    ESPCDFInMemorySharingRequestRecord
+  >();
+  readonly otaJobs = new Map<string, ESPCDFInMemoryOTAJobRecord>();
+  private nodeUpdateListeners = new Set<ESPCDFInMemoryNodeUpdateListener>();
+  private idCounter = 0;
+
+  constructor(seed: ESPCDFInMemorySeed = {}) {
+    this.load(seed);
+  }
+
+  /**
+   * Replaces the backend state with a copy of the given seed.
+   * Subscribed node update listeners are kept.
+   * @param seed - Initial users, groups, nodes, automations and sharing requests
+   */
+  load(seed: ESPCDFInMemorySeed): void {
+    const copy = cloneRecord(seed);
+    this.users.clear();
+    this.groups.clear();
+    this.nodes.clear();
+    this.automations.clear();
+    this.sharingRequests.clear();
+    this.otaJobs.clear();
+    copy.users?.forEach((user) => this.users.set(user.username, user));
+    copy.groups?.forEach((group) => this.groups.set(group.id, group));
+    copy.nodes?.forEach((node) => this.nodes.set(node.id, node));
+    copy.automations?.forEach((automation) =>
+      this.automations.set(automation.id, automation)
+    );
+    copy.sharingRequests?.forEach((request) =>
+      this.sharingRequests.set(request.id, request)
+    );
+  }
+
+  /**
+   * Returns a copy of the current state, e.g. for assertions in tests.
+   */
+  snapshot(): Required<ESPCDFInMemorySeed> {
+    return cloneRecord({
+      users: [...this.users.values()],
+      groups: [...this.groups.values()],
+      nodes: [...this.nodes.values()],
+      automations: [...this.automations.values()],
+      sharingRequests: [...this.sharingRequests.values()],
+    });
+  }
+
+  generateId(prefix: string): string {
+    this.idCounter += 1;
+    return `${prefix}_${Date.now().toString(36)}_${this.idCounter}`;
+  }
+
+  getUser(username: string): ESPCDFInMemoryUserRecord {
+    const user = this.users.get(username);
+    if (!user) {
+      throw new ESPCDFAdaptorError(
+        ERROR_MESSAGE_MAP.USER_NOT_FOUND(username),
+        "USER_NOT_FOUND",
+        { username }
+      );
+    }
+    return user;
+  }
+
+  getNode(nodeId: string): ESPCDFInMemoryNodeRecord {
+    const node = this.nodes.get(nodeId);
+    if (!node) {
+      throw new ESPCDFAdaptorError(
+        ERROR_MESSAGE_MAP.NODE_NOT_FOUND(nodeId),
+        "NODE_NOT_FOUND",
+        { nodeId }
+      );
+    }
+    return node;
+  }
+
+  getGroup(groupId: string): ESPCDFInMemoryGroupRecord {
+    const group = this.groups.get(groupId);
+    if (!group) {
+      throw new ESPCDFAdaptorError(
+        ERROR_MESSAGE_MAP.GROUP_NOT_FOUND(groupId),
+        "GROUP_NOT_FOUND",
+        { groupId }
+      );
+    }
+    return group;
+  }
+
+  getAutomation(automationId: string): ESPCDFInMemoryAutomationRecord {
+    const automation = this.automations.get(automationId);
+    if (!automation) {
+      throw new ESPCDFAdaptorError(
+        ERROR_MESSAGE_MAP.AUTOMATION_NOT_FOUND(automationId),
+        "AUTOMATION_NOT_FOUND",
+        { automationId }
+      );
+    }
+    return automation;
+  }
+
+  getSharingRequest(requestId: string): ESPCDFInMemorySharingRequestRecord {
+    const request = this.sharingRequests.get(requestId);
+    if (!request) {
+      throw new ESPCDFAdaptorError(
+        ERROR_MESSAGE_MAP.SHARING_REQUEST_NOT_FOUND(requestId),
+        "SHARING_REQUEST_NOT_FOUND",
+        { requestId }
+      );
+    }
+    return request;
+  }
+
+  getOTAJob(otaJobId: string): ESPCDFInMemoryOTAJobRecord {
+    const job = this.otaJobs.get(otaJobId);
+    if (!job) {
+      throw new ESPCDFAdaptorError(
+        ERROR_MESSAGE_MAP.OTA_JOB_NOT_FOUND(otaJobId),
+        "OTA_JOB_NOT_FOUND",
+        { otaJobId }
+      );
+    }
+    return job;
+  }
+
+  /**
+   * Returns the top-level group of a group (the home of a room).
+   */
+  getRootGroup(group: ESPCDFInMemoryGroupRecord): ESPCDFInMemoryGroupRecord {
+    let root = group;
+    while (root.parentId && this.groups.has(root.parentId)) {
+      root = this.groups.get(root.parentId)!;
+    }
+    return root;
+  }
+
+  /**
+   * Whether the user is the primary user of the group or the group is shared
+   * with them. Access to a group grants access to its subgroups.
+   */
+  canAccessGroup(username: string, group: ESPCDFInMemoryGroupRecord): boolean {
+    const root = this.getRootGroup(group);
+    return (
+      root.primaryUsername === username ||
+      (root.sharedWith ?? []).includes(username)
+    );
+  }
+
+  isPrimaryUser(username: string, group: ESPCDFInMemoryGroupRecord): boolean {
+    return this.getRootGroup(group).primaryUsername === username;
+  }
+
+  /**
+   * Returns top-level groups accessible to the user.
+   */
+  getTopLevelGroups(username: string): ESPCDFInMemoryGroupRecord[] {
+    return [...this.groups.values()].filter(
+      (group) => !group.parentId && this.canAccessGroup(username, group)
+    );
+  }
+
+  getSubGroups(groupId: string): ESPCDFInMemoryGroupRecord[] {
+    return [...this.groups.values()].filter(
+      (group) => group.parentId === groupId
+    );
+  }
+
+  /**
+   * Returns node ids of a group, including the nodes of its subgroups.
+   */
+  getGroupNodeIds(groupId: string): string[] {
+    const nodeIds = new Set(this.getGroup(groupId).nodeIds);
+    this.getSubGroups(groupId).forEach((subGroup) =>
+      this.getGroupNodeIds(subGroup.id).forEach((nodeId) => nodeIds.add(nodeId))
+    );
+    return [...nodeIds].filter((nodeId) => this.nodes.has(nodeId));
+  }
+
+  /**
+   * Returns ids of nodes owned by the user or placed in a group accessible to them.
+   */
+  getAccessibleNodeIds(username: string): string[] {
+    const nodeIds = new Set(
+      [...this.nodes.values()]
+        .filter((node) => node.ownerUsername === username)
+        .map((node) => node.id)
+    );
+    this.getTopLevelGroups(username).forEach((group) =>
+      this.getGroupNodeIds(group.id).forEach((nodeId) => nodeIds.add(nodeId))
+    );
+    return [...nodeIds];
+  }
+
+  /**
+   * Removes a group together with its subgroups.
+   */
+  removeGroup(groupId: string): void {
+    this.getSubGroups(groupId).forEach((subGroup) =>
+      this.removeGroup(subGroup.id)
+    );
+    this.groups.delete(groupId);
+  }
+
+  /**
+   * Removes a node from the backend and from every group.
+   */
+  removeNode(nodeId: string): void {
+    this.nodes.delete(nodeId);
+    this.groups.forEach((group) => {
+      group.nodeIds = group.nodeIds.filter((id) => id !== nodeId);
+    });
+  }
+
+  /**
+   * Applies shadow-style param updates (`{ deviceOrServiceName: { param: value } }`)
+   * to a node's device and service params. Also accepts the
+   * `setMultipleParams` form, which lists `{ param: value }` entries per name.
+   * @param nodeId - Node to update
+   * @param payload - Param values keyed by device or service name
+   */
+  applyNodeParams(
+    nodeId: string,
+    payload: Record<string, Record<string, any> | Record<string, any>[]>
+  ): void {
+    const node = this.getNode(nodeId);
+    for (const [entityName, params] of Object.entries(payload)) {
+      const holder =
+        node.devices.find((device) => device.name === entityName) ??
+        node.services?.find((service) => service.name === entityName);
+      if (!holder || !params) continue;
+      const entries = Array.isArray(params)
+        ? params.flatMap((entry) => Object.entries(entry))
+        : Object.entries(params);
+      for (const [paramName, value] of entries) {
+        const param = holder.params.find((p) => p.name === paramName);
+        if (param) {
+          param.value = cloneRecord(value);
+        }
+      }
+    }
+  }
+
+  private findServiceParam(
+    nodeId: string,
+    serviceType: string,
+    paramType: string
+  ): ESPCDFInMemoryParamRecord | undefined {
+    return this.getNode(nodeId)
+      .services?.find((service) => service.type === serviceType)
+      ?.params.find((param) => param.type === paramType);
+  }
+
+  /**
+   * Whether the node exposes the given service param (e.g. `esp.param.scenes`).
+   */
+  hasServiceParam(
+    nodeId: string,
+    serviceType: string,
+    paramType: string
+  ): boolean {
+    return !!this.findServiceParam(nodeId, serviceType, paramType);
+  }
+
+  /**
+   * Returns the entries of a list-valued service param such as scenes or
+   * schedules. Values stored as `{ Schedules: [...] }` are unwrapped.
+   * @throws ESPCDFAdaptorError if the node does not expose the service param
+   */
+  getServiceEntries(
+    nodeId: string,
+    serviceType: string,
+    paramType: string
+  ): Record<string, any>[] {
+    const param = this.findServiceParam(nodeId, serviceType, paramType);
+    if (!param) {
+      throw new ESPCDFAdaptorError(
+        ERROR_MESSAGE_MAP.NODE_SERVICE_NOT_FOUND(nodeId, serviceType),
+        "NODE_SERVICE_NOT_FOUND",
+        { nodeId, serviceType }
+      );
+    }
+    if (Array.isArray(param.value)) return param.value;
+    if (Array.isArray(param.value?.Schedules)) return param.value.Schedules;
+    param.value = [];
+    return param.value;
+  }
+
+  /**
+   * Inserts or replaces (by `id`) an entry of a list-valued service param.
+   */
+  upsertServiceEntry(
+    nodeId: string,
+    serviceType: string,
+    paramType: string,
+    entry: Record<string, any>
+  ): void {
+    const entries = this.getServiceEntries(nodeId, serviceType, paramType);
+    const index = entries.findIndex((item) => item.id === entry.id);
+    if (index === -1) {
+      entries.push(cloneRecord(entry));
+    } else {
+      entries[index] = { ...entries[index], ...cloneRecord(entry) };
+    }
+  }
+
+  /**
+   * Removes an entry (by `id`) from a list-valued service param.
+   */
+  removeServiceEntry(
+    nodeId: string,
+    serviceType: string,
+    paramType: string,
+    entryId: string
+  ): void {
+    const entries = this.getServiceEntries(nodeId, serviceType, paramType);
+    const index = entries.findIndex((item) => item.id === entryId);
+    if (index !== -1) {
+      entries.splice(index, 1);
+    }
+  }
+
+  /**
+   * Creates an OTA job when the node has a newer firmware available.
+   * @returns The created job, or undefined when the node is up to date
+   */
+  createOTAJob(nodeId: string): ESPCDFInMemoryOTAJobRecord | undefined {
+    const node = this.getNode(nodeId);
+    if (
+      !node.availableFirmwareVersion ||
+      node.availableFirmwareVersion === node.firmwareVersion
+    ) {
+      return undefined;
+    }
+    const job: ESPCDFInMemoryOTAJobRecord = {
+      id: this.generateId("ota"),
+      nodeId,
+      fwVersion: node.availableFirmwareVersion,
+      status: "triggered",
+      timestamp: Date.now(),
+    };
+    this.otaJobs.set(job.id, job);
+    return job;
+  }
+
+  /**
+   * Moves an OTA job one step forward (`triggered` → `in_progress` → `success`).
+   * A successful job updates the node firmware version.
+   */
+  advanceOTAJob(otaJobId: string): ESPCDFInMemoryOTAJobRecord {
+    const job = this.getOTAJob(otaJobId);
+    if (job.status === "triggered") {
+      job.status = "in_progress";
+    } else if (job.status === "in_progress") {
+      job.status = "success";
+      const node = this.nodes.get(job.nodeId);
+      if (node) {
+        node.firmwareVersion = job.fwVersion;
+      }
+    }
+    job.timestamp = Date.now();
+    return job;
+  }
+
+  /**
+   * Subscribes to node update events.
+   * @returns Unsubscribe function
+   */
+  onNodeUpdate(listener: ESPCDFInMemoryNodeUpdateListener): () => void {
+    this.nodeUpdateListeners.add(listener);
+    return () => {
+      this.nodeUpdateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Delivers a `cdf/node/...` event to every subscriber as-is.
+   * Backend records are not modified; use the `simulate*` helpers for that.
+   * @param event - Event to deliver
+   */
+  emitNodeUpdate(event: ESPCDFInMemoryNodeUpdateInput): void {
+    const fullEvent: ESPCDFNodeUpdateEvent = {
+      ...event,
+      timestamp: event.timestamp ?? Date.now(),
+    };
+    [...this.nodeUpdateListeners].forEach((listener) => {
+      try {
+        listener(fullEvent);
+      } catch (error) {
+        console.error(
+          "[ESPCDFInMemoryBackend] Node update listener failed:",
+          error
+        );
+      }
+    });
+  }
+
+  /**
+   * Simulates a device reporting new param values.
+   * @param nodeId - Node reporting the change
+   * @param payload - Param values keyed by device or service name
+   */
+  simulateParamChange(
+    nodeId: string,
+    payload: Record<string, Record<string, any>>
+  ): void {
+    this.applyNodeParams(nodeId, payload);
+    this.emitNodeUpdate({
+      event_type: EVENT_NODE_PARAMS_CHANGED,
+      node_id: nodeId,
+      payload: cloneRecord(payload),
+    });
+  }
+
+  /**
+   * Simulates a node going online or offline.
+   */
+  simulateConnectivity(nodeId: string, isConnected: boolean): void {
+    const node = this.getNode(nodeId);
+    const timestamp = Date.now();
+    node.isConnected = isConnected;
+    node.lastConnectionTimestamp = timestamp;
+    this.emitNodeUpdate({
+      event_type: isConnected ? EVENT_NODE_CONNECTED : EVENT_NODE_DISCONNECTED,
+      node_id: nodeId,
+      payload: {},
+      timestamp,
+    });
+  }
+
+  /**
+   * Simulates a node being added to its owner's account, e.g. by another app.
+   * @param node - Node to add
+   * @param groupId - Optional group the node is placed in
+   */
+  simulateNodeAdded(node: ESPCDFInMemoryNodeRecord, groupId?: string): void {
+    this.nodes.set(node.id, cloneRecord(node));
+    if (groupId) {
+      const group = this.getGroup(groupId);
+      if (!group.nodeIds.includes(node.id)) {
+        group.nodeIds.push(node.id);
+      }
+    }
+    this.emitNodeUpdate({
+      event_type: EVENT_USER_NODE_ADDED,
+      node_id: node.id,
+      payload: { nodeIds: [node.id] },
+    });
+  }
+
+  /**
+   * Simulates a node being removed from its owner's account.
+   */
+  simulateNodeRemoved(nodeId: string): void {
+    this.getNode(nodeId);
+    this.removeNode(nodeId);
+    this.emitNodeUpdate({
+      event_type: EVENT_USER_NODE_REMOVED,
+      node_id: nodeId,
+      payload: { nodeIds: [nodeId] },
+    });
+  }
+}
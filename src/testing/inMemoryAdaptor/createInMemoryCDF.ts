@@ -0,0 +1,37 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDF } from "../../store/index";
+import { ESPCDFInMemoryCDFOptions } from "../../types";
+import { ESPCDFInMemoryAdaptor } from "./ESPCDFInMemoryAdaptor";
+import { IN_MEMORY_DEMO_PASSWORD, IN_MEMORY_DEMO_USERNAME } from "./demoSeed";
+
+/**
+ * Creates an independent `ESPCDF` with a new {@link ESPCDFInMemoryAdaptor}
+ * registered and active, signed in as the demo user with homes and nodes
+ * synced. Call `cdf.destroy()` when done.
+ * @param options - CDF and adaptor config
+ * @example
+ * const { cdf, adaptor } = await createInMemoryCDF();
+ * const light = cdf.nodeStore.getNodeById("node_light");
+ * adaptor.backend.simulateParamChange("node_light", { Light: { Power: true } });
+ */
+export async function createInMemoryCDF(
+  options: ESPCDFInMemoryCDFOptions = {}
+): Promise<{ cdf: ESPCDF; adaptor: ESPCDFInMemoryAdaptor }> {
+  const cdf = ESPCDF.create(options.config);
+  const adaptor = new ESPCDFInMemoryAdaptor(options.adaptor);
+  cdf.sdkAdaptorRegistry.register(adaptor);
+  cdf.sdkAdaptorRegistry.setActiveAdaptor(adaptor._identifier);
+  if (options.login !== false) {
+    await cdf.userStore.auth.login({
+      username: IN_MEMORY_DEMO_USERNAME,
+      password: IN_MEMORY_DEMO_PASSWORD,
+    });
+    await cdf.userStore.user!.syncHomeWithNodes();
+  }
+  return { cdf, adaptor };
+}
@@ -0,0 +1,273 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ESPCDFAutomationConditionOperator,
+  ESPCDFAutomationEventOperator,
+  ESPCDFAutomationEventType,
+  ESPCDFGroupSharingStatus,
+  ESPCDFInMemoryParamRecord,
+  ESPCDFInMemorySeed,
+  ESPCDFInMemoryServiceRecord,
+} from "../../types";
+import {
+  ESPRM_PARAM_SCENES,
+  ESPRM_PARAM_SCHEDULES,
+  ESPRM_SERVICE_SCENES,
+  ESPRM_SERVICE_SCHEDULES,
+  GROUP_TYPE_HOME,
+} from "../../utils/constants";
+
+export const IN_MEMORY_DEMO_USERNAME = "demo@example.com";
+export const IN_MEMORY_DEMO_PASSWORD = "password123";
+export const IN_MEMORY_GUEST_USERNAME = "guest@example.com";
+export const IN_MEMORY_GUEST_PASSWORD = "password123";
+
+function nameParam(value: string): ESPCDFInMemoryParamRecord {
+  return {
+    name: "Name",
+    type: "esp.param.name",
+    dataType: "string",
+    properties: ["read", "write"],
+    value,
+  };
+}
+
+function powerParam(value: boolean): ESPCDFInMemoryParamRecord {
+  return {
+    name: "Power",
+    type: "esp.param.power",
+    dataType: "bool",
+    uiType: "esp.ui.toggle",
+    properties: ["read", "write"],
+    value,
+  };
+}
+
+function sceneAndScheduleServices(
+  scenes: Record<string, any>[] = [],
+  schedules: Record<string, any>[] = []
+): ESPCDFInMemoryServiceRecord[] {
+  return [
+    {
+      name: "Scenes",
+      type: ESPRM_SERVICE_SCENES,
+      params: [
+        {
+          name: "Scenes",
+          type: ESPRM_PARAM_SCENES,
+          dataType: "array",
+          properties: ["read", "write"],
+          value: scenes,
+        },
+      ],
+    },
+    {
+      name: "Schedule",
+      type: ESPRM_SERVICE_SCHEDULES,
+      params: [
+        {
+          name: "Schedules",
+          type: ESPRM_PARAM_SCHEDULES,
+          dataType: "array",
+          properties: ["read", "write"],
+          value: schedules,
+        },
+      ],
+    },
+  ];
+}
+
+/**
+ * Returns a small demo account: a home with two rooms, a light, a switch and a
+ * temperature sensor (with a pending firmware update), one scene, one
+ * schedule, one automation and a pending sharing request to a guest user.
+ */
+export function createInMemoryDemoSeed(): ESPCDFInMemorySeed {
+  const eveningAction = { Light: { Power: true, Brightness: 40 } };
+  const morningAction = { Switch: { Power: false } };
+
+  return {
+    users: [
+      {
+        id: "user_demo",
+        username: IN_MEMORY_DEMO_USERNAME,
+        password: IN_MEMORY_DEMO_PASSWORD,
+        name: "Demo User",
+        customData: {},
+      },
+      {
+        id: "user_guest",
+        username: IN_MEMORY_GUEST_USERNAME,
+        password: IN_MEMORY_GUEST_PASSWORD,
+        name: "Guest User",
+        customData: {},
+      },
+    ],
+    groups: [
+      {
+        id: "home_demo",
+        name: "Home",
+        type: GROUP_TYPE_HOME,
+        mutuallyExclusive: true,
+        nodeIds: ["node_light", "node_switch", "node_sensor"],
+        description: "",
+        primaryUsername: IN_MEMORY_DEMO_USERNAME,
+        sharedWith: [],
+      },
+      {
+        id: "room_living",
+        name: "Living Room",
+        type: "room",
+        parentId: "home_demo",
+        nodeIds: ["node_light", "node_sensor"],
+        primaryUsername: IN_MEMORY_DEMO_USERNAME,
+      },
+      {
+        id: "room_bedroom",
+        name: "Bedroom",
+        type: "room",
+        parentId: "home_demo",
+        nodeIds: ["node_switch"],
+        primaryUsername: IN_MEMORY_DEMO_USERNAME,
+      },
+    ],
+    nodes: [
+      {
+        id: "node_light",
+        name: "Light",
+        type: "esp.node.light",
+        model: "in-memory-light",
+        firmwareVersion: "1.0.0",
+        ownerUsername: IN_MEMORY_DEMO_USERNAME,
+        isConnected: true,
+        devices: [
+          {
+            name: "Light",
+            type: "esp.device.lightbulb",
+            params: [
+              nameParam("Light"),
+              powerParam(false),
+              {
+                name: "Brightness",
+                type: "esp.param.brightness",
+                dataType: "int",
+                uiType: "esp.ui.slider",
+                properties: ["read", "write"],
+                bounds: { min: 0, max: 100, step: 1 },
+                value: 50,
+              },
+            ],
+          },
+        ],
+        services: sceneAndScheduleServices([
+          {
+            id: "scene_evening",
+            name: "Evening",
+            info: "",
+            action: eveningAction,
+          },
+        ]),
+      },
+      {
+        id: "node_switch",
+        name: "Switch",
+        type: "esp.node.switch",
+        model: "in-memory-switch",
+        firmwareVersion: "1.0.0",
+        ownerUsername: IN_MEMORY_DEMO_USERNAME,
+        isConnected: true,
+        devices: [
+          {
+            name: "Switch",
+            type: "esp.device.switch",
+            params: [nameParam("Switch"), powerParam(true)],
+          },
+        ],
+        services: sceneAndScheduleServices(
+          [],
+          [
+            {
+              id: "schedule_morning",
+              name: "Morning",
+              info: "",
+              action: morningAction,
+              triggers: [{ m: 420, d: 127 }],
+              enabled: true,
+            },
+          ]
+        ),
+      },
+      {
+        id: "node_sensor",
+        name: "Temperature Sensor",
+        type: "esp.node.sensor",
+        model: "in-memory-sensor",
+        firmwareVersion: "1.0.0",
+        availableFirmwareVersion: "1.1.0",
+        ownerUsername: IN_MEMORY_DEMO_USERNAME,
+        isConnected: true,
+        devices: [
+          {
+            name: "Temperature Sensor",
+            type: "esp.device.temperature-sensor",
+            params: [
+              nameParam("Temperature Sensor"),
+              {
+                name: "Temperature",
+                type: "esp.param.temperature",
+                dataType: "float",
+                properties: ["read"],
+                value: 22.5,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    automations: [
+      {
+        id: "automation_hot",
+        ownerUsername: IN_MEMORY_DEMO_USERNAME,
+        name: "Switch on when hot",
+        enabled: true,
+        nodeId: "node_sensor",
+        eventType: ESPCDFAutomationEventType.NODE_PARAMS,
+        events: [
+          {
+            deviceName: "Temperature Sensor",
+            param: "Temperature",
+            value: 30,
+            check: ESPCDFAutomationConditionOperator.GREATER_THAN,
+          },
+        ],
+        eventOperator: ESPCDFAutomationEventOperator.AND,
+        actions: [
+          {
+            nodeId: "node_switch",
+            deviceName: "Switch",
+            param: "Power",
+            value: true,
+          },
+        ],
+        retrigger: false,
+      },
+    ],
+    sharingRequests: [
+      {
+        id: "request_guest",
+        status: ESPCDFGroupSharingStatus.pending,
+        timestamp: 0,
+        groupIds: ["home_demo"],
+        username: IN_MEMORY_GUEST_USERNAME,
+        primaryUsername: IN_MEMORY_DEMO_USERNAME,
+        transfer: false,
+        newRole: "secondary",
+        metadata: {},
+      },
+    ],
+  };
+}
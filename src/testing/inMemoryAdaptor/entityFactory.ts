@@ -0,0 +1,1259 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ESPCDFAutomation,
+  ESPCDFDevice,
+  ESPCDFDeviceParam,
+  ESPCDFGroup,
+  ESPCDFGroupSharingRequest,
+  ESPCDFNode,
+  ESPCDFScene,
+  ESPCDFSchedule,
+  ESPCDFServiceParam,
+  ESPCDFUser,
+} from "../../entities";
+import { ESPCDFAdaptorError } from "../../errors";
+import {
+  ESPCDFAPIDataResponse,
+  ESPCDFAPIResponse,
+  ESPCDFAutomationCreateInput,
+  ESPCDFAutomationEditInput,
+  ESPCDFCreateGroupRequest,
+  ESPCDFCreateHomeRequestParams,
+  ESPCDFDeviceInterface,
+  ESPCDFEventType,
+  ESPCDFGroupInterface,
+  ESPCDFGroupSharingStatus,
+  ESPCDFInMemoryAutomationRecord,
+  ESPCDFInMemoryDeviceRecord,
+  ESPCDFInMemoryGroupRecord,
+  ESPCDFInMemoryNodeRecord,
+  ESPCDFInMemoryServiceRecord,
+  ESPCDFInMemorySharingRequestRecord,
+  ESPCDFNodeTransport,
+  ESPCDFPaginatedAPIResponse,
+  ESPCDFSceneCreateInput,
+  ESPCDFSceneEditInput,
+  ESPCDFScheduleCreateInput,
+  ESPCDFScheduleEditInput,
+  ESPCDFServiceInterface,
+  ESPCDFUserInfo,
+  ESPCDFUserInterface,
+  GroupStoreCallbacks,
+} from "../../types";
+import { ERROR_MESSAGE_MAP } from "../../utils/common";
+import {
+  ESPRM_PARAM_SCENES,
+  ESPRM_PARAM_SCHEDULES,
+  ESPRM_SERVICE_SCENES,
+  ESPRM_SERVICE_SCHEDULES,
+  SUCCESS,
+} from "../../utils/constants";
+import {
+  createHomePayload,
+  findHomeGroup,
+  getUniqueDefaultHomeName,
+  getValidHomes,
+} from "../../utils/home";
+import {
+  ESPCDFInMemoryBackend,
+  ESPCDFInMemoryNodeUpdateListener,
+  cloneRecord,
+} from "./ESPCDFInMemoryBackend";
+
+const FAILURE = "failure";
+
+/**
+ * Logged-in user context shared by all entities created for that user.
+ */
+export interface ESPCDFInMemorySession {
+  backend: ESPCDFInMemoryBackend;
+  /** Adaptor identifier stamped on every entity */
+  identifier: string;
+  username: string;
+  pageSize: number;
+  verificationCode: string;
+  /** Runs a backend operation after the configured latency */
+  run<T>(execute: () => T | Promise<T>): Promise<T>;
+  /** Ends the session (logout, account deletion) */
+  end(): void;
+  /** Unsubscribes node update listeners registered for this session */
+  nodeUpdateSubscriptions: Map<unknown, () => void>;
+}
+
+/**
+ * Per-node result returned by scene and schedule operations; read by the
+ * scene/schedule store synchronizers.
+ */
+interface NodeOperationResult {
+  node_id: string;
+  status: string;
+  description?: string;
+}
+
+function success(description?: string): ESPCDFAPIResponse {
+  return { status: SUCCESS, description };
+}
+
+function paginate<T, R>(
+  items: T[],
+  pageSize: number,
+  toEntity: (item: T) => R,
+  start = 0
+): ESPCDFPaginatedAPIResponse<R[]> {
+  const end = start + pageSize;
+  const hasNext = end < items.length;
+  return {
+    status: SUCCESS,
+    data: items.slice(start, end).map(toEntity),
+    pagination: {
+      hasNext,
+      fetchNext: hasNext
+        ? async () => paginate(items, pageSize, toEntity, end)
+        : undefined,
+    },
+  };
+}
+
+/**
+ * Runs a scene/schedule operation on each node and collects per-node results.
+ * The store synchronizers read the result array, so it is returned in place of
+ * a single `ESPCDFAPIResponse`.
+ */
+function forEachNode(
+  nodeIds: string[],
+  execute: (nodeId: string) => void
+): ESPCDFAPIResponse {
+  const results: NodeOperationResult[] = nodeIds.map((nodeId) => {
+    try {
+      execute(nodeId);
+      return { node_id: nodeId, status: SUCCESS };
+    } catch (error) {
+      return {
+        node_id: nodeId,
+        status: FAILURE,
+        description: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+  return results as unknown as ESPCDFAPIResponse;
+}
+
+function countActionDevices(actions: Record<string, any>): number {
+  return Object.values(actions).reduce(
+    (count, action) => count + Object.keys(action ?? {}).length,
+    0
+  );
+}
+
+function getAccessibleGroup(
+  session: ESPCDFInMemorySession,
+  groupId: string
+): ESPCDFInMemoryGroupRecord {
+  const group = session.backend.getGroup(groupId);
+  if (!session.backend.canAccessGroup(session.username, group)) {
+    throw new ESPCDFAdaptorError(
+      ERROR_MESSAGE_MAP.GROUP_NOT_FOUND(groupId),
+      "GROUP_NOT_FOUND",
+      { groupId }
+    );
+  }
+  return group;
+}
+
+function getAccessibleNode(
+  session: ESPCDFInMemorySession,
+  nodeId: string
+): ESPCDFInMemoryNodeRecord {
+  if (
+    !session.backend.getAccessibleNodeIds(session.username).includes(nodeId)
+  ) {
+    throw new ESPCDFAdaptorError(
+      ERROR_MESSAGE_MAP.NODE_NOT_FOUND(nodeId),
+      "NODE_NOT_FOUND",
+      { nodeId }
+    );
+  }
+  return session.backend.getNode(nodeId);
+}
+
+function getAccessibleNodeIds(
+  session: ESPCDFInMemorySession,
+  nodeIds: string[] = []
+): string[] {
+  const accessible = session.backend.getAccessibleNodeIds(session.username);
+  return nodeIds.filter((nodeId) => accessible.includes(nodeId));
+}
+
+function createDeviceData(
+  session: ESPCDFInMemorySession,
+  nodeId: string,
+  device: ESPCDFInMemoryDeviceRecord
+): ESPCDFDeviceInterface {
+  const createParams = () =>
+    device.params.map((param) => ({
+      ...cloneRecord(param),
+      deviceName: device.name,
+      operations: {
+        setValue: (value: any) =>
+          session.run(() => {
+            session.backend.applyNodeParams(nodeId, {
+              [device.name]: { [param.name]: value },
+            });
+            return success();
+          }),
+      },
+      _raw: cloneRecord(param),
+    }));
+
+  return {
+    name: device.name,
+    type: device.type,
+    displayName: device.displayName ?? device.name,
+    params: createParams(),
+    operations: {
+      getParams: () =>
+        session.run(() =>
+          createParams().map((param) => new ESPCDFDeviceParam(param))
+        ),
+    },
+    _raw: cloneRecord(device),
+  };
+}
+
+function createServiceData(
+  session: ESPCDFInMemorySession,
+  nodeId: string,
+  service: ESPCDFInMemoryServiceRecord
+): ESPCDFServiceInterface {
+  const createParams = () =>
+    service.params.map((param) => ({
+      ...cloneRecord(param),
+      type: param.type ?? "",
+      serviceName: service.name,
+      operations: {
+        setValue: (value: any) =>
+          session.run(() => {
+            session.backend.applyNodeParams(nodeId, {
+              [service.name]: { [param.name]: value },
+            });
+            return success();
+          }),
+      },
+      _raw: cloneRecord(param),
+    }));
+
+  return {
+    name: service.name,
+    type: service.type,
+    params: createParams(),
+    operations: {
+      getParams: () =>
+        session.run(() =>
+          createParams().map((param) => new ESPCDFServiceParam(param))
+        ),
+    },
+    _raw: cloneRecord(service),
+  };
+}
+
+/**
+ * Creates a node entity backed by a node record.
+ */
+export function createNodeEntity(
+  session: ESPCDFInMemorySession,
+  record: ESPCDFInMemoryNodeRecord
+): ESPCDFNode {
+  const { backend, identifier } = session;
+  const nodeId = record.id;
+  const isPrimaryUser = record.ownerUsername === session.username;
+
+  return new ESPCDFNode({
+    identifier,
+    adaptorIdentifier: identifier,
+    id: nodeId,
+    type: record.type,
+    isPrimaryUser,
+    role: isPrimaryUser ? "primary" : "secondary",
+    connectivityStatus: {
+      isConnected: record.isConnected ?? true,
+      lastConnectionTimestamp: record.lastConnectionTimestamp ?? 0,
+    },
+    nodeConfig: {
+      configVersion: "1.0",
+      info: {
+        name: record.name,
+        type: record.type ?? "",
+        model: record.model ?? "",
+        firmwareVersion: record.firmwareVersion ?? "",
+      },
+    },
+    devices: record.devices.map((device) =>
+      createDeviceData(session, nodeId, device)
+    ),
+    services: (record.services ?? []).map((service) =>
+      createServiceData(session, nodeId, service)
+    ),
+    metadata: cloneRecord(record.metadata),
+    tags: cloneRecord(record.tags),
+    transportOrder: [ESPCDFNodeTransport.CLOUD],
+    availableTransports: {
+      [ESPCDFNodeTransport.CLOUD]: {
+        type: ESPCDFNodeTransport.CLOUD,
+        metadata: {},
+      },
+    },
+    operations: {
+      setMultipleParams: (params) =>
+        session.run(() => {
+          backend.applyNodeParams(nodeId, params);
+          return success();
+        }),
+      delete: () =>
+        session.run(() => {
+          backend.getNode(nodeId);
+          backend.removeNode(nodeId);
+          return success();
+        }),
+      checkOTAUpdate: () =>
+        session.run(() => {
+          const job = backend.createOTAJob(nodeId);
+          return {
+            status: SUCCESS,
+            data: {
+              status: SUCCESS,
+              otaAvailable: !!job,
+              description: job
+                ? `Firmware ${job.fwVersion} is available`
+                : "Firmware is up to date",
+              fwVersion:
+                job?.fwVersion ?? backend.getNode(nodeId).firmwareVersion ?? "",
+              otaJobId: job?.id ?? "",
+              fileSize: job ? 1024 * 1024 : 0,
+            },
+          };
+        }),
+      pushOTAUpdate: (params: any) =>
+        session.run(() => {
+          const job = backend.getOTAJob(params?.otaJobId ?? params);
+          job.status = "triggered";
+          return success();
+        }),
+      getOTAUpdateStatus: (otaJobId) =>
+        session.run(() => {
+          const job = backend.advanceOTAJob(otaJobId);
+          return {
+            status: SUCCESS,
+            data: {
+              nodeId: job.nodeId,
+              status: job.status,
+              additionalInfo: `Firmware ${job.fwVersion}`,
+              timestamp: job.timestamp,
+            },
+          };
+        }),
+      addAutomation: (automationDetails) =>
+        session.run(() =>
+          createAutomationRecord(session, {
+            ...(automationDetails as ESPCDFAutomationCreateInput),
+            nodeId,
+          })
+        ),
+      setTimeZone: (timeZone) =>
+        session.run(() => {
+          backend.getNode(nodeId).timeZone = timeZone;
+          return success();
+        }),
+      updateMetadata: (metadata) =>
+        session.run(() => {
+          const node = backend.getNode(nodeId);
+          node.metadata = { ...node.metadata, ...cloneRecord(metadata) };
+          return success();
+        }),
+    },
+    _raw: cloneRecord(record),
+  });
+}
+
+function getSceneCapableNodeIds(
+  session: ESPCDFInMemorySession,
+  groupId: string,
+  serviceType: string,
+  paramType: string
+): string[] {
+  return session.backend
+    .getGroupNodeIds(groupId)
+    .filter((nodeId) =>
+      session.backend.hasServiceParam(nodeId, serviceType, paramType)
+    );
+}
+
+/**
+ * Creates a scene entity; the scene is only stored on its nodes after `add()`.
+ */
+export function createSceneEntity(
+  session: ESPCDFInMemorySession,
+  data: ESPCDFSceneCreateInput
+): ESPCDFScene {
+  const { backend } = session;
+  const writeScene = (nodeId: string) =>
+    backend.upsertServiceEntry(
+      nodeId,
+      ESPRM_SERVICE_SCENES,
+      ESPRM_PARAM_SCENES,
+      {
+        id: scene.id,
+        name: scene.name,
+        info: scene.info ?? "",
+        action: scene.actions[nodeId] ?? {},
+      }
+    );
+  const removeScene = (nodeId: string) =>
+    backend.removeServiceEntry(
+      nodeId,
+      ESPRM_SERVICE_SCENES,
+      ESPRM_PARAM_SCENES,
+      scene.id
+    );
+
+  const scene: ESPCDFScene = new ESPCDFScene({
+    ...cloneRecord(data),
+    id: data.id || backend.generateId("scene"),
+    nodes: data.nodes?.length ? [...data.nodes] : Object.keys(data.actions),
+    devicesCount: countActionDevices(data.actions),
+    adaptorIdentifier: session.identifier,
+    operations: {
+      add: () => session.run(() => forEachNode(scene.nodes, writeScene)),
+      edit: (editData: ESPCDFSceneEditInput) =>
+        session.run(() => {
+          const previousNodes = scene.nodes;
+          scene.name = editData.name;
+          scene.info = editData.info;
+          scene.actions = cloneRecord(editData.actions);
+          scene.nodes = Object.keys(scene.actions);
+          scene.devicesCount = countActionDevices(scene.actions);
+          const removedNodes = previousNodes.filter(
+            (nodeId) => !scene.nodes.includes(nodeId)
+          );
+          return forEachNode([...scene.nodes, ...removedNodes], (nodeId) =>
+            scene.nodes.includes(nodeId)
+              ? writeScene(nodeId)
+              : removeScene(nodeId)
+          );
+        }),
+      remove: () => session.run(() => forEachNode(scene.nodes, removeScene)),
+      activate: () =>
+        session.run(() =>
+          forEachNode(scene.nodes, (nodeId) =>
+            backend.simulateParamChange(nodeId, scene.actions[nodeId] ?? {})
+          )
+        ),
+    },
+    _raw: cloneRecord(data),
+  });
+  return scene;
+}
+
+/**
+ * Creates a schedule entity; the schedule is only stored on its nodes after `add()`.
+ */
+export function createScheduleEntity(
+  session: ESPCDFInMemorySession,
+  data: ESPCDFScheduleCreateInput
+): ESPCDFSchedule {
+  const { backend } = session;
+  const writeSchedule = (nodeId: string) =>
+    backend.upsertServiceEntry(
+      nodeId,
+      ESPRM_SERVICE_SCHEDULES,
+      ESPRM_PARAM_SCHEDULES,
+      {
+        id: schedule.id,
+        name: schedule.name,
+        info: schedule.info ?? "",
+        action: schedule.action[nodeId] ?? {},
+        triggers: schedule.triggers,
+        enabled: schedule.enabled ?? true,
+        validity: schedule.validity,
+        flags: schedule.flags,
+      }
+    );
+  const removeSchedule = (nodeId: string) =>
+    backend.removeServiceEntry(
+      nodeId,
+      ESPRM_SERVICE_SCHEDULES,
+      ESPRM_PARAM_SCHEDULES,
+      schedule.id
+    );
+  const setEnabled = (enabled: boolean) =>
+    session.run(() => {
+      schedule.enabled = enabled;
+      return forEachNode(schedule.nodes, (nodeId) =>
+        backend.upsertServiceEntry(
+          nodeId,
+          ESPRM_SERVICE_SCHEDULES,
+          ESPRM_PARAM_SCHEDULES,
+          { id: schedule.id, enabled }
+        )
+      );
+    });
+
+  const schedule: ESPCDFSchedule = new ESPCDFSchedule({
+    ...cloneRecord(data),
+    id: data.id || backend.generateId("schedule"),
+    nodes: data.nodes?.length ? [...data.nodes] : Object.keys(data.action),
+    devicesCount: countActionDevices(data.action),
+    adaptorIdentifier: session.identifier,
+    operations: {
+      add: () => session.run(() => forEachNode(schedule.nodes, writeSchedule)),
+      edit: (editData: ESPCDFScheduleEditInput) =>
+        session.run(() => {
+          const previousNodes = schedule.nodes;
+          Object.assign(schedule, cloneRecord(editData));
+          schedule.nodes = Object.keys(schedule.action);
+          schedule.devicesCount = countActionDevices(schedule.action);
+          const removedNodes = previousNodes.filter(
+            (nodeId) => !schedule.nodes.includes(nodeId)
+          );
+          return forEachNode([...schedule.nodes, ...removedNodes], (nodeId) =>
+            schedule.nodes.includes(nodeId)
+              ? writeSchedule(nodeId)
+              : removeSchedule(nodeId)
+          );
+        }),
+      remove: () =>
+        session.run(() => forEachNode(schedule.nodes, removeSchedule)),
+      enable: () => setEnabled(true),
+      disable: () => setEnabled(false),
+    },
+    _raw: cloneRecord(data),
+  });
+  return schedule;
+}
+
+/**
+ * Builds scene or schedule entities from the entries stored on a group's nodes.
+ * Entries sharing an id across nodes are merged into one entity.
+ */
+function collectNodeEntries(
+  session: ESPCDFInMemorySession,
+  groupId: string,
+  serviceType: string,
+  paramType: string
+): Map<string, { entry: Record<string, any>; actions: Record<string, any> }> {
+  const collected = new Map<
+    string,
+    { entry: Record<string, any>; actions: Record<string, any> }
+  >();
+  getSceneCapableNodeIds(session, groupId, serviceType, paramType).forEach(
+    (nodeId) =>
+      session.backend
+        .getServiceEntries(nodeId, serviceType, paramType)
+        .forEach((entry) => {
+          const item = collected.get(entry.id) ?? {
+            entry: cloneRecord(entry),
+            actions: {},
+          };
+          item.actions[nodeId] = cloneRecord(entry.action ?? {});
+          collected.set(entry.id, item);
+        })
+  );
+  return collected;
+}
+
+function createCapableDeviceRows(
+  session: ESPCDFInMemorySession,
+  groupId: string,
+  serviceType: string,
+  paramType: string
+): { node: ESPCDFNode; device: ESPCDFDevice; isMaxSceneReached: boolean }[] {
+  return getSceneCapableNodeIds(
+    session,
+    groupId,
+    serviceType,
+    paramType
+  ).flatMap((nodeId) => {
+    const node = createNodeEntity(session, session.backend.getNode(nodeId));
+    return (node.devices ?? []).map((device) => ({
+      node,
+      device,
+      isMaxSceneReached: false,
+    }));
+  });
+}
+
+function createAutomationRecord(
+  session: ESPCDFInMemorySession,
+  data: ESPCDFAutomationCreateInput
+): ESPCDFAutomation {
+  const record: ESPCDFInMemoryAutomationRecord = {
+    ...cloneRecord(data),
+    id: session.backend.generateId("automation"),
+    ownerUsername: session.username,
+    enabled: data.enabled ?? false,
+  };
+  session.backend.automations.set(record.id, record);
+  return createAutomationEntity(session, record);
+}
+
+/**
+ * Creates an automation entity backed by an automation record.
+ */
+export function createAutomationEntity(
+  session: ESPCDFInMemorySession,
+  record: ESPCDFInMemoryAutomationRecord
+): ESPCDFAutomation {
+  const { backend } = session;
+  const automationId = record.id;
+  const { ownerUsername: _ownerUsername, ...data } = cloneRecord(record);
+
+  return new ESPCDFAutomation({
+    ...data,
+    adaptorIdentifier: session.identifier,
+    operations: {
+      update: (updateData: ESPCDFAutomationEditInput) =>
+        session.run(() => {
+          Object.assign(
+            backend.getAutomation(automationId),
+            cloneRecord(updateData)
+          );
+          return success();
+        }),
+      delete: () =>
+        session.run(() => {
+          backend.getAutomation(automationId);
+          backend.automations.delete(automationId);
+          return success();
+        }),
+      enable: (enabled: boolean) =>
+        session.run(() => {
+          backend.getAutomation(automationId).enabled = enabled;
+          return success();
+        }),
+    },
+    _raw: cloneRecord(record),
+  });
+}
+
+/**
+ * Creates a group sharing request entity backed by a request record.
+ */
+export function createSharingRequestEntity(
+  session: ESPCDFInMemorySession,
+  record: ESPCDFInMemorySharingRequestRecord
+): ESPCDFGroupSharingRequest {
+  const { backend } = session;
+  const requestId = record.id;
+  const respond = (status: ESPCDFGroupSharingStatus) =>
+    session.run(() => {
+      const request = backend.getSharingRequest(requestId);
+      request.status = status;
+      if (status === ESPCDFGroupSharingStatus.accepted) {
+        request.groupIds.forEach((groupId) => {
+          const group = backend.groups.get(groupId);
+          if (!group) return;
+          const sharedWith = (group.sharedWith ?? []).filter(
+            (username) => username !== request.username
+          );
+          if (request.transfer) {
+            sharedWith.push(group.primaryUsername);
+            group.primaryUsername = request.username;
+          } else {
+            sharedWith.push(request.username);
+          }
+          group.sharedWith = sharedWith;
+        });
+      }
+      return success();
+    });
+
+  return new ESPCDFGroupSharingRequest({
+    ...cloneRecord(record),
+    groupnames: record.groupIds.map(
+      (groupId) => backend.groups.get(groupId)?.name ?? groupId
+    ),
+    operations: {
+      accept: () => respond(ESPCDFGroupSharingStatus.accepted),
+      decline: () => respond(ESPCDFGroupSharingStatus.rejected),
+      remove: () =>
+        session.run(() => {
+          backend.getSharingRequest(requestId);
+          backend.sharingRequests.delete(requestId);
+          return success();
+        }),
+    },
+    _raw: cloneRecord(record),
+  });
+}
+
+function createSharingRequest(
+  session: ESPCDFInMemorySession,
+  groupId: string,
+  params: Record<string, any>,
+  transfer: boolean
+): string {
+  const { backend } = session;
+  const username = params.username ?? params.toUserName;
+  backend.getUser(username);
+  getAccessibleGroup(session, groupId);
+  const request: ESPCDFInMemorySharingRequestRecord = {
+    id: backend.generateId("request"),
+    status: ESPCDFGroupSharingStatus.pending,
+    timestamp: Date.now(),
+    groupIds: [groupId],
+    username,
+    primaryUsername: session.username,
+    transfer,
+    newRole: params.newRole ?? (transfer ? "primary" : "secondary"),
+    metadata: cloneRecord(params.metadata ?? {}),
+  };
+  backend.sharingRequests.set(request.id, request);
+  return request.id;
+}
+
+function createGroupData(
+  session: ESPCDFInMemorySession,
+  record: ESPCDFInMemoryGroupRecord
+): ESPCDFGroupInterface {
+  const { backend, identifier } = session;
+  const groupId = record.id;
+  const isPrimaryUser = backend.isPrimaryUser(session.username, record);
+
+  return {
+    identifier,
+    adaptorIdentifier: identifier,
+    id: groupId,
+    name: record.name,
+    nodeIds: [...record.nodeIds],
+    subGroups: backend
+      .getSubGroups(groupId)
+      .map((subGroup) => createGroupData(session, subGroup)),
+    isPrimaryUser,
+    accessType: isPrimaryUser ? "primary" : "secondary",
+    totalNodes: record.nodeIds.length,
+    parentId: record.parentId,
+    type: record.type,
+    mutuallyExclusive: record.mutuallyExclusive,
+    description: record.description,
+    metadata: cloneRecord(record.metadata),
+    customData: cloneRecord(record.customData),
+    operations: {
+      createSubGroup: (data) =>
+        session.run(() => {
+          const parent = getAccessibleGroup(session, groupId);
+          return createGroupRecord(session, data as ESPCDFCreateGroupRequest, {
+            parentId: groupId,
+            primaryUsername: backend.getRootGroup(parent).primaryUsername,
+          });
+        }),
+      createScene: (sceneData) =>
+        session.run(() => createSceneEntity(session, sceneData)),
+      getScenes: () =>
+        session.run(() =>
+          [
+            ...collectNodeEntries(
+              session,
+              groupId,
+              ESPRM_SERVICE_SCENES,
+              ESPRM_PARAM_SCENES
+            ).values(),
+          ].map(({ entry, actions }) =>
+            createSceneEntity(session, {
+              id: entry.id,
+              name: entry.name,
+              info: entry.info,
+              nodes: Object.keys(actions),
+              actions,
+            })
+          )
+        ),
+      getSceneCapableDevices: () =>
+        session.run(() =>
+          createCapableDeviceRows(
+            session,
+            groupId,
+            ESPRM_SERVICE_SCENES,
+            ESPRM_PARAM_SCENES
+          )
+        ),
+      createSchedule: (scheduleData) =>
+        session.run(() => createScheduleEntity(session, scheduleData)),
+      getSchedules: () =>
+        session.run(() =>
+          [
+            ...collectNodeEntries(
+              session,
+              groupId,
+              ESPRM_SERVICE_SCHEDULES,
+              ESPRM_PARAM_SCHEDULES
+            ).values(),
+          ].map(({ entry, actions }) =>
+            createScheduleEntity(session, {
+              id: entry.id,
+              name: entry.name,
+              info: entry.info,
+              nodes: Object.keys(actions),
+              triggers: entry.triggers,
+              action: actions,
+              enabled: entry.enabled,
+              validity: entry.validity,
+              flags: entry.flags,
+            })
+          )
+        ),
+      getScheduleCapableDevices: () =>
+        session.run(() =>
+          createCapableDeviceRows(
+            session,
+            groupId,
+            ESPRM_SERVICE_SCHEDULES,
+            ESPRM_PARAM_SCHEDULES
+          )
+        ),
+      createAutomation: (automationData) =>
+        session.run(() => createAutomationRecord(session, automationData)),
+      getAutomations: () =>
+        session.run(() => {
+          const nodeIds = backend.getGroupNodeIds(groupId);
+          const automations = [...backend.automations.values()].filter(
+            (automation) =>
+              automation.ownerUsername === session.username &&
+              ((automation.nodeId && nodeIds.includes(automation.nodeId)) ||
+                automation.actions.some((action) =>
+                  nodeIds.includes(action.nodeId)
+                ))
+          );
+          return paginate(automations, session.pageSize, (automation) =>
+            createAutomationEntity(session, automation)
+          );
+        }),
+      delete: () =>
+        session.run(() => {
+          getAccessibleGroup(session, groupId);
+          backend.removeGroup(groupId);
+          return success();
+        }),
+      getNodes: () =>
+        session.run(() => {
+          getAccessibleGroup(session, groupId);
+          return backend
+            .getGroupNodeIds(groupId)
+            .map((nodeId) =>
+              createNodeEntity(session, backend.getNode(nodeId))
+            );
+        }),
+      getSubGroups: () =>
+        session.run(() => {
+          getAccessibleGroup(session, groupId);
+          return backend
+            .getSubGroups(groupId)
+            .map((subGroup) => createGroupEntity(session, subGroup));
+        }),
+      share: (params) =>
+        session.run(() =>
+          createSharingRequest(session, groupId, params, false)
+        ),
+      transfer: (params) =>
+        session.run(() => createSharingRequest(session, groupId, params, true)),
+      removeSharingFor: (username) =>
+        session.run(() => {
+          const root = backend.getRootGroup(
+            getAccessibleGroup(session, groupId)
+          );
+          root.sharedWith = (root.sharedWith ?? []).filter(
+            (sharedUsername) => sharedUsername !== username
+          );
+          return success();
+        }),
+      getSharingInfo: () =>
+        session.run(() => {
+          const group = getAccessibleGroup(session, groupId);
+          const root = backend.getRootGroup(group);
+          return {
+            status: SUCCESS,
+            data: {
+              groupId,
+              mutuallyExclusive: !!group.mutuallyExclusive,
+              primaryUsers: [{ username: root.primaryUsername }],
+              secondaryUsers: (root.sharedWith ?? []).map((username) => ({
+                username,
+              })),
+            },
+          };
+        }),
+      updateMetadata: (metadata) =>
+        session.run(() => {
+          const group = getAccessibleGroup(session, groupId);
+          group.metadata = { ...group.metadata, ...cloneRecord(metadata) };
+          return success();
+        }),
+      updateGroupInfo: (updates) =>
+        session.run(() => {
+          const group = getAccessibleGroup(session, groupId);
+          if (updates.groupName !== undefined) group.name = updates.groupName;
+          if (updates.description !== undefined) {
+            group.description = updates.description;
+          }
+          if (updates.customData !== undefined) {
+            group.customData = cloneRecord(updates.customData);
+          }
+          if (updates.type !== undefined) group.type = updates.type;
+          if (updates.mutuallyExclusive !== undefined) {
+            group.mutuallyExclusive = updates.mutuallyExclusive;
+          }
+          return success();
+        }),
+      addNodes: (nodeIds) =>
+        session.run(() => {
+          const group = getAccessibleGroup(session, groupId);
+          getAccessibleNodeIds(session, nodeIds).forEach((nodeId) => {
+            if (!group.nodeIds.includes(nodeId)) group.nodeIds.push(nodeId);
+          });
+          return success();
+        }),
+      removeNodes: (nodeIds) =>
+        session.run(() => {
+          const group = getAccessibleGroup(session, groupId);
+          group.nodeIds = group.nodeIds.filter(
+            (nodeId) => !nodeIds.includes(nodeId)
+          );
+          return success();
+        }),
+      leave: () =>
+        session.run(() => {
+          const root = backend.getRootGroup(
+            getAccessibleGroup(session, groupId)
+          );
+          root.sharedWith = (root.sharedWith ?? []).filter(
+            (username) => username !== session.username
+          );
+          return success();
+        }),
+      setParams: (payload) =>
+        session.run(() => {
+          backend
+            .getGroupNodeIds(groupId)
+            .forEach((nodeId) =>
+              backend.applyNodeParams(
+                nodeId,
+                payload as Record<string, Record<string, any>>
+              )
+            );
+          return success();
+        }),
+    },
+    _raw: cloneRecord(record),
+  };
+}
+
+/**
+ * Creates a group entity (with its subgroups) backed by a group record.
+ */
+export function createGroupEntity(
+  session: ESPCDFInMemorySession,
+  record: ESPCDFInMemoryGroupRecord
+): ESPCDFGroup {
+  return new ESPCDFGroup(createGroupData(session, record));
+}
+
+function createGroupRecord(
+  session: ESPCDFInMemorySession,
+  request: ESPCDFCreateGroupRequest,
+  overrides: Partial<ESPCDFInMemoryGroupRecord> = {}
+): ESPCDFGroup {
+  const record: ESPCDFInMemoryGroupRecord = {
+    id: session.backend.generateId("group"),
+    name: request.name,
+    type: request.type,
+    mutuallyExclusive: request.mutuallyExclusive,
+    nodeIds: getAccessibleNodeIds(session, request.nodeIds),
+    description: request.description,
+    metadata: cloneRecord(request.metadata),
+    customData: cloneRecord(request.customData),
+    primaryUsername: session.username,
+    sharedWith: [],
+    ...overrides,
+  };
+  session.backend.groups.set(record.id, record);
+  return createGroupEntity(session, record);
+}
+
+function getTopLevelGroupEntities(
+  session: ESPCDFInMemorySession
+): ESPCDFGroup[] {
+  return session.backend
+    .getTopLevelGroups(session.username)
+    .map((group) => createGroupEntity(session, group));
+}
+
+function getGroupNodeEntities(
+  session: ESPCDFInMemorySession,
+  groupId: string
+): ESPCDFNode[] {
+  return session.backend
+    .getGroupNodeIds(groupId)
+    .map((nodeId) =>
+      createNodeEntity(session, session.backend.getNode(nodeId))
+    );
+}
+
+function getUserInfo(session: ESPCDFInMemorySession): ESPCDFUserInfo {
+  const user = session.backend.getUser(session.username);
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.username,
+    phone: user.phone,
+  };
+}
+
+/**
+ * Creates the user entity of a session.
+ */
+export function createUserEntity(session: ESPCDFInMemorySession): ESPCDFUser {
+  const { backend, identifier, username } = session;
+  const getRecord = () => backend.getUser(username);
+  const verifyCode = (code: string) => {
+    if (code !== session.verificationCode) {
+      throw new ESPCDFAdaptorError(
+        ERROR_MESSAGE_MAP.INVALID_VERIFICATION_CODE,
+        "INVALID_VERIFICATION_CODE"
+      );
+    }
+  };
+  const subscribe = (
+    key: unknown,
+    listener: ESPCDFInMemoryNodeUpdateListener
+  ) => {
+    session.nodeUpdateSubscriptions.get(key)?.();
+    session.nodeUpdateSubscriptions.set(key, backend.onNodeUpdate(listener));
+  };
+  const unsubscribe = (key: unknown) => {
+    session.nodeUpdateSubscriptions.get(key)?.();
+    session.nodeUpdateSubscriptions.delete(key);
+  };
+  const loadHomeNodes = (callbacks: GroupStoreCallbacks, home: ESPCDFGroup) =>
+    callbacks.addNodesToGroup(home.id, getGroupNodeEntities(session, home.id));
+
+  const userData: ESPCDFUserInterface = {
+    identifier,
+    userInfo: getUserInfo(session),
+    customData: cloneRecord(getRecord().customData),
+    operations: {
+      getUserInfo: () =>
+        session.run(
+          (): ESPCDFAPIDataResponse<ESPCDFUserInfo> => ({
+            status: SUCCESS,
+            data: getUserInfo(session),
+          })
+        ),
+      updateUserInfo: (userInfo) =>
+        session.run(() => {
+          const record = getRecord();
+          if (userInfo.name !== undefined) record.name = userInfo.name;
+          if (userInfo.phone !== undefined) record.phone = userInfo.phone;
+          return success();
+        }),
+      getCustomData: () =>
+        session.run(() => cloneRecord(getRecord().customData ?? {})),
+      setCustomData: (customData) =>
+        session.run(() => {
+          const record = getRecord();
+          const current = { ...record.customData };
+          Object.entries(customData).forEach(([key, entry]) => {
+            if (entry === null) {
+              delete current[key];
+            } else {
+              current[key] = cloneRecord(entry.value);
+            }
+          });
+          record.customData = current;
+        }),
+      changePassword: (oldPassword, newPassword) =>
+        session.run(() => {
+          const record = getRecord();
+          if (record.password !== oldPassword) {
+            throw new ESPCDFAdaptorError(
+              ERROR_MESSAGE_MAP.INVALID_CREDENTIALS,
+              "INVALID_CREDENTIALS"
+            );
+          }
+          record.password = newPassword;
+          return success();
+        }),
+      logout: () => session.run(() => session.end()),
+      updateName: (name) =>
+        session.run(() => {
+          getRecord().name = name;
+          return success();
+        }),
+      requestAccountDeletion: () =>
+        session.run(() => success("Verification code sent")),
+      confirmAccountDeletion: (code) =>
+        session.run(() => {
+          verifyCode(code);
+          backend.getTopLevelGroups(username).forEach((group) => {
+            if (group.primaryUsername === username) {
+              backend.removeGroup(group.id);
+            } else {
+              group.sharedWith = (group.sharedWith ?? []).filter(
+                (sharedUsername) => sharedUsername !== username
+              );
+            }
+          });
+          backend.nodes.forEach((node) => {
+            if (node.ownerUsername === username) backend.removeNode(node.id);
+          });
+          backend.users.delete(username);
+          session.end();
+          return success();
+        }),
+      registerForNotification: (platform, deviceToken) =>
+        session.run(() => ({
+          status: SUCCESS,
+          data: { platform, deviceToken },
+        })),
+      unregisterForNotification: () => session.run(() => success()),
+      getIssuedGroupSharingRequests: (count) =>
+        session.run(() =>
+          paginate(
+            [...backend.sharingRequests.values()].filter(
+              (request) => request.primaryUsername === username
+            ),
+            count ?? session.pageSize,
+            (request) => createSharingRequestEntity(session, request)
+          )
+        ),
+      getReceivedGroupSharingRequests: (count) =>
+        session.run(() =>
+          paginate(
+            [...backend.sharingRequests.values()].filter(
+              (request) => request.username === username
+            ),
+            count ?? session.pageSize,
+            (request) => createSharingRequestEntity(session, request)
+          )
+        ),
+      setTimeZone: (timeZone) =>
+        session.run(() => {
+          getRecord().timeZone = timeZone;
+          return success();
+        }),
+      createGroup: (groupRequest) =>
+        session.run(() => createGroupRecord(session, groupRequest)),
+      getGroups: () =>
+        session.run(() =>
+          paginate(
+            backend.getTopLevelGroups(username),
+            session.pageSize,
+            (group) => createGroupEntity(session, group)
+          )
+        ),
+      createProvisioningDevice: () =>
+        session.run(() => {
+          throw new ESPCDFAdaptorError(
+            ERROR_MESSAGE_MAP.OPERATION_NOT_SUPPORTED(
+              identifier,
+              "createProvisioningDevice"
+            ),
+            "OPERATION_NOT_SUPPORTED"
+          );
+        }),
+      searchESPDevices: () => session.run(() => []),
+      searchESPBLEDevices: () => session.run(() => []),
+      getGroupById: (groupId) =>
+        session.run(() =>
+          createGroupEntity(session, getAccessibleGroup(session, groupId))
+        ),
+      subscribeToEvent: (event, callback) =>
+        session.run(() => {
+          if (event === ESPCDFEventType.nodeUpdates) {
+            subscribe(callback, callback);
+          }
+        }),
+      unsubscribeFromEvent: (_event, callback) =>
+        session.run(() => unsubscribe(callback)),
+      setMultipleNodesParams: (payload) =>
+        session.run(() => ({
+          status: SUCCESS,
+          // Nodes are applied independently; one failing node does not fail the others
+          data: payload.map(({ nodeId, payload: params }) => {
+            try {
+              getAccessibleNode(session, nodeId);
+              backend.applyNodeParams(nodeId, params);
+              return { nodeId, status: SUCCESS };
+            } catch (error) {
+              return {
+                nodeId,
+                status: FAILURE,
+                description:
+                  error instanceof Error ? error.message : String(error),
+              };
+            }
+          }),
+        })),
+      getNodeDetails: (nodeId) =>
+        session.run(() =>
+          createNodeEntity(session, getAccessibleNode(session, nodeId))
+        ),
+      getAccessToken: () => session.run(() => `in-memory-token-${username}`),
+      syncHomeWithNodes: (_user, callbacks) =>
+        session.run(() => {
+          const groups = getTopLevelGroupEntities(session);
+          let homes = getValidHomes(groups);
+          if (homes.length === 0) {
+            const ownedNodeIds = [...backend.nodes.values()]
+              .filter((node) => node.ownerUsername === username)
+              .map((node) => node.id);
+            const payload = createHomePayload(ownedNodeIds);
+            payload.name = getUniqueDefaultHomeName(groups);
+            homes = [createGroupRecord(session, payload)];
+          }
+          callbacks.setGroupsList(homes);
+          const home = findHomeGroup(homes, {
+            preferredId: getRecord().currentHomeId,
+          });
+          callbacks.setCurrentHomeId(home?.id ?? null);
+          if (!home) return null;
+          getRecord().currentHomeId = home.id;
+          loadHomeNodes(callbacks, home);
+          return home;
+        }),
+      setCurrentHome: (_user, callbacks, home) =>
+        session.run(() => {
+          getAccessibleGroup(session, home.id);
+          getRecord().currentHomeId = home.id;
+          callbacks.setCurrentHomeId(home.id);
+          if (!home.nodeDetails?.length) {
+            loadHomeNodes(callbacks, home);
+          }
+        }),
+      createHome: (params: ESPCDFCreateHomeRequestParams, callbacks) =>
+        session.run(() => {
+          const payload = {
+            ...createHomePayload(params.nodeIds),
+            ...params.extraPayload,
+          };
+          payload.name =
+            params.name?.trim() ||
+            getUniqueDefaultHomeName(getTopLevelGroupEntities(session));
+          const home = createGroupRecord(session, payload);
+          callbacks.addGroup(home);
+          return home;
+        }),
+      subscribeToNodeUpdates: ({ onNodeUpdate }) =>
+        session.run(() => {
+          if (onNodeUpdate) {
+            subscribe(session, onNodeUpdate);
+          }
+        }),
+      unsubscribeFromNodeUpdates: () => session.run(() => unsubscribe(session)),
+    },
+    _raw: cloneRecord({ ...getRecord(), password: undefined }),
+  };
+  return new ESPCDFUser(userData);
+}
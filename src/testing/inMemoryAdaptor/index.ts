@@ -0,0 +1,11 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export * from "./ESPCDFInMemoryAdaptor";
+export * from "./ESPCDFInMemoryBackend";
+export * from "./demoSeed";
+export type { ESPCDFInMemorySession } from "./entityFactory";
+export * from "./createInMemoryCDF";
@@ -0,0 +1,10 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Test-only utilities, published as `@espressif/rainmaker-base-cdf/testing`
+// and kept out of the package root so they stay out of production bundles
+export * from "./adaptorConformance";
+export * from "./inMemoryAdaptor";
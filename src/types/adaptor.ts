@@ -5,6 +5,7 @@
  */
 
 import { ESPCDFUser } from "../entities/ESPCDFUser";
+import type { AdaptorRegistry } from "../registry";
 import {
   ESPCDFConfirmSignUpRequestPayload,
   ESPCDFForgotPasswordRequestPayload,
@@ -13,6 +14,7 @@ import {
   ESPCDFLoginWithOauthRequestPayload,
   ESPCDFSetNewPasswordRequestPayload,
 } from "./authService";
+import { ESPCDFAdaptorConfigSchema } from "./adaptorConfig";
 
 export interface ESPSDKAdaptorAPIRequest<REQUEST_DATA = any> {
   request?: REQUEST_DATA;
@@ -29,9 +31,59 @@ export interface ESPSDKAdaptorAPIDataResponse<
   data: RESPONSE_DATA;
 }
 
+/**
+ * Well-known capabilities an adaptor can declare through
+ * {@link ESPSDKAdaptor.capabilities}. Adaptors may also declare custom
+ * capability strings for vendor-specific features.
+ */
+export enum ESPCDFAdaptorCapability {
+  GROUPS = "groups",
+  GROUP_SHARING = "groupSharing",
+  SCENES = "scenes",
+  SCHEDULES = "schedules",
+  AUTOMATIONS = "automations",
+  MATTER_FABRIC = "matterFabric",
+  OTA = "ota",
+  TIME_SERIES = "timeSeries",
+  PROVISIONING = "provisioning",
+  NODE_UPDATES = "nodeUpdates",
+}
+
+export type ESPCDFAdaptorCapabilityType = ESPCDFAdaptorCapability | string;
+
 export interface ESPSDKAdaptor {
   readonly _identifier: string;
   readonly config: Record<string, any>;
+  /**
+   * Schema of {@link config}. When declared, `AdaptorRegistry.register`
+   * validates the config against it and rejects invalid configs.
+   */
+  readonly configSchema?: ESPCDFAdaptorConfigSchema;
+  /**
+   * CDF API version the adaptor was built against (`ESPCDF_API_VERSION`).
+   * `AdaptorRegistry.register` rejects adaptors targeting another major version.
+   */
+  readonly cdfApiVersion?: string;
+  /**
+   * CDF API features implemented by the adaptor, named `<scope>.<operation>`
+   * (e.g. `group.getNodes`), used to report missing entity operations.
+   */
+  readonly cdfFeatures?: string[];
+  /**
+   * Capabilities supported by this adaptor.
+   * When omitted the adaptor is treated as undeclared: registry queries report
+   * no capabilities, and entities fall back to calling their operations directly.
+   */
+  readonly capabilities?: ESPCDFAdaptorCapabilityType[];
+  // Optional lifecycle hooks invoked by AdaptorRegistry; async hooks are not awaited
+  /** Called after the adaptor has been added to a registry. */
+  onRegister?(registry: AdaptorRegistry): void | Promise<void>;
+  /** Called when the adaptor becomes the active adaptor (e.g. open sockets). */
+  onActivate?(): void | Promise<void>;
+  /** Called when another adaptor becomes active or this one is unset. */
+  onDeactivate?(): void | Promise<void>;
+  /** Called after the adaptor has been removed from the registry (unregister/clear). */
+  onDispose?(): void | Promise<void>;
   login(
     request: ESPSDKAdaptorAPIRequest<ESPCDFLoginRequestPayload>
   ): Promise<ESPSDKAdaptorAPIDataResponse<ESPCDFUser>>;
@@ -0,0 +1,70 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Value types supported by adaptor config fields.
+ * `url` is a string with a scheme, e.g. `https://api.example.com`.
+ */
+export type ESPCDFAdaptorConfigFieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "url"
+  | "object"
+  | "array";
+
+/**
+ * Declares one field of an adaptor config.
+ */
+export interface ESPCDFAdaptorConfigField {
+  type: ESPCDFAdaptorConfigFieldType;
+  /** Whether the field must be set; fields with a `default` never fail this check */
+  required?: boolean;
+  /** Value used when the field is not set */
+  default?: unknown;
+  /** Allowed values */
+  enum?: readonly unknown[];
+  /** Minimum value for numbers, minimum length for strings and arrays */
+  min?: number;
+  /** Maximum value for numbers, maximum length for strings and arrays */
+  max?: number;
+  /** Pattern string and url values must match */
+  pattern?: RegExp;
+  /** Redact the value in resolved configs and validation errors (API keys, passwords, …) */
+  secret?: boolean;
+  description?: string;
+  /** Additional check; returns an error message when the value is invalid */
+  validate?: (value: any, config: Record<string, any>) => string | undefined;
+}
+
+/**
+ * Config schema declared by an adaptor, keyed by config field name.
+ * Fields not declared in the schema are passed through unchecked.
+ */
+export type ESPCDFAdaptorConfigSchema = Record<
+  string,
+  ESPCDFAdaptorConfigField
+>;
+
+/**
+ * One invalid config field reported by adaptor config validation.
+ */
+export interface ESPCDFAdaptorConfigIssue {
+  field: string;
+  message: string;
+  /** Offending value; omitted for secret fields */
+  value?: unknown;
+}
+
+/**
+ * Result of validating an adaptor config against its schema.
+ */
+export interface ESPCDFAdaptorConfigValidationResult {
+  valid: boolean;
+  issues: ESPCDFAdaptorConfigIssue[];
+  /** Config with defaults applied */
+  config: Record<string, any>;
+}
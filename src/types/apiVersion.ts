@@ -0,0 +1,68 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Entity (or the adaptor itself) an operation of the CDF API belongs to.
+ * Features are named `<scope>.<operation>`, e.g. `group.getNodes`.
+ */
+export type ESPCDFAPIOperationScope =
+  | "adaptor"
+  | "user"
+  | "group"
+  | "node"
+  | "device"
+  | "service"
+  | "param"
+  | "scene"
+  | "schedule"
+  | "automation"
+  | "groupSharingRequest";
+
+/**
+ * Operations of one scope in the CDF API.
+ */
+export interface ESPCDFAPIScopeOperations {
+  /** Operations every adaptor must implement */
+  required: readonly string[];
+  /** Operations adaptors may omit */
+  optional: readonly string[];
+}
+
+/**
+ * Deprecation notice for a CDF API feature.
+ */
+export interface ESPCDFAPIDeprecation {
+  /** CDF API version that deprecated the feature */
+  since: string;
+  /** Feature to use instead */
+  replacement?: string;
+}
+
+/**
+ * Compatibility of a registered adaptor with the CDF API of this core.
+ */
+export interface ESPCDFAdaptorCompatibilityReport {
+  adaptorIdentifier: string;
+  /** CDF API version implemented by this core */
+  coreApiVersion: string;
+  /** CDF API version declared by the adaptor, or null when undeclared */
+  adaptorApiVersion: string | null;
+  /** False when the adaptor targets another major version of the CDF API */
+  compatible: boolean;
+  /** Version mismatches and other findings worth logging */
+  issues: string[];
+  /** Required features the adaptor does not implement or declare */
+  missingOperations: string[];
+  /** Features the adaptor implements or declares that are deprecated */
+  deprecatedOperations: string[];
+  /** Declared features unknown to this core (e.g. from a newer CDF API) */
+  unknownFeatures: string[];
+  /**
+   * Whether entity operations were checked. Entities only exist after login,
+   * so entity operations are checked against `cdfFeatures` when declared.
+   */
+  featuresDeclared: boolean;
+}
@@ -5,9 +5,41 @@
  */
 
 import { AdaptorRegistry } from "../registry";
+import { ESPCDFParamWriteSchedulerOptions } from "./paramWriteScheduler";
+import { ESPCDFLocalControlConfig } from "./localControl";
+import { ESPCDFLocalDiscoveryConfig } from "./localDiscovery";
+import { ESPCDFParamHistoryOptions } from "./store/paramHistory";
+import { ESPCDFNodeRefreshOptions } from "./nodeRefresh";
+
+/**
+ * Receives the errors and warnings CDF services report without throwing,
+ * e.g. a failing property change listener.
+ */
+export type ESPCDFLogger = Pick<Console, "warn" | "error">;
 
 export interface ESPCDFconfig {
   sdkAdaptorRegistry: AdaptorRegistry;
+  /** Debounce and batching of writes made through `ESPCDF.paramWriteScheduler` */
+  paramWriteScheduler?: ESPCDFParamWriteSchedulerOptions;
+  /** Local control adapter and session options; enables `ESPCDF.localControl` */
+  localControl?: ESPCDFLocalControlConfig;
+  /** Local discovery adapter and transport TTL; enables `ESPCDF.localDiscovery` */
+  localDiscovery?: ESPCDFLocalDiscoveryConfig;
+  /** Size of the per-node history kept by `ESPCDF.paramHistoryStore` */
+  paramHistory?: ESPCDFParamHistoryOptions;
+  /** Debounce of the reloads run by `ESPCDF.nodeRefresh` */
+  nodeRefresh?: ESPCDFNodeRefreshOptions;
+  /** Receives errors and warnings of CDF services; defaults to `console` */
+  logger?: ESPCDFLogger;
+}
+
+/**
+ * Configuration CDF is running with, for diagnostics.
+ */
+export interface ESPCDFResolvedConfig {
+  activeAdaptorIdentifier: string | null;
+  /** Resolved config of every registered adaptor, keyed by adaptor identifier, with secrets redacted */
+  adaptors: Record<string, Record<string, any>>;
 }
 
 export interface ESPCDFBatchOperationResult<TSuccess, TError = any> {
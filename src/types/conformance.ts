@@ -0,0 +1,65 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPSDKAdaptor } from "./adaptor";
+import { ESPCDFLoginRequestPayload } from "./authService";
+
+/**
+ * Creates a fresh adaptor instance for a conformance run.
+ */
+export type ESPCDFAdaptorFactory = () => ESPSDKAdaptor | Promise<ESPSDKAdaptor>;
+
+/**
+ * Areas of the adaptor contract covered by the conformance kit.
+ */
+export type ESPCDFConformanceArea =
+  | "adaptor"
+  | "user"
+  | "group"
+  | "node"
+  | "scene"
+  | "schedule"
+  | "automation";
+
+export type ESPCDFConformanceStatus = "passed" | "failed" | "skipped";
+
+/**
+ * Outcome of a single conformance check.
+ */
+export interface ESPCDFConformanceCheckResult {
+  /** Stable check id, e.g. `group.pagination` */
+  id: string;
+  area: ESPCDFConformanceArea;
+  /** What the adaptor is expected to do */
+  description: string;
+  status: ESPCDFConformanceStatus;
+  /** Failure or skip reason */
+  message?: string;
+}
+
+/**
+ * Compliance report produced by `runAdaptorConformance`.
+ */
+export interface ESPCDFConformanceReport {
+  adaptorIdentifier: string;
+  /** True when no check failed */
+  passed: boolean;
+  results: ESPCDFConformanceCheckResult[];
+  summary: Record<ESPCDFConformanceStatus, number>;
+}
+
+/**
+ * Options for a conformance run.
+ * Only read operations are invoked, except `login` when credentials are given.
+ */
+export interface ESPCDFConformanceOptions {
+  /** Credentials for `login`; user and entity checks are skipped without them */
+  credentials?: ESPCDFLoginRequestPayload;
+  /** Id of the group used for node/scene/schedule/automation checks; defaults to the first group */
+  groupId?: string;
+  /** Per-test timeout in milliseconds used by `describeAdaptorConformance` */
+  timeout?: number;
+}
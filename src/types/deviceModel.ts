@@ -0,0 +1,15 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ESPCDFDevice } from "../entities/ESPCDFDevice";
+import type { ESPCDFDeviceModel } from "../models/ESPCDFDeviceModel";
+
+/**
+ * Device model class registered with `ESPCDFDeviceModelRegistry`
+ */
+export type ESPCDFDeviceModelConstructor<
+  T extends ESPCDFDeviceModel = ESPCDFDeviceModel,
+> = new (device: ESPCDFDevice) => T;
@@ -169,6 +169,8 @@ export interface ESPCDFMatterFabricDetails {
 
 export interface ESPCDFGroupInterface {
   identifier: string;
+  /** Adaptor that owns this group; defaults to `identifier` */
+  adaptorIdentifier?: string;
   name: string;
   id: string;
   nodeIds?: string[];
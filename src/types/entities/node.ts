@@ -66,7 +66,16 @@ export type ESPCDFNodePropertyChangeEventType =
   | "availableTransportsChanged"
   | "connectivityStatusChanged"
   | "tagsChanged"
-  | "roleChanged";
+  | "roleChanged"
+  | "nodeConfigChanged"
+  | "staleParamUpdate"
+  | "paramWritten";
+
+/**
+ * Origin of a param change: a write made by this client, an update reported
+ * by the node or cloud, or a failed optimistic write being restored
+ */
+export type ESPCDFParamChangeSource = "user" | "remote" | "rollback";
 
 /**
  * Event data for device parameter changes
@@ -77,6 +86,7 @@ export interface ESPCDFDeviceParamChangedEvent {
   paramName: string;
   value: any;
   oldValue?: any;
+  source?: ESPCDFParamChangeSource;
   entity: ESPCDFNodeInterface;
 }
 
@@ -89,6 +99,7 @@ export interface ESPCDFServiceParamChangedEvent {
   paramName: string;
   value: any;
   oldValue?: any;
+  source?: ESPCDFParamChangeSource;
   entity: ESPCDFNodeInterface;
 }
 
@@ -142,6 +153,68 @@ export interface ESPCDFRoleChangedEvent {
   entity: ESPCDFNodeInterface;
 }
 
+/**
+ * A param added to or removed from a device or service
+ */
+export interface ESPCDFNodeConfigParamChange {
+  kind: "device" | "service";
+  /** Name of the device or service owning the param */
+  entityName: string;
+  paramName: string;
+}
+
+/**
+ * Event data for node configuration changes, e.g. after a firmware update
+ * added a device or param. `addedParams` and `removedParams` only list params
+ * of devices and services present before and after the change.
+ */
+export interface ESPCDFNodeConfigChangedEvent {
+  type: "nodeConfigChanged";
+  addedDevices: string[];
+  removedDevices: string[];
+  addedServices: string[];
+  removedServices: string[];
+  addedParams: ESPCDFNodeConfigParamChange[];
+  removedParams: ESPCDFNodeConfigParamChange[];
+  entity: ESPCDFNodeInterface;
+}
+
+/**
+ * Event data for a remote param update dropped because the param's value was
+ * applied later than the update's timestamp, e.g. a late MQTT message
+ */
+export interface ESPCDFStaleParamUpdateEvent {
+  type: "staleParamUpdate";
+  kind: "device" | "service";
+  /** Name of the device or service owning the param */
+  entityName: string;
+  paramName: string;
+  /** Value of the dropped update */
+  value: any;
+  /** Timestamp of the dropped update */
+  timestamp: number;
+  /** When the current value of the param was applied */
+  lastUpdatedAt: number;
+  entity: ESPCDFNodeInterface;
+}
+
+/**
+ * Event data for a param value changed by a successful `setValue` call of
+ * this client, emitted after the `deviceParamChanged` or
+ * `serviceParamChanged` event (source `user`) of the write. Writes through
+ * `setMultipleParams` are reported by their change events only.
+ */
+export interface ESPCDFParamWrittenEvent {
+  type: "paramWritten";
+  kind: "device" | "service";
+  /** Name of the device or service owning the param */
+  entityName: string;
+  paramName: string;
+  value: any;
+  oldValue?: any;
+  entity: ESPCDFNodeInterface;
+}
+
 /**
  * Discriminated union of all property change events
  * This provides type safety - each event type has its own data structure
@@ -153,7 +226,10 @@ export type ESPCDFPropertyChangeEvent =
   | ESPCDFAvailableTransportsChangedEvent
   | ESPCDFConnectivityStatusChangedEvent
   | ESPCDFTagsChangedEvent
-  | ESPCDFRoleChangedEvent;
+  | ESPCDFRoleChangedEvent
+  | ESPCDFNodeConfigChangedEvent
+  | ESPCDFStaleParamUpdateEvent
+  | ESPCDFParamWrittenEvent;
 
 /**
  * Callback type for property change events
@@ -202,6 +278,8 @@ export type ESPCDFNodeTransportType = ESPCDFNodeTransport | string;
 
 export interface ESPCDFNodeInterface {
   identifier: string;
+  /** Adaptor that owns this node; defaults to `identifier` */
+  adaptorIdentifier?: string;
   id: string;
   type?: string;
   isPrimaryUser?: boolean;
@@ -216,6 +294,8 @@ export interface ESPCDFNodeInterface {
   transportOrder?: string[];
   /** Available transports with their configurations */
   availableTransports?: Partial<Record<ESPCDFNodeTransportType, ESPCDFTransportConfig>>;
+  /** Transport that served the last param read or write routed by `ESPCDFTransportRouter` */
+  lastUsedTransport?: string;
   operations: ESPCDFNodeOperation;
   _raw: any;
   [key: string]: any;
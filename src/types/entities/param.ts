@@ -22,8 +22,51 @@ export interface ESPCDFParamInterface {
   properties?: string[];
   dataType?: string;
   type?: string;
+  /** `min`, `max` and `step` for numeric params; `validStrings` for string params */
   bounds?: Record<string, any>;
+  /**
+   * When the current value was applied, in ms since epoch: the event timestamp
+   * of remote updates, or the start of the local write
+   */
+  lastUpdatedAt?: number;
   operations: ESPCDFParamOperation;
   _raw: any;
 }
 
+
+/**
+ * Options for param writes (`setValue`, `setMultipleParams`).
+ */
+export interface ESPCDFParamWriteOptions {
+  /**
+   * Apply the value locally before the adaptor confirms the write, and roll it
+   * back if the write fails. Defaults to false.
+   */
+  optimistic?: boolean;
+  /**
+   * Validate values against the param's `properties`, `dataType` and `bounds`
+   * before dispatch (see `validateParamValue`). Defaults to true.
+   */
+  validate?: boolean;
+  /**
+   * Send a device param `setValue` through `ESPCDF.paramWriteScheduler`, so
+   * that rapid writes (e.g. from sliders) are coalesced into batched
+   * `setMultipleParams` calls. `validate` applies to the value as for direct
+   * writes; `optimistic` defaults to the scheduler's `writeOptions`. Ignored
+   * for params of nodes not held by a node store. Defaults to false.
+   */
+  coalesce?: boolean;
+}
+
+/**
+ * Rollback of a failed optimistic param write. Emitted as the data of the
+ * failed `setValue` / `setMultipleParams` operation event.
+ */
+export interface ESPCDFParamRollback {
+  deviceName: string;
+  paramName: string;
+  /** Value the param was restored to */
+  value: any;
+  /** Value of the failed write */
+  attemptedValue: any;
+}
@@ -104,9 +104,10 @@ export interface ESPCDFUserOperation {
     event: string,
     callback: (data: any) => void
   ): Promise<any>;
+  /** Reports the outcome of each node as `data`, when the backend provides it */
   setMultipleNodesParams(
     payload: { nodeId: string; payload: any }[]
-  ): Promise<ESPCDFAPIResponse>;
+  ): Promise<ESPCDFAPIResponse<ESPCDFNodeParamsResult[]>>;
   getNodeDetails(nodeId: string): Promise<ESPCDFNode>;
   getAccessToken(): Promise<string>;
   syncHomeWithNodes?(
@@ -161,6 +162,16 @@ export interface ESPCDFUserOperation {
   ): Promise<void>;
 }
 
+/**
+ * Outcome of one node in a `setMultipleNodesParams` call.
+ */
+export interface ESPCDFNodeParamsResult {
+  nodeId: string;
+  /** `success` when the node accepted its params */
+  status: string;
+  description?: string;
+}
+
 export interface ESPCDFSubscribeToNodeUpdatesRequestParams {
   nodeList: ESPCDFNode[];
   onNodeUpdate?: (update: Record<string, any>) => void;
@@ -0,0 +1,183 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFAdaptorCapabilityType } from "./adaptor";
+import { ESPCDFconfig } from "./cdf";
+import {
+  ESPCDFAutomationAction,
+  ESPCDFAutomationEvent,
+  ESPCDFAutomationEventOperator,
+  ESPCDFAutomationEventType,
+  ESPCDFAutomationLocation,
+} from "./entities/automation";
+import { ESPCDFGroupSharingStatus } from "./entities/groupSharingRequest";
+
+/**
+ * Param stored by the in-memory backend for a device or service.
+ */
+export interface ESPCDFInMemoryParamRecord {
+  name: string;
+  value?: any;
+  type?: string;
+  dataType?: string;
+  uiType?: string;
+  properties?: string[];
+  bounds?: Record<string, any>;
+}
+
+export interface ESPCDFInMemoryDeviceRecord {
+  name: string;
+  type?: string;
+  displayName?: string;
+  params: ESPCDFInMemoryParamRecord[];
+}
+
+/**
+ * Service stored on a node.
+ * Scenes and schedules live in the `esp.param.scenes` / `esp.param.schedules`
+ * param value of the `esp.service.scenes` / `esp.service.schedule` services.
+ */
+export interface ESPCDFInMemoryServiceRecord {
+  name: string;
+  type: string;
+  params: ESPCDFInMemoryParamRecord[];
+}
+
+export interface ESPCDFInMemoryNodeRecord {
+  id: string;
+  name: string;
+  type?: string;
+  model?: string;
+  firmwareVersion?: string;
+  /** Firmware offered by `checkOTAUpdate` when it differs from `firmwareVersion` */
+  availableFirmwareVersion?: string;
+  /** Username of the node owner */
+  ownerUsername: string;
+  isConnected?: boolean;
+  lastConnectionTimestamp?: number;
+  timeZone?: string;
+  devices: ESPCDFInMemoryDeviceRecord[];
+  services?: ESPCDFInMemoryServiceRecord[];
+  metadata?: Record<string, any>;
+  tags?: string[];
+}
+
+/**
+ * Group stored by the in-memory backend; homes are groups of type `home`
+ * and rooms are groups whose `parentId` points to a home.
+ */
+export interface ESPCDFInMemoryGroupRecord {
+  id: string;
+  name: string;
+  type?: string;
+  mutuallyExclusive?: boolean;
+  parentId?: string;
+  nodeIds: string[];
+  description?: string;
+  metadata?: Record<string, any>;
+  customData?: Record<string, any>;
+  /** Username of the primary user */
+  primaryUsername: string;
+  /** Usernames the group is shared with */
+  sharedWith?: string[];
+}
+
+export interface ESPCDFInMemoryUserRecord {
+  id: string;
+  username: string;
+  password: string;
+  name: string;
+  phone?: string;
+  timeZone?: string;
+  customData?: Record<string, any>;
+  /** Home selected through `setCurrentHome` */
+  currentHomeId?: string;
+}
+
+export interface ESPCDFInMemoryAutomationRecord {
+  id: string;
+  ownerUsername: string;
+  name: string;
+  enabled: boolean;
+  nodeId?: string;
+  eventType: ESPCDFAutomationEventType;
+  events: ESPCDFAutomationEvent[];
+  eventOperator: ESPCDFAutomationEventOperator;
+  actions: ESPCDFAutomationAction[];
+  retrigger?: boolean;
+  location?: ESPCDFAutomationLocation;
+  region?: string;
+  metadata?: any;
+}
+
+export interface ESPCDFInMemorySharingRequestRecord {
+  id: string;
+  status: ESPCDFGroupSharingStatus;
+  timestamp: number;
+  groupIds: string[];
+  /** Recipient of the request */
+  username: string;
+  /** Issuer of the request */
+  primaryUsername: string;
+  transfer: boolean;
+  newRole: string;
+  metadata: Record<string, any>;
+}
+
+export type ESPCDFInMemoryOTAJobStatus =
+  | "triggered"
+  | "in_progress"
+  | "success"
+  | "failed";
+
+export interface ESPCDFInMemoryOTAJobRecord {
+  id: string;
+  nodeId: string;
+  fwVersion: string;
+  status: ESPCDFInMemoryOTAJobStatus;
+  timestamp: number;
+}
+
+/**
+ * Initial state of an in-memory backend.
+ */
+export interface ESPCDFInMemorySeed {
+  users?: ESPCDFInMemoryUserRecord[];
+  groups?: ESPCDFInMemoryGroupRecord[];
+  nodes?: ESPCDFInMemoryNodeRecord[];
+  automations?: ESPCDFInMemoryAutomationRecord[];
+  sharingRequests?: ESPCDFInMemorySharingRequestRecord[];
+}
+
+/**
+ * Configuration of `ESPCDFInMemoryAdaptor`.
+ */
+export interface ESPCDFInMemoryAdaptorConfig {
+  /** Adaptor identifier; defaults to `inMemory` */
+  identifier?: string;
+  /** Initial backend state; defaults to `createInMemoryDemoSeed()` */
+  seed?: ESPCDFInMemorySeed;
+  /** Artificial latency applied to every operation, in milliseconds */
+  latency?: number;
+  /** Number of groups per `getGroups` page */
+  pageSize?: number;
+  /** Code accepted by sign-up, password reset and account deletion */
+  verificationCode?: string;
+  /** Capabilities to declare; defaults to everything the adaptor simulates */
+  capabilities?: ESPCDFAdaptorCapabilityType[];
+}
+
+/**
+ * Options of `createInMemoryCDF`.
+ */
+export interface ESPCDFInMemoryCDFOptions {
+  /** Config of the created `ESPCDF` */
+  config?: Partial<ESPCDFconfig>;
+  /** Config of the in-memory adaptor */
+  adaptor?: ESPCDFInMemoryAdaptorConfig;
+  /** Sign in as the demo user and sync homes and nodes; defaults to true */
+  login?: boolean;
+}
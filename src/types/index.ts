@@ -6,12 +6,26 @@
 
 export * from "./cdf";
 export * from "./adaptor";
+export * from "./adaptorConfig";
+export * from "./apiVersion";
+export * from "./deviceModel";
+export * from "./registry";
+export * from "./conformance";
+export * from "./inMemoryAdaptor";
+export * from "./middleware";
+export * from "./nodeRefresh";
+export * from "./paramControl";
+export * from "./paramTransaction";
+export * from "./paramValidation";
+export * from "./paramWriteScheduler";
+export * from "./propertyChangeBus";
 export * from "./callbacks";
 export * from "./store";
 export * from "./authService";
 export * from "./provision";
 export * from "./tsData";
 export * from "./subscription";
+export * from "./transportRouter";
 export * from "./localControl";
 export * from "./localDiscovery";
 export * from "./storage";
@@ -4,6 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { ESPCDFParamValues, ESPCDFTransportOperation } from "./transportRouter";
+
 /**
  * Local control adapter interface for node communication over LAN.
  */
@@ -32,3 +34,69 @@ export interface ESPCDFLocalControlAdapterInterface {
 
 export type ESPLocalControlAdapterInterface =
   ESPCDFLocalControlAdapterInterface;
+
+/**
+ * State of a local control session with a node.
+ */
+export type ESPCDFLocalControlSessionStatus =
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "failed";
+
+/**
+ * Local control session of a node, as exposed by `subscriptionStore.localControlSessions`.
+ */
+export interface ESPCDFLocalControlSession {
+  nodeId: string;
+  /** Adaptor of the node; sessions are keyed by adaptor-scoped node key */
+  adaptorIdentifier?: string;
+  status: ESPCDFLocalControlSessionStatus;
+  /** Base URL of the node on the LAN, from the `local` transport metadata */
+  baseUrl?: string;
+  /** Security type from the `esp.param.local_control_type` service param */
+  securityType?: number;
+  connectedAt?: number;
+  /** Reconnect attempts since the session was last connected */
+  reconnectAttempts: number;
+  lastError?: string;
+}
+
+/**
+ * Configuration of the local control session manager.
+ */
+export interface ESPCDFLocalControlSessionOptions {
+  /** Interval between `isConnected` checks of connected sessions, in milliseconds; defaults to 30000 */
+  keepAliveIntervalMs?: number;
+  /** Delay before the first reconnect attempt, doubled on every failed attempt, in milliseconds; defaults to 1000 */
+  reconnectDelayMs?: number;
+  /** Upper bound of the reconnect delay, in milliseconds; defaults to 30000 */
+  maxReconnectDelayMs?: number;
+  /** Reconnect attempts before a session is marked failed; defaults to 5 */
+  maxReconnectAttempts?: number;
+  /** Username passed to `connect`, for security types that need one */
+  username?: string;
+}
+
+/**
+ * Local control configuration of a CDF instance.
+ */
+export interface ESPCDFLocalControlConfig extends ESPCDFLocalControlSessionOptions {
+  /** Platform implementation of local control (e.g. a native module) */
+  adapter: ESPCDFLocalControlAdapterInterface;
+}
+
+/**
+ * Options of the param transport served over local control sessions.
+ */
+export interface ESPCDFLocalControlTransportOptions {
+  /** Local control endpoint; defaults to `esp_local_ctrl/control` */
+  path?: string;
+  /** Encodes a param read or write in the request format of the node firmware */
+  encode: (request: {
+    operation: ESPCDFTransportOperation;
+    params?: ESPCDFParamValues;
+  }) => string;
+  /** Decodes the response of a param read */
+  decode: (response: string) => ESPCDFParamValues;
+}
@@ -25,3 +25,34 @@ export interface ESPCDFLocalDiscoveryAdapterInterface {
 export type DiscoveryParamsInterface = ESPCDFDiscoveryParamsInterface;
 export type ESPLocalDiscoveryAdapterInterface =
   ESPCDFLocalDiscoveryAdapterInterface;
+
+/**
+ * Node found by local discovery.
+ */
+export interface ESPCDFDiscoveredNode {
+  nodeId: string;
+  /** Base URL of the node on the LAN, e.g. `http://192.168.1.20:8080` */
+  baseUrl: string;
+  /** Extra `local` transport metadata, e.g. host, port or TXT records */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Configuration of the local discovery manager.
+ */
+export interface ESPCDFLocalDiscoveryOptions {
+  /** Time without re-announcement after which a node's `local` transport is removed, in milliseconds; defaults to 60000 */
+  ttlMs?: number;
+  /** Parameters passed to `startDiscovery` */
+  params?: ESPCDFDiscoveryParamsInterface;
+  /** Maps a discovery result to a node; defaults to `mapLocalDiscoveryResult`. Results mapped to `undefined` are ignored. */
+  mapResult?: (data: Record<string, any>) => ESPCDFDiscoveredNode | undefined;
+}
+
+/**
+ * Local discovery configuration of a CDF instance.
+ */
+export interface ESPCDFLocalDiscoveryConfig extends ESPCDFLocalDiscoveryOptions {
+  /** Platform implementation of local discovery (e.g. an mDNS module) */
+  adapter: ESPCDFLocalDiscoveryAdapterInterface;
+}
@@ -0,0 +1,121 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Where an intercepted call was made: on the adaptor itself (e.g. `login`)
+ * or on an entity `operations` delegate created by the adaptor.
+ */
+export type ESPCDFAdaptorCallKind = "adaptor" | "operations";
+
+/**
+ * Describes an adaptor call while it passes through the middleware pipeline.
+ */
+export interface ESPCDFAdaptorCallContext {
+  /** Identifier of the adaptor that serves the call */
+  adaptorIdentifier: string;
+  kind: ESPCDFAdaptorCallKind;
+  /** Method or operation name, e.g. `login` or `getNodes` */
+  method: string;
+  /** Adaptor or entity the call was made on */
+  target: object;
+  /** Call arguments; middleware may replace them before calling `next` */
+  args: any[];
+  /** Loggable copy of `args`, set by the redaction middleware */
+  redactedArgs?: any[];
+  /** Per-call state shared between middleware */
+  state: Record<string, any>;
+}
+
+/**
+ * Invokes the next middleware, or the adaptor call itself for the last one.
+ * May be called more than once (e.g. to retry). Returns a Promise unless the
+ * adaptor method and every remaining middleware are synchronous.
+ */
+export type ESPCDFAdaptorMiddlewareNext = () => any;
+
+/**
+ * Middleware registered with `AdaptorRegistry.use`. Middleware run in
+ * registration order; the first one registered is the outermost.
+ *
+ * Return the result of `next` as is to keep synchronous adaptor methods
+ * (e.g. `setStoreCallbacks`) synchronous; an `async` middleware turns every
+ * call it handles into a Promise. Every built-in middleware keeps
+ * synchronous calls synchronous.
+ */
+export type ESPCDFAdaptorMiddleware = (
+  context: ESPCDFAdaptorCallContext,
+  next: ESPCDFAdaptorMiddlewareNext
+) => any;
+
+/**
+ * Predicate selecting the calls a built-in middleware applies to.
+ */
+export type ESPCDFAdaptorCallFilter = (
+  context: ESPCDFAdaptorCallContext
+) => boolean;
+
+/**
+ * Receives the lines written by `createLoggingMiddleware`.
+ */
+export type ESPCDFAdaptorCallLogger = Pick<Console, "log" | "error">;
+
+export interface ESPCDFLoggingMiddlewareOptions {
+  /** Log arguments (`redactedArgs` when set); defaults to false */
+  logArgs?: boolean;
+  filter?: ESPCDFAdaptorCallFilter;
+}
+
+export interface ESPCDFAdaptorCallTiming {
+  adaptorIdentifier: string;
+  kind: ESPCDFAdaptorCallKind;
+  method: string;
+  durationMs: number;
+  success: boolean;
+}
+
+export interface ESPCDFRetryMiddlewareOptions {
+  /** Additional attempts after the first failure; defaults to 2 */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled for each retry; defaults to 0 */
+  delayMs?: number;
+  /** Whether a failed call should be retried; defaults to `isTransientError` */
+  shouldRetry?: (error: unknown, context: ESPCDFAdaptorCallContext) => boolean;
+  filter?: ESPCDFAdaptorCallFilter;
+}
+
+export interface ESPCDFAuthRefreshMiddlewareOptions {
+  /** Whether an error means the access token expired; defaults to HTTP 401 */
+  isAuthError?: (error: unknown) => boolean;
+  /**
+   * Refreshes credentials; concurrent failures share one refresh.
+   * Adaptor calls started after an `await` must be made inside
+   * `asRefreshCall` so that they are not intercepted.
+   */
+  refresh: (
+    context: ESPCDFAdaptorCallContext,
+    asRefreshCall: <T>(call: () => T) => T
+  ) => Promise<void>;
+  filter?: ESPCDFAdaptorCallFilter;
+}
+
+export interface ESPCDFRedactionMiddlewareOptions {
+  /** Keys whose values are redacted, matched case-insensitively */
+  keys?: string[];
+  /** Replacement value; defaults to `[REDACTED]` */
+  replacement?: string;
+}
+
+export interface ESPCDFFaultInjectionMiddlewareOptions {
+  /** Probability (0–1) that a matching call fails; defaults to 1 */
+  errorRate?: number;
+  /** Delay added to matching calls in milliseconds */
+  latencyMs?: number;
+  /** Error to throw; defaults to an `ESPCDFAdaptorError` with code `FAULT_INJECTED` */
+  error?: (context: ESPCDFAdaptorCallContext) => unknown;
+  /** Random source in [0, 1); defaults to `Math.random` */
+  random?: () => number;
+  filter?: ESPCDFAdaptorCallFilter;
+}
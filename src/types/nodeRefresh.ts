@@ -0,0 +1,28 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Configuration of the node refresh scheduler.
+ */
+export interface ESPCDFNodeRefreshOptions {
+  /** Quiet period after the last mismatched param update of a node before it is reloaded, in milliseconds; defaults to 500 */
+  debounceMs?: number;
+}
+
+/**
+ * A remote param update naming a device, service or param unknown to the
+ * stored node
+ */
+export interface ESPCDFUnmatchedParamUpdate {
+  /** Kind of the entity the update is addressed to; unset when no device or service has its name */
+  kind?: "device" | "service";
+  /** Name of the device or service */
+  entityName: string;
+  paramName: string;
+  value: unknown;
+  /** Timestamp of the update event, in ms */
+  timestamp?: number;
+}
@@ -0,0 +1,64 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFParamInterface } from "./entities/param";
+
+/**
+ * Kind of control a param is rendered with
+ */
+export type ESPCDFParamControlKind =
+  | "toggle"
+  | "slider"
+  | "hue"
+  | "dropdown"
+  | "number"
+  | "text"
+  | "button"
+  | "hidden";
+
+/**
+ * Option of a dropdown control
+ */
+export interface ESPCDFParamControlOption {
+  label: string;
+  value: any;
+}
+
+/**
+ * Param fields a control descriptor is built from
+ */
+export type ESPCDFDescribedParam = Pick<
+  ESPCDFParamInterface,
+  "name" | "type" | "dataType" | "bounds" | "properties"
+> & { uiType?: string };
+
+/**
+ * Normalized description of the control a param is rendered with
+ */
+export interface ESPCDFParamControlDescriptor {
+  kind: ESPCDFParamControlKind;
+  /** uiType declared by the param, if any */
+  uiType?: string;
+  dataType?: string;
+  /** Value range of numeric controls */
+  range?: { min: number; max: number };
+  step?: number;
+  /** Choices of dropdown controls */
+  options?: ESPCDFParamControlOption[];
+  /** True when the param lacks the `write` property */
+  readOnly: boolean;
+  /** Formats a value of the param for display */
+  format: (value: any) => string;
+}
+
+/**
+ * Builds the descriptor of a uiType from the descriptor inferred from the
+ * param's data type, bounds and properties
+ */
+export type ESPCDFParamControlResolver = (
+  param: ESPCDFDescribedParam,
+  descriptor: ESPCDFParamControlDescriptor
+) => ESPCDFParamControlDescriptor;
@@ -0,0 +1,65 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFAPIResponse, ESPCDFBatchOperationResult } from "./cdf";
+import { ESPCDFParamWriteOptions } from "./entities/param";
+
+/**
+ * One device param change collected by a param transaction.
+ */
+export interface ESPCDFParamChange {
+  nodeId: string;
+  deviceName: string;
+  /** Name of the param */
+  param: string;
+  value: any;
+  /** Adaptor owning the node; defaults to the node store lookup rules of `getNodeById` */
+  adaptorIdentifier?: string;
+}
+
+/**
+ * How a param transaction is sent to the adaptor:
+ * - `perNode`: one `ESPCDFNode.setMultipleParams` call per node
+ * - `multiNode`: one `ESPCDFUser.setMultipleNodesParams` call per adaptor
+ */
+export type ESPCDFParamTransactionStrategy = "perNode" | "multiNode";
+
+export interface ESPCDFParamTransactionOptions {
+  /** Defaults to `perNode` */
+  strategy?: ESPCDFParamTransactionStrategy;
+  /** Write options; `optimistic` only applies to the `perNode` strategy */
+  writeOptions?: ESPCDFParamWriteOptions;
+}
+
+/**
+ * Changes of one node in a committed param transaction.
+ */
+export interface ESPCDFParamTransactionNodeResult {
+  nodeId: string;
+  adaptorIdentifier?: string;
+  /** Values sent for the node, `{ [deviceName]: [{ [paramName]: value }] }` */
+  payload: Record<string, Record<string, any>[]>;
+  /** Response of the adaptor call that carried the node's changes */
+  response?: ESPCDFAPIResponse;
+}
+
+/**
+ * Changes of one node that failed in a committed param transaction.
+ */
+export interface ESPCDFParamTransactionNodeError {
+  nodeId: string;
+  adaptorIdentifier?: string;
+  payload: Record<string, Record<string, any>[]>;
+  error: unknown;
+}
+
+/**
+ * Outcome of a committed param transaction, per node.
+ */
+export type ESPCDFParamTransactionResult = ESPCDFBatchOperationResult<
+  ESPCDFParamTransactionNodeResult,
+  ESPCDFParamTransactionNodeError
+>;
@@ -0,0 +1,28 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Reason a param value was rejected by client-side validation.
+ */
+export type ESPCDFParamValidationIssueCode =
+  | "NOT_WRITABLE"
+  | "TYPE_MISMATCH"
+  | "BELOW_MIN"
+  | "ABOVE_MAX"
+  | "STEP_MISMATCH"
+  | "INVALID_STRING";
+
+/**
+ * Result of validating a value against a param's `properties`, `dataType`
+ * and `bounds`.
+ */
+export interface ESPCDFParamValidationResult {
+  valid: boolean;
+  /** Value to write, coerced to the param's data type (e.g. `"42"` → `42` for int params) */
+  value: any;
+  code?: ESPCDFParamValidationIssueCode;
+  message?: string;
+}
@@ -0,0 +1,19 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFParamWriteOptions } from "./entities/param";
+
+/**
+ * Configuration of the param write scheduler.
+ */
+export interface ESPCDFParamWriteSchedulerOptions {
+  /** Quiet period after the last write to a node before its batch is sent, in milliseconds; defaults to 100 */
+  debounceMs?: number;
+  /** Longest a write is held back while writes to the same node keep arriving, in milliseconds; defaults to 500 */
+  maxWaitMs?: number;
+  /** Default `validate` and `optimistic` options of writes that leave them unset */
+  writeOptions?: ESPCDFParamWriteOptions;
+}
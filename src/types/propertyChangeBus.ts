@@ -0,0 +1,38 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ESPCDFNode } from "../entities/ESPCDFNode";
+import {
+  ESPCDFNodePropertyChangeEventType,
+  ESPCDFPropertyChangeEvent,
+} from "./entities/node";
+
+/**
+ * Filter of a property change bus subscription. Every set field must match;
+ * array fields match any of their values. `deviceName`, `serviceName` and
+ * `paramName` only match events about a param.
+ */
+export interface ESPCDFPropertyChangeFilter {
+  nodeId?: string | string[];
+  /** Restricts `nodeId` and `groupId` to one adaptor */
+  adaptorIdentifier?: string;
+  deviceName?: string | string[];
+  serviceName?: string | string[];
+  paramName?: string | string[];
+  type?:
+    | ESPCDFNodePropertyChangeEventType
+    | ESPCDFNodePropertyChangeEventType[];
+  /** Matches nodes of the group or of its sub groups, checked when the event fires */
+  groupId?: string | string[];
+}
+
+/**
+ * Listener of property change bus events
+ */
+export type ESPCDFPropertyChangeBusListener = (
+  event: ESPCDFPropertyChangeEvent,
+  node: ESPCDFNode
+) => void;
@@ -0,0 +1,86 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Event data emitted after an adaptor is added to the registry
+ */
+export interface ESPCDFAdaptorRegisteredEvent {
+  type: "adaptorRegistered";
+  adaptorIdentifier: string;
+}
+
+/**
+ * Event data emitted after an adaptor is removed from the registry
+ */
+export interface ESPCDFAdaptorUnregisteredEvent {
+  type: "adaptorUnregistered";
+  adaptorIdentifier: string;
+}
+
+/**
+ * Event data emitted when the active adaptor changes (including being unset)
+ */
+export interface ESPCDFActiveAdaptorChangedEvent {
+  type: "activeAdaptorChanged";
+  adaptorIdentifier: string | null;
+  previousAdaptorIdentifier: string | null;
+}
+
+/**
+ * Event data emitted after every adaptor has been removed via `clear()`
+ */
+export interface ESPCDFAdaptorRegistryClearedEvent {
+  type: "registryCleared";
+  adaptorIdentifiers: string[];
+}
+
+/**
+ * Lifecycle hooks an adaptor may implement
+ */
+export type ESPCDFAdaptorLifecycleHook =
+  | "onRegister"
+  | "onActivate"
+  | "onDeactivate"
+  | "onDispose";
+
+/**
+ * Event data emitted when an adaptor lifecycle hook throws or rejects
+ */
+export interface ESPCDFAdaptorHookFailedEvent {
+  type: "adaptorHookFailed";
+  adaptorIdentifier: string;
+  hook: ESPCDFAdaptorLifecycleHook;
+  error: unknown;
+}
+
+/**
+ * Event data emitted when a registry listener throws while handling an event.
+ * Failures while handling this event are not reported again.
+ */
+export interface ESPCDFAdaptorRegistryListenerFailedEvent {
+  type: "listenerFailed";
+  /** Type of the event the listener failed on */
+  eventType: ESPCDFAdaptorRegistryEvent["type"];
+  error: unknown;
+}
+
+/**
+ * Discriminated union of all adaptor registry change events
+ */
+export type ESPCDFAdaptorRegistryEvent =
+  | ESPCDFAdaptorRegisteredEvent
+  | ESPCDFAdaptorUnregisteredEvent
+  | ESPCDFActiveAdaptorChangedEvent
+  | ESPCDFAdaptorRegistryClearedEvent
+  | ESPCDFAdaptorHookFailedEvent
+  | ESPCDFAdaptorRegistryListenerFailedEvent;
+
+/**
+ * Callback type for adaptor registry change events
+ */
+export type ESPCDFAdaptorRegistryListener = (
+  event: ESPCDFAdaptorRegistryEvent
+) => void;
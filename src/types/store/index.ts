@@ -7,4 +7,5 @@
 export * from "./automation";
 export * from "./group";
 export * from "./node";
+export * from "./paramHistory";
 export * from "./subscription";
@@ -0,0 +1,34 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFParamChangeSource } from "../entities/node";
+
+/**
+ * A param change recorded from a `deviceParamChanged` or
+ * `serviceParamChanged` event.
+ */
+export interface ESPCDFParamHistoryEntry {
+  nodeId: string;
+  adaptorIdentifier?: string;
+  /** Whether the param belongs to a device or a service */
+  kind: "device" | "service";
+  /** Name of the device or service owning the param */
+  entityName: string;
+  paramName: string;
+  value: any;
+  oldValue?: any;
+  /** Events emitted without a source are recorded as `"remote"` */
+  source: ESPCDFParamChangeSource;
+  timestamp: number;
+}
+
+/**
+ * Configuration of the param history store.
+ */
+export interface ESPCDFParamHistoryOptions {
+  /** Entries kept per node, oldest dropped first; defaults to 50 */
+  maxEntriesPerNode?: number;
+}
@@ -4,6 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { ESPCDF } from "../store/index";
+
 /**
  * Enum for CDF event types used in event subscriptions.
  */
@@ -23,8 +25,54 @@ export interface ESPCDFNodeUpdateEvent {
   node_id: string;
   payload: unknown;
   timestamp: number;
+  /** Adaptor that delivered the event; tagged by the user store when missing */
+  adaptorIdentifier?: string;
+}
+
+/**
+ * A node update event being handled, with its parsed payload.
+ */
+export interface ESPCDFNodeUpdateContext<TPayload = unknown> {
+  event: ESPCDFNodeUpdateEvent;
+  /** Payload returned by the handler's parser; wrappers may replace it before calling `next` */
+  payload: TPayload;
+  rootStore: ESPCDF;
+}
+
+/**
+ * Handles node update events of one `event_type`.
+ */
+export type ESPCDFNodeUpdateHandler<TPayload = unknown> = (
+  context: ESPCDFNodeUpdateContext<TPayload>
+) => void | Promise<void>;
+
+/**
+ * Turns the raw payload of a node update event into the handler's payload.
+ * Throwing skips the event.
+ */
+export type ESPCDFNodeUpdatePayloadParser<TPayload = unknown> = (
+  payload: unknown
+) => TPayload;
+
+/**
+ * Handler registered with `subscriptionStore.registerNodeUpdateHandler`.
+ */
+export interface ESPCDFNodeUpdateHandlerDefinition<TPayload = unknown> {
+  handle: ESPCDFNodeUpdateHandler<TPayload>;
+  /** Defaults to JSON-parsing string payloads (`safelyParsePayload`) */
+  parsePayload?: ESPCDFNodeUpdatePayloadParser<TPayload>;
 }
 
+/**
+ * Wrapper registered with `subscriptionStore.wrapNodeUpdateHandler`. Wrappers
+ * run in registration order, the first one registered being the outermost;
+ * `next` invokes the next wrapper, or the registered handler for the last one.
+ */
+export type ESPCDFNodeUpdateHandlerWrapper = (
+  context: ESPCDFNodeUpdateContext<any>,
+  next: () => void | Promise<void>
+) => void | Promise<void>;
+
 /**
  * Input shape for mapping to CDF node-update event (e.g. from SDK subscription channel).
  * Keeps utils/subscriptionHelper free of SDK imports (dependency inversion).
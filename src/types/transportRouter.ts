@@ -0,0 +1,68 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFAPIResponse } from "./cdf";
+import { ESPCDFTransportConfig } from "./entities/common";
+import { ESPCDFNodeInterface } from "./entities/node";
+
+/**
+ * Param operations routed over node transports.
+ */
+export type ESPCDFTransportOperation = "setParams" | "getParams";
+
+/**
+ * Param values keyed by device or service name, then param name.
+ */
+export type ESPCDFParamValues = Record<string, Record<string, any>>;
+
+/**
+ * Sends param reads and writes to a node over one transport.
+ */
+export interface ESPCDFParamTransport {
+  /** Transport type served, matched against the node's `transportOrder` and `availableTransports` keys */
+  type: string;
+  /**
+   * Tried before the node's `transportOrder` whenever the node has this
+   * transport available, e.g. local control over cloud. Defaults to false.
+   */
+  preferred?: boolean;
+  setParams(
+    node: ESPCDFNodeInterface,
+    params: ESPCDFParamValues,
+    config?: ESPCDFTransportConfig
+  ): Promise<ESPCDFAPIResponse | void>;
+  /** Reads the current param values; transports without it are skipped for reads */
+  getParams?(
+    node: ESPCDFNodeInterface,
+    config?: ESPCDFTransportConfig
+  ): Promise<ESPCDFParamValues>;
+}
+
+/**
+ * A transport that failed while routing an operation.
+ */
+export interface ESPCDFTransportAttempt {
+  transport: string;
+  error: unknown;
+}
+
+/**
+ * Record of a routed operation.
+ */
+export interface ESPCDFTransportRoute<T = unknown> {
+  nodeId: string;
+  operation: ESPCDFTransportOperation;
+  /** Transport that served the operation */
+  transport: string;
+  /** Transports that failed before it, in the order they were tried */
+  failedAttempts: ESPCDFTransportAttempt[];
+  result: T;
+  timestamp: number;
+}
+
+export type ESPCDFTransportRouteListener = (
+  route: ESPCDFTransportRoute
+) => void;
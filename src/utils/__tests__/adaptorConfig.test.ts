@@ -0,0 +1,121 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AdaptorRegistry } from "../../registry";
+import { ESPCDFConfigError } from "../../errors";
+import { ESPCDF } from "../../store";
+import { ESPCDFAdaptorConfigSchema } from "../../types";
+import { ESPCDFInMemoryAdaptor } from "../../testing";
+import {
+  formatAdaptorConfigIssues,
+  redactAdaptorConfig,
+  validateAdaptorConfig,
+} from "../adaptorConfig";
+
+const schema: ESPCDFAdaptorConfigSchema = {
+  baseUrl: { type: "url", required: true },
+  region: { type: "string", enum: ["eu", "us"], default: "eu" },
+  timeout: { type: "number", min: 100, max: 60000 },
+  apiKey: { type: "string", required: true, secret: true, min: 8 },
+};
+
+describe("validateAdaptorConfig", () => {
+  test("applies defaults and passes unknown fields through", () => {
+    const result = validateAdaptorConfig(schema, {
+      baseUrl: "https://api.example.com",
+      apiKey: "0123456789",
+      extra: 1,
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.config).toEqual({
+      baseUrl: "https://api.example.com",
+      region: "eu",
+      apiKey: "0123456789",
+      extra: 1,
+    });
+  });
+
+  test("reports each invalid field, without secret values", () => {
+    const { valid, issues } = validateAdaptorConfig(schema, {
+      baseUrl: "api.example.com",
+      region: "asia",
+      timeout: 10,
+      apiKey: "short",
+    });
+
+    expect(valid).toBe(false);
+    expect(issues.map((issue) => issue.field)).toEqual([
+      "baseUrl",
+      "region",
+      "timeout",
+      "apiKey",
+    ]);
+    expect(issues[3]).toEqual({
+      field: "apiKey",
+      message: "must be at least 8 in length",
+    });
+    expect(formatAdaptorConfigIssues(issues)).toContain(
+      'region must be one of "eu", "us"'
+    );
+  });
+
+  test("reports missing required fields", () => {
+    const { issues } = validateAdaptorConfig(schema, {});
+
+    expect(issues).toEqual([
+      { field: "baseUrl", message: "is required" },
+      { field: "apiKey", message: "is required" },
+    ]);
+  });
+});
+
+describe("redactAdaptorConfig", () => {
+  test("redacts secret fields and credential keys", () => {
+    expect(
+      redactAdaptorConfig(
+        { apiKey: "0123456789", password: "secret", region: "eu" },
+        schema
+      )
+    ).toEqual({
+      apiKey: "[REDACTED]",
+      password: "[REDACTED]",
+      region: "eu",
+    });
+  });
+});
+
+describe("adaptor config on registration", () => {
+  test("throws an ESPCDFConfigError listing invalid fields", () => {
+    const registry = new AdaptorRegistry();
+    const register = () =>
+      registry.register(new ESPCDFInMemoryAdaptor({ latency: -1 }));
+
+    expect(register).toThrow(ESPCDFConfigError);
+    expect(register).toThrow(
+      expect.objectContaining({
+        errorCode: "ADAPTOR_CONFIG_INVALID",
+        message: expect.stringContaining("latency must be at least 0"),
+      })
+    );
+    expect(registry.getRegisteredAdaptorIdentifiers()).toEqual([]);
+  });
+
+  test("exposes the resolved config through ESPCDF", () => {
+    const cdf = ESPCDF.create();
+    cdf.sdkAdaptorRegistry.register(new ESPCDFInMemoryAdaptor());
+    cdf.sdkAdaptorRegistry.setActiveAdaptor("inMemory");
+
+    const { activeAdaptorIdentifier, adaptors } = cdf.getResolvedConfig();
+
+    expect(activeAdaptorIdentifier).toBe("inMemory");
+    expect(adaptors.inMemory).toMatchObject({
+      latency: 0,
+      verificationCode: "[REDACTED]",
+    });
+    cdf.destroy();
+  });
+});
@@ -0,0 +1,264 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AdaptorRegistry } from "../../registry";
+import { ESPCDFAdaptorCallContext, ESPCDFAdaptorMiddleware } from "../../types";
+import {
+  callThroughMiddleware,
+  createAuthRefreshMiddleware,
+  createFaultInjectionMiddleware,
+  createLoggingMiddleware,
+  createRedactionMiddleware,
+  createRetryMiddleware,
+  createTimingMiddleware,
+  isTransientError,
+} from "../adaptorMiddleware";
+import {
+  ESPCDFInMemoryAdaptor,
+  IN_MEMORY_DEMO_PASSWORD,
+  IN_MEMORY_DEMO_USERNAME,
+} from "../../testing";
+
+const runCall = (
+  middlewares: ESPCDFAdaptorMiddleware[],
+  invoke: (args: any[]) => any,
+  args: any[] = []
+) =>
+  callThroughMiddleware(
+    { adaptorIdentifier: "test", getMiddlewares: () => middlewares },
+    "adaptor",
+    "call",
+    {},
+    args,
+    invoke
+  );
+
+const statusError = (statusCode: number) =>
+  Object.assign(new Error(`status ${statusCode}`), { statusCode });
+
+describe("callThroughMiddleware", () => {
+  test("runs middleware in registration order, the first outermost", () => {
+    const order: string[] = [];
+    const tag =
+      (name: string): ESPCDFAdaptorMiddleware =>
+      (_context, next) => {
+        order.push(`${name}:before`);
+        const result = next();
+        order.push(`${name}:after`);
+        return result;
+      };
+
+    runCall([tag("outer"), tag("inner")], () => order.push("call"));
+
+    expect(order).toEqual([
+      "outer:before",
+      "inner:before",
+      "call",
+      "inner:after",
+      "outer:after",
+    ]);
+  });
+
+  test("passes replaced arguments to the call", () => {
+    const invoke = jest.fn((args: any[]) => args[0]);
+    const replaceArgs: ESPCDFAdaptorMiddleware = (context, next) => {
+      context.args = ["replaced"];
+      return next();
+    };
+
+    expect(runCall([replaceArgs], invoke, ["original"])).toBe("replaced");
+  });
+
+  test("keeps synchronous calls synchronous through the built-in middleware", () => {
+    const middlewares = [
+      createLoggingMiddleware({ log: jest.fn(), error: jest.fn() }),
+      createTimingMiddleware(jest.fn()),
+      createRetryMiddleware(),
+      createAuthRefreshMiddleware({ refresh: jest.fn() }),
+      createRedactionMiddleware(),
+      createFaultInjectionMiddleware({ errorRate: 0 }),
+    ];
+
+    expect(runCall(middlewares, () => 42)).toBe(42);
+    expect(() =>
+      runCall(middlewares, () => {
+        throw new Error("sync failure");
+      })
+    ).toThrow("sync failure");
+  });
+});
+
+describe("createLoggingMiddleware", () => {
+  test("logs calls and failures to the given logger", async () => {
+    const logger = { log: jest.fn(), error: jest.fn() };
+    const logging = createLoggingMiddleware(logger, { logArgs: true });
+
+    await runCall([createRedactionMiddleware(), logging], async () => "ok", [
+      { username: "user", password: "secret" },
+    ]);
+    await expect(
+      runCall([logging], () => Promise.reject(new Error("failed")))
+    ).rejects.toThrow("failed");
+
+    expect(logger.log).toHaveBeenCalledWith(
+      "[AdaptorMiddleware] test.call called with",
+      [{ username: "user", password: "[REDACTED]" }]
+    );
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createRetryMiddleware", () => {
+  test("retries transient errors", async () => {
+    const invoke = jest
+      .fn()
+      .mockRejectedValueOnce(statusError(503))
+      .mockResolvedValueOnce("ok");
+
+    await expect(runCall([createRetryMiddleware()], invoke)).resolves.toBe(
+      "ok"
+    );
+    expect(invoke).toHaveBeenCalledTimes(2);
+  });
+
+  test("does not retry other errors or past the retry count", async () => {
+    const notFound = jest.fn().mockRejectedValue(statusError(404));
+    const unavailable = jest.fn().mockRejectedValue(statusError(503));
+
+    await expect(runCall([createRetryMiddleware()], notFound)).rejects.toThrow(
+      "status 404"
+    );
+    await expect(
+      runCall([createRetryMiddleware({ retries: 1 })], unavailable)
+    ).rejects.toThrow("status 503");
+    expect(notFound).toHaveBeenCalledTimes(1);
+    expect(unavailable).toHaveBeenCalledTimes(2);
+  });
+
+  test("retries synchronous calls synchronously", () => {
+    let attempts = 0;
+    const result = runCall(
+      [createRetryMiddleware({ shouldRetry: () => true })],
+      () => {
+        attempts++;
+        if (attempts < 3) throw new Error("flaky");
+        return attempts;
+      }
+    );
+
+    expect(result).toBe(3);
+  });
+});
+
+describe("isTransientError", () => {
+  test("accepts timeouts, gateway errors and network failures", () => {
+    expect(isTransientError(statusError(429))).toBe(true);
+    expect(isTransientError(statusError(504))).toBe(true);
+    expect(isTransientError({ code: "ECONNRESET" })).toBe(true);
+    expect(isTransientError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isTransientError(statusError(400))).toBe(false);
+    expect(isTransientError(new Error("invalid value"))).toBe(false);
+  });
+});
+
+describe("createAuthRefreshMiddleware", () => {
+  test("refreshes once for concurrent auth failures, then retries", async () => {
+    let token = "expired";
+    const refresh = jest.fn(async () => {
+      token = "fresh";
+    });
+    const auth = createAuthRefreshMiddleware({ refresh });
+    const invoke = async () => {
+      if (token === "expired") throw statusError(401);
+      return token;
+    };
+
+    const results = await Promise.all([
+      runCall([auth], invoke),
+      runCall([auth], invoke),
+    ]);
+
+    expect(results).toEqual(["fresh", "fresh"]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  test("does not intercept calls issued by refresh", async () => {
+    const calls: ESPCDFAdaptorCallContext[] = [];
+    let auth: ESPCDFAdaptorMiddleware;
+    const refresh = jest.fn(async (_context, asRefreshCall) => {
+      await Promise.resolve();
+      await expect(
+        asRefreshCall(() =>
+          runCall([auth], () => Promise.reject(statusError(401)))
+        )
+      ).rejects.toThrow("status 401");
+    });
+    auth = createAuthRefreshMiddleware({ refresh });
+    const record: ESPCDFAdaptorMiddleware = (context, next) => {
+      calls.push(context);
+      return next();
+    };
+
+    await expect(
+      runCall([record, auth], () => Promise.reject(statusError(401)))
+    ).rejects.toThrow("status 401");
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("createFaultInjectionMiddleware", () => {
+  test("fails matching calls", async () => {
+    const fault = createFaultInjectionMiddleware({
+      filter: (context) => context.args[0] === "fail",
+    });
+
+    await expect(
+      runCall([fault], async () => "ok", ["fail"])
+    ).rejects.toMatchObject({ errorCode: "FAULT_INJECTED" });
+    await expect(runCall([fault], async () => "ok", ["pass"])).resolves.toBe(
+      "ok"
+    );
+    expect(() => runCall([fault], () => "ok", ["fail"])).toThrow(
+      expect.objectContaining({ errorCode: "FAULT_INJECTED" })
+    );
+  });
+
+  test("fails calls at the given rate", async () => {
+    const fault = createFaultInjectionMiddleware({
+      errorRate: 0.5,
+      random: jest.fn().mockReturnValueOnce(0.7).mockReturnValueOnce(0.2),
+    });
+
+    await expect(runCall([fault], async () => "ok")).resolves.toBe("ok");
+    await expect(runCall([fault], async () => "ok")).rejects.toBeDefined();
+  });
+});
+
+describe("AdaptorRegistry.use", () => {
+  test("intercepts adaptor calls and entity operations", async () => {
+    const registry = new AdaptorRegistry();
+    registry.register(new ESPCDFInMemoryAdaptor());
+    const methods: string[] = [];
+    const remove = registry.use((context, next) => {
+      methods.push(`${context.kind}:${context.method}`);
+      return next();
+    });
+    const adaptor = registry.getAdaptor("inMemory");
+
+    const { data: user } = await adaptor.login({
+      request: {
+        username: IN_MEMORY_DEMO_USERNAME,
+        password: IN_MEMORY_DEMO_PASSWORD,
+      },
+    });
+    await user.operations.getUserInfo();
+    remove();
+    await user.operations.getUserInfo();
+
+    expect(methods).toEqual(["adaptor:login", "operations:getUserInfo"]);
+  });
+});
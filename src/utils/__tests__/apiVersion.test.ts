@@ -0,0 +1,109 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AdaptorRegistry } from "../../registry";
+import { ESPCDFInMemoryAdaptor } from "../../testing";
+import {
+  checkAdaptorCompatibility,
+  ESPCDF_API_VERSION,
+  ESPCDF_DEPRECATED_OPERATIONS,
+  getCDFApiFeatures,
+  parseCDFApiVersion,
+} from "../apiVersion";
+
+const withVersion = (cdfApiVersion?: string, cdfFeatures?: string[]) =>
+  Object.assign(new ESPCDFInMemoryAdaptor(), { cdfApiVersion, cdfFeatures });
+
+describe("parseCDFApiVersion", () => {
+  test("parses major.minor with an optional patch", () => {
+    expect(parseCDFApiVersion("2.1")).toEqual({ major: 2, minor: 1 });
+    expect(parseCDFApiVersion(" 3.0.4 ")).toEqual({ major: 3, minor: 0 });
+    expect(parseCDFApiVersion("v2")).toBeNull();
+  });
+});
+
+describe("checkAdaptorCompatibility", () => {
+  test("accepts adaptors on the same major version", () => {
+    const report = checkAdaptorCompatibility(new ESPCDFInMemoryAdaptor());
+
+    expect(report).toMatchObject({
+      compatible: true,
+      coreApiVersion: ESPCDF_API_VERSION,
+      adaptorApiVersion: ESPCDF_API_VERSION,
+      issues: [],
+      missingOperations: [],
+      featuresDeclared: true,
+    });
+  });
+
+  test("rejects other major versions and malformed versions", () => {
+    expect(checkAdaptorCompatibility(withVersion("1.9")).compatible).toBe(
+      false
+    );
+    expect(checkAdaptorCompatibility(withVersion("latest")).compatible).toBe(
+      false
+    );
+  });
+
+  test("accepts undeclared and newer minor versions with an issue", () => {
+    const undeclared = checkAdaptorCompatibility(withVersion(undefined));
+    const newer = checkAdaptorCompatibility(withVersion("2.99"));
+
+    expect(undeclared.compatible).toBe(true);
+    expect(undeclared.issues[0]).toContain("does not declare cdfApiVersion");
+    expect(newer.compatible).toBe(true);
+    expect(newer.issues[0]).toContain("newer features are ignored");
+  });
+
+  test("reports missing, deprecated and unknown features", () => {
+    const features = getCDFApiFeatures().filter(
+      (feature) => feature !== "node.setMultipleParams"
+    );
+    ESPCDF_DEPRECATED_OPERATIONS["node.setTimeZone"] = { since: "2.2.0" };
+    try {
+      const report = checkAdaptorCompatibility(
+        withVersion(ESPCDF_API_VERSION, [...features, "node.teleport"])
+      );
+
+      expect(report.missingOperations).toEqual(["node.setMultipleParams"]);
+      expect(report.deprecatedOperations).toEqual(["node.setTimeZone"]);
+      expect(report.unknownFeatures).toEqual(["node.teleport"]);
+    } finally {
+      delete ESPCDF_DEPRECATED_OPERATIONS["node.setTimeZone"];
+    }
+  });
+
+  test("only checks adaptor methods when no features are declared", () => {
+    const report = checkAdaptorCompatibility(
+      withVersion(ESPCDF_API_VERSION, undefined)
+    );
+
+    expect(report.featuresDeclared).toBe(false);
+    expect(report.missingOperations).toEqual([]);
+  });
+});
+
+describe("API version checks on registration", () => {
+  test("refuses incompatible adaptors", () => {
+    const registry = new AdaptorRegistry();
+
+    expect(() => registry.register(withVersion("1.0"))).toThrow(
+      expect.objectContaining({ errorCode: "ADAPTOR_API_VERSION_INCOMPATIBLE" })
+    );
+    expect(registry.getRegisteredAdaptorIdentifiers()).toEqual([]);
+  });
+
+  test("reports compatibility of registered adaptors", () => {
+    const registry = new AdaptorRegistry();
+    registry.register(new ESPCDFInMemoryAdaptor());
+
+    expect(registry.getCompatibilityReport("inMemory")).toMatchObject({
+      adaptorIdentifier: "inMemory",
+      compatible: true,
+    });
+    expect(() => registry.getCompatibilityReport("missing")).toThrow();
+  });
+});
@@ -0,0 +1,121 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFValidationError } from "../../errors";
+import { createInMemoryCDF } from "../../testing";
+import { assertParamValue, validateParamValue } from "../paramValidation";
+
+const brightness = {
+  name: "Brightness",
+  dataType: "int",
+  properties: ["read", "write"],
+  bounds: { min: 0, max: 100, step: 5 },
+};
+
+describe("validateParamValue", () => {
+  test("checks numeric bounds and steps", () => {
+    expect(validateParamValue(brightness, 50)).toEqual({
+      valid: true,
+      value: 50,
+    });
+    expect(validateParamValue(brightness, -5).code).toBe("BELOW_MIN");
+    expect(validateParamValue(brightness, 105).code).toBe("ABOVE_MAX");
+    expect(validateParamValue(brightness, 52).code).toBe("STEP_MISMATCH");
+    expect(validateParamValue(brightness, 2.5).code).toBe("TYPE_MISMATCH");
+  });
+
+  test("accepts float steps within rounding error", () => {
+    const temperature = {
+      name: "Temperature",
+      dataType: "float",
+      bounds: { min: 0, max: 1, step: 0.1 },
+    };
+
+    expect(validateParamValue(temperature, 0.3).valid).toBe(true);
+    expect(validateParamValue(temperature, 0.35).code).toBe("STEP_MISMATCH");
+  });
+
+  test("coerces string input to the data type", () => {
+    const power = { name: "Power", dataType: "bool" };
+    const config = { name: "Config", dataType: "object" };
+
+    expect(validateParamValue(brightness, "45").value).toBe(45);
+    expect(validateParamValue(power, "TRUE").value).toBe(true);
+    expect(validateParamValue(power, "on").code).toBe("TYPE_MISMATCH");
+    expect(validateParamValue(config, '{"a":1}').value).toEqual({ a: 1 });
+    expect(validateParamValue(config, "[1]").code).toBe("TYPE_MISMATCH");
+  });
+
+  test("checks allowed strings", () => {
+    const mode = {
+      name: "Mode",
+      dataType: "string",
+      bounds: { validStrings: ["auto", "cool"] },
+    };
+
+    expect(validateParamValue(mode, "cool").valid).toBe(true);
+    expect(validateParamValue(mode, "heat")).toMatchObject({
+      valid: false,
+      code: "INVALID_STRING",
+      message: 'must be one of "auto", "cool"',
+    });
+  });
+
+  test("rejects writes to params without the write property", () => {
+    expect(
+      validateParamValue({ ...brightness, properties: ["read"] }, 50).code
+    ).toBe("NOT_WRITABLE");
+    expect(
+      validateParamValue({ ...brightness, properties: undefined }, 50).valid
+    ).toBe(true);
+  });
+});
+
+describe("assertParamValue", () => {
+  test("throws typed validation errors", () => {
+    expect(() => assertParamValue(brightness, 200)).toThrow(
+      ESPCDFValidationError
+    );
+    expect(() => assertParamValue(brightness, 200)).toThrow(
+      expect.objectContaining({
+        errorCode: "PARAM_VALUE_INVALID",
+        message: "Invalid value for param Brightness: must be at most 100",
+      })
+    );
+    expect(() =>
+      assertParamValue({ ...brightness, properties: ["read"] }, 50)
+    ).toThrow(expect.objectContaining({ errorCode: "PARAM_NOT_WRITABLE" }));
+  });
+
+  test("keeps invalid writes from reaching the adaptor", async () => {
+    const { cdf, adaptor } = await createInMemoryCDF();
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const calls = jest.fn();
+    cdf.sdkAdaptorRegistry.use((context, next) => {
+      calls(context.method);
+      return next();
+    });
+    const node = cdf.nodeStore.getNodeById("node_light")!;
+    const param = node.devices![0].params.find((p) => p.name === "Brightness")!;
+
+    await expect(param.setValue(150)).rejects.toMatchObject({
+      errorCode: "PARAM_VALUE_INVALID",
+    });
+    await expect(
+      node.setMultipleParams({ Light: [{ Brightness: "loud" }] })
+    ).rejects.toMatchObject({ errorCode: "PARAM_VALUE_INVALID" });
+    await param.setValue("30");
+
+    expect(calls.mock.calls).toEqual([["setMultipleParams"]]);
+    expect(
+      adaptor.backend
+        .getNode("node_light")
+        .devices[0].params.find((p) => p.name === "Brightness")!.value
+    ).toBe(30);
+    jest.restoreAllMocks();
+    await cdf.destroy();
+  });
+});
@@ -0,0 +1,147 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ESPCDFAdaptorConfigField,
+  ESPCDFAdaptorConfigIssue,
+  ESPCDFAdaptorConfigSchema,
+  ESPCDFAdaptorConfigValidationResult,
+} from "../types/adaptorConfig";
+import { redactSensitiveData } from "./adaptorMiddleware";
+
+const REDACTED_VALUE = "[REDACTED]";
+const URL_PATTERN = /^[a-z][a-z\d+.-]*:\/\/[^\s/?#]+[^\s]*$/i;
+
+const isMissing = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+function checkType(
+  field: ESPCDFAdaptorConfigField,
+  value: unknown
+): string | undefined {
+  switch (field.type) {
+    case "string":
+      return typeof value === "string" ? undefined : "must be a string";
+    case "number":
+      return typeof value === "number" && !Number.isNaN(value)
+        ? undefined
+        : "must be a number";
+    case "boolean":
+      return typeof value === "boolean" ? undefined : "must be a boolean";
+    case "url":
+      return typeof value === "string" && URL_PATTERN.test(value)
+        ? undefined
+        : "must be a URL with a scheme, e.g. https://example.com";
+    case "object":
+      return typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value)
+        ? undefined
+        : "must be an object";
+    case "array":
+      return Array.isArray(value) ? undefined : "must be an array";
+    default:
+      return undefined;
+  }
+}
+
+function checkField(
+  field: ESPCDFAdaptorConfigField,
+  value: any,
+  config: Record<string, any>
+): string | undefined {
+  const typeError = checkType(field, value);
+  if (typeError) {
+    return typeError;
+  }
+  if (field.enum && !field.enum.includes(value)) {
+    return `must be one of ${field.enum.map((item) => JSON.stringify(item)).join(", ")}`;
+  }
+  const size = typeof value === "number" ? value : value?.length;
+  const unit = typeof value === "number" ? "" : " in length";
+  if (typeof size === "number") {
+    if (field.min !== undefined && size < field.min) {
+      return `must be at least ${field.min}${unit}`;
+    }
+    if (field.max !== undefined && size > field.max) {
+      return `must be at most ${field.max}${unit}`;
+    }
+  }
+  if (
+    field.pattern &&
+    typeof value === "string" &&
+    !field.pattern.test(value)
+  ) {
+    return `must match ${field.pattern}`;
+  }
+  return field.validate?.(value, config);
+}
+
+/**
+ * Validates an adaptor config against a schema and applies defaults.
+ * @param schema - Config schema declared by the adaptor
+ * @param config - Config provided to the adaptor
+ * @returns Validation issues, one per invalid field, and the resolved config
+ */
+export function validateAdaptorConfig(
+  schema: ESPCDFAdaptorConfigSchema,
+  config: Record<string, any> = {}
+): ESPCDFAdaptorConfigValidationResult {
+  const resolved: Record<string, any> = { ...config };
+  Object.entries(schema).forEach(([key, field]) => {
+    if (isMissing(resolved[key]) && field.default !== undefined) {
+      resolved[key] = field.default;
+    }
+  });
+
+  const issues: ESPCDFAdaptorConfigIssue[] = [];
+  Object.entries(schema).forEach(([key, field]) => {
+    const value = resolved[key];
+    const message = isMissing(value)
+      ? field.required
+        ? "is required"
+        : undefined
+      : checkField(field, value, resolved);
+    if (message) {
+      issues.push(
+        field.secret ? { field: key, message } : { field: key, message, value }
+      );
+    }
+  });
+
+  return { valid: issues.length === 0, issues, config: resolved };
+}
+
+/**
+ * Returns a copy of an adaptor config that is safe to log or display.
+ * Secret schema fields and well-known credential keys are redacted.
+ * @param config - Adaptor config
+ * @param schema - Config schema declared by the adaptor, if any
+ * @returns Redacted copy of the config
+ */
+export function redactAdaptorConfig(
+  config: Record<string, any>,
+  schema?: ESPCDFAdaptorConfigSchema
+): Record<string, any> {
+  const redacted = redactSensitiveData(config);
+  Object.entries(schema ?? {}).forEach(([key, field]) => {
+    if (field.secret && !isMissing(redacted[key])) {
+      redacted[key] = REDACTED_VALUE;
+    }
+  });
+  return redacted;
+}
+
+/**
+ * Formats config issues as `<field> <message>` entries for error messages.
+ * @param issues - Issues returned by {@link validateAdaptorConfig}
+ * @returns Issues joined by `; `
+ */
+export function formatAdaptorConfigIssues(
+  issues: ESPCDFAdaptorConfigIssue[]
+): string {
+  return issues.map((issue) => `${issue.field} ${issue.message}`).join("; ");
+}
@@ -0,0 +1,599 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFAdaptorError } from "../errors";
+import type { AdaptorRegistry } from "../registry";
+import {
+  ESPCDFAdaptorCallContext,
+  ESPCDFAdaptorCallFilter,
+  ESPCDFAdaptorCallKind,
+  ESPCDFAdaptorCallLogger,
+  ESPCDFAdaptorCallTiming,
+  ESPCDFAdaptorMiddleware,
+  ESPCDFAdaptorMiddlewareNext,
+  ESPCDFAuthRefreshMiddlewareOptions,
+  ESPCDFFaultInjectionMiddlewareOptions,
+  ESPCDFLoggingMiddlewareOptions,
+  ESPCDFRedactionMiddlewareOptions,
+  ESPCDFRetryMiddlewareOptions,
+} from "../types/middleware";
+import { ERROR_MESSAGE_MAP } from "./common";
+
+/**
+ * Middleware source for the calls of one adaptor.
+ * Middleware are read on every call, so middleware registered later also
+ * apply to entities created earlier.
+ */
+export interface ESPCDFMiddlewarePipeline {
+  adaptorIdentifier: string;
+  /** Registry the adaptor is registered with */
+  registry?: AdaptorRegistry;
+  getMiddlewares(): readonly ESPCDFAdaptorMiddleware[];
+}
+
+// Entity fields that never hold entities created by the adaptor
+const NON_ENTITY_KEYS = new Set([
+  "_raw",
+  "operations",
+  "events",
+  "operationsEvents",
+  "propertyChangeEmitter",
+  "__storeCallbacks",
+]);
+
+// Wrapped operations delegates and the pipeline they route calls through
+const wrappedOperations = new WeakMap<object, ESPCDFMiddlewarePipeline>();
+
+// State copied into the context of calls started inside `runWithCallState`
+let ambientCallState: Record<string, any> | undefined;
+
+/**
+ * Runs a callback, adding state to the context of every adaptor call it
+ * starts synchronously. Lets middleware recognise calls they issued themselves.
+ */
+function runWithCallState<T>(state: Record<string, any>, callback: () => T): T {
+  const previous = ambientCallState;
+  ambientCallState = { ...previous, ...state };
+  try {
+    return callback();
+  } finally {
+    ambientCallState = previous;
+  }
+}
+
+/**
+ * Runs an adaptor call through the middleware pipeline.
+ *
+ * Synchronous adaptor methods stay synchronous as long as every middleware
+ * in the chain returns synchronously; the call is made directly when no
+ * middleware is registered. Entities in the result get their `operations`
+ * delegates wrapped so that their calls pass through the same pipeline.
+ * @param pipeline - Middleware source of the adaptor
+ * @param kind - Whether the call targets the adaptor or an operations delegate
+ * @param method - Method or operation name
+ * @param target - Adaptor or entity the call was made on
+ * @param args - Call arguments
+ * @param invoke - Performs the call with the (possibly replaced) arguments
+ * @returns The call result
+ */
+export function callThroughMiddleware(
+  pipeline: ESPCDFMiddlewarePipeline,
+  kind: ESPCDFAdaptorCallKind,
+  method: string,
+  target: object,
+  args: any[],
+  invoke: (args: any[]) => any
+): any {
+  const invokeAndWrap = (callArgs: any[]) => {
+    const result = invoke(callArgs);
+    if (isPromiseLike(result)) {
+      return result.then((value: unknown) =>
+        wrapEntityOperations(pipeline, value)
+      );
+    }
+    return wrapEntityOperations(pipeline, result);
+  };
+
+  const middlewares = pipeline.getMiddlewares().slice();
+  if (middlewares.length === 0) {
+    return invokeAndWrap(args);
+  }
+
+  const context: ESPCDFAdaptorCallContext = {
+    adaptorIdentifier: pipeline.adaptorIdentifier,
+    kind,
+    method,
+    target,
+    args,
+    state: { ...ambientCallState },
+  };
+  const dispatch = (index: number): any => {
+    if (index === middlewares.length) {
+      return invokeAndWrap(context.args);
+    }
+    return middlewares[index](context, () => dispatch(index + 1));
+  };
+  return dispatch(0);
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<any> {
+  return !!value && typeof (value as PromiseLike<any>).then === "function";
+}
+
+/**
+ * Calls `next` and reports its outcome, synchronously for synchronous results
+ */
+function observeCall(
+  next: ESPCDFAdaptorMiddlewareNext,
+  onSettled: (success: boolean, error?: unknown) => void
+): any {
+  let result: any;
+  try {
+    result = next();
+  } catch (error) {
+    onSettled(false, error);
+    throw error;
+  }
+  if (!isPromiseLike(result)) {
+    onSettled(true);
+    return result;
+  }
+  return Promise.resolve(result).then(
+    (value) => {
+      onSettled(true);
+      return value;
+    },
+    (error) => {
+      onSettled(false, error);
+      throw error;
+    }
+  );
+}
+
+function wrapOperations(
+  pipeline: ESPCDFMiddlewarePipeline,
+  entity: Record<string, any>
+): void {
+  const operations = entity.operations;
+  if (wrappedOperations.has(operations)) {
+    return;
+  }
+  const proxy = new Proxy(operations, {
+    get(target, prop, receiver) {
+      const orig = Reflect.get(target, prop, receiver);
+      if (typeof orig !== "function" || typeof prop !== "string") {
+        return orig;
+      }
+      return function (...args: any[]) {
+        return callThroughMiddleware(
+          pipeline,
+          "operations",
+          prop,
+          entity,
+          args,
+          (callArgs) => orig.apply(target, callArgs)
+        );
+      };
+    },
+  });
+  wrappedOperations.set(proxy, pipeline);
+  entity.operations = proxy;
+}
+
+function isTraversable(value: unknown): value is Record<string, any> {
+  if (!value || typeof value !== "object" || value instanceof Error) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return (
+    Array.isArray(value) ||
+    proto === Object.prototype ||
+    proto === null ||
+    (typeof (value as Record<string, any>).operations === "object" &&
+      (value as Record<string, any>).operations !== null)
+  );
+}
+
+/**
+ * Wraps the `operations` delegates of every entity in an adaptor result,
+ * including nested entities (subgroups, devices, params, …) and pages
+ * returned by `pagination.fetchNext`.
+ * @param pipeline - Middleware source of the adaptor that created the entities
+ * @param value - Adaptor call result
+ * @param visited - Objects already traversed
+ * @returns The same value
+ */
+export function wrapEntityOperations<T>(
+  pipeline: ESPCDFMiddlewarePipeline,
+  value: T,
+  visited: WeakSet<object> = new WeakSet()
+): T {
+  if (!isTraversable(value) || visited.has(value)) {
+    return value;
+  }
+  visited.add(value);
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => wrapEntityOperations(pipeline, item, visited));
+    return value;
+  }
+
+  if (typeof value.operations === "object" && value.operations !== null) {
+    wrapOperations(pipeline, value);
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (NON_ENTITY_KEYS.has(key)) continue;
+    if (key === "fetchNext" && typeof child === "function") {
+      (value as Record<string, any>).fetchNext = (...args: any[]) =>
+        callThroughMiddleware(
+          pipeline,
+          "operations",
+          "fetchNext",
+          value,
+          args,
+          (callArgs) => child(...callArgs)
+        );
+      continue;
+    }
+    wrapEntityOperations(pipeline, child, visited);
+  }
+  return value;
+}
+
+/**
+ * Returns the registry whose adaptor created an entity.
+ * Entity copies share the `operations` delegate, so they resolve to the same registry.
+ * @param entity - Entity returned by a registered adaptor
+ * @returns The registry, or undefined for entities not created through a registry
+ */
+export function getEntityAdaptorRegistry(entity: {
+  operations?: unknown;
+}): AdaptorRegistry | undefined {
+  const operations = entity.operations;
+  if (!operations || typeof operations !== "object") {
+    return undefined;
+  }
+  return wrappedOperations.get(operations)?.registry;
+}
+
+const applies = (
+  filter: ESPCDFAdaptorCallFilter | undefined,
+  context: ESPCDFAdaptorCallContext
+) => !filter || filter(context);
+
+const delay = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const describeCall = (context: ESPCDFAdaptorCallContext) =>
+  `${context.adaptorIdentifier}.${context.kind === "operations" ? "operations." : ""}${context.method}`;
+
+/**
+ * Logs the start, result and duration of adaptor calls.
+ * Register the redaction middleware first to log redacted arguments.
+ * @param logger - Receives the log lines, e.g. `console`
+ * @param options - Whether to log arguments and a call filter
+ * @returns Logging middleware
+ * @example
+ * registry.use(createLoggingMiddleware(console, { logArgs: true }));
+ */
+export function createLoggingMiddleware(
+  logger: ESPCDFAdaptorCallLogger,
+  options: ESPCDFLoggingMiddlewareOptions = {}
+): ESPCDFAdaptorMiddleware {
+  const { logArgs = false, filter } = options;
+  return (context, next) => {
+    if (!applies(filter, context)) return next();
+    const name = describeCall(context);
+    const startedAt = Date.now();
+    if (logArgs) {
+      logger.log(
+        `[AdaptorMiddleware] ${name} called with`,
+        context.redactedArgs ?? context.args
+      );
+    } else {
+      logger.log(`[AdaptorMiddleware] ${name} called`);
+    }
+    return observeCall(next, (success, error) => {
+      if (success) {
+        logger.log(
+          `[AdaptorMiddleware] ${name} succeeded in ${Date.now() - startedAt}ms`
+        );
+      } else {
+        logger.error(
+          `[AdaptorMiddleware] ${name} failed in ${Date.now() - startedAt}ms:`,
+          error
+        );
+      }
+    });
+  };
+}
+
+/**
+ * Reports the duration of adaptor calls.
+ * @param onTiming - Receives one timing per call
+ * @param filter - Optional call filter
+ * @returns Timing middleware
+ */
+export function createTimingMiddleware(
+  onTiming: (timing: ESPCDFAdaptorCallTiming) => void,
+  filter?: ESPCDFAdaptorCallFilter
+): ESPCDFAdaptorMiddleware {
+  return (context, next) => {
+    if (!applies(filter, context)) return next();
+    const startedAt = Date.now();
+    return observeCall(next, (success) =>
+      onTiming({
+        adaptorIdentifier: context.adaptorIdentifier,
+        kind: context.kind,
+        method: context.method,
+        durationMs: Date.now() - startedAt,
+        success,
+      })
+    );
+  };
+}
+
+const TRANSIENT_STATUS_CODES = new Set([408, 425, 429, 502, 503, 504]);
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "EAI_AGAIN",
+]);
+
+/**
+ * Whether an error is likely to go away on retry: a timeout, rate limit or
+ * gateway status code, or a network failure that produced no response.
+ * Used as the default retry predicate of `createRetryMiddleware`.
+ * @param error - Error thrown by an adaptor call
+ * @returns True for transient and network errors
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const { statusCode, code, name, message } = error as {
+    statusCode?: unknown;
+    code?: unknown;
+    name?: unknown;
+    message?: unknown;
+  };
+  if (typeof statusCode === "number") {
+    return TRANSIENT_STATUS_CODES.has(statusCode);
+  }
+  if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) {
+    return true;
+  }
+  // fetch rejects with a TypeError when the request could not be sent
+  return (
+    name === "TypeError" &&
+    typeof message === "string" &&
+    /network|failed to fetch/i.test(message)
+  );
+}
+
+/**
+ * Retries failed adaptor calls with exponential backoff.
+ * Only transient and network errors are retried unless `shouldRetry` is
+ * given; pass a predicate to retry other errors, keeping in mind that
+ * non-idempotent calls may then run twice.
+ * Synchronous calls stay synchronous and are retried without the delay.
+ * The attempt number is available to inner middleware as `context.state.attempt`.
+ * @param options - Retry count, delay, retry predicate and call filter
+ * @returns Retry middleware
+ */
+export function createRetryMiddleware(
+  options: ESPCDFRetryMiddlewareOptions = {}
+): ESPCDFAdaptorMiddleware {
+  const {
+    retries = 2,
+    delayMs = 0,
+    shouldRetry = isTransientError,
+    filter,
+  } = options;
+  const retry = (
+    context: ESPCDFAdaptorCallContext,
+    next: ESPCDFAdaptorMiddlewareNext,
+    attempt = 0
+  ): any => {
+    context.state.attempt = attempt;
+    const canRetry = (error: unknown) =>
+      attempt < retries && shouldRetry(error, context);
+    let result: any;
+    try {
+      result = next();
+    } catch (error) {
+      if (!canRetry(error)) throw error;
+      return retry(context, next, attempt + 1);
+    }
+    if (!isPromiseLike(result)) {
+      return result;
+    }
+    return Promise.resolve(result).catch(async (error) => {
+      if (!canRetry(error)) throw error;
+      if (delayMs > 0) {
+        await delay(delayMs * 2 ** attempt);
+      }
+      return retry(context, next, attempt + 1);
+    });
+  };
+  return (context, next) =>
+    applies(filter, context) ? retry(context, next) : next();
+}
+
+const isUnauthorizedError = (error: unknown) =>
+  (error as { statusCode?: number } | null)?.statusCode === 401;
+
+/**
+ * Refreshes credentials and retries once when a call fails with an auth error.
+ * Calls that fail while a refresh is running wait for it, then retry.
+ *
+ * Calls issued by `refresh` are not intercepted, so it may itself call the
+ * adaptor. Calls it starts synchronously are recognised automatically; wrap
+ * calls made after an `await` in the `asRefreshCall` callback it receives.
+ * Synchronous calls pass through unchanged, as a refresh cannot complete
+ * synchronously.
+ * @param options - Auth error predicate, refresh callback and call filter
+ * @returns Auth refresh middleware
+ */
+export function createAuthRefreshMiddleware(
+  options: ESPCDFAuthRefreshMiddlewareOptions
+): ESPCDFAdaptorMiddleware {
+  const { isAuthError = isUnauthorizedError, refresh, filter } = options;
+  // Identifies the calls issued by this middleware's refresh
+  const refreshMarker = {};
+  const asRefreshCall = <T>(call: () => T): T =>
+    runWithCallState({ authRefresh: refreshMarker }, call);
+  let refreshing: Promise<void> | null = null;
+
+  const callWithRefresh = (
+    context: ESPCDFAdaptorCallContext,
+    next: ESPCDFAdaptorMiddlewareNext
+  ) => {
+    const result = next();
+    if (!isPromiseLike(result)) {
+      return result;
+    }
+    return Promise.resolve(result).catch(async (error) => {
+      if (!isAuthError(error)) {
+        throw error;
+      }
+      if (!refreshing) {
+        refreshing = asRefreshCall(() =>
+          refresh(context, asRefreshCall)
+        ).finally(() => {
+          refreshing = null;
+        });
+      }
+      await refreshing;
+      return next();
+    });
+  };
+  return (context, next) =>
+    context.state.authRefresh === refreshMarker || !applies(filter, context)
+      ? next()
+      : callWithRefresh(context, next);
+}
+
+const DEFAULT_REDACTED_KEYS = [
+  "password",
+  "oldPassword",
+  "newPassword",
+  "verificationCode",
+  "accessToken",
+  "refreshToken",
+  "idToken",
+  "token",
+  "proofOfPossession",
+  "softAPPassword",
+];
+
+/**
+ * Returns a copy of a value with sensitive keys replaced.
+ * @param value - Value to redact
+ * @param keys - Keys to redact, matched case-insensitively
+ * @param replacement - Replacement value
+ * @returns Redacted copy
+ */
+export function redactSensitiveData(
+  value: unknown,
+  keys: string[] = DEFAULT_REDACTED_KEYS,
+  replacement = "[REDACTED]"
+): any {
+  const lowerKeys = new Set(keys.map((key) => key.toLowerCase()));
+  const redact = (item: unknown, visited: WeakSet<object>): unknown => {
+    if (!item || typeof item !== "object") return item;
+    if (visited.has(item)) return item;
+    visited.add(item);
+    if (Array.isArray(item)) {
+      return item.map((child) => redact(child, visited));
+    }
+    const proto = Object.getPrototypeOf(item);
+    if (proto !== Object.prototype && proto !== null) return item;
+    return Object.fromEntries(
+      Object.entries(item).map(([key, child]) => [
+        key,
+        lowerKeys.has(key.toLowerCase()) ? replacement : redact(child, visited),
+      ])
+    );
+  };
+  return redact(value, new WeakSet());
+}
+
+/**
+ * Sets `context.redactedArgs` to a copy of the arguments with sensitive keys
+ * replaced. The arguments passed to the adaptor are not modified.
+ * @param options - Keys to redact and replacement value
+ * @returns Redaction middleware
+ */
+export function createRedactionMiddleware(
+  options: ESPCDFRedactionMiddlewareOptions = {}
+): ESPCDFAdaptorMiddleware {
+  const { keys = DEFAULT_REDACTED_KEYS, replacement } = options;
+  return (context, next) => {
+    context.redactedArgs = redactSensitiveData(context.args, keys, replacement);
+    return next();
+  };
+}
+
+/**
+ * Injects latency and failures into adaptor calls, e.g. to test error handling.
+ *
+ * Matching calls still reach the adaptor; an injected error replaces their
+ * result, like a response lost on the way back. Synchronous calls stay
+ * synchronous: they throw the error and are not delayed.
+ * @param options - Error rate, latency, error factory, random source and call filter
+ * @returns Fault injection middleware
+ */
+export function createFaultInjectionMiddleware(
+  options: ESPCDFFaultInjectionMiddlewareOptions = {}
+): ESPCDFAdaptorMiddleware {
+  const {
+    errorRate = 1,
+    latencyMs = 0,
+    error = (context: ESPCDFAdaptorCallContext) =>
+      new ESPCDFAdaptorError(
+        ERROR_MESSAGE_MAP.FAULT_INJECTED(describeCall(context)),
+        "FAULT_INJECTED",
+        {
+          adaptorIdentifier: context.adaptorIdentifier,
+          method: context.method,
+        }
+      ),
+    random = Math.random,
+    filter,
+  } = options;
+  const inject = (
+    context: ESPCDFAdaptorCallContext,
+    next: ESPCDFAdaptorMiddlewareNext
+  ) => {
+    const fails = random() < errorRate;
+    const result = next();
+    if (!isPromiseLike(result)) {
+      if (fails) throw error(context);
+      return result;
+    }
+    const response =
+      latencyMs > 0
+        ? Promise.resolve(result).finally(() => delay(latencyMs))
+        : Promise.resolve(result);
+    return response.then(
+      (value) => {
+        if (fails) throw error(context);
+        return value;
+      },
+      (callError) => {
+        throw fails ? error(context) : callError;
+      }
+    );
+  };
+  return (context, next) =>
+    applies(filter, context) ? inject(context, next) : next();
+}
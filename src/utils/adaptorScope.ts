@@ -0,0 +1,111 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Separator between the adaptor identifier and the entity id in scoped keys.
+ */
+export const ADAPTOR_SCOPED_KEY_SEPARATOR = "::";
+
+/**
+ * Minimal shape of an entity that can be stored under an adaptor-scoped key.
+ */
+export interface ESPCDFAdaptorScopedEntity {
+  id: string;
+  adaptorIdentifier?: string;
+  identifier?: string;
+}
+
+/**
+ * Builds the store key for an entity id within an adaptor.
+ * Two adaptors returning the same id get distinct keys.
+ * @param adaptorIdentifier - Identifier of the adaptor that owns the entity
+ * @param id - Entity id as returned by the adaptor
+ * @returns Key of the form `<adaptorIdentifier>::<id>`
+ */
+export function getAdaptorScopedKey(
+  adaptorIdentifier: string | undefined,
+  id: string
+): string {
+  return `${adaptorIdentifier ?? ""}${ADAPTOR_SCOPED_KEY_SEPARATOR}${id}`;
+}
+
+/**
+ * Splits a key produced by {@link getAdaptorScopedKey}.
+ * @param key - Adaptor-scoped key
+ * @returns The adaptor identifier and entity id
+ */
+export function parseAdaptorScopedKey(key: string): {
+  adaptorIdentifier: string;
+  id: string;
+} {
+  const index = key.indexOf(ADAPTOR_SCOPED_KEY_SEPARATOR);
+  if (index === -1) {
+    return { adaptorIdentifier: "", id: key };
+  }
+  return {
+    adaptorIdentifier: key.slice(0, index),
+    id: key.slice(index + ADAPTOR_SCOPED_KEY_SEPARATOR.length),
+  };
+}
+
+/**
+ * Returns the adaptor identifier of an entity, falling back to `identifier`.
+ */
+export function getEntityAdaptorIdentifier(
+  entity: ESPCDFAdaptorScopedEntity
+): string | undefined {
+  return entity.adaptorIdentifier ?? entity.identifier;
+}
+
+/**
+ * Returns the adaptor-scoped store key of an entity.
+ */
+export function getEntityScopedKey(entity: ESPCDFAdaptorScopedEntity): string {
+  return getAdaptorScopedKey(getEntityAdaptorIdentifier(entity), entity.id);
+}
+
+/**
+ * Collapses an adaptor-scoped map into a map keyed by entity id.
+ * When several adaptors return the same id, the active adaptor's entity wins.
+ * @param entitiesByScopedKey - Entities keyed by adaptor-scoped key
+ * @param activeAdaptorIdentifier - Identifier of the active adaptor, if any
+ * @returns Entities keyed by id
+ */
+export function toIDKeyedMap<T extends ESPCDFAdaptorScopedEntity>(
+  entitiesByScopedKey: Record<string, T>,
+  activeAdaptorIdentifier: string | null
+): Record<string, T> {
+  const entitiesByID: Record<string, T> = {};
+  for (const entity of Object.values(entitiesByScopedKey)) {
+    const existing = entitiesByID[entity.id];
+    if (
+      !existing ||
+      (getEntityAdaptorIdentifier(entity) === activeAdaptorIdentifier &&
+        getEntityAdaptorIdentifier(existing) !== activeAdaptorIdentifier)
+    ) {
+      entitiesByID[entity.id] = entity;
+    }
+  }
+  return entitiesByID;
+}
+
+/**
+ * Groups entities by their adaptor identifier.
+ * @param entities - Entities to group
+ * @returns Entities keyed by adaptor identifier
+ */
+export function groupByAdaptor<T extends ESPCDFAdaptorScopedEntity>(
+  entities: T[]
+): Record<string, T[]> {
+  return entities.reduce(
+    (acc, entity) => {
+      const adaptorIdentifier = getEntityAdaptorIdentifier(entity) ?? "";
+      (acc[adaptorIdentifier] ??= []).push(entity);
+      return acc;
+    },
+    {} as Record<string, T[]>
+  );
+}
@@ -0,0 +1,256 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPSDKAdaptor } from "../types/adaptor";
+import {
+  ESPCDFAdaptorCompatibilityReport,
+  ESPCDFAPIDeprecation,
+  ESPCDFAPIOperationScope,
+  ESPCDFAPIScopeOperations,
+} from "../types/apiVersion";
+
+/**
+ * Version of the CDF API implemented by this core.
+ *
+ * The minor version is bumped when operations are added and the major version
+ * when operations are removed or their signatures change. Adaptors declare the
+ * version they were built against as `cdfApiVersion`.
+ */
+export const ESPCDF_API_VERSION = "2.2.0";
+
+/**
+ * Operations of the CDF API, by scope. Mirrors the adaptor and entity
+ * `operations` interfaces; keep in sync when those change.
+ */
+export const ESPCDF_API_OPERATIONS: Record<
+  ESPCDFAPIOperationScope,
+  ESPCDFAPIScopeOperations
+> = {
+  adaptor: {
+    required: [
+      "login",
+      "getCurrentLoggedInUser",
+      "loginWithOauth",
+      "getSignUpCode",
+      "confirmSignUp",
+      "forgotPassword",
+      "setNewPassword",
+    ],
+    optional: [],
+  },
+  user: {
+    required: [
+      "getUserInfo",
+      "updateUserInfo",
+      "getCustomData",
+      "setCustomData",
+      "changePassword",
+      "logout",
+      "updateName",
+      "requestAccountDeletion",
+      "confirmAccountDeletion",
+      "registerForNotification",
+      "unregisterForNotification",
+      "getIssuedGroupSharingRequests",
+      "getReceivedGroupSharingRequests",
+      "setTimeZone",
+      "createGroup",
+      "getGroups",
+      "createProvisioningDevice",
+      "searchESPDevices",
+      "searchESPBLEDevices",
+      "getGroupById",
+      "subscribeToEvent",
+      "unsubscribeFromEvent",
+      "setMultipleNodesParams",
+      "getNodeDetails",
+      "getAccessToken",
+    ],
+    optional: [
+      "createFabric",
+      "syncHomeWithNodes",
+      "setCurrentHome",
+      "createHome",
+      "addDevice",
+      "addOnNetworkDevice",
+      "subscribeToNodeUpdates",
+      "unsubscribeFromNodeUpdates",
+      "assumeRole",
+      "getGroupsAndFabrics",
+      "isUserNocAvailableForFabric",
+      "storePrecommissionInfo",
+    ],
+  },
+  group: {
+    required: [
+      "createSubGroup",
+      "delete",
+      "getNodes",
+      "getSubGroups",
+      "share",
+      "transfer",
+      "removeSharingFor",
+      "getSharingInfo",
+      "updateMetadata",
+      "updateGroupInfo",
+      "addNodes",
+      "removeNodes",
+      "leave",
+    ],
+    optional: [
+      "createScene",
+      "getScenes",
+      "getSceneCapableDevices",
+      "createSchedule",
+      "getSchedules",
+      "getScheduleCapableDevices",
+      "createAutomation",
+      "getAutomations",
+      "getFabricDetails",
+      "convertToMatterFabric",
+      "issueUserNoC",
+      "issueNodeNoC",
+      "getNodesWithDetails",
+      "startCommissioning",
+      "setParams",
+    ],
+  },
+  node: {
+    required: ["setMultipleParams", "delete", "setTimeZone", "updateMetadata"],
+    optional: [
+      "checkOTAUpdate",
+      "pushOTAUpdate",
+      "getOTAUpdateStatus",
+      "addAutomation",
+    ],
+  },
+  device: { required: ["getParams"], optional: [] },
+  service: { required: ["getParams"], optional: [] },
+  param: { required: ["setValue"], optional: [] },
+  scene: { required: ["add", "edit", "remove", "activate"], optional: [] },
+  schedule: {
+    required: ["add", "edit", "remove", "enable", "disable"],
+    optional: [],
+  },
+  automation: { required: ["update", "delete", "enable"], optional: [] },
+  groupSharingRequest: {
+    required: ["accept", "decline", "remove"],
+    optional: [],
+  },
+};
+
+/**
+ * Deprecated features, keyed by `<scope>.<operation>`.
+ */
+export const ESPCDF_DEPRECATED_OPERATIONS: Record<
+  string,
+  ESPCDFAPIDeprecation
+> = {};
+
+interface ParsedAPIVersion {
+  major: number;
+  minor: number;
+}
+
+/**
+ * Parses a `major.minor[.patch]` CDF API version.
+ * @param version - Version string
+ * @returns Major and minor version, or null if the version is malformed
+ */
+export function parseCDFApiVersion(version: string): ParsedAPIVersion | null {
+  const match = /^(\d+)\.(\d+)(?:\.\d+)?$/.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+  return { major: Number(match[1]), minor: Number(match[2]) };
+}
+
+/**
+ * Returns every feature of the CDF API as `<scope>.<operation>`.
+ * @param requiredOnly - Only return required operations
+ */
+export function getCDFApiFeatures(requiredOnly = false): string[] {
+  return Object.entries(ESPCDF_API_OPERATIONS).flatMap(([scope, operations]) =>
+    (requiredOnly
+      ? operations.required
+      : [...operations.required, ...operations.optional]
+    ).map((operation) => `${scope}.${operation}`)
+  );
+}
+
+/**
+ * Checks an adaptor against the CDF API implemented by this core.
+ *
+ * Adaptors targeting another major version are incompatible. Adaptor methods
+ * are checked on the adaptor itself; entity operations are checked against the
+ * declared `cdfFeatures`, when present.
+ * @param adaptor - The adaptor to check (unwrapped, not the registry Proxy)
+ * @returns Compatibility report for the adaptor
+ */
+export function checkAdaptorCompatibility(
+  adaptor: ESPSDKAdaptor
+): ESPCDFAdaptorCompatibilityReport {
+  const adaptorApiVersion = adaptor.cdfApiVersion ?? null;
+  const issues: string[] = [];
+  let compatible = true;
+
+  const core = parseCDFApiVersion(ESPCDF_API_VERSION)!;
+  if (adaptorApiVersion === null) {
+    issues.push(
+      `Adaptor does not declare cdfApiVersion; assuming CDF API ${ESPCDF_API_VERSION}`
+    );
+  } else {
+    const declared = parseCDFApiVersion(adaptorApiVersion);
+    if (!declared) {
+      compatible = false;
+      issues.push(`Malformed cdfApiVersion "${adaptorApiVersion}"`);
+    } else if (declared.major !== core.major) {
+      compatible = false;
+      issues.push(
+        `Adaptor targets CDF API ${adaptorApiVersion}, core implements ${ESPCDF_API_VERSION}`
+      );
+    } else if (declared.minor > core.minor) {
+      issues.push(
+        `Adaptor targets newer CDF API ${adaptorApiVersion}, core implements ${ESPCDF_API_VERSION}; newer features are ignored`
+      );
+    }
+  }
+
+  const knownFeatures = new Set(getCDFApiFeatures());
+  const featuresDeclared = Array.isArray(adaptor.cdfFeatures);
+  const implemented = new Set(adaptor.cdfFeatures ?? []);
+  ESPCDF_API_OPERATIONS.adaptor.required
+    .concat(ESPCDF_API_OPERATIONS.adaptor.optional)
+    .forEach((method) => {
+      if (typeof (adaptor as any)[method] === "function") {
+        implemented.add(`adaptor.${method}`);
+      }
+    });
+
+  const missingOperations = getCDFApiFeatures(true).filter(
+    (feature) =>
+      (featuresDeclared || feature.startsWith("adaptor.")) &&
+      !implemented.has(feature)
+  );
+  const deprecatedOperations = Array.from(implemented).filter(
+    (feature) => feature in ESPCDF_DEPRECATED_OPERATIONS
+  );
+  const unknownFeatures = (adaptor.cdfFeatures ?? []).filter(
+    (feature) => !knownFeatures.has(feature)
+  );
+
+  return {
+    adaptorIdentifier: adaptor._identifier,
+    coreApiVersion: ESPCDF_API_VERSION,
+    adaptorApiVersion,
+    compatible,
+    issues,
+    missingOperations,
+    deprecatedOperations,
+    unknownFeatures,
+    featuresDeclared,
+  };
+}
@@ -0,0 +1,48 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFRegistryError } from "../errors";
+import { ESPCDFAdaptorCapabilityType } from "../types/adaptor";
+import { getEntityAdaptorRegistry } from "./adaptorMiddleware";
+import { ERROR_MESSAGE_MAP } from "./common";
+
+/**
+ * Entity whose adaptor capabilities can be checked.
+ */
+export interface ESPCDFCapabilityCheckTarget {
+  /** Adaptor identifier carried by the entity */
+  identifier?: string;
+  operations?: unknown;
+}
+
+/**
+ * Fails fast when an entity's adaptor declared capabilities that exclude the requested one.
+ *
+ * Entities call this before delegating to optional `operations` so apps get an
+ * `ADAPTOR_CAPABILITY_NOT_SUPPORTED` registry error instead of a silent no-op.
+ * The check runs against the registry of the root store whose adaptor
+ * created the entity, so independent `ESPCDF` roots never share answers.
+ * @param target - The entity
+ * @param capability - The capability required by the operation
+ * @throws ESPCDFRegistryError if the entity was not created through a
+ * registry, or its adaptor does not support the capability
+ */
+export function assertAdaptorCapability(
+  target: ESPCDFCapabilityCheckTarget,
+  capability: ESPCDFAdaptorCapabilityType
+): void {
+  const adaptorIdentifier = target.identifier;
+  if (!adaptorIdentifier) return;
+  const registry = getEntityAdaptorRegistry(target);
+  if (!registry) {
+    throw new ESPCDFRegistryError(
+      ERROR_MESSAGE_MAP.SDK_ENTITY_REGISTRY_NOT_FOUND(adaptorIdentifier),
+      "ENTITY_REGISTRY_NOT_FOUND",
+      { adaptorIdentifier, capability }
+    );
+  }
+  registry.assertCapability(adaptorIdentifier, capability);
+}
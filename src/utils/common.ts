@@ -128,6 +128,21 @@ export const ERROR_MESSAGE_MAP = {
     `No more groups to fetch from SDK ${sdkSource}`,
   NODE_NOT_FOUND: (nodeId: string) => `Node with id ${nodeId} not found`,
   GROUP_NOT_FOUND: (groupId: string) => `Group with id ${groupId} not found`,
+  USER_NOT_FOUND: (username: string) => `User ${username} not found`,
+  USER_ALREADY_EXISTS: (username: string) => `User ${username} already exists`,
+  AUTOMATION_NOT_FOUND: (automationId: string) =>
+    `Automation with id ${automationId} not found`,
+  SHARING_REQUEST_NOT_FOUND: (requestId: string) =>
+    `Sharing request with id ${requestId} not found`,
+  OTA_JOB_NOT_FOUND: (otaJobId: string) =>
+    `OTA job with id ${otaJobId} not found`,
+  NODE_SERVICE_NOT_FOUND: (nodeId: string, serviceType: string) =>
+    `Node with id ${nodeId} does not have service ${serviceType}`,
+  INVALID_CREDENTIALS: `Incorrect username or password`,
+  INVALID_VERIFICATION_CODE: `Invalid verification code`,
+  OPERATION_NOT_SUPPORTED: (sdkIdentifier: string, operation: string) =>
+    `Operation ${operation} is not supported by SDK ${sdkIdentifier}`,
+  FAULT_INJECTED: (call: string) => `Fault injected into ${call}`,
   SDK_ADAPTOR_ALREADY_EXISTS: (sdkIdentifier: string) =>
     `SDK Adaptor with identifier ${sdkIdentifier} already exists in registry`,
   SDK_ADAPTOR_NOT_FOUND: (sdkIdentifier: string) =>
@@ -137,9 +152,52 @@ export const ERROR_MESSAGE_MAP = {
     propertyOrMethodName: string
   ) =>
     `SDK Adaptor with identifier ${sdkIdentifier} does not implement method or property ${propertyOrMethodName}`,
+  SDK_ADAPTOR_CAPABILITY_NOT_SUPPORTED: (
+    sdkIdentifier: string,
+    capability: string
+  ) =>
+    `SDK Adaptor with identifier ${sdkIdentifier} does not support ${capability} capability`,
+  SDK_ENTITY_REGISTRY_NOT_FOUND: (sdkIdentifier: string) =>
+    `Entity of SDK Adaptor with identifier ${sdkIdentifier} was not created through an SDK registry`,
+  SDK_ADAPTOR_CONFIG_INVALID: (sdkIdentifier: string, issues: string) =>
+    `SDK Adaptor with identifier ${sdkIdentifier} has an invalid config: ${issues}`,
+  SDK_ADAPTOR_API_VERSION_INCOMPATIBLE: (
+    sdkIdentifier: string,
+    adaptorApiVersion: string | null,
+    coreApiVersion: string
+  ) =>
+    `SDK Adaptor with identifier ${sdkIdentifier} targets CDF API ${adaptorApiVersion}, which is incompatible with CDF API ${coreApiVersion}`,
+  PARAM_NOT_WRITABLE: (paramName: string) =>
+    `Param ${paramName} does not have the write property`,
+  PARAM_VALUE_INVALID: (paramName: string, reason: string) =>
+    `Invalid value for param ${paramName}: ${reason}`,
+  PARAM_WRITE_CANCELLED: (nodeId: string) =>
+    `Scheduled param writes to node ${nodeId} were cancelled`,
+  NODE_PARAMS_FAILED: (nodeId: string, reason: string) =>
+    `Failed to set params of node ${nodeId}: ${reason}`,
+  NODE_TRANSPORTS_MISSING: (nodeId: string) =>
+    `Node ${nodeId} has no available transports`,
+  NO_TRANSPORT_AVAILABLE: (nodeId: string) =>
+    `No registered transport is available for node ${nodeId}`,
+  TRANSPORT_ROUTE_FAILED: (nodeId: string, transports: string[]) =>
+    `All transports failed for node ${nodeId}: ${transports.join(", ")}`,
+  LOCAL_TRANSPORT_UNAVAILABLE: (nodeId: string) =>
+    `Node ${nodeId} has no local transport with a base URL`,
+  LOCAL_CONTROL_CONNECT_FAILED: (nodeId: string) =>
+    `Failed to connect to node ${nodeId} over local control`,
+  LOCAL_CONTROL_SESSION_CLOSED: (nodeId: string) =>
+    `Local control session with node ${nodeId} was closed while connecting`,
+  PARAM_NOT_FOUND: (nodeId: string, entityName: string, paramName: string) =>
+    `Node ${nodeId} has no param ${paramName} on ${entityName}`,
+  DEVICE_PARAM_TYPE_NOT_FOUND: (deviceName: string, paramType: string) =>
+    `Device ${deviceName} has no param of type ${paramType}`,
   CDF_CONFIG_MISSING: `CDF config is missing`,
+  CDF_ALREADY_INITIALIZED: `CDF is already initialized with a different SDK registry. Use ESPCDF.create(config) for independent instances`,
+  CDF_CONFIG_CHANGED: (options: string[]) =>
+    `CDF is already initialized with different ${options.join(", ")} options. Use ESPCDF.create(config) for independent instances`,
   SDK_REGISTRY_MISSING: `SDK registry is missing`,
   NO_ACTIVE_ADAPTOR_SET: `No active SDK adaptor is set. Call registry.setActiveAdaptor(identifier) first or provide adaptorIdentifier in the request`,
+  JEST_GLOBALS_MISSING: `describeAdaptorConformance must be called from a Jest test file`,
 };
 
 /**
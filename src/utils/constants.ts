@@ -26,6 +26,7 @@ export const ESP_CDF_NODE_SUBSCRIPTION_EVENTS = {
   USER_NODE_REMOVED: "cdf/node/lifecycle/removed",
   NODE_CONNECTED: "cdf/node/connectivity/connected",
   NODE_DISCONNECTED: "cdf/node/connectivity/disconnected",
+  NODE_CONFIG_CHANGED: "cdf/node/config/changed",
 } as const;
 
 // Node subscription events (CDF topic strings)
@@ -39,6 +40,8 @@ export const EVENT_NODE_CONNECTED =
   ESP_CDF_NODE_SUBSCRIPTION_EVENTS.NODE_CONNECTED;
 export const EVENT_NODE_DISCONNECTED =
   ESP_CDF_NODE_SUBSCRIPTION_EVENTS.NODE_DISCONNECTED;
+export const EVENT_NODE_CONFIG_CHANGED =
+  ESP_CDF_NODE_SUBSCRIPTION_EVENTS.NODE_CONFIG_CHANGED;
 
 // SERVICE TYPES
 export const ESPRM_SERVICE_SCENES = "esp.service.scenes";
@@ -61,6 +64,64 @@ export const ESPCDFServiceParamType = {
   },
 } as const;
 
+// STANDARD DEVICE TYPES
+export const ESPCDFDeviceType = {
+  LIGHTBULB: "esp.device.lightbulb",
+  LIGHT: "esp.device.light",
+  SWITCH: "esp.device.switch",
+  FAN: "esp.device.fan",
+  THERMOSTAT: "esp.device.thermostat",
+  TEMPERATURE_SENSOR: "esp.device.temperature-sensor",
+  OUTLET: "esp.device.outlet",
+  BLINDS_INTERNAL: "esp.device.blinds-internal",
+  BLINDS_EXTERNAL: "esp.device.blinds-external",
+} as const;
+
+// STANDARD DEVICE PARAM TYPES
+export const ESPCDFParamType = {
+  NAME: "esp.param.name",
+  POWER: "esp.param.power",
+  BRIGHTNESS: "esp.param.brightness",
+  HUE: "esp.param.hue",
+  SATURATION: "esp.param.saturation",
+  CCT: "esp.param.cct",
+  SPEED: "esp.param.speed",
+  DIRECTION: "esp.param.direction",
+  TEMPERATURE: "esp.param.temperature",
+  SETPOINT_TEMPERATURE: "esp.param.setpoint-temperature",
+  AC_MODE: "esp.param.ac-mode",
+  BLINDS_POSITION: "esp.param.blinds-position",
+} as const;
+
+// PARAM UI TYPES
+export const ESPCDFParamUIType = {
+  TOGGLE: "esp.ui.toggle",
+  SLIDER: "esp.ui.slider",
+  HUE_SLIDER: "esp.ui.hue-slider",
+  HUE_CIRCLE: "esp.ui.hue-circle",
+  DROPDOWN: "esp.ui.dropdown",
+  TEXT: "esp.ui.text",
+  PUSH_BUTTON_BIG: "esp.ui.push-btn-big",
+  TRIGGER: "esp.ui.trigger",
+  HIDDEN: "esp.ui.hidden",
+} as const;
+
+// PARAM PROPERTIES
+export const ESPCDFParamProperty = {
+  READ: "read",
+  WRITE: "write",
+} as const;
+
+// PARAM DATA TYPES
+export const ESPCDFParamDataType = {
+  BOOL: "bool",
+  INT: "int",
+  FLOAT: "float",
+  STRING: "string",
+  OBJECT: "object",
+  ARRAY: "array",
+} as const;
+
 // SCENE OPERATIONS
 export enum SceneOperation {
   ADD = "add",
@@ -0,0 +1,196 @@
+/*
+ * SPDX-FileCopyrightText: 2026 Espressif Systems (Shanghai) CO LTD
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ESPCDFParamInterface } from "../types/entities/param";
+import {
+  ESPCDFParamValidationIssueCode,
+  ESPCDFParamValidationResult,
+} from "../types/paramValidation";
+import { ESPCDFValidationError } from "../errors";
+import { ERROR_MESSAGE_MAP } from "./common";
+import { ESPCDFParamDataType, ESPCDFParamProperty } from "./constants";
+
+type ValidatedParam = Pick<
+  ESPCDFParamInterface,
+  "name" | "properties" | "dataType" | "bounds"
+>;
+
+const INVALID = Symbol("invalid");
+const BOOLEAN_STRINGS: Record<string, boolean> = {
+  true: true,
+  false: false,
+  "1": true,
+  "0": false,
+};
+// Tolerance for float step checks, e.g. 0.3 with a step of 0.1
+const STEP_EPSILON = 1e-9;
+
+const toNumber = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+
+const parseJSON = (value: unknown) => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return INVALID;
+  }
+};
+
+/**
+ * Coerces a value to a param data type.
+ * @returns The coerced value, or INVALID when the value does not fit the type
+ */
+function coerceValue(dataType: string | undefined, value: unknown): unknown {
+  switch (dataType) {
+    case ESPCDFParamDataType.BOOL: {
+      if (typeof value === "boolean") return value;
+      const key = typeof value === "string" ? value.trim().toLowerCase() : "";
+      return key in BOOLEAN_STRINGS ? BOOLEAN_STRINGS[key] : INVALID;
+    }
+    case ESPCDFParamDataType.INT: {
+      const number = toNumber(value);
+      return Number.isInteger(number) ? number : INVALID;
+    }
+    case ESPCDFParamDataType.FLOAT: {
+      const number = toNumber(value);
+      return typeof number === "number" && Number.isFinite(number)
+        ? number
+        : INVALID;
+    }
+    case ESPCDFParamDataType.STRING:
+      return typeof value === "string" ? value : INVALID;
+    case ESPCDFParamDataType.OBJECT: {
+      const object = parseJSON(value);
+      return typeof object === "object" &&
+        object !== null &&
+        !Array.isArray(object)
+        ? object
+        : INVALID;
+    }
+    case ESPCDFParamDataType.ARRAY: {
+      const array = parseJSON(value);
+      return Array.isArray(array) ? array : INVALID;
+    }
+    default:
+      // Unknown or undeclared data types are passed through unchecked
+      return value;
+  }
+}
+
+function checkBounds(
+  param: ValidatedParam,
+  value: unknown
+): [ESPCDFParamValidationIssueCode, string] | undefined {
+  const { min, max, step, validStrings } = param.bounds ?? {};
+  if (typeof value === "number") {
+    if (typeof min === "number" && value < min) {
+      return ["BELOW_MIN", `must be at least ${min}`];
+    }
+    if (typeof max === "number" && value > max) {
+      return ["ABOVE_MAX", `must be at most ${max}`];
+    }
+    if (typeof step === "number" && step > 0) {
+      const base = typeof min === "number" ? min : 0;
+      const steps = (value - base) / step;
+      if (Math.abs(steps - Math.round(steps)) > STEP_EPSILON) {
+        return ["STEP_MISMATCH", `must be a multiple of ${step} from ${base}`];
+      }
+    }
+  }
+  if (
+    typeof value === "string" &&
+    Array.isArray(validStrings) &&
+    !validStrings.includes(value)
+  ) {
+    return [
+      "INVALID_STRING",
+      `must be one of ${validStrings.map((item) => JSON.stringify(item)).join(", ")}`,
+    ];
+  }
+  return undefined;
+}
+
+/**
+ * Validates a value before it is written to a param.
+ *
+ * Checks the `write` property, the `dataType` (`bool`, `int`, `float`,
+ * `string`, `object`, `array`), `bounds.min` / `bounds.max` / `bounds.step`
+ * for numeric params and `bounds.validStrings` for string params. String
+ * input is coerced to the data type first, e.g. `"42"` for int params or
+ * `"true"` for bool params. Params without `properties` or `dataType` skip
+ * the corresponding checks.
+ * @param param - The param being written
+ * @param value - The value to write
+ * @returns Validation result with the coerced value
+ */
+export function validateParamValue(
+  param: ValidatedParam,
+  value: unknown
+): ESPCDFParamValidationResult {
+  if (
+    Array.isArray(param.properties) &&
+    !param.properties.includes(ESPCDFParamProperty.WRITE)
+  ) {
+    return {
+      valid: false,
+      value,
+      code: "NOT_WRITABLE",
+      message: "is not writable",
+    };
+  }
+
+  const coerced = coerceValue(param.dataType, value);
+  if (coerced === INVALID) {
+    return {
+      valid: false,
+      value,
+      code: "TYPE_MISMATCH",
+      message: `must be of type ${param.dataType}`,
+    };
+  }
+
+  const issue = checkBounds(param, coerced);
+  if (issue) {
+    return { valid: false, value: coerced, code: issue[0], message: issue[1] };
+  }
+  return { valid: true, value: coerced };
+}
+
+/**
+ * Validates a value before it is written to a param and returns the value to
+ * send to the adaptor.
+ * @param param - The param being written
+ * @param value - The value to write
+ * @returns The value coerced to the param's data type
+ * @throws ESPCDFValidationError with code `PARAM_NOT_WRITABLE` or `PARAM_VALUE_INVALID`
+ */
+export function assertParamValue(param: ValidatedParam, value: unknown): any {
+  const result = validateParamValue(param, value);
+  if (result.valid) {
+    return result.value;
+  }
+
+  const context = {
+    paramName: param.name,
+    value,
+    dataType: param.dataType,
+    bounds: param.bounds,
+    issue: result.code,
+  };
+  if (result.code === "NOT_WRITABLE") {
+    throw new ESPCDFValidationError(
+      ERROR_MESSAGE_MAP.PARAM_NOT_WRITABLE(param.name),
+      "PARAM_NOT_WRITABLE",
+      context
+    );
+  }
+  throw new ESPCDFValidationError(
+    ERROR_MESSAGE_MAP.PARAM_VALUE_INVALID(param.name, result.message!),
+    "PARAM_VALUE_INVALID",
+    context
+  );
+}